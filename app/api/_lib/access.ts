@@ -1,17 +1,13 @@
 // app/api/_lib/access.ts
-import Stripe from "stripe";
-import { list, put } from "@vercel/blob";
+import { parseLicenseKey } from "./license-key";
+import { emailKey, readLicenseRecordByEmail } from "./licenses";
+import { getStore } from "./store";
+import { isSubscriptionActive } from "./subscription";
 
 /* =========================
    Env + constants
    ========================= */
 
-function getStripe() {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) throw new Error("STRIPE_SECRET_KEY not set");
-  return new Stripe(key, { apiVersion: "2024-06-20" });
-}
-
 function readTrialDays(): number {
   const n = Number(process.env.TRIAL_DAYS || "7");
   return Number.isFinite(n) && n > 0 ? Math.min(n, 60) : 7;
@@ -22,85 +18,30 @@ export const TRIAL_DAYS = readTrialDays();
 /** Cookie name used by the cookie-fallback flow (trial by device/session) */
 export const TRIAL_COOKIE = "db_trial_started_at";
 
-/* =========================
-   Blob helpers
-   ========================= */
-
-function blobListOpts(prefix: string) {
-  const opts: Parameters<typeof list>[0] = { prefix };
-  if (process.env.BLOB_READ_WRITE_TOKEN) {
-    (opts as any).token = process.env.BLOB_READ_WRITE_TOKEN;
-  }
-  return opts;
-}
-
-function blobPutOpts(contentType = "application/json") {
-  const base: Parameters<typeof put>[2] = {
-    access: "public",
-    contentType,
-    addRandomSuffix: false,
-  };
-  if (process.env.BLOB_READ_WRITE_TOKEN) {
-    (base as any).token = process.env.BLOB_READ_WRITE_TOKEN;
-  }
-  return base;
-}
-
-async function getJson<T = any>(url: string): Promise<T | null> {
-  try {
-    const r = await fetch(url, { cache: "no-store" });
-    if (!r.ok) return null;
-    return (await r.json()) as T;
-  } catch {
-    return null;
-  }
-}
-
 /* =========================
    Small utils
    ========================= */
 
-/** normalize email to a blob-safe key: lowercased + only [a-z0-9._-] */
-export function emailKey(emailRaw: string) {
-  const e = String(emailRaw || "").trim().toLowerCase();
-  return e.replace(/[^a-z0-9._-]+/g, "_");
-}
+/** normalize email to a store-safe key (re-exported; lives in ./licenses) */
+export { emailKey };
 
-function customerIdFromLicense(licenseKey: string): string | null {
-  const parts = (licenseKey || "").trim().split("-");
-  const hit = parts.find((p) => p.startsWith("cus_"));
-  return hit || null;
-}
 
 /* =========================
    License lookup (email → license → active sub?)
    ========================= */
 
 export async function findLicenseByEmail(email: string) {
-  const ek = emailKey(email);
-  const pathname = `licenses_by_email/${ek}.json`;
-  const { blobs } = await list(blobListOpts(pathname));
-  const hit = blobs.find((b) => b.pathname === pathname);
-  if (!hit) return null;
-
-  const rec = await getJson<any>(hit.url);
+  const rec = await readLicenseRecordByEmail(email);
   if (!rec?.licenseKey) return null;
 
-  const cusId = customerIdFromLicense(rec.licenseKey);
+  // Our own stored record → parse is enough (no signature round trip needed)
+  const cusId = parseLicenseKey(rec.licenseKey)?.customerId ?? null;
   return cusId ? { licenseKey: rec.licenseKey as string, customerId: cusId } : null;
 }
 
+// Served from the webhook-fed license record; Stripe only when stale (see ./subscription)
 export async function hasActiveSub(customerId: string) {
-  const stripe = getStripe();
-  const subs = await stripe.subscriptions.list({
-    customer: customerId,
-    status: "all",
-    expand: ["data.items"],
-  });
-  const active = subs.data.find((s) =>
-    ["active", "trialing", "past_due", "unpaid"].includes(s.status)
-  );
-  return !!active && (active?.status === "active" || active?.status === "trialing");
+  return isSubscriptionActive(customerId);
 }
 
 /* =========================
@@ -115,14 +56,12 @@ export type TrialInfo = {
   active: boolean;
 };
 
-export async function readTrialByEmail(email: string): Promise<TrialInfo | null> {
-  const ek = emailKey(email);
-  const pathname = `trials/${ek}.json`;
-  const { blobs } = await list(blobListOpts(pathname));
-  const hit = blobs.find((b) => b.pathname === pathname);
-  if (!hit) return null;
+function trialPath(email: string) {
+  return `trials/${emailKey(email)}.json`;
+}
 
-  const rec = await getJson<{ startedAt?: string }>(hit.url);
+export async function readTrialByEmail(email: string): Promise<TrialInfo | null> {
+  const rec = await getStore().getJson<{ startedAt?: string }>(trialPath(email));
   const startedAt = rec?.startedAt ? new Date(rec.startedAt) : null;
   if (!startedAt || isNaN(startedAt.getTime())) return null;
 
@@ -149,13 +88,8 @@ export async function ensureTrialByEmail(email: string): Promise<TrialInfo> {
   const existing = await readTrialByEmail(email);
   if (existing) return existing;
 
-  const ek = emailKey(email);
   const nowIso = new Date().toISOString();
-  await put(
-    `trials/${ek}.json`,
-    Buffer.from(JSON.stringify({ startedAt: nowIso }, null, 2)),
-    blobPutOpts()
-  );
+  await getStore().putJson(trialPath(email), { startedAt: nowIso });
 
   // return computed view
   const total = TRIAL_DAYS;
@@ -193,91 +127,12 @@ export function computeCookieTrial(startIso: string): TrialInfo {
   };
 }
 
-/* =========================
-   Central gate for Pro routes (license or trial)
-   ========================= */
-/**
- * requireAccess(req, { allowTrial: true })
- * Resolution order:
- * 1) ?key=...               → verify Stripe sub
- * 2) ?email=... → license   → verify Stripe sub
- * 3) if allowTrial && email → active trial? allow
- */
-export async function requireAccess(
-  req: Request,
-  opts: { allowTrial?: boolean } = {}
-): Promise<
-  | { ok: true; customerId?: string; via: "license" | "trial"; trial?: TrialInfo }
-  | { ok: false; status: 402; body: any }
-> {
-  const url = new URL(req.url);
-  const key = (url.searchParams.get("key") || "").trim();
-  const email = (url.searchParams.get("email") || "").trim();
-
-  // 1) License key flow
-  if (key) {
-    const cusId = customerIdFromLicense(key);
-    if (!cusId) {
-      return {
-        ok: false,
-        status: 402,
-        body: {
-          error: "LEGACY_LICENSE_FORMAT",
-          message:
-            "Your license key is from an older format. Please regenerate your license.",
-          upgradeUrl: "/pricing",
-        },
-      };
-    }
-    if (await hasActiveSub(cusId)) {
-      return { ok: true, customerId: cusId, via: "license" };
-    }
-    return {
-      ok: false,
-      status: 402,
-      body: {
-        error: "SUB_INACTIVE",
-        message:
-          "Your subscription isn’t active. Please renew in the billing portal or purchase a plan.",
-        upgradeUrl: "/pricing",
-      },
-    };
-  }
-
-  // 2) Email → license link
-  if (email) {
-    const link = await findLicenseByEmail(email);
-    if (link && (await hasActiveSub(link.customerId))) {
-      return { ok: true, customerId: link.customerId, via: "license" };
-    }
-
-    // 3) Trial allowance
-    if (opts.allowTrial) {
-      const trial = await readTrialByEmail(email);
-      if (trial?.active) {
-        return { ok: true, via: "trial", trial };
-      }
-    }
-  }
-
-  // No access
-  return {
-    ok: false,
-    status: 402,
-    body: {
-      error: "UPGRADE_REQUIRED",
-      message:
-        "This feature requires Pro or an active trial. Provide your email (to continue trial) or purchase a license at /pricing.",
-      upgradeUrl: "/pricing",
-    },
-  };
-}
-
 /* =========================
    Back-compat aliases (to satisfy existing imports)
    ========================= */
 
 // Older routes may import these names:
+// (requireAccess moved to ./entitlement as requireFeature)
 export const readLicenseByEmail = findLicenseByEmail;     // alias
 export const verifyStripeActive = hasActiveSub;           // alias
 export const computeTrialStatusFromISO = computeCookieTrial; // alias
@@ -0,0 +1,104 @@
+// app/api/_lib/action-plan.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  buildActionPlan,
+  DEFAULT_MINUTES,
+  MAX_MINUTES,
+  MIN_MINUTES,
+  normalizeDifficulty,
+  normalizeMinutes,
+  normalizePlanLength,
+} from "./action-plan";
+import type { ItemDetail } from "./belief-item";
+
+const base = { belief: "If I speak up and I’m wrong, I’m finished", goal: "share one idea in the weekly meeting" };
+
+describe("input normalization", () => {
+  it("falls back to the defaults for unknown values", () => {
+    expect(normalizePlanLength("14")).toBe(14);
+    expect(normalizePlanLength(5)).toBe(7);
+    expect(normalizeDifficulty("STRETCH")).toBe("stretch");
+    expect(normalizeDifficulty("hard")).toBe("standard");
+  });
+
+  it("clamps minutes to the allowed range", () => {
+    expect(normalizeMinutes("abc")).toBe(DEFAULT_MINUTES);
+    expect(normalizeMinutes(0)).toBe(DEFAULT_MINUTES);
+    expect(normalizeMinutes(2)).toBe(MIN_MINUTES);
+    expect(normalizeMinutes(500)).toBe(MAX_MINUTES);
+    expect(normalizeMinutes(17.9)).toBe(17);
+  });
+});
+
+describe("buildActionPlan", () => {
+  it("is deterministic for the same belief and goal", () => {
+    expect(buildActionPlan(base)).toEqual(buildActionPlan(base));
+  });
+
+  it("notices on day 1, reviews on the last and every 7th day", () => {
+    const plan = buildActionPlan({ ...base, length: 14 });
+    expect(plan.days).toHaveLength(14);
+    expect(plan.days[0].phase).toBe("notice");
+    expect(plan.days[6].phase).toBe("review");
+    expect(plan.days[13].phase).toBe("review");
+    expect(plan.days.slice(1, 5).map((d) => d.phase)).toEqual(["evidence", "reframe", "action", "action"]);
+  });
+
+  it("keeps every day within the minutes budget", () => {
+    for (const difficulty of ["gentle", "standard", "stretch"] as const) {
+      const plan = buildActionPlan({ ...base, length: 30, difficulty, minutesPerDay: 10 });
+      expect(plan.days.every((d) => d.duration >= MIN_MINUTES && d.duration <= 10)).toBe(true);
+    }
+  });
+
+  it("uses the belief's theme and fills {goal} into the tasks", () => {
+    const plan = buildActionPlan({ ...base, length: 30 });
+    expect(plan.theme).toBe("leadership_imposter");
+    expect(plan.days.some((d) => d.actionId.startsWith("li-"))).toBe(true);
+    expect(plan.days.some((d) => d.task.includes(base.goal))).toBe(true);
+  });
+
+  it("renders plan lines in the original format without durations", () => {
+    const plan = buildActionPlan(base);
+    plan.plan.forEach((line, i) => {
+      const d = plan.days[i];
+      expect(line).toBe(`Day ${d.day} — ${d.title}: ${d.task}`);
+    });
+  });
+
+  it("localizes plan lines", () => {
+    const plan = buildActionPlan({ ...base, locale: "hi" });
+    expect(plan.plan[0].startsWith("दिन 1 — ")).toBe(true);
+  });
+
+  it("adds the stretch caution only to stretch plans", () => {
+    expect(buildActionPlan({ ...base, difficulty: "stretch" }).cautions).toHaveLength(4);
+    expect(buildActionPlan({ ...base, difficulty: "gentle" }).cautions).toHaveLength(3);
+  });
+
+  it("lets a library item take over the first evidence and action days", () => {
+    const item: ItemDetail = {
+      id: "test-item",
+      theme: "health_discipline",
+      themeTitle: "Health & Discipline",
+      index: 0,
+      text: "I always fall off routines",
+      category: "consistency",
+      reframe: "I restart routines.",
+      counterEvidence: ["When did you keep a routine?", "How quickly did you restart?"],
+      microAction: "Do the smallest version tomorrow.",
+      reflection: "What made restarting easier?",
+      defaulted: [],
+    };
+    const plan = buildActionPlan({ ...base, item });
+    expect(plan.belief).toBe(item.text);
+    expect(plan.theme).toBe("health_discipline");
+
+    const evidence = plan.days.filter((d) => d.actionId === "item:test-item:evidence");
+    const action = plan.days.filter((d) => d.actionId === "item:test-item:action");
+    expect(evidence).toHaveLength(1);
+    expect(evidence[0].task).toBe(item.counterEvidence.join(" "));
+    expect(action).toHaveLength(1);
+    expect(action[0]).toMatchObject({ task: item.microAction, reflection: item.reflection });
+  });
+});
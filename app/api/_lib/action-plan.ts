@@ -0,0 +1,372 @@
+// app/api/_lib/action-plan.ts
+import crypto from "crypto";
+import type { ItemDetail } from "./belief-item";
+import { t, type Locale } from "./i18n";
+import type { ThemeKey } from "./libs";
+import { themeForBelief } from "./reframe";
+
+/* =========================
+   Adaptive action plans
+   ========================= */
+/**
+ * Plans are assembled from a catalog of micro-actions tagged by theme, phase and
+ * difficulty. Each day gets a phase (notice → evidence → reframe → action … review);
+ * the action for that phase is picked from theme-specific + general entries that fit
+ * the difficulty and minutes budget. Picks rotate by a hash of belief+goal, so a given
+ * request always yields the same plan, but different beliefs get different plans.
+ * Catalog text is the English source; other locales use "plan.action.<id>.<field>" from
+ * the locale catalog (same placeholders), so picks and ids don't depend on the language.
+ * A library item (belief-item.ts) takes over the first evidence day (its counter-evidence
+ * prompts) and the first action day (its micro-action + reflection); actionId
+ * "item:<id>:evidence|action" marks those days.
+ */
+
+export const PLAN_LENGTHS = [3, 7, 14, 30] as const;
+export type PlanLength = (typeof PLAN_LENGTHS)[number];
+
+export const DIFFICULTIES = ["gentle", "standard", "stretch"] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export type PlanPhase = "notice" | "evidence" | "reframe" | "action" | "review";
+
+export type PlanDay = {
+  day: number;
+  phase: PlanPhase;
+  title: string;
+  task: string;
+  duration: number; // minutes
+  reflection: string;
+  actionId: string;
+};
+
+export type ActionPlan = {
+  belief: string;
+  goal: string;
+  theme: ThemeKey | null;
+  length: PlanLength;
+  difficulty: Difficulty;
+  minutesPerDay: number;
+  days: PlanDay[];
+  plan: string[]; // "Day N — Title: task" (original string format; durations live on days[])
+  cautions: string[];
+};
+
+export const DEFAULT_PLAN_LENGTH: PlanLength = 7;
+export const DEFAULT_DIFFICULTY: Difficulty = "standard";
+export const DEFAULT_MINUTES = 20;
+export const MIN_MINUTES = 5;
+export const MAX_MINUTES = 120;
+
+/* =========================
+   Micro-action catalog
+   ========================= */
+
+type MicroAction = {
+  id: string;
+  theme: ThemeKey | "general";
+  phase: PlanPhase;
+  level: 1 | 2 | 3; // 1 gentle … 3 stretch
+  minutes: number; // typical duration at "standard"
+  title: string;
+  task: string; // {belief} / {goal} placeholders
+  reflection: string;
+};
+
+const CATALOG: MicroAction[] = [
+  // ---- general: notice ----
+  { id: "gen-notice-name", theme: "general", phase: "notice", level: 1, minutes: 10, title: "Name & Notice",
+    task: `Write the belief "{belief}" and list 3 recent moments it showed up. Then write the goal: "{goal}".`,
+    reflection: "When is this belief loudest — time of day, place, people?" },
+  { id: "gen-notice-body", theme: "general", phase: "notice", level: 1, minutes: 5, title: "Body check",
+    task: `Think of "{goal}" for 60 seconds. Note where the belief shows up in your body and rate its intensity 0–10.`,
+    reflection: "What sensation tells you the belief has switched on?" },
+  { id: "gen-notice-cost", theme: "general", phase: "notice", level: 2, minutes: 15, title: "Cost of the belief",
+    task: `List what "{belief}" has cost you in the past year (time, money, relationships, chances).`,
+    reflection: "Which cost do you least want to repeat?" },
+
+  // ---- general: evidence ----
+  { id: "gen-evidence-scan", theme: "general", phase: "evidence", level: 1, minutes: 10, title: "Evidence scan",
+    task: `List 5 facts that contradict "{belief}". Circle the strongest 2.`,
+    reflection: "Which piece of evidence surprised you most?" },
+  { id: "gen-evidence-witness", theme: "general", phase: "evidence", level: 2, minutes: 15, title: "Ask a witness",
+    task: `Ask one person who knows you for a time you acted against "{belief}". Write their answer down word for word.`,
+    reflection: "How did it feel to hear someone else’s view?" },
+  { id: "gen-evidence-origin", theme: "general", phase: "evidence", level: 2, minutes: 15, title: "Trace the origin",
+    task: `Write where you first learned "{belief}". Was it true then? Is that context still true now?`,
+    reflection: "What has changed since you first learned this belief?" },
+
+  // ---- general: reframe ----
+  { id: "gen-reframe-draft", theme: "general", phase: "reframe", level: 1, minutes: 10, title: "Reframe draft",
+    task: `Turn "{belief}" into a workable reframe (e.g., “I can take one concrete step today toward {goal}”). Read it aloud 3×.`,
+    reflection: "How believable is the reframe, 0–10? What would raise it by one point?" },
+  { id: "gen-reframe-friend", theme: "general", phase: "reframe", level: 1, minutes: 10, title: "Friend’s voice",
+    task: `Write what you would tell a friend who said "{belief}". Read it back as if addressed to you.`,
+    reflection: "Why is it easier to be fair to a friend than to yourself?" },
+  { id: "gen-reframe-asif", theme: "general", phase: "reframe", level: 2, minutes: 15, title: "As-if hour",
+    task: `For one hour, act as if the belief were 30% quieter while working on "{goal}". Note one thing you did differently.`,
+    reflection: "What did you do that the old belief would have stopped?" },
+
+  // ---- general: action ----
+  { id: "gen-action-micro", theme: "general", phase: "action", level: 1, minutes: 15, title: "Micro-proof",
+    task: `Do a 15–20 min task that moves "{goal}" forward. Log how you felt before/after.`,
+    reflection: "Before vs after: what shifted?" },
+  { id: "gen-action-accountability", theme: "general", phase: "action", level: 2, minutes: 10, title: "Accountability ping",
+    task: `Do the next smallest step for "{goal}". Message one person for accountability.`,
+    reflection: "What changed once someone else knew?" },
+  { id: "gen-action-friction", theme: "general", phase: "action", level: 1, minutes: 10, title: "Friction audit",
+    task: `List top 3 blockers for "{goal}". For each, write 1 friction-reduction (timer, checklist, calendar block).`,
+    reflection: "Which blocker is actually a belief in disguise?" },
+  { id: "gen-action-stretch", theme: "general", phase: "action", level: 3, minutes: 30, title: "Stretch step",
+    task: `Pick the step for "{goal}" you’ve been avoiding most and do the first 30 minutes of it.`,
+    reflection: "What did the belief predict would happen — and what actually happened?" },
+
+  // ---- general: review ----
+  { id: "gen-review-lock", theme: "general", phase: "review", level: 1, minutes: 15, title: "Review & lock-in",
+    task: `Note 3 wins so far. Book 2 calendar blocks for the next two micro-steps toward "{goal}".`,
+    reflection: "Rate the belief 0–10 now vs. day 1. What moved it?" },
+  { id: "gen-review-letter", theme: "general", phase: "review", level: 2, minutes: 20, title: "Letter to future you",
+    task: `Write a short letter from the version of you who reached "{goal}", explaining what they stopped believing.`,
+    reflection: "What is one sentence from the letter you want to keep?" },
+
+  // ---- health_discipline ----
+  { id: "hd-action-2min", theme: "health_discipline", phase: "action", level: 1, minutes: 5, title: "Two-minute start",
+    task: `Do only the first 2 minutes of your routine for "{goal}" (shoes on, mat out, water poured). Stopping after is allowed.`,
+    reflection: "Did starting feel as hard as the belief predicted?" },
+  { id: "hd-action-streak", theme: "health_discipline", phase: "action", level: 2, minutes: 15, title: "Never miss twice",
+    task: `Plan a minimum version of today’s session (≤10 min) you can do even on a bad day. Do it.`,
+    reflection: "How does a minimum version change the ‘streak ruined’ story?" },
+  { id: "hd-evidence-energy", theme: "health_discipline", phase: "evidence", level: 1, minutes: 5, title: "Energy log",
+    task: "Rate your energy 1–10 three times today and note what you did just before each rating.",
+    reflection: "What raised your energy that you didn’t expect?" },
+  { id: "hd-reframe-rest", theme: "health_discipline", phase: "reframe", level: 1, minutes: 10, title: "Rest as training",
+    task: `Write how rest and recovery serve "{goal}". Schedule one deliberate rest block this week.`,
+    reflection: "What would change if rest counted as progress?" },
+  { id: "hd-action-full", theme: "health_discipline", phase: "action", level: 3, minutes: 40, title: "Full session",
+    task: `Complete a full session toward "{goal}" at 80% effort. Log it without judging the numbers.`,
+    reflection: "What did 80% teach you that 100%-or-nothing wouldn’t?" },
+
+  // ---- leadership_imposter ----
+  { id: "li-evidence-wins", theme: "leadership_imposter", phase: "evidence", level: 1, minutes: 10, title: "Wins ledger",
+    task: "List 5 work outcomes you influenced in the last quarter and the skill each required.",
+    reflection: "Which of these would you credit a colleague for without hesitation?" },
+  { id: "li-action-speak", theme: "leadership_imposter", phase: "action", level: 2, minutes: 10, title: "Speak first",
+    task: "In your next meeting, share one observation or question within the first 10 minutes.",
+    reflection: "What did people actually do after you spoke?" },
+  { id: "li-action-delegate", theme: "leadership_imposter", phase: "action", level: 2, minutes: 15, title: "Delegate one thing",
+    task: `Hand off one task related to "{goal}" with a clear outcome and deadline.`,
+    reflection: "What did delegating free you up to do?" },
+  { id: "li-action-help", theme: "leadership_imposter", phase: "action", level: 1, minutes: 10, title: "Ask for input",
+    task: "Ask a peer for input on one decision you’re unsure about. Thank them specifically.",
+    reflection: "Did asking lower or raise their view of you — and how do you know?" },
+  { id: "li-action-visible", theme: "leadership_imposter", phase: "action", level: 3, minutes: 30, title: "Make it visible",
+    task: `Share a progress update on "{goal}" with your manager or team, including one open question.`,
+    reflection: "What happened to the ‘target’ feeling after you shared?" },
+
+  // ---- money_beliefs ----
+  { id: "mb-evidence-value", theme: "money_beliefs", phase: "evidence", level: 1, minutes: 15, title: "Value inventory",
+    task: "List 3 results clients or employers got from your work and estimate what each was worth to them.",
+    reflection: "How does the value you delivered compare with what you charged?" },
+  { id: "mb-action-numbers", theme: "money_beliefs", phase: "action", level: 1, minutes: 15, title: "Know your numbers",
+    task: "Write last month’s income, fixed costs and one number you want to change.",
+    reflection: "What story did you expect the numbers to tell — and what did they tell?" },
+  { id: "mb-action-price", theme: "money_beliefs", phase: "action", level: 2, minutes: 20, title: "Price rehearsal",
+    task: `Write your new price or ask for "{goal}" and say it aloud 10× until your voice stays steady.`,
+    reflection: "Where in your body did the ‘greedy’ feeling show up, and did it fade?" },
+  { id: "mb-action-ask", theme: "money_beliefs", phase: "action", level: 3, minutes: 30, title: "Make the ask",
+    task: `Quote the higher price or ask for the raise once this week as part of "{goal}".`,
+    reflection: "What did the other person actually say?" },
+  { id: "mb-reframe-integrity", theme: "money_beliefs", phase: "reframe", level: 1, minutes: 10, title: "Money & values",
+    task: "Write 3 ways more income would let you act more on your values, not less.",
+    reflection: "Which value would money help you honour most?" },
+
+  // ---- relationships_boundaries ----
+  { id: "rb-notice-yes", theme: "relationships_boundaries", phase: "notice", level: 1, minutes: 5, title: "Yes audit",
+    task: "Note every ‘yes’ you give today and mark which ones you meant.",
+    reflection: "What did the unmeant yeses cost you?" },
+  { id: "rb-action-script", theme: "relationships_boundaries", phase: "action", level: 1, minutes: 10, title: "Boundary script",
+    task: `Write a one-line boundary related to "{goal}": “I’m not able to ___, and I can ___.”`,
+    reflection: "How does the script feel when you read it aloud?" },
+  { id: "rb-action-small-no", theme: "relationships_boundaries", phase: "action", level: 2, minutes: 10, title: "Small no",
+    task: "Decline one low-stakes request kindly and without over-explaining.",
+    reflection: "What happened to the relationship after the no?" },
+  { id: "rb-action-need", theme: "relationships_boundaries", phase: "action", level: 3, minutes: 20, title: "Name a need",
+    task: `Tell one person a specific need connected to "{goal}" and ask how they see it.`,
+    reflection: "Was the response closer to connection or rejection?" },
+  { id: "rb-reframe-care", theme: "relationships_boundaries", phase: "reframe", level: 1, minutes: 10, title: "Boundaries as care",
+    task: "Write how a clear boundary would protect the relationship, not just you.",
+    reflection: "What would you want a friend to do in your place?" },
+
+  // ---- entrepreneur_risk_tolerance ----
+  { id: "er-action-experiment", theme: "entrepreneur_risk_tolerance", phase: "action", level: 1, minutes: 20, title: "Tiny experiment",
+    task: `Design a test for "{goal}" that costs under an hour and under $20. Write the success signal.`,
+    reflection: "What would you learn even if it ‘fails’?" },
+  { id: "er-evidence-downside", theme: "entrepreneur_risk_tolerance", phase: "evidence", level: 1, minutes: 15, title: "Worst-case map",
+    task: `Write the realistic worst case of "{goal}", how likely it is, and how you’d recover.`,
+    reflection: "Is the worst case survivable? What makes it so?" },
+  { id: "er-action-ship", theme: "entrepreneur_risk_tolerance", phase: "action", level: 2, minutes: 30, title: "Ship the 70% version",
+    task: `Publish or send a 70%-ready version of one piece of "{goal}".`,
+    reflection: "What did feedback tell you that polishing wouldn’t have?" },
+  { id: "er-action-voice", theme: "entrepreneur_risk_tolerance", phase: "action", level: 3, minutes: 30, title: "Lead with your voice",
+    task: "Post one original opinion about your field with a concrete example from your own work.",
+    reflection: "Who responded, and what did they say?" },
+  { id: "er-reframe-data", theme: "entrepreneur_risk_tolerance", phase: "reframe", level: 1, minutes: 10, title: "Failure as data",
+    task: "Rewrite your last setback as a lab report: hypothesis, result, next test.",
+    reflection: "What is the next test worth running?" },
+];
+
+const LEVEL_CAP: Record<Difficulty, 1 | 2 | 3> = { gentle: 1, standard: 2, stretch: 3 };
+const DURATION_SCALE: Record<Difficulty, number> = { gentle: 0.75, standard: 1, stretch: 1.25 };
+
+/* =========================
+   Schedule
+   ========================= */
+
+// Day → phase. First day notices, last day reviews, weekly reviews on day 7/14/21/28;
+// the days in between cycle evidence → reframe → action → action.
+function phaseFor(day: number, length: PlanLength): PlanPhase {
+  if (day === 1) return "notice";
+  if (day === length || day % 7 === 0) return "review";
+  if (length === 3) return "action";
+  const cycle: PlanPhase[] = ["evidence", "reframe", "action", "action"];
+  return cycle[(day - 2) % cycle.length];
+}
+
+// Difficulty ramps in: first third of the plan stays one level below the cap
+function levelCapFor(day: number, length: PlanLength, difficulty: Difficulty) {
+  const cap = LEVEL_CAP[difficulty];
+  return day <= Math.ceil(length / 3) ? Math.max(1, cap - 1) : cap;
+}
+
+function seedOf(belief: string, goal: string) {
+  return crypto.createHash("sha256").update(`${belief}\n${goal}`).digest().readUInt32BE(0);
+}
+
+function roundMinutes(n: number) {
+  return Math.max(MIN_MINUTES, Math.round(n / 5) * 5);
+}
+
+/* =========================
+   Input normalization
+   ========================= */
+
+export function normalizePlanLength(v: unknown): PlanLength {
+  const n = Number(v);
+  return (PLAN_LENGTHS as readonly number[]).includes(n) ? (n as PlanLength) : DEFAULT_PLAN_LENGTH;
+}
+
+export function normalizeDifficulty(v: unknown): Difficulty {
+  const s = String(v || "").toLowerCase();
+  return (DIFFICULTIES as readonly string[]).includes(s) ? (s as Difficulty) : DEFAULT_DIFFICULTY;
+}
+
+export function normalizeMinutes(v: unknown): number {
+  const n = Math.floor(Number(v));
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_MINUTES;
+  return Math.min(MAX_MINUTES, Math.max(MIN_MINUTES, n));
+}
+
+/* =========================
+   Build
+   ========================= */
+
+export function buildActionPlan(input: {
+  belief: string;
+  goal: string;
+  length?: PlanLength;
+  difficulty?: Difficulty;
+  minutesPerDay?: number;
+  theme?: string | null;
+  locale?: Locale;
+  item?: ItemDetail | null; // library item (already in `locale`): its text, theme and content win
+}): ActionPlan {
+  const item = input.item ?? null;
+  const belief = item?.text || input.belief.trim();
+  const goal = input.goal.trim();
+  const length = input.length ?? DEFAULT_PLAN_LENGTH;
+  const difficulty = input.difficulty ?? DEFAULT_DIFFICULTY;
+  const minutesPerDay = input.minutesPerDay ?? DEFAULT_MINUTES;
+  const theme = item?.theme ?? themeForBelief(belief, input.theme);
+  const locale = input.locale ?? "en";
+
+  const seed = seedOf(belief, goal);
+  const used = new Set<string>();
+  const days: PlanDay[] = [];
+
+  for (let day = 1; day <= length; day++) {
+    const phase = phaseFor(day, length);
+    const levelCap = levelCapFor(day, length, difficulty);
+    const scale = DURATION_SCALE[difficulty];
+
+    const inPhase = CATALOG.filter(
+      (a) => a.phase === phase && a.level <= levelCap && (a.theme === theme || a.theme === "general")
+    );
+    // Nothing fits a tight budget → any action of the phase, shortened to the budget
+    const fitting = inPhase.filter((a) => roundMinutes(a.minutes * scale) <= minutesPerDay);
+    const pool = fitting.length ? fitting : inPhase;
+
+    // Prefer unused theme actions, then unused general ones, then allow repeats
+    const fresh = pool.filter((a) => !used.has(a.id));
+    const freshThemed = fresh.filter((a) => a.theme === theme);
+    const candidates = freshThemed.length ? freshThemed : fresh.length ? fresh : pool;
+    const action = candidates[(seed + day) % candidates.length];
+    used.add(action.id);
+    const duration = Math.min(minutesPerDay, roundMinutes(action.minutes * scale));
+
+    // The item's own content replaces the first pick of its phase
+    if (item && (phase === "evidence" || phase === "action") && !days.some((d) => d.phase === phase)) {
+      days.push(
+        phase === "evidence"
+          ? {
+              day,
+              phase,
+              title: t(locale, "plan.item.evidence.title", "Counter-evidence"),
+              task: item.counterEvidence.join(" "),
+              duration,
+              reflection: t(locale, "plan.item.evidence.reflection", "Which answer weakened the belief most?"),
+              actionId: `item:${item.id}:evidence`,
+            }
+          : {
+              day,
+              phase,
+              title: t(locale, "plan.item.action.title", "Starter micro-action"),
+              task: item.microAction,
+              duration,
+              reflection: item.reflection,
+              actionId: `item:${item.id}:action`,
+            }
+      );
+      continue;
+    }
+
+    days.push({
+      day,
+      phase,
+      title: t(locale, `plan.action.${action.id}.title`, action.title),
+      task: t(locale, `plan.action.${action.id}.task`, action.task, { belief, goal }),
+      duration,
+      reflection: t(locale, `plan.action.${action.id}.reflection`, action.reflection),
+      actionId: action.id,
+    });
+  }
+
+  const cautions = [
+    t(locale, "plan.caution.minutes", "Keep daily tasks ≤ {minutes} minutes to avoid overwhelm.", { minutes: minutesPerDay }),
+    t(locale, "plan.caution.effort", "Track effort, not perfection; missing a day is data, not failure."),
+    t(locale, "plan.caution.distress", "If distress rises, pause and switch to Gentle Mode (breathing, journaling)."),
+    ...(difficulty === "stretch"
+      ? [t(locale, "plan.caution.stretch", "Stretch plans include exposure steps; drop to ‘standard’ if any day feels unsafe.")]
+      : []),
+  ];
+
+  return {
+    belief,
+    goal,
+    theme,
+    length,
+    difficulty,
+    minutesPerDay,
+    days,
+    plan: days.map((d) => t(locale, "plan.line", "Day {day} — {title}: {task}", d)),
+    cautions,
+  };
+}
@@ -0,0 +1,45 @@
+// app/api/_lib/admin.ts
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+
+// resolve admin token from query (?token=...) first, then header
+export function getProvidedAdminToken(req: NextRequest) {
+  const q = (req.nextUrl.searchParams.get("token") || "").trim();
+  if (q) return q;
+  return (req.headers.get("x-admin-token") || "").trim();
+}
+
+// timing-safe compare
+function safeEqual(a: string, b: string) {
+  const aBuf = Buffer.from(a, "utf8");
+  const bBuf = Buffer.from(b, "utf8");
+  if (aBuf.length !== bBuf.length) return false;
+  return crypto.timingSafeEqual(aBuf, bBuf);
+}
+
+/**
+ * Admin guard for /api/admin/* routes.
+ * Returns a ready-to-send 401/500 response, or null when the caller is authorized.
+ */
+export function requireAdmin(req: NextRequest): NextResponse | null {
+  const adminToken = (process.env.ADMIN_TOKEN || "").trim();
+  if (!adminToken) {
+    return NextResponse.json({ error: "ADMIN_TOKEN not set" }, { status: 500 });
+  }
+  const provided = getProvidedAdminToken(req);
+  if (!provided || !safeEqual(provided, adminToken)) {
+    return NextResponse.json({ error: "UNAUTHORIZED", message: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * Guard for scheduled jobs (/api/cron/*). Vercel Cron sends
+ * "Authorization: Bearer $CRON_SECRET"; the admin token is accepted too for manual runs.
+ */
+export function requireCron(req: NextRequest): NextResponse | null {
+  const cronSecret = (process.env.CRON_SECRET || "").trim();
+  const auth = (req.headers.get("authorization") || "").trim();
+  if (cronSecret && safeEqual(auth, `Bearer ${cronSecret}`)) return null;
+  return requireAdmin(req);
+}
@@ -0,0 +1,524 @@
+// app/api/_lib/analysis.ts
+import crypto from "crypto";
+import { buildActionPlan } from "./action-plan";
+import { inferBeliefs, matchEmotions } from "./inference";
+import { getTheme, type ThemeKey } from "./libs";
+import { detectPatterns, personalReframe, softenBelief, type BeliefPattern } from "./linguistics";
+import { buildReframe } from "./reframe";
+
+/* =========================
+   Belief Blueprint analysis (extended model)
+   ========================= */
+/**
+ * Turns pasted questionnaire answers or a transcript into the extended model described
+ * in BeliefBlueprint-Procedures.txt / [Report-Local-001]. Everything is rule-based:
+ * - limiting beliefs  ← scan inference (inferBeliefs) aggregated over every segment
+ * - language patterns ← detectPatterns on each sentence
+ * - emotions          ← the scan severity lexicon
+ * - reframes / plans  ← buildReframe + buildActionPlan
+ * The same input always produces the same model (analysis_id is a hash of it).
+ */
+
+export type AnswerInput = { id?: string; question?: string; answer: string };
+
+export type AnalysisInput = {
+  answers?: AnswerInput[];
+  transcript?: string;
+  questionnaire_id?: string | null;
+  goal?: string;
+};
+
+type Snippet = { snippet: string; source?: string };
+
+export type BeliefBlueprint = {
+  analysis_id: string;
+  questionnaire_id: string | null;
+  summary: string;
+  salient_themes: Array<{ theme: ThemeKey; title: string; weight: number }>;
+  limiting_beliefs: Array<{
+    belief: string;
+    theme: ThemeKey;
+    confidence: number;
+    evidence_from_responses: Snippet[];
+  }>;
+  supporting_beliefs: Array<{ belief: string; confidence: number; evidence_from_responses: Snippet[] }>;
+  contradictions: Array<{ hypothesis: string; notes: string }>;
+  emotional_markers: Array<{ label: string; intensity: number; snippets: string[] }>;
+  language_patterns: string[];
+  recommendations: string[];
+  executive_snapshot: {
+    core_identity_belief: string | null;
+    competing_belief: string | null;
+    family_imprint: string | null;
+    justice_trigger: string | null;
+    present_contradiction: string | null;
+  };
+  patterns: Array<{
+    name: string;
+    pull: string[];
+    push: string[];
+    earliest_memory: string | null;
+    origin: string | null;
+    effect: string;
+  }>;
+  belief_map: Array<{
+    belief: string;
+    impact: string;
+    language_tells: string[];
+    origin_cues: string[];
+    model_tag: string;
+  }>;
+  strengths: string[];
+  socratic_dialogues: Array<{ belief: string; pattern: string; prompts: string[] }>;
+  reframes: Array<{
+    from: string;
+    to: string;
+    why_this_matters: string;
+    meaning: string;
+    actions: string[];
+    example: string;
+  }>;
+  action_plan: { days_1_30: string[]; days_31_60: string[]; days_61_90: string[] };
+  triggers_swaps: Array<{ trigger: string; swap: string }>;
+  language_cues_challenges: Array<{ cue: string; method: string }>;
+  measures_of_progress: Array<{ label: string; type: "counter" | "scale" | "checkbox"; template: string }>;
+  affirmations: string[];
+  themes: ThemeKey[];
+  beliefs: string[];
+};
+
+/* =========================
+   Lexicons
+   ========================= */
+
+const PATTERN_LABEL: Record<BeliefPattern, string> = {
+  universal: "absolutist_language",
+  modal: "modal_necessity",
+  mind_reading: "mind_reading",
+  cause_effect: "cause_effect",
+  complex_equivalence: "complex_equivalence",
+};
+
+const PATTERN_CHALLENGE: Record<BeliefPattern, { name: string; method: string; prompts: (b: string) => string[] }> = {
+  universal: {
+    name: "scope challenge",
+    method: "scope challenge — when specifically? Always? Name one exception.",
+    prompts: (b) => [
+      `When specifically does “${b}” hold true?`,
+      "Can you recall one time it wasn’t true?",
+      "What was different about that time?",
+      "If it’s true only sometimes, what does that change?",
+      "What would you try if you only had to believe it half the time?",
+    ],
+  },
+  modal: {
+    name: "necessity challenge",
+    method: "necessity challenge — what would happen if you didn’t? What stops you?",
+    prompts: (b) => [
+      `Who says “${b}” has to be so?`,
+      "What would happen if you didn’t?",
+      "What stops you — a rule, a fear, or a fact?",
+      "What would you choose if it were optional?",
+      "What’s the smallest way to test that choice?",
+    ],
+  },
+  mind_reading: {
+    name: "evidence challenge",
+    method: "evidence challenge — how do you know what they think? What did they actually say?",
+    prompts: (b) => [
+      `How do you know “${b}”?`,
+      "What did they actually say or do?",
+      "What else could their reaction mean?",
+      "Have you ever asked them directly?",
+      "What would you do if you weren’t guessing their thoughts?",
+    ],
+  },
+  cause_effect: {
+    name: "counterexample challenge",
+    method: "counterexample challenge — does X always lead to Y? Who does X without Y?",
+    prompts: (b) => [
+      `In “${b}”, does the first part always lead to the second?`,
+      "Who do you know that does the first without the second?",
+      "What else could happen instead?",
+      "What would need to be in place for a better outcome?",
+      "What is one step that breaks the chain?",
+    ],
+  },
+  complex_equivalence: {
+    name: "meaning challenge",
+    method: "meaning challenge — how does X mean Y? What else could it mean?",
+    prompts: (b) => [
+      `How exactly does the first part of “${b}” mean the second?`,
+      "Has it ever meant something else?",
+      "What would a kind friend say it means?",
+      "Which meaning helps you act?",
+      "What would change if you adopted that meaning for a week?",
+    ],
+  },
+};
+
+// Behaviour pattern per theme (pull = what it seeks, push = what it avoids)
+const THEME_PATTERN: Partial<Record<ThemeKey, { name: string; pull: string[]; push: string[]; effect: string }>> = {
+  health_discipline: {
+    name: "All-or-nothing effort",
+    pull: ["control", "quick results"],
+    push: ["imperfection", "starting small"],
+    effect: "Routines restart often and collapse after a missed day.",
+  },
+  leadership_imposter: {
+    name: "Proving & over-preparing",
+    pull: ["approval", "safety from exposure"],
+    push: ["visibility", "asking for help"],
+    effect: "Over-work and silence in moments that need your voice.",
+  },
+  money_beliefs: {
+    name: "Under-charging",
+    pull: ["being liked", "moral safety"],
+    push: ["asking", "negotiation"],
+    effect: "Income stays capped below the value delivered.",
+  },
+  relationships_boundaries: {
+    name: "People-pleasing",
+    pull: ["belonging"],
+    push: ["conflict", "disappointing others"],
+    effect: "Needs go unspoken; resentment and exhaustion build.",
+  },
+  entrepreneur_risk_tolerance: {
+    name: "Perfection before action",
+    pull: ["certainty", "reputation"],
+    push: ["failure", "visible experiments"],
+    effect: "Launches and decisions stall waiting for guarantees.",
+  },
+  everyday_confidence: {
+    name: "Shrinking to stay safe",
+    pull: ["acceptance", "avoiding judgement"],
+    push: ["visibility", "mistakes"],
+    effect: "Opinions, ideas and wins stay hidden; confidence never gets new evidence.",
+  },
+  learning_growth: {
+    name: "Fixed-ability thinking",
+    pull: ["looking competent", "protecting self-image"],
+    push: ["struggle", "feedback"],
+    effect: "New skills are dropped at the first hard part, before practice can pay off.",
+  },
+};
+
+// Themes added through the admin library have no hand-written pattern yet
+const DEFAULT_PATTERN = {
+  name: "Avoidance loop",
+  pull: ["safety", "certainty"],
+  push: ["discomfort", "small risks"],
+  effect: "The belief decides before you do, so the next step keeps getting postponed.",
+};
+const patternFor = (theme: ThemeKey) => THEME_PATTERN[theme] ?? DEFAULT_PATTERN;
+
+const THEME_MEASURES: Partial<Record<ThemeKey, { label: string; type: "counter" | "scale" | "checkbox"; template: string }>> = {
+  health_discipline: { label: "Minimum sessions done", type: "counter", template: "__ / 5 per week" },
+  leadership_imposter: { label: "Times you spoke first in meetings", type: "counter", template: "__ / week" },
+  money_beliefs: { label: "Price asks made at the new rate", type: "counter", template: "__ / month" },
+  relationships_boundaries: { label: "Kind, clear no’s", type: "counter", template: "__ / week" },
+  entrepreneur_risk_tolerance: { label: "Experiments shipped", type: "counter", template: "__ / month" },
+  everyday_confidence: { label: "Times you spoke up or shared an idea", type: "counter", template: "__ / week" },
+  learning_growth: { label: "Practice sessions kept", type: "counter", template: "__ / week" },
+};
+const DEFAULT_MEASURE = { label: "Times you acted despite the belief", type: "counter" as const, template: "__ / week" };
+
+const FAMILY_RE = /\b(mother|mom|mum|father|dad|parents?|family|grew up|growing up|childhood|as a (?:kid|child)|brother|sister|grand(?:mother|father|ma|pa))\b/i;
+const JUSTICE_RE = /\b(unfair|not fair|injustice|deserve|deserved|should have|shouldn't have|wasn't right|cheated)\b/i;
+const SUPPORT_RE = /\b(i can|i could|i did|i managed|i learned|i'm proud|i am proud|i succeeded|i'm good at|i am good at|i handled|i've done|i have done|it worked)\b/i;
+const TRIGGER_RE = /\b(when|whenever|every time|each time)\b\s+([^,.;]+)/i;
+
+/* =========================
+   Helpers
+   ========================= */
+
+function normalizeQuotes(s: string) {
+  return s.replace(/[’‘`]/g, "'");
+}
+
+function splitSentences(text: string): string[] {
+  return String(text || "")
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 2);
+}
+
+function clip(s: string, n = 160) {
+  const t = s.replace(/\s+/g, " ").trim();
+  return t.length > n ? `${t.slice(0, n - 1)}…` : t;
+}
+
+function uniq<T>(xs: T[]): T[] {
+  return [...new Set(xs)];
+}
+
+/* =========================
+   Analyze
+   ========================= */
+
+export function analyzeResponses(input: AnalysisInput): BeliefBlueprint {
+  const answers = (input.answers || []).filter((a) => String(a?.answer || "").trim());
+  const segments: Array<{ text: string; source?: string }> = [
+    ...answers.map((a, i) => ({ text: String(a.answer).trim(), source: a.id || `a${i + 1}` })),
+    ...splitSentences(input.transcript || "").map((text) => ({ text })),
+  ];
+  const allText = segments.map((s) => s.text).join("\n");
+  const sentences = segments.flatMap((s) => splitSentences(s.text).map((text) => ({ text, source: s.source })));
+  const goal = String(input.goal || "").trim() || "the change you described";
+
+  const analysisId = `an-${crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ segments, goal, q: input.questionnaire_id ?? null }))
+    .digest("hex")
+    .slice(0, 12)}`;
+
+  // 1) Limiting beliefs: aggregate inference over segments (noisy-OR of confidences).
+  //    Capability statements (SUPPORT_RE) feed strengths in 3), never limiting-belief evidence.
+  const agg = new Map<string, { theme: ThemeKey; miss: number; evidence: Snippet[] }>();
+  for (const seg of segments) {
+    const text = splitSentences(seg.text)
+      .filter((t) => !SUPPORT_RE.test(normalizeQuotes(t)))
+      .join(" ");
+    if (!text) continue;
+    for (const c of inferBeliefs({ situation: text }, 3).candidates) {
+      const cur = agg.get(c.belief) ?? { theme: c.theme, miss: 1, evidence: [] };
+      cur.miss *= 1 - c.confidence;
+      if (cur.evidence.length < 3) cur.evidence.push({ snippet: clip(text), ...(seg.source ? { source: seg.source } : {}) });
+      agg.set(c.belief, cur);
+    }
+  }
+  const limiting = [...agg.entries()]
+    .map(([belief, v]) => ({
+      belief,
+      theme: v.theme,
+      confidence: Number((1 - v.miss).toFixed(2)),
+      evidence_from_responses: v.evidence,
+    }))
+    .sort((a, b) => b.confidence - a.confidence || a.belief.localeCompare(b.belief))
+    .slice(0, 5);
+
+  // 2) Themes: summed confidence per theme
+  const themeWeight = new Map<ThemeKey, number>();
+  for (const b of limiting) themeWeight.set(b.theme, (themeWeight.get(b.theme) ?? 0) + b.confidence);
+  const salient = [...themeWeight.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([theme, weight]) => ({ theme, title: getTheme(theme)?.title ?? theme, weight: Number(weight.toFixed(2)) }));
+
+  // 3) Supporting beliefs + strengths from capability statements
+  const supportSentences = sentences.filter((s) => SUPPORT_RE.test(normalizeQuotes(s.text)));
+  const supporting = supportSentences.slice(0, 5).map((s) => ({
+    belief: clip(s.text.replace(/^\s*(but|and|so|yet)\b[\s,]*/i, "").replace(/[.!?]+$/, ""), 120),
+    confidence: 0.6,
+    evidence_from_responses: [{ snippet: clip(s.text), ...(s.source ? { source: s.source } : {}) }],
+  }));
+  const strengths = uniq(supporting.map((b) => b.belief));
+
+  // 4) Language patterns
+  const patternHits = new Map<BeliefPattern, { count: number; cues: string[] }>();
+  for (const s of sentences) {
+    for (const m of detectPatterns(s.text)) {
+      const cur = patternHits.get(m.pattern) ?? { count: 0, cues: [] };
+      cur.count++;
+      cur.cues.push(m.cue.toLowerCase());
+      patternHits.set(m.pattern, cur);
+    }
+  }
+  const languagePatterns = [...patternHits.entries()]
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([p]) => PATTERN_LABEL[p]);
+
+  // 5) Emotional markers
+  const emotionMap = new Map<string, { intensity: number; snippets: string[] }>();
+  for (const s of sentences) {
+    for (const e of matchEmotions(s.text)) {
+      const cur = emotionMap.get(e.word) ?? { intensity: e.weight, snippets: [] };
+      if (cur.snippets.length < 3) cur.snippets.push(clip(s.text));
+      emotionMap.set(e.word, cur);
+    }
+  }
+  const emotional = [...emotionMap.entries()]
+    .map(([label, v]) => ({ label, intensity: v.intensity, snippets: v.snippets }))
+    .sort((a, b) => b.intensity - a.intensity || a.label.localeCompare(b.label))
+    .slice(0, 6);
+
+  // 6) Snapshot cues: family, justice, contradictions
+  const family = sentences.filter((s) => FAMILY_RE.test(s.text));
+  const justice = sentences.find((s) => JUSTICE_RE.test(normalizeQuotes(s.text)));
+  const contradictions: BeliefBlueprint["contradictions"] = [];
+  if (limiting[0] && supporting[0]) {
+    contradictions.push({
+      hypothesis: `“${limiting[0].belief}” sits alongside “${supporting[0].belief}”.`,
+      notes: "Both can’t be fully true; the capability statement is evidence against the belief.",
+    });
+  }
+  for (const s of sentences) {
+    const m = /^(.+?)\bbut\b(.+)$/i.exec(s.text);
+    if (m && contradictions.length < 3 && SUPPORT_RE.test(normalizeQuotes(m[1])) !== SUPPORT_RE.test(normalizeQuotes(m[2]))) {
+      contradictions.push({ hypothesis: clip(s.text), notes: "Mixed message in one sentence — explore both halves." });
+    }
+  }
+
+  const core = limiting[0] ?? null;
+  const competing = limiting.find((b) => core && b.theme !== core.theme) ?? limiting[1] ?? null;
+
+  // Family cues count for a theme only when they sit in the same answer as its evidence
+  const familyFor = (theme: ThemeKey) => {
+    const evidence = limiting.filter((b) => b.theme === theme).flatMap((b) => b.evidence_from_responses);
+    return family.filter((f) =>
+      evidence.some((e) => (f.source && e.source === f.source) || e.snippet.includes(clip(f.text, 80).replace(/…$/, "")))
+    );
+  };
+
+  // 7) Patterns per salient theme
+  const patterns = salient.slice(0, 3).map(({ theme }) => {
+    const p = patternFor(theme);
+    const origin = familyFor(theme)[0];
+    return {
+      name: p.name,
+      pull: p.pull,
+      push: p.push,
+      earliest_memory: origin ? clip(origin.text) : null,
+      origin: origin ? "Family / early environment" : null,
+      effect: p.effect,
+    };
+  });
+
+  // 8) Belief map, dialogues, reframes, cues
+  const beliefMap = limiting.map((b) => {
+    const pats = detectPatterns(b.belief);
+    const evidenceText = b.evidence_from_responses.map((e) => e.snippet).join(" ");
+    const tells = uniq([
+      ...pats.map((m) => m.cue.toLowerCase()),
+      ...detectPatterns(evidenceText).map((m) => m.cue.toLowerCase()),
+    ]);
+    return {
+      belief: b.belief,
+      impact: patternFor(b.theme).effect,
+      language_tells: tells,
+      origin_cues: familyFor(b.theme).slice(0, 2).map((s) => clip(s.text, 100)),
+      model_tag: pats[0] ? PATTERN_LABEL[pats[0].pattern] : "belief_statement",
+    };
+  });
+
+  const dominantPattern = (belief: string): BeliefPattern =>
+    detectPatterns(belief)[0]?.pattern ??
+    ([...patternHits.entries()].sort((a, b) => b[1].count - a[1].count)[0]?.[0] ?? "universal");
+
+  const dialogues = limiting.slice(0, 3).map((b) => {
+    const p = dominantPattern(b.belief);
+    return { belief: b.belief, pattern: PATTERN_CHALLENGE[p].name, prompts: PATTERN_CHALLENGE[p].prompts(b.belief) };
+  });
+
+  const reframes = limiting.slice(0, 3).map((b) => {
+    const r = buildReframe({ belief: b.belief, theme: b.theme });
+    const plan = buildActionPlan({ belief: b.belief, goal, length: 3, theme: b.theme });
+    return {
+      from: b.belief,
+      to: r.reframe,
+      why_this_matters: patternFor(b.theme).effect,
+      meaning: `The belief protects ${patternFor(b.theme).pull.join(" and ")}; the reframe keeps that need while allowing action.`,
+      actions: plan.days.filter((d) => d.phase === "action").map((d) => d.task),
+      example: b.evidence_from_responses[0]
+        ? `Next time “${b.evidence_from_responses[0].snippet}” happens, say: ${r.reframe}`
+        : `Say it aloud before the next step toward ${goal}: ${r.reframe}`,
+    };
+  });
+
+  const cuesChallenges = [...patternHits.entries()].map(([p, v]) => ({
+    cue: uniq(v.cues).slice(0, 4).join("/"),
+    method: PATTERN_CHALLENGE[p].method,
+  }));
+
+  // 9) 30/60/90 from a 30-day plan on the core belief, then widen + consolidate
+  const longPlan = core ? buildActionPlan({ belief: core.belief, goal, length: 30, theme: core.theme }) : null;
+  const actionPlan = {
+    days_1_30: longPlan
+      ? longPlan.days.filter((d) => d.day <= 7 || d.phase === "review").map((d) => `Day ${d.day} — ${d.title}: ${d.task}`)
+      : [`Notice and log when the belief shows up while working on ${goal}.`],
+    days_31_60: [
+      ...(competing ? [`Apply the same evidence → reframe → action cycle to “${competing.belief}”.`] : []),
+      "Raise the difficulty of weekly actions one level (standard → stretch).",
+      "Ask one person to reflect evidence back to you every two weeks.",
+    ],
+    days_61_90: [
+      "Re-run the questionnaire and compare answers with day 1.",
+      "Keep the two actions that moved the needle most as standing habits.",
+      `Write the new belief you now act from about ${goal}.`,
+    ],
+  };
+
+  // 10) Triggers → swaps
+  // (the swap uses the belief whose evidence shares the trigger's answer, else the core belief)
+  const triggers = sentences
+    .map((s) => ({ s, m: TRIGGER_RE.exec(s.text) }))
+    .filter((x): x is { s: (typeof sentences)[number]; m: RegExpExecArray } => Boolean(x.m))
+    .slice(0, 4)
+    .map(({ s, m }) => {
+      const near =
+        limiting.find((b) =>
+          b.evidence_from_responses.some((e) => (s.source && e.source === s.source) || e.snippet.includes(clip(s.text, 80).replace(/…$/, "")))
+        ) ?? core;
+      return {
+        trigger: clip(`${m[1]} ${m[2]}`, 100),
+        swap: near
+          ? `Pause for one breath, then: ${personalReframe(near.belief)}`
+          : "Pause for one breath and name the belief before acting.",
+      };
+    });
+
+  // 11) Measures + affirmations
+  const measures = [
+    { label: "Belief strength", type: "scale" as const, template: "__ / 10 (weekly)" },
+    ...salient.slice(0, 2).map(({ theme }) => THEME_MEASURES[theme] ?? DEFAULT_MEASURE),
+    { label: "Weekly review done", type: "checkbox" as const, template: "☐" },
+  ];
+  const affirmations = limiting.slice(0, 3).map((b) => {
+    const soft = softenBelief(b.belief);
+    return soft !== b.belief ? `${soft}, and I’m learning to act anyway.` : `I can hold “${b.belief}” lightly and still take the next step.`;
+  });
+
+  const recommendations = [
+    ...(core ? [`Start with “${core.belief}” — it shows up most often in your answers.`] : []),
+    ...(languagePatterns.includes("absolutist_language") ? ["Catch always/never language and ask “when specifically?”"] : []),
+    ...(emotional[0] && emotional[0].intensity >= 3 ? ["Use Gentle Mode; strong emotions showed up in your answers."] : []),
+    "Work one small action per day; review weekly.",
+  ];
+
+  const summary = core
+    ? `Core pattern: “${core.belief}” (${getTheme(core.theme)?.title ?? core.theme}, confidence ${core.confidence}).` +
+      (competing ? ` Competing belief: “${competing.belief}”.` : "") +
+      (emotional[0] ? ` Strongest emotion: ${emotional[0].label}.` : "")
+    : "No clear limiting belief detected yet — longer, more specific answers will sharpen the analysis.";
+
+  return {
+    analysis_id: analysisId,
+    questionnaire_id: input.questionnaire_id ?? null,
+    summary,
+    salient_themes: salient,
+    limiting_beliefs: limiting,
+    supporting_beliefs: supporting,
+    contradictions,
+    emotional_markers: emotional,
+    language_patterns: languagePatterns,
+    recommendations,
+    executive_snapshot: {
+      core_identity_belief: core?.belief ?? null,
+      competing_belief: competing?.belief ?? null,
+      family_imprint: family[0] ? clip(family[0].text) : null,
+      justice_trigger: justice ? clip(justice.text) : null,
+      present_contradiction: contradictions[0]?.hypothesis ?? null,
+    },
+    patterns,
+    belief_map: beliefMap,
+    strengths,
+    socratic_dialogues: dialogues,
+    reframes,
+    action_plan: actionPlan,
+    triggers_swaps: triggers,
+    language_cues_challenges: cuesChallenges,
+    measures_of_progress: measures,
+    affirmations,
+    themes: salient.map((t) => t.theme),
+    beliefs: limiting.map((b) => b.belief),
+  };
+}
@@ -0,0 +1,80 @@
+// app/api/_lib/belief-item.ts
+import { t, themeDetail, themeItem, themeTitle, type Locale } from "./i18n";
+import { findThemeItem, getTheme, type ThemeKey } from "./libs";
+import { detectPatterns, personalReframe } from "./linguistics";
+
+/* =========================
+   Library item detail
+   ========================= */
+/**
+ * One library belief with its companion content, ready to show or to feed
+ * buildReframe / buildActionPlan. Items whose content an admin hasn't written
+ * (plain-string items, partial edits) get generic defaults per field, listed in
+ * `defaulted`. Text is in `locale` with per-string English fallback.
+ */
+
+export type ItemDetail = {
+  id: string;
+  theme: ThemeKey;
+  themeTitle: string;
+  index: number; // position in the theme's items
+  text: string;
+  category: string;
+  reframe: string;
+  counterEvidence: string[];
+  microAction: string;
+  reflection: string;
+  defaulted: Array<"category" | "reframe" | "counterEvidence" | "microAction" | "reflection">;
+};
+
+export const DEFAULT_CATEGORY = "general";
+
+const DEFAULT_COUNTER_EVIDENCE = [
+  "When was this belief not true, even once?",
+  "What would someone who knows you well say about it?",
+  "What would you tell a friend who believed this about themselves?",
+];
+const DEFAULT_MICRO_ACTION = "Take one 10-minute step this belief says you can’t, and note what actually happens.";
+const DEFAULT_REFLECTION = "What did you notice when you acted against the belief?";
+
+/** Look an item up by id (any theme); null if unknown */
+export function itemDetail(itemId: string, locale: Locale = "en"): ItemDetail | null {
+  const found = findThemeItem(String(itemId || "").trim());
+  const theme = found && getTheme(found.theme);
+  if (!found || !theme) return null;
+
+  const { item, index } = found;
+  const key = found.theme;
+  const detail = (source: string) => themeDetail(locale, key, source);
+  const defaulted: ItemDetail["defaulted"] = [];
+  const or = <T>(field: ItemDetail["defaulted"][number], value: T | undefined, fallback: () => T): T => {
+    if (value !== undefined) return value;
+    defaulted.push(field);
+    return fallback();
+  };
+
+  const text = themeItem(locale, key, item.text);
+  return {
+    id: item.id,
+    theme: key,
+    themeTitle: themeTitle(locale, key, theme.title),
+    index,
+    text,
+    category: or("category", item.category, () => DEFAULT_CATEGORY),
+    reframe: or("reframe", item.reframe && detail(item.reframe), () => {
+      // personalReframe rewrites English grammar; other locales get the catalog's generic sentence
+      const personal = personalReframe(item.text, detectPatterns(item.text));
+      return locale === "en" ? personal : t(locale, "reframe.personal", personal, { belief: text });
+    }),
+    counterEvidence: or("counterEvidence", item.counterEvidence?.map(detail), () =>
+      DEFAULT_COUNTER_EVIDENCE.map((source, i) => t(locale, `item.counter_evidence.${i}`, source))
+    ),
+    microAction: or("microAction", item.microAction && detail(item.microAction), () =>
+      t(locale, "item.micro_action", DEFAULT_MICRO_ACTION)
+    ),
+    reflection: or("reflection", item.reflection && detail(item.reflection), () =>
+      t(locale, "item.reflection", DEFAULT_REFLECTION)
+    ),
+    defaulted,
+  };
+}
@@ -0,0 +1,134 @@
+// app/api/_lib/entitlement.test.ts
+import { describe, expect, it } from "vitest";
+import { requireFeature, resolveEntitlement } from "./entitlement";
+import { issueLicenseKey } from "./license-key";
+import { emailKey, saveLicenseRecord } from "./licenses";
+import { getStore } from "./store";
+import { assignSeat, saveTeamFromBilling } from "./teams";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("entitlement", { LICENSE_SIGNING_SECRET: "test-secret", STRIPE_SECRET_KEY: "" });
+
+const DAY = 86400 * 1000;
+const daysAgo = (n: number) => new Date(Date.now() - n * DAY).toISOString();
+
+/** Fresh cached status on licenses/<cus>.json, so no Stripe lookup happens */
+async function seedLicense(customerId: string, status: string, email: string | null = null) {
+  const licenseKey = issueLicenseKey(customerId);
+  await saveLicenseRecord({
+    customerId,
+    licenseKey,
+    email,
+    source: "test",
+    writeHistory: false,
+    extra: { status, statusCheckedAt: new Date().toISOString() },
+  });
+  return licenseKey;
+}
+
+async function seedTrial(email: string, startedAt: string) {
+  await getStore().putJson(`trials/${emailKey(email)}.json`, { startedAt });
+}
+
+function request(query: Record<string, string> = {}, headers: Record<string, string> = {}) {
+  const url = new URL("https://app.test/api/beliefs/reframe");
+  for (const [k, v] of Object.entries(query)) url.searchParams.set(k, v);
+  return new Request(url, { headers });
+}
+
+const trialCookie = (startedAt: string) => ({ cookie: `db_trial_started_at=${encodeURIComponent(startedAt)}` });
+
+describe("resolveEntitlement precedence", () => {
+  it("prefers a valid license key over an email license and trials", async () => {
+    const key = await seedLicense("cus_key", "active");
+    await seedLicense("cus_mail", "active", "both@example.com");
+    await seedTrial("both@example.com", daysAgo(1));
+
+    const ent = await resolveEntitlement(request({ key, email: "both@example.com" }, trialCookie(daysAgo(1))));
+    expect(ent).toMatchObject({ plan: "pro", source: "license_key", customerId: "cus_key", licenseKey: key });
+  });
+
+  it("falls through an inactive key to the email license", async () => {
+    const key = await seedLicense("cus_lapsed", "canceled");
+    await seedLicense("cus_mail2", "active", "mail2@example.com");
+
+    const ent = await resolveEntitlement(request({ key, email: "mail2@example.com" }));
+    expect(ent).toMatchObject({ plan: "pro", source: "email_license", customerId: "cus_mail2" });
+  });
+
+  it("opens a team seat by the member's email", async () => {
+    await seedLicense("cus_team", "active");
+    await saveTeamFromBilling({ customerId: "cus_team", seats: 3, ownerEmail: "owner@team.test" });
+    await assignSeat("cus_team", "member@team.test", "owner");
+
+    const ent = await resolveEntitlement(request({ email: "member@team.test" }));
+    expect(ent).toMatchObject({
+      plan: "pro",
+      source: "team_seat",
+      customerId: "cus_team",
+      team: { role: "member", seats: 3 },
+    });
+  });
+
+  it("uses the email trial before the cookie trial", async () => {
+    await seedTrial("trial@example.com", daysAgo(2));
+    const ent = await resolveEntitlement(request({ email: "trial@example.com" }, trialCookie(daysAgo(1))));
+    expect(ent).toMatchObject({ plan: "trial", source: "email_trial", email: "trial@example.com" });
+    expect(ent.trial?.daysUsed).toBe(2);
+  });
+
+  it("treats an expired email trial as final, even with a fresh cookie", async () => {
+    await seedTrial("old@example.com", daysAgo(30));
+    const ent = await resolveEntitlement(request({ email: "old@example.com" }, trialCookie(daysAgo(1))));
+    expect(ent).toMatchObject({ plan: "free", source: "none", denial: "TRIAL_EXPIRED" });
+  });
+
+  it("falls back to the cookie trial, then to free", async () => {
+    expect(await resolveEntitlement(request({}, trialCookie(daysAgo(1))))).toMatchObject({
+      plan: "trial",
+      source: "cookie_trial",
+    });
+    expect(await resolveEntitlement(request({}, trialCookie(daysAgo(30))))).toMatchObject({
+      plan: "free",
+      denial: "TRIAL_EXPIRED",
+    });
+    expect(await resolveEntitlement(request())).toMatchObject({ plan: "free", source: "none", denial: undefined });
+  });
+
+  it("records why a key was refused", async () => {
+    const lapsed = await seedLicense("cus_gone", "canceled");
+    expect((await resolveEntitlement(request({ key: lapsed }))).denial).toBe("SUB_INACTIVE");
+    const forged = `${lapsed.slice(0, -4)}AAAA`;
+    expect((await resolveEntitlement(request({ key: forged }))).denial).toBe("INVALID_LICENSE");
+  });
+});
+
+describe("requireFeature", () => {
+  it("lets Pro and trial callers through", async () => {
+    const key = await seedLicense("cus_gate", "active");
+    const gate = await requireFeature(request({}, { "x-license-key": key }), "exports_pdf");
+    expect(gate.ok && gate.entitlement.source).toBe("license_key");
+
+    const trial = await requireFeature(request({}, trialCookie(daysAgo(1))), "journal");
+    expect(trial.ok).toBe(true);
+  });
+
+  it("answers 402 with the denial code for free callers", async () => {
+    const free = await requireFeature(request(), "beliefs_reframe");
+    expect(free).toMatchObject({ ok: false, status: 402, body: { error: "UPGRADE_REQUIRED", upgradeUrl: "/pricing" } });
+
+    const expired = await requireFeature(request({}, trialCookie(daysAgo(30))), "beliefs_reframe");
+    expect(expired).toMatchObject({ ok: false, status: 402, body: { error: "TRIAL_EXPIRED" } });
+  });
+
+  it("keeps free features open without Pro", async () => {
+    expect((await requireFeature(request(), "beliefs_scan")).ok).toBe(true);
+  });
+
+  it("turns lookup failures into a 401 instead of throwing", async () => {
+    // No cached status and no STRIPE_SECRET_KEY → the subscription lookup throws
+    const key = issueLicenseKey("cus_uncached");
+    const gate = await requireFeature(request({ key }), "beliefs_reframe");
+    expect(gate).toMatchObject({ ok: false, status: 401, body: { error: "PAYWALL_ERROR" } });
+  });
+});
@@ -0,0 +1,365 @@
+// app/api/_lib/entitlement.ts
+import {
+  computeCookieTrial,
+  findLicenseByEmail,
+  readTrialByEmail,
+  type TrialInfo,
+} from "./access";
+import { localizeError, resolveLocale } from "./i18n";
+import { verifyLicenseKey } from "./license-key";
+import { emailKey } from "./licenses";
+import { readLicenseFrom, type ProGateFail } from "./paywall";
+import { getSubscriptionStatus, type BillingWarning } from "./subscription";
+import { seatForEmail, seatForKey, type TeamSeatAccess } from "./teams";
+import { readTrialCookie } from "./trial";
+
+/* =========================
+   Features + plans
+   ========================= */
+
+/** Features advertised to free callers by /api/license/status */
+export const FREE_FEATURES = ["beliefs_scan", "themes_preview", "tips_only"] as const;
+
+/** Features unlocked by Pro (and by an active trial) */
+export const PRO_FEATURES = [
+  "beliefs_scan",
+  "beliefs_reframe",
+  "actions_plan",
+  "libraries_full",
+  "exports_pdf",
+  "exports_markdown",
+  "exports_docx",
+  "exports_ics",
+  "journal",
+  "questionnaires",
+  "analysis",
+] as const;
+
+export type Feature = (typeof FREE_FEATURES)[number] | (typeof PRO_FEATURES)[number];
+
+export type Plan = "pro" | "trial" | "free";
+
+/** Where the entitlement came from (first match wins, in this order) */
+export type EntitlementSource =
+  | "license_key"
+  | "email_license"
+  | "team_seat"
+  | "email_trial"
+  | "cookie_trial"
+  | "none";
+
+/** Why a caller ended up on the free plan (drives the 402 error code) */
+export type DenialCode =
+  | "LEGACY_LICENSE_FORMAT"
+  | "INVALID_LICENSE"
+  | "LICENSE_EXPIRED"
+  | "SUB_INACTIVE"
+  | "PAYMENT_FAILED"
+  | "SEAT_NOT_ASSIGNED"
+  | "TRIAL_EXPIRED";
+
+export type Entitlement = {
+  plan: Plan;
+  features: Feature[];
+  source: EntitlementSource;
+  expiresAt: string | null; // ISO; null for open-ended subscriptions / free
+  customerId?: string;
+  licenseKey?: string;
+  email?: string;
+  trial?: TrialInfo;
+  denial?: DenialCode;
+  warning?: BillingWarning; // payment failed; Pro kept during the grace period
+  team?: { customerId: string; role: "owner" | "member"; seats: number }; // team licenses (./teams)
+};
+
+function proEntitlement(
+  source: "license_key" | "email_license" | "team_seat",
+  customerId: string,
+  extra: Partial<Entitlement> = {}
+): Entitlement {
+  return {
+    plan: "pro",
+    features: [...PRO_FEATURES],
+    source,
+    expiresAt: null,
+    customerId,
+    ...extra,
+  };
+}
+
+function trialEntitlement(
+  source: "email_trial" | "cookie_trial",
+  trial: TrialInfo,
+  extra: Partial<Entitlement> = {}
+): Entitlement {
+  return {
+    plan: "trial",
+    features: [...PRO_FEATURES],
+    source,
+    expiresAt: trial.expiresAt,
+    trial,
+    ...extra,
+  };
+}
+
+function freeEntitlement(extra: Partial<Entitlement> = {}): Entitlement {
+  return {
+    plan: "free",
+    features: [...FREE_FEATURES],
+    source: "none",
+    expiresAt: null,
+    ...extra,
+  };
+}
+
+/* =========================
+   Resolution
+   ========================= */
+/**
+ * resolveEntitlement(req)
+ * Resolution order:
+ * 1) ?key=... / X-License-Key → verify signature (or legacy record) + Stripe sub
+ *    (team licenses: the key's seat — owner or seat-key member — must be assigned)
+ * 2) ?email=... → license     → verify Stripe sub (team owners need their seat too)
+ *    (past_due/unpaid inside the payment grace period still counts, with `warning`)
+ * 2b) ?email=... → team seat  → verify the team's Stripe sub
+ * 3) ?email=... → trial file  → active? (an expired email trial is final)
+ * 4) trial cookie             → active?
+ * Otherwise free, with `denial` explaining the most specific failure.
+ * Throws only when Stripe/Blob lookups fail; callers decide how to surface that.
+ */
+export async function resolveEntitlement(req: Request): Promise<Entitlement> {
+  const url = new URL(req.url);
+  const key = readLicenseFrom(req);
+  const email = (url.searchParams.get("email") || "").trim();
+
+  let denial: DenialCode | undefined;
+  let warning: BillingWarning | undefined;
+
+  // 1) License key
+  if (key) {
+    const verified = await verifyLicenseKey(key);
+    if (!verified.ok) {
+      denial = verified.error;
+    } else {
+      const sub = await getSubscriptionStatus(verified.claims.customerId);
+      // Team licenses only open for assigned seats (a seat key without a team is stale)
+      const seat = sub.active ? await seatForKey(verified.claims) : null;
+      if (sub.active && (seat ? seat.active : !verified.claims.seat)) {
+        return proEntitlement(seat?.role === "member" ? "team_seat" : "license_key", verified.claims.customerId, {
+          licenseKey: key,
+          expiresAt: verified.claims.expiresAt,
+          ...(seat?.email ? { email: seat.email } : {}),
+          ...(seat ? { team: teamOf(seat) } : {}),
+          ...(sub.warning ? { warning: sub.warning } : {}),
+        });
+      }
+      if (sub.active) {
+        denial = "SEAT_NOT_ASSIGNED";
+      } else {
+        denial = sub.standing === "payment_failed" ? "PAYMENT_FAILED" : "SUB_INACTIVE";
+        warning = sub.warning;
+      }
+    }
+  }
+
+  if (email) {
+    // 2) Email → license link
+    const link = await findLicenseByEmail(email);
+    if (link) {
+      const sub = await getSubscriptionStatus(link.customerId);
+      const owner = sub.active ? await seatForKey({ customerId: link.customerId, seat: null }) : null;
+      if (sub.active && (!owner || owner.active)) {
+        return proEntitlement("email_license", link.customerId, {
+          licenseKey: link.licenseKey,
+          email,
+          ...(owner ? { team: teamOf(owner) } : {}),
+          ...(sub.warning ? { warning: sub.warning } : {}),
+        });
+      }
+      if (owner) denial = denial ?? "SEAT_NOT_ASSIGNED";
+      if (sub.standing === "payment_failed") {
+        denial = denial ?? "PAYMENT_FAILED";
+        warning = warning ?? sub.warning;
+      }
+    }
+
+    // 2b) Email → team seat (members sign in with the email they were invited with)
+    const seat = await seatForEmail(email);
+    if (seat && seat.team.customerId !== link?.customerId) {
+      const sub = await getSubscriptionStatus(seat.team.customerId);
+      if (sub.active && seat.active) {
+        return proEntitlement("team_seat", seat.team.customerId, {
+          email,
+          team: teamOf(seat),
+          ...(sub.warning ? { warning: sub.warning } : {}),
+        });
+      }
+      if (!seat.active) {
+        denial = denial ?? "SEAT_NOT_ASSIGNED";
+      } else if (sub.standing === "payment_failed") {
+        denial = denial ?? "PAYMENT_FAILED";
+        warning = warning ?? sub.warning;
+      } else {
+        denial = denial ?? "SUB_INACTIVE";
+      }
+    }
+
+    // 3) Email trial
+    const trial = await readTrialByEmail(email);
+    if (trial?.active) {
+      return trialEntitlement("email_trial", trial, { email });
+    }
+    if (trial) {
+      return freeEntitlement({ email, trial, denial: denial ?? "TRIAL_EXPIRED", warning });
+    }
+  }
+
+  // 4) Cookie trial (device/session fallback started by middleware)
+  const { startedAt } = readTrialCookie(req);
+  if (startedAt && !isNaN(new Date(startedAt).getTime())) {
+    const trial = computeCookieTrial(startedAt);
+    if (trial.active) {
+      return trialEntitlement("cookie_trial", trial, email ? { email } : {});
+    }
+    denial = denial ?? "TRIAL_EXPIRED";
+  }
+
+  return freeEntitlement({ ...(email ? { email } : {}), denial, warning });
+}
+
+function teamOf(seat: TeamSeatAccess): NonNullable<Entitlement["team"]> {
+  return { customerId: seat.team.customerId, role: seat.role, seats: seat.team.seats };
+}
+
+/**
+ * Stable owner label for per-user records (export metadata):
+ * Stripe customer id when licensed, "email_<emailKey>" for email trials and
+ * team members (a team shares one customer id, not its members' data).
+ * Cookie-only trials have no stable owner → null (nothing is saved).
+ * Private data (plans/, journals/) must go through verifiedOwnerOf instead.
+ */
+export function ownerKeyOf(entitlement: Entitlement): string | null {
+  if (entitlement.team?.role === "member" && entitlement.email) return `email_${emailKey(entitlement.email)}`;
+  if (entitlement.customerId) return entitlement.customerId;
+  if (entitlement.email) return `email_${emailKey(entitlement.email)}`;
+  return null;
+}
+
+/**
+ * Owner of private data (saved plans, journal), only for callers who proved it with a
+ * verified license or seat key. ?email= alone grants access but never an owner:
+ * anyone can type someone else's email.
+ */
+export function verifiedOwnerOf(entitlement: Entitlement): string | null {
+  const byKey =
+    entitlement.source === "license_key" || (entitlement.source === "team_seat" && !!entitlement.licenseKey);
+  return byKey ? ownerKeyOf(entitlement) : null;
+}
+
+/** 401 body for private-data routes called without a verified key */
+export const OWNER_KEY_REQUIRED = {
+  error: "OWNER_KEY_REQUIRED",
+  message: "Saved plans and the journal need your license key (?key= or X-License-Key); an email alone can’t open them.",
+};
+
+/* =========================
+   Gate for Pro routes
+   ========================= */
+
+export type EntitlementGateResult =
+  | { ok: true; entitlement: Entitlement }
+  | ProGateFail;
+
+function denialBody(code: DenialCode | undefined, warning?: BillingWarning): ProGateFail["body"] {
+  switch (code) {
+    case "LEGACY_LICENSE_FORMAT":
+      return {
+        error: "LEGACY_LICENSE_FORMAT",
+        message:
+          "Your license key is from an older format. Please regenerate your license from the latest checkout success page or contact support.",
+        upgradeUrl: "/pricing",
+      };
+    case "INVALID_LICENSE":
+      return {
+        error: "INVALID_LICENSE",
+        message:
+          "This license key could not be verified. Copy it again from your checkout success page or contact support.",
+        upgradeUrl: "/pricing",
+      };
+    case "LICENSE_EXPIRED":
+      return {
+        error: "LICENSE_EXPIRED",
+        message: "This license key has expired. Please renew or purchase a plan.",
+        upgradeUrl: "/pricing",
+      };
+    case "SUB_INACTIVE":
+      return {
+        error: "SUB_INACTIVE",
+        message:
+          "Your subscription isn’t active. Please renew in the billing portal or purchase a plan.",
+        upgradeUrl: "/pricing",
+      };
+    case "PAYMENT_FAILED":
+      return {
+        error: "PAYMENT_FAILED",
+        message:
+          "Your last payment failed and the grace period has ended. Update your payment method in the billing portal to restore Pro.",
+        upgradeUrl: "/pricing",
+        ...(warning ? { warning } : {}),
+      };
+    case "SEAT_NOT_ASSIGNED":
+      return {
+        error: "SEAT_NOT_ASSIGNED",
+        message:
+          "This team license has no active seat for you. Ask your team owner to assign (or restore) your seat.",
+        upgradeUrl: "/pricing",
+      };
+    case "TRIAL_EXPIRED":
+      return {
+        error: "TRIAL_EXPIRED",
+        message:
+          "Your free trial has ended. Please purchase a Pro license at /pricing and paste your license key.",
+        upgradeUrl: "/pricing",
+      };
+    default:
+      return {
+        error: "UPGRADE_REQUIRED",
+        message:
+          "This feature requires Pro or an active trial. Provide your email (to continue trial) or purchase a license at /pricing.",
+        upgradeUrl: "/pricing",
+      };
+  }
+}
+
+/**
+ * requireFeature(req, "beliefs_reframe")
+ * Never throws: lookup failures become a 401 PAYWALL_ERROR body the route can return as-is.
+ * Denial messages follow the caller's locale (?lang= / Accept-Language, see ./i18n).
+ */
+export async function requireFeature(
+  req: Request,
+  feature: Feature
+): Promise<EntitlementGateResult> {
+  try {
+    const entitlement = await resolveEntitlement(req);
+    if (entitlement.features.includes(feature)) {
+      return { ok: true, entitlement };
+    }
+    return {
+      ok: false,
+      status: 402,
+      body: localizeError(resolveLocale(req), denialBody(entitlement.denial, entitlement.warning)),
+    };
+  } catch (e: any) {
+    console.error("requireFeature error:", e?.message || e);
+    return {
+      ok: false,
+      status: 401,
+      body: localizeError(resolveLocale(req), {
+        error: "PAYWALL_ERROR",
+        message: "Could not verify license at the moment. Please try again shortly.",
+      }),
+    };
+  }
+}
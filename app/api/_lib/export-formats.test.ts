@@ -0,0 +1,110 @@
+// app/api/_lib/export-formats.test.ts
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { parseIcsOptions, renderDocx, renderIcs, renderMarkdown, type IcsOptions } from "./export-formats";
+import { SAFETY_NOTE, type SummaryContent } from "./export-sections";
+
+const content: SummaryContent = {
+  title: "Discovering Beliefs — Summary",
+  belief: "If I speak up and I’m wrong, I’m finished",
+  sections: [
+    { kind: "steps", title: "Reframe Steps", items: ["Notice the thought", "Name the evidence"] },
+    {
+      kind: "plan",
+      title: "3-Day Micro-Action Plan",
+      items: ["Day 1 — Notice: Log each time you hold back", "Day 2 — Speak first: Share one idea [done]", "Day 3 — Review: Look back"],
+    },
+  ],
+  saved: null,
+};
+
+const options = (input: object = {}): IcsOptions => {
+  const parsed = parseIcsOptions({ startDate: "2026-03-07", ...input }, new Date("2026-03-01T00:00:00Z"));
+  if (!parsed.ok) throw new Error(parsed.message);
+  return parsed.options;
+};
+
+// Unfold RFC 5545 continuation lines back into logical lines
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("renderMarkdown", () => {
+  it("renders every section as a numbered list and ends with the safety note", () => {
+    const md = renderMarkdown(content, new Date("2026-03-01T00:00:00Z"));
+    expect(md.startsWith("# Discovering Beliefs — Summary\n")).toBe(true);
+    expect(md).toContain("## Reframe Steps\n\n1. Notice the thought\n2. Name the evidence\n");
+    expect(md).toContain(`_${SAFETY_NOTE}_`);
+  });
+});
+
+describe("renderDocx", () => {
+  it("packages an escaped WordprocessingML document", async () => {
+    const bytes = await renderDocx({ ...content, belief: "Fear & <doubt>" });
+    const zip = await JSZip.loadAsync(bytes);
+    const doc = await zip.file("word/document.xml")!.async("string");
+    expect(Object.keys(zip.files)).toContain("[Content_Types].xml");
+    expect(doc).toContain("Fear &amp; &lt;doubt&gt;");
+    expect(doc).toContain("1. Notice the thought");
+  });
+});
+
+describe("parseIcsOptions", () => {
+  it("defaults to tomorrow at 08:00 with a 10 minute reminder", () => {
+    const parsed = parseIcsOptions({}, new Date("2026-03-01T12:00:00Z"));
+    expect(parsed).toEqual({
+      ok: true,
+      options: { startDate: "2026-03-02", time: "08:00", timezone: null, reminders: [10], defaultMinutes: 20 },
+    });
+  });
+
+  it("rejects bad dates, times, zones and reminders", () => {
+    expect(parseIcsOptions({ startDate: "2026-02-30" })).toMatchObject({ ok: false, error: "INVALID_START_DATE" });
+    expect(parseIcsOptions({ time: "24:00" })).toMatchObject({ ok: false, error: "INVALID_TIME" });
+    expect(parseIcsOptions({ timezone: "Mars/Olympus" })).toMatchObject({ ok: false, error: "INVALID_TIMEZONE" });
+    expect(parseIcsOptions({ reminders: [5, 10, 15, 20] })).toMatchObject({ ok: false, error: "INVALID_REMINDERS" });
+  });
+});
+
+describe("renderIcs", () => {
+  it("returns null without a plan section", () => {
+    expect(renderIcs({ ...content, sections: content.sections.slice(0, 1) }, options())).toBeNull();
+  });
+
+  it("makes one event per plan line on consecutive days", () => {
+    const out = renderIcs(content, options(), new Date("2026-03-01T00:00:00Z"))!;
+    const lines = unfold(out.ics);
+    expect(out.events).toBe(3);
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(3);
+    expect(lines.filter((l) => l.startsWith("DTSTART"))).toEqual([
+      "DTSTART:20260307T080000",
+      "DTSTART:20260308T080000",
+      "DTSTART:20260309T080000",
+    ]);
+    expect(lines).toContain("SUMMARY:Day 2 — Speak first");
+    expect(lines.filter((l) => l.startsWith("DURATION"))).toEqual(["DURATION:PT20M", "DURATION:PT20M", "DURATION:PT20M"]);
+    expect(lines).toContain("TRIGGER:-PT10M");
+  });
+
+  it("converts a timezone's wall-clock time to UTC across DST changes", () => {
+    const lines = unfold(renderIcs(content, options({ time: "08:30", timezone: "America/New_York" }))!.ics);
+    expect(lines.filter((l) => l.startsWith("DTSTART"))).toEqual([
+      "DTSTART:20260307T133000Z",
+      "DTSTART:20260308T123000Z",
+      "DTSTART:20260309T123000Z",
+    ]);
+    expect(lines.some((l) => l.includes("TZID"))).toBe(false);
+  });
+
+  it("escapes text values", () => {
+    const lines = unfold(renderIcs({ ...content, belief: "a, b; c\\d" }, options())!.ics);
+    expect(lines.find((l) => l.startsWith("DESCRIPTION:Log"))).toContain("Belief: a\\, b\\; c\\\\d");
+  });
+
+  it("folds lines at 75 octets without splitting multi-byte characters", () => {
+    const long = { ...content, belief: "मैं बोलूँ और गलत निकलूँ, तो मेरा काम ख़त्म — ".repeat(4) };
+    const ics = renderIcs(long, options())!.ics;
+    const physical = ics.split("\r\n").filter(Boolean);
+    expect(physical.some((l) => l.startsWith(" "))).toBe(true);
+    for (const line of physical) expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    expect(unfold(ics).join("\n")).toContain(long.belief.replace(/,/g, "\\,").trim());
+  });
+});
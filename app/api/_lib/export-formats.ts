@@ -0,0 +1,308 @@
+// app/api/_lib/export-formats.ts
+import crypto from "crypto";
+import JSZip from "jszip";
+import { SAFETY_NOTE, type SummaryContent } from "./export-sections";
+
+/* =========================
+   Markdown / DOCX / ICS renderings of the session summary
+   ========================= */
+/**
+ * Every renderer takes the SummaryContent built by loadSummaryContent, so the
+ * sections (and their de-duplication) are identical to the PDF export.
+ */
+
+const oneLine = (s: string) => String(s || "").replace(/\s+/g, " ").trim();
+
+function generatedLabel(at: Date) {
+  return at.toLocaleString("en-IN", { hour12: false });
+}
+
+/* =========================
+   Markdown
+   ========================= */
+
+export function renderMarkdown(content: SummaryContent, generatedAt = new Date()): string {
+  const out: string[] = [`# ${oneLine(content.title)}`, "", `_Generated: ${generatedLabel(generatedAt)}_`, ""];
+  out.push("## Core Belief", "", oneLine(content.belief), "");
+  for (const section of content.sections) {
+    out.push(`## ${section.title}`, "");
+    section.items.forEach((item, i) => out.push(`${i + 1}. ${oneLine(item)}`));
+    out.push("");
+  }
+  out.push("---", "", `_${SAFETY_NOTE}_`, "");
+  return out.join("\n");
+}
+
+/* =========================
+   DOCX (minimal WordprocessingML package)
+   ========================= */
+
+function xmlEscape(s: string) {
+  return String(s || "")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paragraph(text: string, opts: { style?: string; indent?: boolean; italic?: boolean } = {}) {
+  const pPr = [
+    opts.style ? `<w:pStyle w:val="${opts.style}"/>` : "",
+    opts.indent ? `<w:ind w:left="360" w:hanging="360"/>` : "",
+  ].join("");
+  const rPr = opts.italic ? "<w:rPr><w:i/></w:rPr>" : "";
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ""}<w:r>${rPr}<w:t xml:space="preserve">${xmlEscape(text)}</w:t></w:r></w:p>`;
+}
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const DOCX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Nirmala UI"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtle"><w:name w:val="Subtle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="666666"/><w:sz w:val="18"/></w:rPr></w:style>
+</w:styles>`;
+
+export async function renderDocx(content: SummaryContent, generatedAt = new Date()): Promise<Uint8Array> {
+  const body: string[] = [
+    paragraph(oneLine(content.title), { style: "Title" }),
+    paragraph(`Generated: ${generatedLabel(generatedAt)}`, { style: "Subtle" }),
+    paragraph("Core Belief", { style: "Heading1" }),
+    paragraph(oneLine(content.belief)),
+  ];
+  for (const section of content.sections) {
+    body.push(paragraph(section.title, { style: "Heading1" }));
+    section.items.forEach((item, i) => body.push(paragraph(`${i + 1}. ${oneLine(item)}`, { indent: true })));
+  }
+  body.push(paragraph(SAFETY_NOTE, { style: "Subtle", italic: true }));
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body.join("")}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${xmlEscape(content.title)}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${generatedAt.toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created></cp:coreProperties>`;
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", DOCX_CONTENT_TYPES);
+  zip.file("_rels/.rels", DOCX_ROOT_RELS);
+  zip.file("word/_rels/document.xml.rels", DOCX_DOCUMENT_RELS);
+  zip.file("word/styles.xml", DOCX_STYLES);
+  zip.file("word/document.xml", document);
+  zip.file("docProps/core.xml", core);
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+/* =========================
+   ICS (one event per plan day)
+   ========================= */
+
+export type IcsOptions = {
+  startDate: string; // YYYY-MM-DD (day 1)
+  time: string; // HH:MM local start time
+  timezone: string | null; // IANA name → local time converted to UTC (DTSTART:…Z), otherwise floating local time
+  reminders: number[]; // minutes before each event
+  defaultMinutes: number; // duration when the line has no saved day behind it
+};
+
+export type IcsParse = { ok: true; options: IcsOptions } | { ok: false; error: string; message: string };
+
+const MAX_REMINDERS = 3;
+
+/** Validate { startDate?, time?, timezone?, reminders?, minutesPerDay? } (defaults: tomorrow 08:00, 10 min reminder) */
+export function parseIcsOptions(input: any, now = new Date()): IcsParse {
+  const tomorrow = new Date(now.getTime() + 86400 * 1000).toISOString().slice(0, 10);
+  const startDate = String(input?.startDate ?? tomorrow).trim();
+  const d = new Date(`${startDate}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || isNaN(d.getTime()) || d.toISOString().slice(0, 10) !== startDate) {
+    return { ok: false, error: "INVALID_START_DATE", message: "'startDate' must be YYYY-MM-DD." };
+  }
+
+  const time = String(input?.time ?? "08:00").trim();
+  const tm = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!tm) return { ok: false, error: "INVALID_TIME", message: "'time' must be HH:MM (24h)." };
+
+  let timezone: string | null = null;
+  if (input?.timezone) {
+    timezone = String(input.timezone).trim();
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    } catch {
+      return { ok: false, error: "INVALID_TIMEZONE", message: "'timezone' must be an IANA name like Asia/Kolkata." };
+    }
+  }
+
+  const rawReminders = input?.reminders === undefined ? [10] : Array.isArray(input.reminders) ? input.reminders : [input.reminders];
+  const reminders = rawReminders.map(Number);
+  if (reminders.some((m: number) => !Number.isInteger(m) || m < 0 || m > 10080) || reminders.length > MAX_REMINDERS) {
+    return {
+      ok: false,
+      error: "INVALID_REMINDERS",
+      message: `'reminders' must be up to ${MAX_REMINDERS} whole numbers of minutes between 0 and 10080.`,
+    };
+  }
+
+  const minutes = Number(input?.minutesPerDay ?? 20);
+  return {
+    ok: true,
+    options: {
+      startDate,
+      time,
+      timezone,
+      reminders: [...new Set<number>(reminders)].sort((a, b) => a - b),
+      defaultMinutes: Number.isFinite(minutes) ? Math.min(240, Math.max(5, Math.round(minutes))) : 20,
+    },
+  };
+}
+
+function icsEscape(s: string) {
+  return String(s || "")
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold content lines at 75 octets without splitting UTF-8 sequences (RFC 5545 §3.1)
+function foldLine(line: string): string {
+  const out: string[] = [];
+  let cur = "";
+  let curBytes = 0;
+  for (const ch of Array.from(line)) {
+    const n = Buffer.byteLength(ch);
+    const limit = out.length ? 74 : 75; // continuation lines start with a space
+    if (curBytes + n > limit) {
+      out.push(cur);
+      cur = "";
+      curBytes = 0;
+    }
+    cur += ch;
+    curBytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function utcStamp(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+}
+
+/** Offset (ms) of an IANA zone from UTC at the given instant */
+function zoneOffset(timeZone: string, at: number) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(at));
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - at;
+}
+
+/**
+ * Wall-clock YYYYMMDD + HH:MM in `timeZone` → UTC instant. Emitting UTC avoids a VTIMEZONE
+ * block, which calendars need to resolve a bare TZID. The second pass settles DST edges.
+ */
+function zonedToUtc(date: string, hh: string, mm: string, timeZone: string) {
+  const wall = Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)), Number(hh), Number(mm));
+  let at = wall - zoneOffset(timeZone, wall);
+  at = wall - zoneOffset(timeZone, at);
+  return new Date(at);
+}
+
+/**
+ * Events come from the plan section ("Day N — Title: task [done]", or "दिन N — …"); a saved plan
+ * adds each day's duration and reflection. Lines without "Day N" follow list order.
+ */
+export function renderIcs(
+  content: SummaryContent,
+  options: IcsOptions,
+  now = new Date()
+): { ics: string; events: number } | null {
+  const planSection = content.sections.find((s) => s.kind === "plan");
+  if (!planSection?.items.length) return null;
+
+  const savedDays = new Map((content.saved?.days ?? []).map((d) => [d.day, d]));
+  const uidBase =
+    content.saved?.id ??
+    crypto.createHash("sha256").update(JSON.stringify([content.belief, planSection.items])).digest("hex").slice(0, 16);
+  const [hh, mm] = options.time.split(":");
+  const dtstart = (date: string) =>
+    options.timezone ? `DTSTART:${utcStamp(zonedToUtc(date, hh, mm, options.timezone))}` : `DTSTART:${date}T${hh}${mm}00`;
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Belief Blueprint//Action Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsEscape(planSection.title)}`,
+  ];
+
+  planSection.items.forEach((item, i) => {
+    const text = item.replace(/\s*\[(done|skipped)\]$/i, "");
+    const dayMatch = /^(?:day|दिन)\s*(\d+)\s*[—–-]?\s*/i.exec(text);
+    const dayNo = dayMatch ? Number(dayMatch[1]) : i + 1;
+    const rest = dayMatch ? text.slice(dayMatch[0].length) : text;
+    const saved = savedDays.get(dayNo);
+    const colon = rest.indexOf(": ");
+    const titled = colon > 0 && colon < 60;
+    const title = saved?.title ?? (titled ? rest.slice(0, colon) : rest.slice(0, 60));
+    const description = [
+      saved?.task ?? (titled ? rest.slice(colon + 2) : rest),
+      saved?.reflection ? `Reflection: ${saved.reflection}` : "",
+      `Belief: ${oneLine(content.belief)}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uidBase}-day-${dayNo}@belief-blueprint`,
+      `DTSTAMP:${utcStamp(now)}`,
+      dtstart(addDays(options.startDate, dayNo - 1)),
+      `DURATION:PT${saved?.duration ?? options.defaultMinutes}M`,
+      `SUMMARY:${icsEscape(`Day ${dayNo} — ${title}`)}`,
+      `DESCRIPTION:${icsEscape(description)}`,
+      "TRANSP:OPAQUE"
+    );
+    for (const m of options.reminders) {
+      lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${icsEscape(`Day ${dayNo} — ${title}`)}`, `TRIGGER:-PT${m}M`, "END:VALARM");
+    }
+    lines.push("END:VEVENT");
+  });
+  lines.push("END:VCALENDAR");
+
+  return { ics: lines.map(foldLine).join("\r\n") + "\r\n", events: planSection.items.length };
+}
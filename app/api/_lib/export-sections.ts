@@ -0,0 +1,157 @@
+// app/api/_lib/export-sections.ts
+import { verifiedOwnerOf, type Entitlement } from "./entitlement";
+import { computeProgress, readPlan, type SavedPlan } from "./plan-store";
+
+/* =========================
+   Session summary sections — shared by every export format
+   ========================= */
+/**
+ * PDF, Markdown, DOCX and ICS exports all render the same sections, built once here:
+ *   Core belief → Reframe Steps → N-Day Micro-Action Plan (→ Progress → Check-in History)
+ * Steps and plan lines are de-duplicated case/space-insensitively; when both lists are
+ * the same only one section is kept, otherwise the plan keeps only lines not in steps.
+ */
+
+export const SUMMARY_TITLE = "Discovering Beliefs — Summary";
+export const SAFETY_NOTE = "Safety: Coaching guidance, not therapy. If distressed, use local crisis resources.";
+
+export type SectionKind = "steps" | "plan" | "progress" | "checkins";
+
+export type ExportSection = { kind: SectionKind; title: string; items: string[] };
+
+export type SummaryContent = {
+  title: string;
+  belief: string;
+  sections: ExportSection[];
+  saved: SavedPlan | null; // when exporting a saved plan (planId)
+};
+
+export type SummaryLoad =
+  | { ok: true; content: SummaryContent }
+  | { ok: false; status: 404; body: { error: string; message: string } };
+
+/** Normalize for equality checks (trim, collapse spaces, lower-case). */
+function norm(s: string): string {
+  return String(s || "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+export function uniquePreserveOrder(items: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const it of items) {
+    const k = norm(it);
+    if (!k) continue;
+    if (!seen.has(k)) {
+      seen.add(k);
+      out.push(it.trim());
+    }
+  }
+  return out;
+}
+export function listsEqual(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (norm(a[i]) !== norm(b[i])) return false;
+  return true;
+}
+function looksLike7DayPlan(items: string[]): boolean {
+  const dayish = items.some((s) => /(^|\s)(day|दिन)\s*\d+/i.test(s));
+  return dayish || items.length === 7;
+}
+
+/** Saved plan days as plan lines, marked with their check-in status */
+function planLinesWithStatus(plan: SavedPlan): string[] {
+  const byDay = new Map(plan.checkins.map((c) => [c.day, c]));
+  return plan.plan.map((line, i) => {
+    const c = byDay.get(plan.days[i]?.day ?? i + 1);
+    return c ? `${line} [${c.status}]` : line;
+  });
+}
+
+/* =========================
+   Build
+   ========================= */
+
+export function buildSummarySections(input: {
+  steps: string[];
+  plan: string[];
+  saved?: SavedPlan | null;
+}): ExportSection[] {
+  const saved = input.saved ?? null;
+  const steps = uniquePreserveOrder(input.steps);
+  const plan = uniquePreserveOrder(saved ? planLinesWithStatus(saved) : input.plan);
+
+  // Build non-duplicating sections
+  const sections: ExportSection[] = [];
+  const both = steps.length > 0 && plan.length > 0;
+  const stepsSection = (): ExportSection =>
+    looksLike7DayPlan(steps)
+      ? { kind: "plan", title: "7-Day Micro-Action Plan", items: steps }
+      : { kind: "steps", title: "Reframe Steps", items: steps };
+
+  if (!both) {
+    if (steps.length) {
+      sections.push(stepsSection());
+    } else if (plan.length) {
+      sections.push({ kind: "plan", title: "7-Day Micro-Action Plan", items: plan });
+    }
+  } else {
+    if (listsEqual(steps, plan)) {
+      sections.push(stepsSection());
+    } else {
+      sections.push({ kind: "steps", title: "Reframe Steps", items: steps });
+      const stepSet = new Set(steps.map(norm));
+      const planOnly = plan.filter((p) => !stepSet.has(norm(p)));
+      if (planOnly.length) sections.push({ kind: "plan", title: "7-Day Micro-Action Plan", items: planOnly });
+    }
+  }
+
+  if (saved) {
+    // Saved plans carry their own length; replace the generic 7-day title
+    const planTitle = `${saved.length}-Day Micro-Action Plan`;
+    for (const s of sections) if (s.title === "7-Day Micro-Action Plan") s.title = planTitle;
+
+    const progress = computeProgress(saved);
+    sections.push({
+      kind: "progress",
+      title: "Progress",
+      items: [
+        `Completed ${progress.done}/${progress.length} days (${Math.round(progress.completionRate * 100)}%), skipped ${progress.skipped}.`,
+        `Current streak: ${progress.currentStreak} day(s); longest: ${progress.longestStreak}.`,
+        ...(progress.averageMood !== null ? [`Average mood: ${progress.averageMood}/10.`] : []),
+      ],
+    });
+    if (saved.checkins.length) {
+      sections.push({
+        kind: "checkins",
+        title: "Check-in History",
+        items: saved.checkins.map(
+          (c) =>
+            `Day ${c.day} — ${c.status}${c.mood !== null ? `, mood ${c.mood}/10` : ""} (${c.at.slice(0, 10)})${c.note ? `: ${c.note}` : ""}`
+        ),
+      });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Request body → summary content: { belief?, steps?, plan?, planId? }.
+ * planId loads the caller's saved plan (its days + check-in history replace `plan`);
+ * like /api/actions/plans/{id} it needs a verified key (see verifiedOwnerOf).
+ */
+export async function loadSummaryContent(body: any, entitlement: Entitlement): Promise<SummaryLoad> {
+  let saved: SavedPlan | null = null;
+  if (body?.planId) {
+    const owner = verifiedOwnerOf(entitlement);
+    saved = owner ? await readPlan(owner, String(body.planId).trim()) : null;
+    if (!saved) return { ok: false, status: 404, body: { error: "Not found", message: "Unknown planId." } };
+  }
+
+  const belief: string = String(body?.belief ?? saved?.belief ?? "I’m not enough");
+  const sections = buildSummarySections({
+    steps: Array.isArray(body?.steps) ? body.steps.map(String) : [],
+    plan: Array.isArray(body?.plan) ? body.plan.map(String) : [],
+    saved,
+  });
+  return { ok: true, content: { title: SUMMARY_TITLE, belief, sections, saved } };
+}
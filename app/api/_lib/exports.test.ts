@@ -0,0 +1,119 @@
+// app/api/_lib/exports.test.ts
+import { describe, expect, it, vi } from "vitest";
+import {
+  exportBinding,
+  issueExportToken,
+  licenseFingerprint,
+  readExportBytes,
+  readExportRecord,
+  saveExport,
+  verifyExportToken,
+  type ExportRecord,
+} from "./exports";
+import { getStore } from "./store";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("exports", { EXPORT_SIGNING_SECRET: "test-export-secret" });
+
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+const record = {
+  id: "0b7f6d1e-8c1a-4c57-9d1e-2f9a1c3b5e7d",
+  owner: "cus_owner",
+  license: licenseFingerprint("LIC2.owner.key"),
+};
+
+describe("export link tokens", () => {
+  it("verifies a token it issued, with the binding of the export's owner and license", () => {
+    const { token, expiresAt } = issueExportToken(record, 60, NOW);
+    expect(token).toMatch(/^EXP1\.[\w-]+\.[\w-]+$/);
+    expect(expiresAt).toBe("2026-03-01T13:00:00.000Z");
+    expect(verifyExportToken(token, NOW)).toEqual({
+      ok: true,
+      claims: { id: record.id, binding: exportBinding(record), expiresAt },
+    });
+  });
+
+  it("expires at exp, and caps the lifetime at 7 days", () => {
+    const { token } = issueExportToken(record, 60, NOW);
+    expect(verifyExportToken(token, NOW + 60 * 60_000 - 1).ok).toBe(true);
+    expect(verifyExportToken(token, NOW + 60 * 60_000)).toEqual({ ok: false, error: "TOKEN_EXPIRED" });
+
+    expect(issueExportToken(record, 30 * 24 * 60, NOW).expiresAt).toBe("2026-03-08T12:00:00.000Z");
+  });
+
+  it("rejects tampered tokens", () => {
+    const { token } = issueExportToken(record, 60, NOW);
+    const [prefix, payload, sig] = token.split(".");
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    const forged = Buffer.from(JSON.stringify({ ...claims, exp: claims.exp + 86400 })).toString("base64url");
+    expect(verifyExportToken(`${prefix}.${forged}.${sig}`, NOW)).toEqual({ ok: false, error: "INVALID_TOKEN" });
+
+    const flipped = `${sig.slice(0, -1)}${sig.endsWith("A") ? "B" : "A"}`;
+    expect(verifyExportToken(`${prefix}.${payload}.${flipped}`, NOW).ok).toBe(false);
+    expect(verifyExportToken(`EXP2.${payload}.${sig}`, NOW).ok).toBe(false);
+    expect(verifyExportToken("", NOW).ok).toBe(false);
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const { token } = issueExportToken(record, 60, NOW);
+    vi.stubEnv("EXPORT_SIGNING_SECRET", "rotated-secret");
+    try {
+      expect(verifyExportToken(token, NOW)).toEqual({ ok: false, error: "INVALID_TOKEN" });
+    } finally {
+      vi.stubEnv("EXPORT_SIGNING_SECRET", "test-export-secret");
+    }
+  });
+
+  it("carries a binding that only matches the owner and license it was issued for", () => {
+    const { token } = issueExportToken(record, 60, NOW);
+    const verified = verifyExportToken(token, NOW);
+    if (!verified.ok) throw new Error("token should verify");
+
+    expect(verified.claims.binding).not.toBe(exportBinding({ ...record, owner: "cus_other" }));
+    expect(verified.claims.binding).not.toBe(
+      exportBinding({ ...record, license: licenseFingerprint("LIC2.other.key") })
+    );
+    expect(verified.claims.binding).not.toBe(exportBinding({ ...record, license: null }));
+  });
+});
+
+describe("saveExport / readExportBytes", () => {
+  const file = () => ({
+    owner: "cus_owner",
+    licenseKey: "LIC2.owner.key",
+    fileName: "blueprint.pdf",
+    contentType: "application/pdf",
+    bytes: new TextEncoder().encode("%PDF-1.7 private belief notes"),
+  });
+
+  it("stores the bytes encrypted and reads them back", async () => {
+    const saved = await saveExport(file());
+    expect(saved).toMatchObject({ owner: "cus_owner", license: licenseFingerprint("LIC2.owner.key"), bytes: 29 });
+    expect(await readExportRecord(saved.id)).toEqual(saved);
+
+    const raw = await getStore().getBytes(`exports/${saved.id}.bin`);
+    expect(raw?.toString("utf8")).not.toContain("private belief notes");
+    expect((await readExportBytes(saved))?.toString("utf8")).toBe("%PDF-1.7 private belief notes");
+  });
+
+  it("returns null for tampered bytes or bytes moved to another export", async () => {
+    const a = await saveExport(file());
+    const b = await saveExport(file());
+    const store = getStore();
+
+    const sealedA = (await store.getBytes(`exports/${a.id}.bin`))!;
+    await store.putBytes(`exports/${b.id}.bin`, sealedA, "application/octet-stream");
+    expect(await readExportBytes(b)).toBeNull();
+
+    const tampered = Buffer.from(sealedA);
+    tampered[tampered.length - 1] ^= 1;
+    await store.putBytes(`exports/${a.id}.bin`, tampered, "application/octet-stream");
+    expect(await readExportBytes(a)).toBeNull();
+  });
+
+  it("ignores ids that are not export ids", async () => {
+    expect(await readExportRecord("../licenses/cus_owner")).toBeNull();
+    expect(await readExportBytes({ id: "missing" } as ExportRecord)).toBeNull();
+  });
+});
@@ -0,0 +1,240 @@
+// app/api/_lib/exports.ts
+import crypto from "crypto";
+import { ownerKeyOf, type Entitlement } from "./entitlement";
+import { getStore } from "./store";
+
+/* =========================
+   Private exports — exports/<id>.json (meta) + exports/<id>.bin (encrypted bytes)
+   ========================= */
+/**
+ * Generated files are never handed out as store URLs. The bytes are encrypted with
+ * AES-256-GCM before upload (the blob backend only offers public objects), and the
+ * only way to read them back is GET /api/exports/<id>?token=<signed link token>.
+ *
+ * Link token: EXP1.<base64url(payload)>.<base64url(hmac)>
+ *   payload = { v: 1, id, b: sha256(owner | license fingerprint), exp: <sec> }
+ *   hmac    = HMAC-SHA256("EXP1.<payload>", EXPORT_SIGNING_SECRET), first 16 bytes
+ * The binding must match the owner/license stored with the export, so a link only
+ * opens the export it was issued for, only until `exp`, and never reveals the owner.
+ *
+ * Links live EXPORT_LINK_TTL_MINUTES (default 1440 = 24h, max 7 days); files are
+ * removed by the admin cleanup after EXPORT_RETENTION_DAYS (default 30).
+ */
+
+export type ExportRecord = {
+  id: string;
+  owner: string; // ownerKeyOf(entitlement), or "anonymous" for cookie-only trials
+  license: string | null; // fingerprint of the license key that created it
+  fileName: string;
+  contentType: string;
+  bytes: number;
+  createdAt: string; // ISO
+};
+
+export type ExportTokenVerification =
+  | { ok: true; claims: { id: string; binding: string; expiresAt: string } }
+  | { ok: false; error: "INVALID_TOKEN" | "TOKEN_EXPIRED" };
+
+type TokenPayload = { v: 1; id: string; b: string; exp: number };
+
+const TOKEN_PREFIX = "EXP1";
+const SIG_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const ID_RE = /^[0-9a-f-]{36}$/i;
+const MAX_TTL_MINUTES = 7 * 24 * 60;
+
+const metaPath = (id: string) => `exports/${id}.json`;
+const dataPath = (id: string) => `exports/${id}.bin`;
+
+function signingSecret(): string {
+  const s = process.env.EXPORT_SIGNING_SECRET || process.env.LICENSE_SIGNING_SECRET;
+  if (!s) throw new Error("EXPORT_SIGNING_SECRET not set");
+  return s;
+}
+
+function sign(body: string) {
+  return crypto
+    .createHmac("sha256", signingSecret())
+    .update(body)
+    .digest()
+    .subarray(0, SIG_BYTES)
+    .toString("base64url");
+}
+
+function safeEqual(a: string, b: string) {
+  const aBuf = Buffer.from(a, "utf8");
+  const bBuf = Buffer.from(b, "utf8");
+  if (aBuf.length !== bBuf.length) return false;
+  return crypto.timingSafeEqual(aBuf, bBuf);
+}
+
+// Separate key for encryption, derived from the same secret
+function encryptionKey(): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", signingSecret(), "", "belief-blueprint/exports/v1", 32));
+}
+
+export function licenseFingerprint(licenseKey: string | null | undefined): string | null {
+  if (!licenseKey) return null;
+  return crypto.createHash("sha256").update(licenseKey).digest("base64url").slice(0, 22);
+}
+
+/** Ties a link token to the owner + license that created the export */
+export function exportBinding(record: Pick<ExportRecord, "owner" | "license">): string {
+  return crypto.createHash("sha256").update(`${record.owner}|${record.license ?? ""}`).digest("base64url").slice(0, 22);
+}
+
+export function exportLinkTtlMinutes(): number {
+  const n = Number(process.env.EXPORT_LINK_TTL_MINUTES ?? "1440");
+  return Number.isFinite(n) && n > 0 ? Math.min(MAX_TTL_MINUTES, Math.floor(n)) : 1440;
+}
+
+export function exportRetentionDays(): number {
+  const n = Number(process.env.EXPORT_RETENTION_DAYS ?? "30");
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 30;
+}
+
+/* =========================
+   Write / read
+   ========================= */
+
+export async function saveExport(input: {
+  owner: string | null;
+  licenseKey?: string | null;
+  fileName: string;
+  contentType: string;
+  bytes: Uint8Array;
+}): Promise<ExportRecord> {
+  const record: ExportRecord = {
+    id: crypto.randomUUID(),
+    owner: input.owner || "anonymous",
+    license: licenseFingerprint(input.licenseKey),
+    fileName: input.fileName,
+    contentType: input.contentType,
+    bytes: input.bytes.length,
+    createdAt: new Date().toISOString(),
+  };
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  cipher.setAAD(Buffer.from(record.id));
+  const sealed = Buffer.concat([iv, Buffer.alloc(TAG_BYTES), cipher.update(input.bytes), cipher.final()]);
+  cipher.getAuthTag().copy(sealed, IV_BYTES);
+
+  const store = getStore();
+  await store.putBytes(dataPath(record.id), sealed, "application/octet-stream");
+  await store.putJson(metaPath(record.id), record);
+  return record;
+}
+
+export async function readExportRecord(id: string): Promise<ExportRecord | null> {
+  if (!ID_RE.test(id)) return null;
+  return getStore().getJson<ExportRecord>(metaPath(id));
+}
+
+/** Decrypted bytes, or null when missing / tampered with */
+export async function readExportBytes(record: ExportRecord): Promise<Buffer | null> {
+  const sealed = await getStore().getBytes(dataPath(record.id));
+  if (!sealed || sealed.length < IV_BYTES + TAG_BYTES) return null;
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), sealed.subarray(0, IV_BYTES));
+    decipher.setAAD(Buffer.from(record.id));
+    decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  } catch {
+    return null;
+  }
+}
+
+/* =========================
+   Link tokens
+   ========================= */
+
+export function issueExportToken(
+  record: Pick<ExportRecord, "id" | "owner" | "license">,
+  ttlMinutes = exportLinkTtlMinutes(),
+  now = Date.now()
+): { token: string; expiresAt: string } {
+  const exp = Math.floor(now / 1000) + Math.max(1, Math.min(MAX_TTL_MINUTES, ttlMinutes)) * 60;
+  const payload: TokenPayload = { v: 1, id: record.id, b: exportBinding(record), exp };
+  const body = `${TOKEN_PREFIX}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+  return { token: `${body}.${sign(body)}`, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+export function verifyExportToken(token: string, now = Date.now()): ExportTokenVerification {
+  const parts = String(token || "").trim().split(".");
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) return { ok: false, error: "INVALID_TOKEN" };
+
+  const body = `${parts[0]}.${parts[1]}`;
+  if (!safeEqual(parts[2], sign(body))) return { ok: false, error: "INVALID_TOKEN" };
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, error: "INVALID_TOKEN" };
+  }
+  if (payload?.v !== 1 || !payload.id || !payload.b || typeof payload.exp !== "number") {
+    return { ok: false, error: "INVALID_TOKEN" };
+  }
+  if (payload.exp * 1000 <= now) return { ok: false, error: "TOKEN_EXPIRED" };
+
+  return {
+    ok: true,
+    claims: {
+      id: payload.id,
+      binding: payload.b,
+      expiresAt: new Date(payload.exp * 1000).toISOString(),
+    },
+  };
+}
+
+/** Absolute download link (DOMAIN when set, otherwise the request origin) */
+export function exportDownloadUrl(req: Request, id: string, token: string): string {
+  const base = (process.env.DOMAIN || new URL(req.url).origin).replace(/\/+$/, "");
+  return `${base}/api/exports/${id}?token=${encodeURIComponent(token)}`;
+}
+
+/** Store a generated file privately; returns its id and a signed, expiring link */
+export async function publishExport(
+  req: Request,
+  entitlement: Entitlement,
+  file: { fileName: string; contentType: string; bytes: Uint8Array }
+): Promise<{ exportId: string; url: string; expiresAt: string }> {
+  const record = await saveExport({ owner: ownerKeyOf(entitlement), licenseKey: entitlement.licenseKey, ...file });
+  const { token, expiresAt } = issueExportToken(record);
+  return { exportId: record.id, url: exportDownloadUrl(req, record.id, token), expiresAt };
+}
+
+/* =========================
+   Cleanup
+   ========================= */
+
+/**
+ * Delete every exports/ object older than `olderThanDays` (meta, data, and legacy
+ * public PDFs from before private exports). dryRun only reports what would go.
+ */
+export async function cleanupExports(
+  opts: { olderThanDays?: number; dryRun?: boolean; now?: number } = {}
+): Promise<{ scanned: number; deleted: number; bytesFreed: number; cutoff: string; dryRun: boolean }> {
+  const store = getStore();
+  const days = opts.olderThanDays ?? exportRetentionDays();
+  const cutoff = (opts.now ?? Date.now()) - days * 86400 * 1000;
+  const items = await store.list("exports/");
+
+  let deleted = 0;
+  let bytesFreed = 0;
+  for (const it of items) {
+    if (new Date(it.uploadedAt).getTime() >= cutoff) continue;
+    if (!opts.dryRun) await store.delete(it.key);
+    deleted++;
+    bytesFreed += it.size;
+  }
+  return {
+    scanned: items.length,
+    deleted,
+    bytesFreed,
+    cutoff: new Date(cutoff).toISOString(),
+    dryRun: Boolean(opts.dryRun),
+  };
+}
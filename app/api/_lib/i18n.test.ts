@@ -0,0 +1,26 @@
+// app/api/_lib/i18n.test.ts
+import { describe, expect, it } from "vitest";
+import { localizeError, t, themeItem, themeTitle } from "./i18n";
+
+describe("Hindi catalog lookups", () => {
+  it("translate known strings and fall back to the English source for missing ones", () => {
+    expect(themeItem("hi", "everyday_confidence", "I’m not good enough as I am")).toBe("मैं जैसा/जैसी हूँ, उतना काफ़ी नहीं हूँ");
+    expect(themeItem("hi", "everyday_confidence", "An item added after translation")).toBe("An item added after translation");
+    expect(themeItem("hi", "no_such_theme", "I’m not good enough as I am")).toBe("I’m not good enough as I am");
+    expect(themeTitle("hi", "no_such_theme", "New Theme")).toBe("New Theme");
+
+    expect(t("hi", "errors.QUERY_TOO_LONG", "'q' must be at most {max} characters.", { max: 200 })).toBe(
+      "'q' में अधिकतम 200 अक्षर हो सकते हैं।"
+    );
+    expect(t("hi", "errors.NOT_IN_CATALOG", "Missing {what}.", { what: "key" })).toBe("Missing key.");
+    expect(t("en", "errors.QUERY_TOO_LONG", "'q' must be at most {max} characters.", { max: 200 })).toBe(
+      "'q' must be at most 200 characters."
+    );
+
+    expect(localizeError("hi", { error: "NOT_IN_CATALOG", message: "English only.", status: 400 })).toEqual({
+      error: "NOT_IN_CATALOG",
+      message: "English only.",
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+// app/api/_lib/i18n.ts
+import hi from "./locales/hi.json";
+
+/* =========================
+   Locales
+   ========================= */
+/**
+ * English stays in the code as the source text; each other locale has a catalog in
+ * ./locales/<lang>.json with two parts:
+ *   - messages: message id → template ("errors.UPGRADE_REQUIRED", "plan.action.<id>.task", …)
+ *   - themes:   theme key → { title, items: { <English item>: <translation> },
+ *                             details: { <English companion text>: <translation> } }
+ *     (details = an item's reframe, counter-evidence prompts, micro-action, reflection)
+ * Lookups fall back to the English source per string, so a partial catalog (or an item an
+ * admin edited after translation) degrades to English for just that string.
+ * Templates use {name} placeholders, filled the same way for the source and the translation.
+ */
+
+export const LOCALES = ["en", "hi"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+type Catalog = {
+  messages: Record<string, string>;
+  themes: Record<string, { title?: string; items?: Record<string, string>; details?: Record<string, string> }>;
+};
+
+const CATALOGS: Record<Exclude<Locale, "en">, Catalog> = { hi };
+
+/** "hi", "HI-in", "hi_IN" → "hi"; anything unsupported → null */
+export function parseLocale(v: unknown): Locale | null {
+  const tag = String(v ?? "").trim().toLowerCase().split(/[-_]/)[0];
+  return (LOCALES as readonly string[]).includes(tag) ? (tag as Locale) : null;
+}
+
+/** ?lang= wins; else the best-weighted supported Accept-Language tag; else English */
+export function resolveLocale(req: Request): Locale {
+  try {
+    const fromQuery = parseLocale(new URL(req.url).searchParams.get("lang"));
+    if (fromQuery) return fromQuery;
+  } catch {
+    // relative/invalid URL → headers only
+  }
+
+  const ranked = (req.headers.get("accept-language") || "")
+    .split(",")
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => /^\s*q=([\d.]+)\s*$/.exec(p)).find(Boolean);
+      return { tag, q: q ? Number(q[1]) : 1, i };
+    })
+    .filter((r) => r.tag && r.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i);
+
+  for (const { tag } of ranked) {
+    const locale = parseLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/* =========================
+   Lookup
+   ========================= */
+
+function catalogOf(locale: Locale): Catalog | null {
+  return locale === "en" ? null : CATALOGS[locale];
+}
+
+function fill(template: string, vars?: Record<string, string | number>) {
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (m, name) => (name in vars ? String(vars[name]) : m));
+}
+
+/** t("hi", "errors.UPGRADE_REQUIRED", "This feature requires Pro…") → Hindi, or the English source */
+export function t(
+  locale: Locale,
+  id: string,
+  source: string,
+  vars?: Record<string, string | number>
+): string {
+  return fill(catalogOf(locale)?.messages[id] ?? source, vars);
+}
+
+export function themeTitle(locale: Locale, key: string, source: string): string {
+  return catalogOf(locale)?.themes[key]?.title ?? source;
+}
+
+export function themeItem(locale: Locale, key: string, source: string): string {
+  return catalogOf(locale)?.themes[key]?.items?.[source] ?? source;
+}
+
+export function themeDetail(locale: Locale, key: string, source: string): string {
+  return catalogOf(locale)?.themes[key]?.details?.[source] ?? source;
+}
+
+/** Every known wording of a theme item (source + translations), for matching user text */
+export function itemVariants(key: string, source: string): string[] {
+  const variants = [source];
+  for (const catalog of Object.values(CATALOGS)) {
+    const translated = catalog.themes[key]?.items?.[source];
+    if (translated) variants.push(translated);
+  }
+  return variants;
+}
+
+/** Translate `message` on an { error, message } body by its error code (other fields untouched) */
+export function localizeError<B extends { error?: string; message?: string }>(locale: Locale, body: B): B {
+  if (locale === "en" || !body.error || typeof body.message !== "string") return body;
+  return { ...body, message: t(locale, `errors.${body.error}`, body.message) };
+}
@@ -0,0 +1,86 @@
+// app/api/_lib/inference.test.ts
+import { describe, expect, it } from "vitest";
+import { computeSeverity, inferBeliefs, libraryIndex, matchEmotions, searchLibrary } from "./inference";
+
+describe("libraryIndex", () => {
+  it("attaches lexicon phrases to every seed item by id", () => {
+    const { entries } = libraryIndex();
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.every((e) => e.phrases.length > 0)).toBe(true);
+    expect(entries.find((e) => e.id === "if-i-miss-one-day-the-streak-is-ruined")?.phrases).toContain("broke my streak");
+  });
+});
+
+describe("inferBeliefs", () => {
+  it("ranks the belief whose phrases the situation uses first", () => {
+    const { candidates } = inferBeliefs({ situation: "I broke my streak again, so it's all or nothing" }, 3);
+    expect(candidates[0]).toMatchObject({
+      belief: "If I miss one day, the streak is ruined",
+      itemId: "if-i-miss-one-day-the-streak-is-ruined",
+      theme: "health_discipline",
+    });
+    expect(candidates[0].evidence).toContain("broke my streak");
+    expect(candidates[0].confidence).toBeGreaterThan(0);
+    expect(candidates[0].confidence).toBeLessThan(1);
+  });
+
+  it("is stable and honours topN", () => {
+    const input = { situation: "I'm scared to raise my prices because clients will think I'm greedy" };
+    const a = inferBeliefs(input, 2);
+    expect(a.candidates).toHaveLength(2);
+    expect(inferBeliefs(input, 2)).toEqual(a);
+    expect(a.candidates[0].belief).toBe("Charging high fees is greedy");
+  });
+
+  it("matches lexicon phrases by word form and synonym", () => {
+    const { candidates } = inferBeliefs({ situation: "I raised my rates and felt awful" });
+    expect(candidates[0].itemId).toBe("charging-high-fees-is-greedy");
+    expect(candidates[0].evidence).toContain("raised my rates");
+  });
+
+  it("agrees with searchLibrary on the same sentence", () => {
+    const sentence = "I'm scared to raise my rates for clients";
+    expect(inferBeliefs({ situation: sentence }).candidates[0].itemId).toBe("charging-high-fees-is-greedy");
+    expect(searchLibrary(sentence)[0].id).toBe("charging-high-fees-is-greedy");
+  });
+
+  it("returns no candidates when nothing matches", () => {
+    expect(inferBeliefs({ situation: "the weather is mild" }).candidates).toEqual([]);
+  });
+
+  it("doesn't treat intensifiers as belief content", () => {
+    expect(inferBeliefs({ situation: "really very so too just quite" }).candidates).toEqual([]);
+  });
+});
+
+describe("severity", () => {
+  it("rises with strong emotions and intensifiers, falls with softeners", () => {
+    const calm = computeSeverity("a bit uneasy about the meeting", "");
+    const strong = computeSeverity("I'm completely terrified of the meeting!", "panic");
+    expect(strong.score).toBeGreaterThan(calm.score);
+    expect(strong.score).toBeLessThanOrEqual(10);
+    expect(calm.score).toBeGreaterThanOrEqual(1);
+  });
+
+  it("lists the emotion words it found, strongest first", () => {
+    const found = matchEmotions("anxious and a little sad");
+    expect(found.map((f) => f.word)).toEqual(expect.arrayContaining(["anxious"]));
+    expect(found.every((f, i) => i === 0 || found[i - 1].weight >= f.weight)).toBe(true);
+  });
+});
+
+describe("searchLibrary", () => {
+  it("finds items by word form and filters by theme", () => {
+    const hits = searchLibrary("scared to raise my rates", { limit: 5 });
+    expect(hits[0].id).toBe("charging-high-fees-is-greedy");
+    expect(searchLibrary("scared to raise my rates", { theme: "learning_growth" }).every((h) => h.theme === "learning_growth")).toBe(true);
+  });
+
+  it("matches item text verbatim", () => {
+    expect(searchLibrary("body resists change")[0].id).toBe("my-body-resists-change");
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(searchLibrary("   ")).toEqual([]);
+  });
+});
@@ -0,0 +1,582 @@
+// app/api/_lib/inference.ts
+import { itemVariants } from "./i18n";
+import { getThemeItems, listThemes, type ThemeKey } from "./libs";
+import { cachedThemeLibrary } from "./theme-library";
+
+/* =========================
+   Rule-based belief inference
+   ========================= */
+/**
+ * Scores free text (situation + emotion) against every belief item in the theme library.
+ * Deterministic and dependency-free: same input → same candidates, no model calls.
+ *
+ * Score per belief =
+ *   lexicon phrase hits (BELIEF_LEXICON, multi-word phrases weigh more)
+ * + content-word overlap with the belief wording itself
+ * + a small theme-level bonus (THEME_CUES) shared by every belief in the theme
+ *
+ * Severity (1–10) comes from emotion intensity words, intensifiers and
+ * emphasis (!, CAPS), independent of which belief matched.
+ *
+ * Items are tokenized once per library version (libraryIndex); inferBeliefs and
+ * searchLibrary (/api/libraries/search) score against the same index with the same
+ * tokenizer (tokenize(): stemmed terms, synonyms folded), so a scan and a search of the
+ * same sentence agree on phrase, word and cue matches. Search only adds near misses,
+ * partial phrases and verbatim hits on top.
+ */
+
+export type BeliefCandidate = {
+  belief: string;
+  itemId: string; // library item id (GET /api/libraries/{theme}/{itemId})
+  index: number; // position in the theme's items (decides teaser vs locked)
+  theme: ThemeKey;
+  themeTitle: string;
+  confidence: number; // 0..1, rounded to 2 decimals
+  evidence: string[]; // matched phrases / words from the input
+};
+
+export type SeverityResult = {
+  score: number; // 1..10
+  evidence: string[];
+};
+
+export type InferenceResult = {
+  candidates: BeliefCandidate[];
+  severity: SeverityResult;
+};
+
+/** Returned when nothing in the input matches (kept from the original scan copy) */
+export const FALLBACK_BELIEF = "I’m not ready / I’m not enough";
+
+/* =========================
+   Lexicons
+   ========================= */
+
+// Theme-level cues: mentioning the domain nudges every belief in it
+const THEME_CUES: Partial<Record<ThemeKey, string[]>> = {
+  health_discipline: [
+    "gym", "workout", "exercise", "diet", "routine", "habit", "fitness", "weight",
+    "run", "running", "sleep", "energy", "healthy", "training",
+  ],
+  leadership_imposter: [
+    "boss", "manager", "team", "meeting", "promotion", "colleague", "coworker",
+    "lead", "leader", "presentation", "job", "role", "work", "office",
+  ],
+  money_beliefs: [
+    "money", "income", "salary", "pricing", "price", "fee", "fees", "charge",
+    "rich", "wealth", "debt", "savings", "invoice", "rate", "budget",
+  ],
+  relationships_boundaries: [
+    "partner", "friend", "family", "relationship", "boyfriend", "girlfriend",
+    "husband", "wife", "mother", "father", "parents", "dating", "boundary", "boundaries",
+  ],
+  entrepreneur_risk_tolerance: [
+    "business", "startup", "launch", "client", "clients", "customer", "product",
+    "risk", "invest", "founder", "revenue", "market", "idea", "side project",
+  ],
+  everyday_confidence: [
+    "confidence", "confident", "insecure", "self esteem", "self worth", "compare",
+    "comparing", "mistake", "mistakes", "compliment", "opinion", "awkward",
+  ],
+  learning_growth: [
+    "learn", "learning", "study", "studying", "exam", "class", "course", "skill",
+    "practice", "teacher", "school", "feedback", "beginner", "new skill",
+  ],
+};
+
+// Belief-level phrases, keyed by seed item id (ids survive wording edits and reorders)
+const BELIEF_LEXICON: Record<string, string[]> = {
+  // health_discipline
+  "i-always-fall-off-routines": ["fall off", "fell off", "can't stick", "cant stick", "never stick", "give up after", "keep quitting", "routine"],
+  "if-i-miss-one-day-the-streak-is-ruined": ["missed a day", "miss one day", "broke my streak", "streak", "ruined", "start over", "all or nothing"],
+  "healthy-food-is-joyless": ["boring food", "bland", "salad", "diet food", "cravings", "joyless", "junk food"],
+  "i-dont-have-the-discipline-others-have": ["no discipline", "lack discipline", "no willpower", "weak willed", "lazy", "others can"],
+  "my-energy-is-fixed-and-usually-low": ["tired", "exhausted", "no energy", "low energy", "drained", "always tired", "fatigue"],
+  "if-i-cant-do-a-full-workout-its-not-worth-starti": ["full workout", "not worth it", "only have 10 minutes", "only 10 minutes", "why bother", "skip the gym"],
+  "my-body-resists-change": ["plateau", "not losing", "body won't", "body wont", "genetics", "metabolism", "no results"],
+  "rest-days-mean-im-lazy": ["rest day", "rest days", "taking a break", "guilty resting", "feel lazy", "day off"],
+  "i-should-look-perfect-before-going-to-the-gym": ["embarrassed at the gym", "people staring", "out of shape", "look fit first", "ashamed of my body", "judged at the gym"],
+  "mood-must-come-before-action": ["not in the mood", "don't feel like", "dont feel like", "no motivation", "waiting for motivation", "unmotivated"],
+
+  // leadership_imposter
+  "ill-be-exposed-as-not-good-enough": ["exposed", "found out", "fraud", "imposter", "impostor", "fake it", "not good enough"],
+  "others-are-more-qualified-than-me": ["more qualified", "more experienced", "smarter than me", "less qualified", "compare myself", "everyone else knows"],
+  "if-i-speak-up-and-im-wrong-im-finished": ["speak up", "speaking up", "say something wrong", "look stupid", "stayed quiet", "stay quiet", "in the meeting"],
+  "i-must-have-all-the-answers-to-lead": ["all the answers", "don't know the answer", "dont know the answer", "should know", "expected to know"],
+  "delegation-proves-im-not-capable": ["delegate", "delegating", "hand off", "do it myself", "micromanage"],
+  "visibility-makes-me-a-target": ["visibility", "spotlight", "be seen", "attention", "target", "criticized publicly"],
+  "my-wins-are-luck-not-skill": ["just luck", "got lucky", "luck", "don't deserve", "dont deserve", "undeserved", "fluke"],
+  "asking-for-help-shows-weakness": ["ask for help", "asking for help", "weak", "weakness", "burden others", "figure it out alone"],
+  "if-i-set-boundaries-ill-be-seen-as-difficult": ["seen as difficult", "push back at work", "say no to my boss", "not a team player", "difficult"],
+  "i-have-to-overwork-to-deserve-my-role": ["overwork", "overworking", "late nights", "weekends", "burnout", "burned out", "burnt out", "prove myself"],
+
+  // money_beliefs
+  "making-more-money-means-sacrificing-my-integrity": ["sell out", "selling out", "integrity", "sleazy", "salesy", "manipulative"],
+  "im-not-the-kind-of-person-who-becomes-wealthy": ["never be rich", "not meant to be rich", "people like me", "grew up poor", "wealthy"],
+  "if-i-earn-a-lot-people-will-resent-me": ["resent me", "jealous", "judge me for earning", "look down on", "envy"],
+  "money-always-leaves-as-fast-as-it-comes": ["paycheck to paycheck", "money disappears", "can't save", "cant save", "always broke", "broke"],
+  "i-need-money-to-make-money": ["no capital", "need money to", "can't afford to start", "cant afford to start", "no funding"],
+  "charging-high-fees-is-greedy": ["raise my prices", "raise prices", "charge more", "high fees", "too expensive", "greedy", "undercharge", "pricing", "discount"],
+  "i-must-work-harder-not-smarter-to-deserve-income": ["work harder", "hustle", "deserve to be paid", "earn it", "grind"],
+  "creative-work-doesnt-pay-well": ["starving artist", "creative work", "art doesn't pay", "art doesnt pay", "writer", "designer", "musician"],
+  "im-bad-with-numbers-so-ill-fail-with-money": ["bad with numbers", "bad at math", "spreadsheets", "taxes", "accounting", "finances confuse"],
+  "i-can-either-be-spiritual-or-wealthy-not-both": ["spiritual", "money is evil", "root of all evil", "shouldn't want money", "shouldnt want money"],
+
+  // relationships_boundaries
+  "saying-no-will-make-me-unlovable": ["say no", "saying no", "can't say no", "cant say no", "people pleaser", "people pleasing", "unlovable"],
+  "if-i-share-needs-ill-be-seen-as-needy": ["needy", "my needs", "too much", "clingy", "ask for what i need"],
+  "keeping-the-peace-is-more-important-than-my-trut": ["keep the peace", "avoid conflict", "bite my tongue", "swallow", "walk on eggshells"],
+  "if-i-set-boundaries-ill-push-people-away": ["set boundaries", "setting boundaries", "boundary", "push people away", "they'll leave", "theyll leave"],
+  "love-means-fixing-the-other-person": ["fix them", "save them", "rescue", "their problems", "change them"],
+  "i-must-earn-affection-by-over-giving": ["over-giving", "overgiving", "give too much", "always giving", "taken for granted", "doing everything for"],
+  "conflict-means-the-relationship-is-failing": ["argument", "fight", "fighting", "we argued", "conflict", "breaking up"],
+  "my-worth-depends-on-their-approval": ["approval", "validation", "what they think", "disappoint them", "let them down"],
+  "i-should-tolerate-disrespect-to-avoid-being-alon": ["disrespect", "treated badly", "be alone", "being alone", "lonely", "put up with"],
+  "if-i-dont-respond-immediately-im-a-bad-partner-f": ["reply immediately", "respond right away", "texted back", "didn't reply", "didnt reply", "bad friend", "bad partner"],
+
+  // entrepreneur_risk_tolerance
+  "if-i-cant-guarantee-success-i-shouldnt-start": ["guarantee", "what if it fails", "might fail", "not sure it will work", "scared to start", "afraid to start"],
+  "failure-would-permanently-damage-my-reputation": ["reputation", "embarrass", "humiliated", "everyone will see", "public failure", "look like a failure"],
+  "i-must-wait-until-everything-is-perfect": ["perfect", "perfectionism", "not ready", "waiting until", "polish", "keep tweaking"],
+  "taking-small-risks-is-pointless": ["small steps", "small risk", "pointless", "too small to matter", "go big"],
+  "investing-in-myself-is-irresponsible": ["invest in myself", "course", "coaching", "irresponsible", "waste of money"],
+  "one-bad-month-means-the-business-is-doomed": ["bad month", "slow month", "doomed", "sales dropped", "no sales", "revenue dropped"],
+  "i-must-do-everything-myself-to-stay-safe": ["do everything myself", "can't trust", "cant trust", "hire", "hiring", "outsource"],
+  "saying-no-to-any-client-is-risky": ["turn down", "say no to a client", "bad client", "difficult client", "scope creep", "can't refuse", "cant refuse"],
+  "experiments-waste-time-i-should-spend-executing": ["experiment", "testing ideas", "waste time", "distraction", "try new things"],
+  "borrowing-credibility-is-safer-than-leading-with": ["my voice", "post online", "share my opinion", "thought leadership", "copy others", "quote others", "personal brand"],
+
+  // everyday_confidence
+  "im-not-good-enough-as-i-am": ["not good enough", "not enough", "never enough", "worthless", "inadequate"],
+  "everyone-else-has-it-figured-out-except-me": ["everyone else", "figured out", "behind everyone", "compare myself", "comparing myself", "left behind"],
+  "if-i-make-a-mistake-people-will-think-less-of-me": ["made a mistake", "make a mistake", "think less of me", "judged", "embarrassed myself"],
+  "i-need-to-feel-ready-before-i-begin": ["not ready", "feel ready", "when i'm ready", "when im ready", "someday", "procrastinate"],
+  "compliments-are-just-people-being-polite": ["compliment", "compliments", "just being nice", "being polite", "brush it off"],
+  "its-too-late-for-me-to-start": ["too late", "missed my chance", "ship has sailed", "wasted years"],
+  "my-opinion-doesnt-really-matter": ["my opinion", "stay quiet", "nobody listens", "don't speak up", "dont speak up", "keep quiet"],
+  "im-not-a-creative-person": ["not creative", "no imagination", "can't draw", "cant draw", "not artistic"],
+
+  // learning_growth
+  "im-just-not-smart-enough-for-this": ["not smart", "too stupid", "not clever", "dumb", "can't understand", "cant understand"],
+  "if-it-doesnt-come-easily-im-not-talented": ["comes easily", "not talented", "no talent", "struggling to learn", "so hard for me"],
+  "im-too-old-to-learn-something-new": ["too old", "my age", "at my age", "too late to learn"],
+  "asking-questions-makes-me-look-stupid": ["ask questions", "asking questions", "stupid question", "look stupid", "afraid to ask"],
+  "feedback-means-i-did-badly": ["feedback", "criticism", "criticised", "criticized", "corrected", "red pen"],
+  "i-have-to-master-it-before-anyone-sees-my-work": ["show my work", "share my work", "not good enough yet", "master it", "practice in secret"],
+  "some-people-are-naturals-and-im-not-one-of-them": ["naturals", "natural talent", "born with it", "gifted", "not a natural"],
+  "if-i-fail-once-i-should-quit": ["failed the exam", "failed once", "failed my test", "give up", "quit", "not cut out"],
+};
+
+/* =========================
+   Severity lexicon
+   ========================= */
+
+const INTENSITY: Array<[string, number]> = [
+  // high
+  ["hopeless", 4], ["panic", 4], ["panicking", 4], ["terrified", 4], ["devastated", 4],
+  ["worthless", 4], ["can't breathe", 4], ["cant breathe", 4], ["breaking down", 4], ["despair", 4],
+  ["overwhelmed", 3], ["ashamed", 3], ["humiliated", 3], ["furious", 3], ["dread", 3],
+  ["miserable", 3], ["crushed", 3], ["scared", 3], ["afraid", 3], ["paralyzed", 3], ["stuck", 2],
+  // medium
+  ["anxious", 2], ["anxiety", 2], ["frustrated", 2], ["guilty", 2], ["embarrassed", 2],
+  ["worried", 2], ["sad", 2], ["angry", 2], ["stressed", 2], ["insecure", 2], ["nervous", 2],
+  ["lonely", 2], ["resentful", 2], ["jealous", 2], ["exhausted", 2],
+  // low
+  ["uneasy", 1], ["annoyed", 1], ["unsure", 1], ["hesitant", 1], ["bored", 1],
+  ["tired", 1], ["meh", 1], ["disappointed", 1], ["uncomfortable", 1],
+];
+
+const INTENSIFIERS = ["very", "extremely", "so", "really", "completely", "totally", "always", "never", "constantly"];
+const SOFTENERS = ["a bit", "slightly", "kind of", "kinda", "somewhat", "a little", "mildly"];
+
+// Words the lexicon treats as one ("raise my rates" ~ "raise my prices")
+const SYNONYMS: Record<string, string> = {
+  rate: "price", rates: "price", fee: "price", fees: "price", pricing: "price",
+};
+
+const STOPWORDS = new Set([
+  "i", "me", "my", "myself", "a", "an", "the", "and", "or", "but", "if", "to", "of", "in", "on",
+  "for", "is", "am", "are", "be", "will", "it", "its", "that", "this", "with", "as", "at", "by",
+  "not", "no", "must", "should", "others", "other", "than", "more", "means", "have", "has",
+  "before", "only", "all", "one", "can", "either", "both", "their", "they", "them", "who",
+  "what", "do", "don", "t", "ll", "m", "s", "fast", "comes", "makes", "usually",
+  // intensifiers/hedges carry emotion (see INTENSIFIERS), not belief content
+  "really", "very", "so", "too", "just", "quite", "extremely", "completely", "totally", "pretty",
+]);
+
+/* =========================
+   Text helpers
+   ========================= */
+
+function normalize(text: string) {
+  return ` ${String(text || "")
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/[^a-z0-9'\-\s]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()} `;
+}
+
+// Very light stemming so "routines"/"routine", "raised"/"raise" line up
+function stem(word: string) {
+  return word
+    .replace(/'s$/, "")
+    .replace(/(ing|ed|es|s)$/, "")
+    .replace(/(.)\1$/, "$1")
+    .replace(/(.{3})e$/, "$1");
+}
+
+/** One matching term per word: synonyms folded, then stemmed (stopwords stay as typed: "quite" ≠ "quit") */
+function term(word: string) {
+  return STOPWORDS.has(word) ? word : stem(SYNONYMS[word] ?? word);
+}
+
+function words(text: string): string[] {
+  return normalize(text).replace(/'/g, " ").trim().split(" ").filter(Boolean);
+}
+
+type Tokens = { words: string[]; terms: string[] };
+
+/**
+ * Shared by scan and search: "raised my rates" → terms ["rais", "my", "pric"].
+ * Apostrophes are dropped inside words, so "can't stick" and "cant stick" match alike.
+ */
+function tokenize(text: string): Tokens {
+  const w = normalize(text).trim().split(" ").filter(Boolean);
+  return { words: w, terms: w.map((word) => term(word.replace(/'/g, ""))) };
+}
+
+// term → first word in the text that produced it (so evidence shows real words)
+function contentWords(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const w of words(text)) {
+    if (w.length <= 2 || STOPWORDS.has(w)) continue;
+    const t = term(w);
+    if (!out.has(t)) out.set(t, w);
+  }
+  return out;
+}
+
+function hasPhrase(haystack: string, phrase: string) {
+  return haystack.includes(` ${normalize(phrase).trim()} `);
+}
+
+/** The input's own words where `phraseTerms` occurs term by term, or null */
+function findPhrase(input: Tokens, phraseTerms: string[]): string | null {
+  if (!phraseTerms.length) return null;
+  for (let i = 0; i + phraseTerms.length <= input.terms.length; i++) {
+    if (phraseTerms.every((t, j) => input.terms[i + j] === t)) {
+      return input.words.slice(i, i + phraseTerms.length).join(" ");
+    }
+  }
+  return null;
+}
+
+/** Theme cues found in the input (as the input spells them), one per term: "rate"/"rates" count once */
+function themeHitsFor(input: Tokens, cues: Map<ThemeKey, string[]>): Map<ThemeKey, string[]> {
+  return new Map(
+    [...cues].map(([key, list]) => {
+      const hits = new Map<string, string>();
+      for (const cue of list) {
+        const cueTerms = tokenize(cue).terms;
+        const found = findPhrase(input, cueTerms);
+        if (found && !hits.has(cueTerms.join(" "))) hits.set(cueTerms.join(" "), found);
+      }
+      return [key, [...hits.values()]];
+    })
+  );
+}
+
+// Stems (5+ chars) one typo apart (edit distance ≤ 1), or one a prefix of the other ("confid" / "confidence")
+function nearStem(a: string, b: string) {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 5) return false;
+  if (a.startsWith(b) || b.startsWith(a)) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return (
+    a.slice(i + 1) === b.slice(i + 1) || // substitution
+    a.slice(i) === b.slice(i + 1) || // insertion
+    a.slice(i + 1) === b.slice(i) // deletion
+  );
+}
+
+/* =========================
+   Library index
+   ========================= */
+
+export type LibraryEntry = {
+  theme: ThemeKey;
+  themeTitle: string;
+  index: number; // position in the theme's items
+  id: string; // item id
+  text: string;
+  stems: Map<string, string>; // contentWords(text)
+  phrases: string[]; // BELIEF_LEXICON entries for the item id
+  phraseTerms: string[][]; // tokenize(phrase).terms, aligned with `phrases`
+  phraseStems: Map<string, string>; // content words of those phrases (search partial matches)
+  normalized: string; // normalize(text), for verbatim matches
+};
+
+let indexCache: { library: unknown; entries: LibraryEntry[]; cues: Map<ThemeKey, string[]> } | null = null;
+
+/**
+ * Every library item, tokenized, in theme order (alphabetical) then item order.
+ * Rebuilt only when the cached library changes (refreshThemes() swaps the object).
+ */
+export function libraryIndex(): { entries: LibraryEntry[]; cues: Map<ThemeKey, string[]> } {
+  const { library } = cachedThemeLibrary();
+  if (indexCache?.library === library) return indexCache;
+
+  const entries: LibraryEntry[] = [];
+  const cues = new Map<ThemeKey, string[]>();
+  for (const { key, title } of listThemes()) {
+    const items = getThemeItems(key);
+    if (!items) continue;
+    cues.set(key, THEME_CUES[key] ?? []);
+    items.forEach(({ id, text }, index) =>
+      entries.push({
+        theme: key,
+        themeTitle: title,
+        index,
+        id,
+        text,
+        stems: contentWords(text),
+        phrases: BELIEF_LEXICON[id] ?? [],
+        phraseTerms: (BELIEF_LEXICON[id] ?? []).map((phrase) => tokenize(phrase).terms),
+        phraseStems: contentWords((BELIEF_LEXICON[id] ?? []).join(" ")),
+        normalized: normalize(text),
+      })
+    );
+  }
+
+  indexCache = { library, entries, cues };
+  return indexCache;
+}
+
+/* =========================
+   Scoring
+   ========================= */
+
+const PHRASE_WEIGHT = 1.5; // single-word lexicon hit
+const MULTIWORD_BONUS = 1; // extra per additional word in a phrase hit
+const OVERLAP_WEIGHT = 0.75; // shared content word with the belief wording
+const THEME_WEIGHT = 0.5; // per theme cue hit (capped)
+const THEME_CAP = 3;
+const CONFIDENCE_K = 4; // score at which confidence = 0.5
+const FUZZY_WEIGHT = 0.4; // near-miss content word, or one word of a lexicon phrase (search only)
+const VERBATIM_WEIGHT = 2; // query appears inside the item wording (search only)
+
+function scoreBelief(
+  input: Tokens,
+  inputWords: Map<string, string>,
+  entry: LibraryEntry,
+  themeHits: string[],
+  opts: { fuzzy?: boolean } = {}
+) {
+  let score = 0;
+  const evidence: string[] = [];
+
+  for (const phraseTerms of entry.phraseTerms) {
+    const found = findPhrase(input, phraseTerms);
+    // A phrase inside an earlier hit ("rates" in "raise my rates") adds nothing
+    if (!found || evidence.some((e) => ` ${e} `.includes(` ${found} `))) continue;
+    score += PHRASE_WEIGHT + MULTIWORD_BONUS * (phraseTerms.length - 1);
+    evidence.push(found);
+  }
+
+  const inEvidence = (t: string) => evidence.some((e) => words(e).some((w) => term(w) === t));
+
+  for (const s of entry.stems.keys()) {
+    const word = inputWords.get(s);
+    if (word) {
+      score += OVERLAP_WEIGHT;
+      if (!inEvidence(s)) evidence.push(word);
+      continue;
+    }
+    if (!opts.fuzzy) continue;
+    const near = [...inputWords].find(([inputStem]) => nearStem(inputStem, s));
+    if (near) {
+      score += FUZZY_WEIGHT;
+      if (!evidence.includes(near[1])) evidence.push(near[1]);
+    }
+  }
+
+  // Search: partial lexicon phrases ("raise" alone ~ "raise my prices"), once per word
+  if (opts.fuzzy) {
+    for (const s of entry.phraseStems.keys()) {
+      if (entry.stems.has(s) || inEvidence(s)) continue;
+      const near = [...inputWords].find(([inputStem]) => nearStem(inputStem, s));
+      if (!near || evidence.includes(near[1])) continue;
+      score += FUZZY_WEIGHT;
+      evidence.push(near[1]);
+    }
+  }
+
+  if (score > 0) {
+    score += THEME_WEIGHT * Math.min(themeHits.length, THEME_CAP);
+    for (const cue of themeHits.slice(0, THEME_CAP)) {
+      if (!inEvidence(term(cue))) evidence.push(cue);
+    }
+  }
+
+  return { score, evidence };
+}
+
+/** Emotion words from the intensity lexicon found in `text` (strongest first) */
+export function matchEmotions(text: string): Array<{ word: string; weight: number }> {
+  const t = normalize(text);
+  return INTENSITY.filter(([word]) => hasPhrase(t, word))
+    .map(([word, weight]) => ({ word, weight }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+export function computeSeverity(situation: string, emotion: string): SeverityResult {
+  const raw = `${situation} ${emotion}`;
+  const text = normalize(raw);
+  const evidence: string[] = [];
+
+  let peak = 0;
+  let sum = 0;
+  for (const [word, weight] of INTENSITY) {
+    if (!hasPhrase(text, word)) continue;
+    evidence.push(word);
+    peak = Math.max(peak, weight);
+    sum += weight;
+  }
+
+  // Base 3, driven by the strongest emotion, nudged by how many were named
+  let score = 3 + peak + Math.min(2, Math.max(0, sum - peak) / 3);
+
+  const boosts = INTENSIFIERS.filter((w) => hasPhrase(text, w));
+  if (boosts.length) {
+    score += Math.min(1.5, boosts.length * 0.5);
+    evidence.push(...boosts);
+  }
+  const softs = SOFTENERS.filter((w) => hasPhrase(text, w));
+  if (softs.length) {
+    score -= Math.min(2, softs.length);
+    evidence.push(...softs);
+  }
+
+  const bangs = (raw.match(/!/g) || []).length;
+  const shouted = (raw.match(/\b[A-Z]{3,}\b/g) || []).length;
+  if (bangs || shouted) score += Math.min(1, 0.5 * bangs + 0.5 * shouted);
+
+  return { score: Math.max(1, Math.min(10, Math.round(score))), evidence };
+}
+
+/**
+ * inferBeliefs({ situation, emotion }, topN)
+ * Returns the top N belief candidates (best first). Ties break on theme order,
+ * then item order, so output is stable. Empty `candidates` = nothing matched;
+ * callers can fall back to FALLBACK_BELIEF.
+ */
+export function inferBeliefs(
+  input: { situation?: string; emotion?: string },
+  topN = 3
+): InferenceResult {
+  const situation = String(input.situation || "");
+  const emotion = String(input.emotion || "");
+  const tokens = tokenize(`${situation} ${emotion}`);
+  const inputWords = contentWords(`${situation} ${emotion}`);
+
+  const scored: Array<BeliefCandidate & { score: number; order: number }> = [];
+  const { entries, cues } = libraryIndex();
+  const themeHits = themeHitsFor(tokens, cues);
+
+  entries.forEach((entry, order) => {
+    const { score, evidence } = scoreBelief(tokens, inputWords, entry, themeHits.get(entry.theme) ?? []);
+    if (score <= 0) return;
+    scored.push({
+      belief: entry.text,
+      itemId: entry.id,
+      index: entry.index,
+      theme: entry.theme,
+      themeTitle: entry.themeTitle,
+      confidence: Number((score / (score + CONFIDENCE_K)).toFixed(2)),
+      evidence,
+      score,
+      order,
+    });
+  });
+
+  const limit = Math.max(1, Math.min(10, Math.floor(topN) || 3));
+  const candidates = scored
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ score: _score, order: _order, ...c }) => c);
+
+  return { candidates, severity: computeSeverity(situation, emotion) };
+}
+
+/* =========================
+   Library search
+   ========================= */
+
+export type LibraryMatch = {
+  theme: ThemeKey;
+  themeTitle: string;
+  index: number;
+  id: string;
+  text: string;
+  score: number; // rounded to 2 decimals; higher = better
+  confidence: number; // 0..1, same scale as inferBeliefs
+  evidence: string[];
+};
+
+export const SEARCH_MAX_RESULTS = 50;
+
+/**
+ * searchLibrary("scared to raise my rates", { limit: 10 })
+ * Same scoring as inferBeliefs plus near-miss words (typos, word forms), partial lexicon
+ * phrases, and a bonus when the query appears verbatim in an item (in any catalog language).
+ * Ties break on theme order, then item order.
+ */
+export function searchLibrary(
+  query: string,
+  opts: { limit?: number; theme?: string | null } = {}
+): LibraryMatch[] {
+  const tokens = tokenize(query);
+  const inputWords = contentWords(query);
+  const needle = normalize(query).trim();
+  const raw = String(query || "").trim().toLowerCase();
+  if (!needle && !raw) return [];
+
+  const { entries, cues } = libraryIndex();
+  const themeHits = themeHitsFor(tokens, cues);
+
+  const scored: Array<LibraryMatch & { order: number }> = [];
+  entries.forEach((entry, order) => {
+    if (opts.theme && entry.theme !== opts.theme) return;
+    let { score, evidence } = scoreBelief(tokens, inputWords, entry, themeHits.get(entry.theme) ?? [], { fuzzy: true });
+
+    const verbatim =
+      (needle.length >= 3 && entry.normalized.includes(` ${needle} `)) ||
+      (raw.length >= 3 && itemVariants(entry.theme, entry.text).some((v) => v.toLowerCase().includes(raw)));
+    if (verbatim) {
+      score += VERBATIM_WEIGHT;
+      if (!evidence.length) evidence = [String(query).trim()];
+    }
+    if (score <= 0) return;
+
+    scored.push({
+      theme: entry.theme,
+      themeTitle: entry.themeTitle,
+      index: entry.index,
+      id: entry.id,
+      text: entry.text,
+      score: Number(score.toFixed(2)),
+      confidence: Number((score / (score + CONFIDENCE_K)).toFixed(2)),
+      evidence,
+      order,
+    });
+  });
+
+  const limit = Math.max(1, Math.min(SEARCH_MAX_RESULTS, Math.floor(Number(opts.limit)) || 10));
+  return scored
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ order: _order, ...m }) => m);
+}
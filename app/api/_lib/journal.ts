@@ -0,0 +1,219 @@
+// app/api/_lib/journal.ts
+import { randomBytes } from "crypto";
+import type { ThemeKey } from "./libs";
+import { getSealedJson, putSealedJson } from "./sealed";
+import { getStore } from "./store";
+
+/* =========================
+   Belief journal — journals/<owner>/<ms13>-<hex>.bin
+   ========================= */
+/**
+ * Opt-in history of beliefs worked on: scans, reframes, plans and free-form notes.
+ * - owner = verifiedOwnerOf(entitlement) (needs a verified license or seat key)
+ * - writes only happen when the request opts in ({ journal: true })
+ * - entries are AES-256-GCM sealed (./sealed, like saved plans): the blob backend only
+ *   offers public objects; the key is derived from LICENSE_SIGNING_SECRET, the AAD is the entry path
+ * - entries older than JOURNAL_RETENTION_DAYS (default 180) are hidden, deleted on the
+ *   next list and by the daily sweep (/api/cron/cleanup); 0 disables journaling entirely
+ * The id starts with the creation time, so listing/date filters can use keys alone.
+ */
+
+export type JournalKind = "scan" | "reframe" | "plan" | "note";
+
+export type JournalEntry = {
+  id: string;
+  owner: string;
+  kind: JournalKind;
+  belief: string | null;
+  theme: ThemeKey | null;
+  note: string | null;
+  createdAt: string; // ISO
+  expiresAt: string | null; // ISO, createdAt + retention
+  data: Record<string, any>; // the route's response payload (trimmed)
+};
+
+export type JournalFilter = {
+  theme?: string | null;
+  kind?: JournalKind | null;
+  from?: Date | null;
+  to?: Date | null;
+  limit?: number;
+};
+
+export const JOURNAL_KINDS: JournalKind[] = ["scan", "reframe", "plan", "note"];
+
+const MAX_NOTE_CHARS = 4000;
+const ID_RE = /^(\d{13})-[0-9a-f]{8}$/;
+
+const journalPrefix = (owner: string) => `journals/${owner}/`;
+const journalPath = (owner: string, id: string) => `${journalPrefix(owner)}${id}.bin`;
+
+export function journalRetentionDays(): number {
+  const n = Number(process.env.JOURNAL_RETENTION_DAYS ?? "180");
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 180;
+}
+
+export function journalEnabled() {
+  return journalRetentionDays() > 0;
+}
+
+/** Opt-in flag from a JSON body ({ journal: true }) or ?journal=1 */
+export function wantsJournal(req: Request, body: any): boolean {
+  if (body?.journal === true || body?.journal === "true") return true;
+  const q = new URL(req.url).searchParams.get("journal");
+  return q === "1" || q === "true";
+}
+
+/** Decrypted entry, or null when missing / tampered with */
+async function readEntryAt(key: string): Promise<JournalEntry | null> {
+  return getSealedJson<JournalEntry>("journal", key);
+}
+
+// The stored key of an entry, or null
+async function entryKey(owner: string, id: string): Promise<string | null> {
+  const key = journalPath(owner, id);
+  return (await getStore().list(key)).some((it) => it.key === key) ? key : null;
+}
+
+function createdMsOf(id: string): number | null {
+  const m = ID_RE.exec(id);
+  return m ? Number(m[1]) : null;
+}
+
+function idFromKey(key: string) {
+  return key.slice(key.lastIndexOf("/") + 1).replace(/\.bin$/, "");
+}
+
+/* =========================
+   Write
+   ========================= */
+
+export async function addJournalEntry(
+  owner: string,
+  input: {
+    kind: JournalKind;
+    belief?: string | null;
+    theme?: ThemeKey | null;
+    note?: string | null;
+    data?: Record<string, any>;
+  }
+): Promise<JournalEntry | null> {
+  const retention = journalRetentionDays();
+  if (retention <= 0) return null;
+
+  const now = Date.now();
+  const id = `${String(now).padStart(13, "0")}-${randomBytes(4).toString("hex")}`;
+  const entry: JournalEntry = {
+    id,
+    owner,
+    kind: input.kind,
+    belief: (input.belief || "").trim() || null,
+    theme: input.theme ?? null,
+    note: String(input.note ?? "").trim().slice(0, MAX_NOTE_CHARS) || null,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + retention * 86400 * 1000).toISOString(),
+    data: input.data ?? {},
+  };
+  await putSealedJson("journal", journalPath(owner, id), entry);
+  return entry;
+}
+
+/**
+ * Journal a route result without ever failing the route:
+ * errors are logged and reported back as null.
+ */
+export async function journalSafely(
+  owner: string | null,
+  input: Parameters<typeof addJournalEntry>[1]
+): Promise<JournalEntry | null> {
+  if (!owner) return null;
+  try {
+    return await addJournalEntry(owner, input);
+  } catch (e: any) {
+    console.error("[journal] write failed:", e?.message || e);
+    return null;
+  }
+}
+
+/* =========================
+   Read / delete
+   ========================= */
+
+export async function readJournalEntry(owner: string, id: string): Promise<JournalEntry | null> {
+  const createdMs = createdMsOf(id);
+  if (createdMs === null) return null;
+  if (Date.now() - createdMs > journalRetentionDays() * 86400 * 1000) return null;
+  const key = await entryKey(owner, id);
+  return key ? readEntryAt(key) : null;
+}
+
+export async function deleteJournalEntry(owner: string, id: string): Promise<boolean> {
+  if (!ID_RE.test(id)) return false;
+  const key = await entryKey(owner, id);
+  if (!key) return false;
+  await getStore().delete(key);
+  return true;
+}
+
+export async function deleteAllJournalEntries(owner: string): Promise<number> {
+  const store = getStore();
+  const items = await store.list(journalPrefix(owner));
+  for (const it of items) await store.delete(it.key);
+  return items.length;
+}
+
+/** Newest first; expired entries are dropped from the store as they are encountered */
+export async function listJournalEntries(owner: string, filter: JournalFilter = {}): Promise<JournalEntry[]> {
+  const store = getStore();
+  const cutoff = Date.now() - journalRetentionDays() * 86400 * 1000;
+  const limit = Math.min(200, Math.max(1, filter.limit ?? 50));
+
+  const keyed = (await store.list(journalPrefix(owner)))
+    .map((it) => ({ key: it.key, ms: createdMsOf(idFromKey(it.key)) }))
+    .filter((it): it is { key: string; ms: number } => it.ms !== null)
+    .sort((a, b) => b.ms - a.ms);
+
+  const out: JournalEntry[] = [];
+  for (const it of keyed) {
+    if (it.ms < cutoff) {
+      await store.delete(it.key).catch(() => {});
+      continue;
+    }
+    if (out.length >= limit) continue; // keep walking so expired entries still get swept
+    if (filter.from && it.ms < filter.from.getTime()) continue;
+    if (filter.to && it.ms > filter.to.getTime()) continue;
+
+    const entry = await readEntryAt(it.key);
+    if (!entry) continue;
+    if (filter.theme && entry.theme !== filter.theme) continue;
+    if (filter.kind && entry.kind !== filter.kind) continue;
+    out.push(entry);
+  }
+  return out;
+}
+
+/* =========================
+   Retention sweep
+   ========================= */
+
+/**
+ * Delete every journal entry past retention, across all owners (run daily by
+ * /api/cron/cleanup, so entries expire even for owners who never list again).
+ * dryRun only reports what would go.
+ */
+export async function sweepJournals(
+  opts: { dryRun?: boolean; now?: number } = {}
+): Promise<{ scanned: number; deleted: number; cutoff: string; dryRun: boolean }> {
+  const store = getStore();
+  const cutoff = (opts.now ?? Date.now()) - journalRetentionDays() * 86400 * 1000;
+  const items = await store.list("journals/");
+
+  let deleted = 0;
+  for (const it of items) {
+    const ms = createdMsOf(idFromKey(it.key));
+    if (ms === null || ms >= cutoff) continue;
+    if (!opts.dryRun) await store.delete(it.key);
+    deleted++;
+  }
+  return { scanned: items.length, deleted, cutoff: new Date(cutoff).toISOString(), dryRun: Boolean(opts.dryRun) };
+}
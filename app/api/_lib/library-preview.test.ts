@@ -0,0 +1,37 @@
+// app/api/_lib/library-preview.test.ts
+import { describe, expect, it } from "vitest";
+import { buildThemesPreview, PREVIEW_CAP } from "./library-preview";
+import { getTheme } from "./libs";
+
+describe("buildThemesPreview", () => {
+  it("deals the same capped, teaser-only preview all UTC day and rotates at midnight", () => {
+    const morning = buildThemesPreview({ fullAccess: false, now: new Date("2026-03-01T00:00:01Z") });
+    const evening = buildThemesPreview({ fullAccess: false, now: new Date("2026-03-01T23:59:59Z") });
+    const nextDay = buildThemesPreview({ fullAccess: false, now: new Date("2026-03-02T00:00:00Z") });
+
+    expect(evening).toEqual(morning);
+    expect(nextDay.preview).not.toEqual(morning.preview);
+    expect(morning.previewMeta).toMatchObject({
+      date: "2026-03-01",
+      rotatesAt: "2026-03-02T00:00:00.000Z",
+      totalCap: PREVIEW_CAP,
+      shown: PREVIEW_CAP,
+      upgradeUrl: "/pricing",
+    });
+
+    for (const t of morning.themes) {
+      const theme = getTheme(t.key)!;
+      expect(t.visible).toBe(theme.requiresPro ? Math.min(theme.teaserItems, t.count) : t.count);
+      expect(t.locked).toBe(t.count - t.visible);
+      const entry = morning.preview.find((p) => p.theme === t.key)!;
+      const visibleTexts = theme.items.slice(0, t.visible);
+      for (const item of entry.items) expect(visibleTexts).toContain(item);
+    }
+    expect(morning.preview.reduce((n, p) => n + p.items.length, 0)).toBe(PREVIEW_CAP);
+    expect(morning.previewMeta.lockedItems).toBe(morning.themes.reduce((n, t) => n + t.locked, 0));
+
+    const pro = buildThemesPreview({ fullAccess: true, now: new Date("2026-03-01T12:00:00Z") });
+    expect(pro.previewMeta).toMatchObject({ lockedItems: 0, lockedThemes: 0 });
+    expect(pro.previewMeta).not.toHaveProperty("upgradeUrl");
+  });
+});
@@ -0,0 +1,113 @@
+// app/api/_lib/library-preview.ts
+import crypto from "crypto";
+import { themeItem, themeTitle, type Locale } from "./i18n";
+import { getTheme, listThemes, visibleItemCount } from "./libs";
+
+/* =========================
+   Theme list + daily preview for /api/libraries/themes
+   ========================= */
+/**
+ * Free callers see free themes in full and the first `teaserItems` of each Pro theme;
+ * everything else is counted as locked so the GPT can say exactly what Pro adds.
+ *
+ * The preview is a sample of at most PREVIEW_CAP visible items, dealt round-robin over
+ * the themes that have any. It rotates once per UTC day: the theme order and each theme's
+ * starting item are derived from sha256(<date>:<key>), so every caller sees the same
+ * preview on a given day and a different one the next. Titles and items are returned in
+ * `locale` (per-string English fallback); the pick itself doesn't depend on the language.
+ */
+
+export const PREVIEW_CAP = 10;
+
+export type ThemeAccess = {
+  key: string;
+  title: string;
+  count: number;
+  requiresPro: boolean;
+  visible: number; // items this caller can read
+  locked: number; // count - visible
+};
+
+export type ThemePreviewEntry = { theme: string; items: string[]; requiresPro: boolean; locked: number };
+
+export type ThemesPreview = {
+  themes: ThemeAccess[];
+  preview: ThemePreviewEntry[];
+  previewMeta: {
+    date: string; // UTC day the preview belongs to
+    rotatesAt: string; // ISO, next UTC midnight
+    totalCap: number;
+    shown: number;
+    lockedItems: number;
+    lockedThemes: number; // themes with at least one locked item
+    upgradeUrl?: string;
+  };
+};
+
+function dayHash(date: string, label: string): number {
+  return crypto.createHash("sha256").update(`${date}:${label}`).digest().readUInt32BE(0);
+}
+
+function rotate<T>(list: readonly T[], by: number): T[] {
+  if (!list.length) return [];
+  const k = by % list.length;
+  return [...list.slice(k), ...list.slice(0, k)];
+}
+
+export function buildThemesPreview(opts: { fullAccess: boolean; now?: Date; locale?: Locale }): ThemesPreview {
+  const now = opts.now ?? new Date();
+  const locale = opts.locale ?? "en";
+  const date = now.toISOString().slice(0, 10);
+  const rotatesAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+
+  const themes: ThemeAccess[] = listThemes().map(({ key, title, count }) => {
+    const visible = visibleItemCount(key, opts.fullAccess);
+    return {
+      key,
+      title: themeTitle(locale, key, title),
+      count,
+      requiresPro: getTheme(key)?.requiresPro ?? false,
+      visible,
+      locked: count - visible,
+    };
+  });
+
+  // Deal items round-robin (today's theme order, each pool from today's offset) up to the cap
+  const pools = rotate(
+    themes.filter((t) => t.visible > 0),
+    dayHash(date, "themes")
+  ).map((t) => ({ key: t.key, items: rotate((getTheme(t.key)?.items ?? []).slice(0, t.visible), dayHash(date, t.key)) }));
+  const picked = new Map<string, string[]>();
+  let shown = 0;
+  for (let round = 0; shown < PREVIEW_CAP && pools.some((p) => p.items.length > round); round++) {
+    for (const pool of pools) {
+      if (shown >= PREVIEW_CAP) break;
+      if (round >= pool.items.length) continue;
+      picked.set(pool.key, [...(picked.get(pool.key) ?? []), themeItem(locale, pool.key, pool.items[round])]);
+      shown++;
+    }
+  }
+
+  // Same shape as before ({ theme, items } for every theme, alphabetical)
+  const preview = themes.map((t) => ({
+    theme: t.key,
+    items: picked.get(t.key) ?? [],
+    requiresPro: t.requiresPro,
+    locked: t.locked,
+  }));
+
+  const lockedItems = themes.reduce((n, t) => n + t.locked, 0);
+  return {
+    themes,
+    preview,
+    previewMeta: {
+      date,
+      rotatesAt,
+      totalCap: PREVIEW_CAP,
+      shown,
+      lockedItems,
+      lockedThemes: themes.filter((t) => t.locked > 0).length,
+      ...(lockedItems ? { upgradeUrl: "/pricing" } : {}),
+    },
+  };
+}
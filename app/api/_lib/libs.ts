@@ -1,137 +1,72 @@
 // app/api/_lib/libs.ts
+import { cachedTheme, cachedThemeLibrary, type ThemeContent, type ThemeItem } from "./theme-library";
 
-// Define the libraries as a readonly object so TypeScript infers literal keys & values.
-// This lets us derive ThemeKey and Theme from the data itself (future-friendly).
-export const THEMES = {
-  health_discipline: {
-    title: "Health & Discipline",
-    requiresPro: true,
-    items: [
-      "I always fall off routines",
-      "If I miss one day, the streak is ruined",
-      "Healthy food is joyless",
-      "I don’t have the discipline others have",
-      "My energy is fixed and usually low",
-      "If I can’t do a full workout, it’s not worth starting",
-      "My body resists change",
-      "Rest days mean I’m lazy",
-      "I should look perfect before going to the gym",
-      "Mood must come before action"
-    ] as const
-  },
+// Theme content lives in the store (see theme-library.ts); these readers stay
+// synchronous against the per-instance cache. Call refreshThemes() in a route
+// before using them so admin edits show up within the cache TTL.
+export { refreshThemes } from "./theme-library";
 
-  leadership_imposter: {
-    title: "Leadership & Imposter Syndrome (corporate)",
-    requiresPro: true,
-    items: [
-      "I’ll be exposed as not good enough",
-      "Others are more qualified than me",
-      "If I speak up and I’m wrong, I’m finished",
-      "I must have all the answers to lead",
-      "Delegation proves I’m not capable",
-      "Visibility makes me a target",
-      "My wins are luck, not skill",
-      "Asking for help shows weakness",
-      "If I set boundaries, I’ll be seen as difficult",
-      "I have to overwork to deserve my role"
-    ] as const
-  },
+// Theme keys are content (themes.seed.json, admin edits), so code keyed by theme
+// (cues, profiles) must treat keys it doesn't know as "no extra data".
+export type ThemeKey = string;
+export type { ThemeItem };
 
-  // --- NEW: Pro libraries behind your existing paywall ---
-  money_beliefs: {
-    title: "Money Beliefs",
-    requiresPro: true,
-    items: [
-      "Making more money means sacrificing my integrity",
-      "I’m not the kind of person who becomes wealthy",
-      "If I earn a lot, people will resent me",
-      "Money always leaves as fast as it comes",
-      "I need money to make money",
-      "Charging high fees is greedy",
-      "I must work harder, not smarter, to deserve income",
-      "Creative work doesn’t pay well",
-      "I’m bad with numbers so I’ll fail with money",
-      "I can either be spiritual or wealthy, not both"
-    ] as const
-  },
-
-  relationships_boundaries: {
-    title: "Relationships & Boundaries",
-    requiresPro: true,
-    items: [
-      "Saying no will make me unlovable",
-      "If I share needs, I’ll be seen as needy",
-      "Keeping the peace is more important than my truth",
-      "If I set boundaries, I’ll push people away",
-      "Love means fixing the other person",
-      "I must earn affection by over-giving",
-      "Conflict means the relationship is failing",
-      "My worth depends on their approval",
-      "I should tolerate disrespect to avoid being alone",
-      "If I don’t respond immediately, I’m a bad partner/friend"
-    ] as const
-  },
-
-  entrepreneur_risk_tolerance: {
-    title: "Entrepreneur Risk Tolerance",
-    requiresPro: true,
-    items: [
-      "If I can’t guarantee success, I shouldn’t start",
-      "Failure would permanently damage my reputation",
-      "I must wait until everything is perfect",
-      "Taking small risks is pointless",
-      "Investing in myself is irresponsible",
-      "One bad month means the business is doomed",
-      "I must do everything myself to stay safe",
-      "Saying no to any client is risky",
-      "Experiments waste time I should spend executing",
-      "Borrowing credibility is safer than leading with my voice"
-    ] as const
-  }
-} as const;
-
-// Types are derived from THEMES so you only update data, not types.
-export type ThemeKey = keyof typeof THEMES;
-export type Theme = (typeof THEMES)[ThemeKey];
+// Item wording only; getThemeItems() has the ids and companion content.
+export type Theme = Omit<ThemeContent, "items"> & { items: string[] };
 
 // Return a stable (alphabetically) list of themes with counts.
 // Stable ordering ensures preview allocation doesn’t shuffle when adding themes.
 export function listThemes(): Array<{ key: ThemeKey; title: string; count: number }> {
-  return (Object.keys(THEMES) as ThemeKey[])
-    .sort((a, b) => a.localeCompare(b))
-    .map((key) => {
-      const t = THEMES[key];
-      return { key, title: t.title, count: t.items.length };
-    });
+  return cachedThemeLibrary()
+    .library.themes.map((t) => ({ key: t.key, title: t.title, count: t.items.length }))
+    .sort((a, b) => a.key.localeCompare(b.key));
 }
 
 // Defensive get: returns undefined for unknown keys.
 // Callers (routes) can respond with 404 if this returns undefined.
 export function getTheme(key: string): Theme | undefined {
-  // Use an indexed access with a widened Record type for safety when key is string.
-  const rec: Record<string, Theme> = THEMES as unknown as Record<string, Theme>;
-  return rec[key];
+  const t = cachedTheme(key);
+  return t
+    ? { title: t.title, requiresPro: t.requiresPro, teaserItems: t.teaserItems, items: t.items.map((i) => i.text) }
+    : undefined;
 }
 
-// --- Optional helpers (non-breaking) ---
+// Full item records (id, text, companion content) in theme order; undefined for unknown keys.
+export function getThemeItems(key: string): readonly ThemeItem[] | undefined {
+  return cachedTheme(key)?.items;
+}
 
-// Tiny type guard to check for a boolean `requiresPro` on a theme object
-function hasRequiresPro(t: unknown): t is { requiresPro: boolean } {
-  return (
-    typeof t === "object" &&
-    t !== null &&
-    "requiresPro" in t &&
-    typeof (t as any).requiresPro === "boolean"
-  );
+// Look an item up by id across all themes (ids are unique library-wide).
+export function findThemeItem(itemId: string): { theme: ThemeKey; index: number; item: ThemeItem } | undefined {
+  for (const t of cachedThemeLibrary().library.themes) {
+    const index = t.items.findIndex((i) => i.id === itemId);
+    if (index >= 0) return { theme: t.key, index, item: t.items[index] };
+  }
+  return undefined;
 }
 
 // Quick check for paywall gating in routes/actions.
 export function isProTheme(key: string): boolean {
-  const theme = getTheme(key);
-  return hasRequiresPro(theme) ? theme.requiresPro : false;
+  return getTheme(key)?.requiresPro ?? false;
 }
 
 // List only Pro-gated themes (useful for admin panels or UI badges).
 export function listProThemes(): Array<{ key: ThemeKey; title: string; count: number }> {
   return listThemes().filter(({ key }) => isProTheme(key));
 }
+
+// --- Teasers for free callers ---
+
+// Items a caller may read: all of a free theme (or with full access), else the Pro teaser.
+export function visibleItemCount(key: string, fullAccess: boolean): number {
+  const theme = getTheme(key);
+  if (!theme) return 0;
+  if (fullAccess || !theme.requiresPro) return theme.items.length;
+  return Math.min(theme.teaserItems, theme.items.length);
+}
+
+// Locked wording: keeps the first word, blanks the rest letter-for-letter ("Others ••• ••••").
+export function maskItem(text: string): string {
+  const [first = "", ...rest] = text.split(" ");
+  return [first, ...rest.map((w) => w.replace(/[\p{L}\p{N}]\p{M}*/gu, "•"))].join(" ");
+}
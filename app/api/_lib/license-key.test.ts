@@ -0,0 +1,83 @@
+// app/api/_lib/license-key.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { issueLicenseKey, parseLicenseKey, verifyLicenseKey } from "./license-key";
+import { saveLicenseRecord } from "./licenses";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("license-key", { LICENSE_SIGNING_SECRET: "test-secret" });
+
+describe("signed keys", () => {
+  it("round-trips claims through issue and verify", async () => {
+    const issuedAt = new Date("2026-01-01T00:00:00Z");
+    const key = issueLicenseKey("cus_abc123", { issuedAt });
+    expect(key.startsWith("LIC2.")).toBe(true);
+
+    const result = await verifyLicenseKey(key);
+    expect(result).toEqual({
+      ok: true,
+      claims: {
+        format: "signed",
+        customerId: "cus_abc123",
+        plan: "pro",
+        issuedAt: issuedAt.toISOString(),
+        expiresAt: null,
+        seat: null,
+      },
+    });
+  });
+
+  it("carries the seat email of team keys", async () => {
+    const result = await verifyLicenseKey(issueLicenseKey("cus_team1", { seat: "member@example.com" }));
+    expect(result.ok && result.claims.seat).toBe("member@example.com");
+  });
+
+  it("rejects a tampered payload", async () => {
+    const [prefix, , sig] = issueLicenseKey("cus_abc123").split(".");
+    const forged = Buffer.from(JSON.stringify({ v: 1, c: "cus_other", p: "pro", iat: 1 })).toString("base64url");
+    expect(await verifyLicenseKey(`${prefix}.${forged}.${sig}`)).toEqual({
+      ok: false,
+      error: "INVALID_LICENSE",
+      customerId: "cus_other",
+    });
+  });
+
+  it("rejects keys signed with another secret", async () => {
+    vi.stubEnv("LICENSE_SIGNING_SECRET", "other-secret");
+    const key = issueLicenseKey("cus_abc123");
+    vi.stubEnv("LICENSE_SIGNING_SECRET", "test-secret");
+    expect(await verifyLicenseKey(key)).toMatchObject({ ok: false, error: "INVALID_LICENSE" });
+  });
+
+  it("reports expired keys", async () => {
+    const key = issueLicenseKey("cus_abc123", { expiresAt: Date.now() - 1000 });
+    expect(await verifyLicenseKey(key)).toEqual({ ok: false, error: "LICENSE_EXPIRED", customerId: "cus_abc123" });
+  });
+});
+
+describe("legacy keys", () => {
+  const legacyKey = "LIC-PRO-cus_legacy1-ABCDEF12";
+
+  it("parse without verification", () => {
+    expect(parseLicenseKey(legacyKey)).toMatchObject({ format: "legacy", customerId: "cus_legacy1" });
+  });
+
+  it("are refused unless they match the stored record", async () => {
+    expect(await verifyLicenseKey(legacyKey)).toEqual({
+      ok: false,
+      error: "INVALID_LICENSE",
+      customerId: "cus_legacy1",
+    });
+  });
+
+  it("are accepted once the stored record holds the same key", async () => {
+    await saveLicenseRecord({ customerId: "cus_legacy1", licenseKey: legacyKey, source: "test", writeHistory: false });
+    expect(await verifyLicenseKey(legacyKey)).toMatchObject({ ok: true, claims: { format: "legacy" } });
+  });
+});
+
+describe("unparseable input", () => {
+  it("is reported as the legacy format error", async () => {
+    expect(await verifyLicenseKey("not-a-key")).toEqual({ ok: false, error: "LEGACY_LICENSE_FORMAT" });
+    expect(parseLicenseKey("LIC2.bad.sig")).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+// app/api/_lib/license-key.ts
+import crypto from "crypto";
+import { readLicenseRecord } from "./licenses";
+
+/* =========================
+   Formats
+   ========================= */
+/**
+ * Signed (current):  LIC2.<base64url(payload)>.<base64url(hmac)>
+ *   payload = { v: 1, c: "cus_...", p: "pro", iat: <sec>, exp?: <sec>, s?: "<member email>" }
+ *   hmac    = HMAC-SHA256("LIC2.<payload>", LICENSE_SIGNING_SECRET), first 16 bytes
+ *   → verifiable offline, no Stripe or store round trip.
+ *   `s` marks a team seat key (see ./teams): it also needs the seat to still be assigned.
+ *
+ * Legacy:            LIC-PRO-cus_XXXX-ABCDEFGH
+ *   → accepted only if it matches the licenseKey stored in licenses/<cus>.json,
+ *     so knowing a customer id is no longer enough to forge a key.
+ */
+const SIGNED_PREFIX = "LIC2";
+const SIG_BYTES = 16;
+const LEGACY_RE = /^LIC-PRO-(cus_[A-Za-z0-9]+)-([A-F0-9]{8})$/i;
+
+export type LicensePlan = "pro";
+
+export type LicenseClaims = {
+  format: "signed" | "legacy";
+  customerId: string;
+  plan: LicensePlan;
+  issuedAt: string | null; // ISO; unknown for legacy keys
+  expiresAt: string | null; // ISO; null = follows the subscription
+  seat: string | null; // team seat keys: the member's email
+};
+
+export type LicenseVerification =
+  | { ok: true; claims: LicenseClaims }
+  | {
+      ok: false;
+      error: "LEGACY_LICENSE_FORMAT" | "INVALID_LICENSE" | "LICENSE_EXPIRED";
+      customerId?: string;
+    };
+
+type SignedPayload = { v: 1; c: string; p: LicensePlan; iat: number; exp?: number; s?: string };
+
+function signingSecret(): string {
+  const s = process.env.LICENSE_SIGNING_SECRET;
+  if (!s) throw new Error("LICENSE_SIGNING_SECRET not set");
+  return s;
+}
+
+function sign(body: string) {
+  return crypto
+    .createHmac("sha256", signingSecret())
+    .update(body)
+    .digest()
+    .subarray(0, SIG_BYTES)
+    .toString("base64url");
+}
+
+function safeEqual(a: string, b: string) {
+  const aBuf = Buffer.from(a, "utf8");
+  const bBuf = Buffer.from(b, "utf8");
+  if (aBuf.length !== bBuf.length) return false;
+  return crypto.timingSafeEqual(aBuf, bBuf);
+}
+
+function toSeconds(d: Date | number) {
+  return Math.floor((typeof d === "number" ? d : d.getTime()) / 1000);
+}
+
+/* =========================
+   Issue
+   ========================= */
+
+export function issueLicenseKey(
+  customerId: string,
+  opts: { plan?: LicensePlan; expiresAt?: Date | number | null; issuedAt?: Date; seat?: string | null } = {}
+): string {
+  const payload: SignedPayload = {
+    v: 1,
+    c: customerId,
+    p: opts.plan ?? "pro",
+    iat: toSeconds(opts.issuedAt ?? new Date()),
+    ...(opts.expiresAt ? { exp: toSeconds(opts.expiresAt) } : {}),
+    ...(opts.seat ? { s: opts.seat } : {}),
+  };
+  const body = `${SIGNED_PREFIX}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+  return `${body}.${sign(body)}`;
+}
+
+/* =========================
+   Parse (no verification)
+   ========================= */
+
+function decodeSigned(key: string): { payload: SignedPayload; body: string; sig: string } | null {
+  const parts = key.split(".");
+  if (parts.length !== 3 || parts[0] !== SIGNED_PREFIX) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+    if (payload?.v !== 1 || typeof payload.c !== "string" || !payload.c.startsWith("cus_")) {
+      return null;
+    }
+    return { payload, body: `${parts[0]}.${parts[1]}`, sig: parts[2] };
+  } catch {
+    return null;
+  }
+}
+
+function claimsFromPayload(p: SignedPayload): LicenseClaims {
+  return {
+    format: "signed",
+    customerId: p.c,
+    plan: p.p,
+    issuedAt: new Date(p.iat * 1000).toISOString(),
+    expiresAt: p.exp ? new Date(p.exp * 1000).toISOString() : null,
+    seat: typeof p.s === "string" && p.s ? p.s : null,
+  };
+}
+
+/**
+ * Read the claims out of a key WITHOUT checking it. Only for trusted inputs
+ * (our own stored records, admin tools); gates must use verifyLicenseKey().
+ */
+export function parseLicenseKey(licenseKey: string | null | undefined): LicenseClaims | null {
+  const key = String(licenseKey || "").trim();
+  const signed = decodeSigned(key);
+  if (signed) return claimsFromPayload(signed.payload);
+
+  const legacy = LEGACY_RE.exec(key);
+  if (legacy) {
+    return { format: "legacy", customerId: legacy[1], plan: "pro", issuedAt: null, expiresAt: null, seat: null };
+  }
+  return null;
+}
+
+/* =========================
+   Verify
+   ========================= */
+
+export async function verifyLicenseKey(licenseKey: string): Promise<LicenseVerification> {
+  const key = String(licenseKey || "").trim();
+
+  // 1) Signed keys: check HMAC + expiry offline
+  const signed = decodeSigned(key);
+  if (signed) {
+    const claims = claimsFromPayload(signed.payload);
+    if (!safeEqual(sign(signed.body), signed.sig)) {
+      return { ok: false, error: "INVALID_LICENSE", customerId: claims.customerId };
+    }
+    if (claims.expiresAt && new Date(claims.expiresAt).getTime() <= Date.now()) {
+      return { ok: false, error: "LICENSE_EXPIRED", customerId: claims.customerId };
+    }
+    return { ok: true, claims };
+  }
+
+  // 2) Legacy keys: the random suffix must match what we issued and stored
+  const legacy = parseLicenseKey(key);
+  if (legacy) {
+    const rec = await readLicenseRecord(legacy.customerId);
+    const stored = String(rec?.licenseKey || "").trim();
+    if (stored && safeEqual(stored, key)) {
+      return { ok: true, claims: legacy };
+    }
+    return { ok: false, error: "INVALID_LICENSE", customerId: legacy.customerId };
+  }
+
+  // 3) Anything else is unparseable
+  return { ok: false, error: "LEGACY_LICENSE_FORMAT" };
+}
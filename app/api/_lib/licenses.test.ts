@@ -0,0 +1,54 @@
+// app/api/_lib/licenses.test.ts
+import { describe, expect, it } from "vitest";
+import { readLicenseRecord, readLicenseRecordByEmail, saveLicenseRecord } from "./licenses";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("licenses");
+
+describe("saveLicenseRecord event ordering", () => {
+  const customerId = "cus_order";
+
+  it("writes the latest record and the email index", async () => {
+    const saved = await saveLicenseRecord({
+      customerId,
+      licenseKey: "LIC2.key",
+      email: "buyer@example.com",
+      source: "customer.subscription.updated",
+      extra: { status: "active" },
+      eventCreated: 200,
+    });
+    expect(saved.latestWritten).toBe(true);
+    expect(await readLicenseRecordByEmail("buyer@example.com")).toMatchObject({ customerId, status: "active" });
+  });
+
+  it("keeps the newer state when an older event arrives late", async () => {
+    const late = await saveLicenseRecord({
+      customerId,
+      licenseKey: null,
+      source: "customer.subscription.updated",
+      extra: { status: "past_due" },
+      eventCreated: 100,
+      merge: true,
+    });
+    expect(late.latestWritten).toBe(false);
+    expect(await readLicenseRecord(customerId)).toMatchObject({ status: "active", eventCreated: 200 });
+  });
+
+  it("applies newer events and merges fields they don't set", async () => {
+    const next = await saveLicenseRecord({
+      customerId,
+      licenseKey: null,
+      source: "customer.subscription.deleted",
+      extra: { status: "canceled" },
+      eventCreated: 300,
+      merge: true,
+    });
+    expect(next.latestWritten).toBe(true);
+    expect(await readLicenseRecord(customerId)).toMatchObject({
+      status: "canceled",
+      eventCreated: 300,
+      licenseKey: "LIC2.key",
+      email: "buyer@example.com",
+    });
+  });
+});
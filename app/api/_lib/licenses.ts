@@ -0,0 +1,157 @@
+// app/api/_lib/licenses.ts
+import { getStore } from "./store";
+
+/* =========================
+   Key layout
+   ========================= */
+
+/** normalize email to a store-safe key: lowercased + only [a-z0-9._-] */
+export function emailKey(emailRaw: string) {
+  const e = String(emailRaw || "").trim().toLowerCase();
+  return e.replace(/[^a-z0-9._-]+/g, "_");
+}
+
+export const licensePaths = {
+  latest: (customerId: string) => `licenses/${customerId}.json`,
+  byEmail: (email: string) => `licenses_by_email/${emailKey(email)}.json`,
+  history: (customerId: string, at = Date.now()) => `licenses_history/${customerId}-${at}.json`,
+};
+
+/* =========================
+   Records
+   ========================= */
+
+/** Stored shape: { customerId, licenseKey, email, source, savedAt, ...extra } */
+export type LicenseRecord = {
+  customerId: string;
+  licenseKey: string | null;
+  email: string | null;
+  source: string;
+  savedAt: string; // ISO
+  subscriptionId?: string | null;
+  status?: string | null;
+  current_period_end?: number | null;
+  [extra: string]: any;
+};
+
+export async function readLicenseRecord(customerId: string): Promise<LicenseRecord | null> {
+  return getStore().getJson<LicenseRecord>(licensePaths.latest(customerId));
+}
+
+export async function readLicenseRecordByEmail(email: string): Promise<LicenseRecord | null> {
+  return getStore().getJson<LicenseRecord>(licensePaths.byEmail(email));
+}
+
+/**
+ * Persist a license record.
+ * - latest:  licenses/<customerId>.json (+ licenses_by_email/<emailKey>.json)
+ * - history: licenses_history/<customerId>-<ms>.json (immutable)
+ *
+ * Ordering protection: pass `eventCreated` (Stripe event.created, unix seconds).
+ * If the stored latest record came from a newer event, latest + email index are
+ * left untouched (history is still written). `merge` keeps fields of the previous
+ * latest record that this write does not set (licenseKey/email included).
+ */
+export async function saveLicenseRecord(params: {
+  customerId: string;
+  licenseKey: string | null;
+  email?: string | null;
+  source: string;
+  extra?: Record<string, any>;
+  writeLatest?: boolean;
+  writeHistory?: boolean;
+  eventCreated?: number;
+  merge?: boolean;
+}): Promise<LicenseRecord & { latestWritten: boolean }> {
+  const {
+    customerId,
+    licenseKey,
+    email = null,
+    source,
+    extra = {},
+    writeLatest = true,
+    writeHistory = true,
+    eventCreated,
+    merge = false,
+  } = params;
+
+  const store = getStore();
+  const previous =
+    writeLatest && (merge || typeof eventCreated === "number")
+      ? await readLicenseRecord(customerId)
+      : null;
+
+  const base: LicenseRecord = {
+    customerId,
+    licenseKey: licenseKey ?? (merge ? previous?.licenseKey ?? null : null),
+    email: email ?? (merge ? previous?.email ?? null : null),
+    source,
+    savedAt: new Date().toISOString(),
+    ...extra,
+    ...(typeof eventCreated === "number" ? { eventCreated } : {}),
+  };
+  const record: LicenseRecord = merge && previous ? { ...previous, ...base } : base;
+
+  // An older (out-of-order) event must never overwrite a newer state
+  const stale =
+    typeof eventCreated === "number" &&
+    typeof previous?.eventCreated === "number" &&
+    previous.eventCreated > eventCreated;
+
+  const logWrite = (label: string, url: string | null) => {
+    try {
+      const u = new URL(url || "");
+      const sub = u.host.split(".")[0];
+      console.log(`[STORE] ${label}`, { url, storeSubdomain: sub || store.driver });
+    } catch {
+      console.log(`[STORE] ${label}`, { url });
+    }
+  };
+
+  const latestWritten = writeLatest && !stale;
+  if (latestWritten) {
+    const latest = await store.putJson(licensePaths.latest(customerId), record);
+    logWrite("wrote latest", latest.url);
+
+    if (record.email) {
+      const byEmail = await store.putJson(licensePaths.byEmail(record.email), record);
+      logWrite("wrote email index", byEmail.url);
+    }
+  } else if (writeLatest) {
+    console.log("[STORE] skipped latest (newer event already stored)", {
+      customerId,
+      source,
+      eventCreated,
+      storedEventCreated: previous?.eventCreated,
+    });
+  }
+
+  if (writeHistory) {
+    const hist = await store.putJson(licensePaths.history(customerId), record);
+    logWrite("wrote history", hist.url);
+  }
+
+  return { ...record, latestWritten };
+}
+
+/**
+ * Merge fields into the latest record without writing history
+ * (cache refreshes, bookkeeping). Creates a minimal record if none exists.
+ */
+export async function patchLicenseRecord(
+  customerId: string,
+  patch: Record<string, any>
+): Promise<LicenseRecord> {
+  const existing = await readLicenseRecord(customerId);
+  const record: LicenseRecord = {
+    customerId,
+    licenseKey: null,
+    email: null,
+    source: "patch",
+    savedAt: new Date().toISOString(),
+    ...(existing || {}),
+    ...patch,
+  };
+  await getStore().putJson(licensePaths.latest(customerId), record);
+  return record;
+}
@@ -0,0 +1,77 @@
+// app/api/_lib/linguistics.test.ts
+import { describe, expect, it } from "vitest";
+import { detectPatterns, personalReframe, softenBelief } from "./linguistics";
+
+describe("detectPatterns", () => {
+  it("finds each pattern with the cue as written", () => {
+    expect(detectPatterns("I always fall off routines")).toEqual([{ pattern: "universal", cue: "always" }]);
+    expect(detectPatterns("Mood must come before action")).toEqual([{ pattern: "modal", cue: "must" }]);
+    expect(detectPatterns("Delegation proves I’m not capable")).toEqual([{ pattern: "complex_equivalence", cue: "proves" }]);
+    expect(detectPatterns("If I earn a lot, people will resent me").map((m) => m.pattern)).toEqual([
+      "mind_reading",
+      "cause_effect",
+    ]);
+  });
+
+  it("returns nothing for plain statements", () => {
+    expect(detectPatterns("Healthy food is joyless")).toEqual([]);
+  });
+});
+
+describe("softenBelief", () => {
+  it("softens absolutes", () => {
+    expect(softenBelief("I always fall off routines.")).toBe("I sometimes fall off routines");
+    expect(softenBelief("Nobody listens to me")).toBe("Some people listen to me");
+    expect(softenBelief("No one respects me")).toBe("Some people respect me");
+    expect(softenBelief("I think no one else cares")).toBe("I think some other people care");
+  });
+
+  it("keeps 'never' grammatical", () => {
+    expect(softenBelief("It never works out for me")).toBe("It doesn’t always work out for me");
+    expect(softenBelief("My plans never work")).toBe("My plans don’t always work");
+    expect(softenBelief("I never finish anything")).toBe("I don’t always finish anything");
+    expect(softenBelief("It never is easy")).toBe("It isn’t always easy");
+  });
+
+  it("turns necessity into choice with matching agreement", () => {
+    expect(softenBelief("I must have all the answers")).toBe("I don’t have to have all the answers");
+    expect(softenBelief("Mood must come before action")).toBe("Mood doesn’t have to come before action");
+    expect(softenBelief("I need to feel ready")).toBe("I don’t need to feel ready");
+  });
+
+  it("drops the quantifier that follows a modal", () => {
+    expect(softenBelief("I must always be perfect")).toBe("I don’t have to be perfect");
+    expect(softenBelief("I should never ask for help")).toBe("I can sometimes ask for help");
+  });
+
+  it("makes 'everyone (else)' plural and moves the verb along", () => {
+    expect(softenBelief("Everyone else has it figured out except me")).toBe("Some other people have it figured out except me");
+    expect(softenBelief("everyone knows more than me")).toBe("some people know more than me");
+    expect(softenBelief("Everybody else always watches me")).toBe("Some other people sometimes watch me");
+    expect(softenBelief("Everyone else isn’t scared")).toBe("Some other people aren’t scared");
+  });
+});
+
+describe("personalReframe", () => {
+  it("questions equivalences", () => {
+    expect(personalReframe("Rest days mean I’m lazy")).toBe(
+      "Rest days don’t have to mean I’m lazy — that’s one meaning I learned, not a fact."
+    );
+  });
+
+  it("separates cause from effect and adds the mind-reading clause", () => {
+    expect(personalReframe("If I set boundaries, I’ll be seen as difficult")).toBe(
+      "Even if I set boundaries, it doesn’t follow that I’ll be seen as difficult — I get to choose my next step. " +
+        "I can’t know what others will think; I can ask, and act on what matters to me."
+    );
+  });
+
+  it("falls back to a softened sentence, then to a neutral one", () => {
+    expect(personalReframe("I always fall off routines")).toBe(
+      "I sometimes fall off routines, and that leaves room to act differently today."
+    );
+    expect(personalReframe("Healthy food is joyless")).toBe(
+      "“Healthy food is joyless” is a thought I’ve practiced, not a verdict — I can take one useful step today anyway."
+    );
+  });
+});
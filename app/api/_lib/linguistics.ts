@@ -0,0 +1,186 @@
+// app/api/_lib/linguistics.ts
+
+/* =========================
+   Belief language patterns (Meta-Model style)
+   ========================= */
+/**
+ * Detects the linguistic shape of a belief sentence so reframes can target it:
+ * - universal            → always / never / everyone / nothing …
+ * - modal                → must / should / have to / can't …
+ * - mind_reading         → claims about what others think or will do
+ * - cause_effect         → "If X, Y", "X makes me Y", "so I'll …"
+ * - complex_equivalence  → "X means Y", "X proves Y", "X shows Y"
+ * Pure string rules: deterministic, no dependencies.
+ */
+
+export type BeliefPattern =
+  | "universal"
+  | "modal"
+  | "mind_reading"
+  | "cause_effect"
+  | "complex_equivalence";
+
+export type PatternMatch = {
+  pattern: BeliefPattern;
+  cue: string; // the word/phrase that triggered it, as written
+};
+
+const RULES: Array<{ pattern: BeliefPattern; re: RegExp }> = [
+  {
+    pattern: "universal",
+    re: /\b(always|never|every(?:one|body|thing| time)?|nobody|no one|nothing|any(?:one|thing)?)\b/i,
+  },
+  {
+    pattern: "modal",
+    re: /\b(must|should(?:n't)?|have to|has to|need to|ought to|can't|cannot|can’t)\b/i,
+  },
+  {
+    pattern: "mind_reading",
+    re: /\b(?:(?:people|they|others|everyone|he|she|their)\b[^,.]*?\b(?:will|would|think|thinks|judge|resent|see|leave|reject)\b|(?:be|been|being) seen as|push people away|their approval|exposed)/i,
+  },
+  {
+    pattern: "cause_effect",
+    re: /^\s*(if)\b|\b(makes? me|because|so i(?:'|’)ll|leads? to)\b/i,
+  },
+  {
+    pattern: "complex_equivalence",
+    re: /\b(means?|proves?|shows?|equals?)\b/i,
+  },
+];
+
+export function detectPatterns(belief: string): PatternMatch[] {
+  const text = String(belief || "");
+  const out: PatternMatch[] = [];
+  for (const { pattern, re } of RULES) {
+    const m = re.exec(text);
+    if (m) out.push({ pattern, cue: (m[1] || m[0]).trim() });
+  }
+  return out;
+}
+
+/* =========================
+   Rewrites
+   ========================= */
+
+const SOFTEN: Array<[RegExp, string]> = [
+  [/\balways\b/gi, "sometimes"],
+  [/\beverything\b/gi, "some things"],
+];
+
+// "Everyone (else) has X" / "No one respects me" → "some (other) people have X" / "some people respect me":
+// the subject turns plural, so the verb follows
+const UNIVERSAL = /\b(everyone|everybody|nobody|no one)(\s+else)?(\s+(?:always|sometimes|never|often|usually|really|just|also|still))?(?:\s+([\w’']+))?/gi;
+const PLURAL_VERBS: Record<string, string> = {
+  has: "have", is: "are", was: "were", does: "do",
+  "doesn’t": "don’t", "doesn't": "don't", "isn’t": "aren’t", "isn't": "aren't", "wasn’t": "weren’t", "wasn't": "weren't",
+};
+const NOT_VERBS = new Set(["sometimes", "perhaps", "unless", "thus"]);
+
+function pluralVerb(word: string): string {
+  const lower = word.toLowerCase();
+  if (PLURAL_VERBS[lower]) return PLURAL_VERBS[lower];
+  if (NOT_VERBS.has(lower) || !/[a-z]s$/.test(lower) || /ss$/.test(lower)) return word;
+  if (/[^aeiou]ies$/.test(lower)) return word.slice(0, -3) + "y"; // tries → try
+  if (/(sh|ch|x|z|ss)es$/.test(lower)) return word.slice(0, -2); // watches → watch
+  return word.slice(0, -1); // knows → know
+}
+
+function softenUniversal(text: string): string {
+  return text.replace(UNIVERSAL, (_m, who: string, other?: string, adverb?: string, next?: string) => {
+    let subject = other ? "some other people" : "some people";
+    if (/^[A-Z]/.test(who)) subject = subject.charAt(0).toUpperCase() + subject.slice(1);
+    return `${subject}${adverb ?? ""}${next ? ` ${pluralVerb(next)}` : ""}`;
+  });
+}
+
+// "I must X" → "I don’t have to X"; "Mood must X" → "Mood doesn’t have to X";
+// a quantifier right after the modal goes with it: "I must always X" → "I don’t have to X",
+// "I must never X" → "I can sometimes X"
+const NECESSITY = /\b(\w+)\s+(must|should|have to|has to|need to|needs to|ought to)(?:\s+(always|never))?\b/gi;
+const PLURAL_SUBJECTS = new Set(["i", "we", "you", "they"]);
+
+function softenNecessity(text: string): string {
+  return text.replace(NECESSITY, (_m, subject: string, modal: string, quantifier?: string) => {
+    if (quantifier?.toLowerCase() === "never") return `${subject} can sometimes`;
+    const need = /^need/i.test(modal) ? "need to" : "have to";
+    const aux = PLURAL_SUBJECTS.has(subject.toLowerCase()) ? "don’t" : "doesn’t";
+    return `${subject} ${aux} ${need}`;
+  });
+}
+
+// "It never works out" → "It doesn’t always work out": "doesn’t" takes the bare verb, like pluralVerb
+const NEVER = /\b(\w+)\s+never\s+([\w’']+)/gi;
+const AUXILIARIES = new Set(["will", "would", "can", "could", "may", "might", "shall", "do", "does", "did"]);
+const BE_VERBS = new Set(["is", "are", "was", "were"]);
+
+function softenNever(text: string): string {
+  return text.replace(NEVER, (_m, before: string, verb: string) => {
+    if (AUXILIARIES.has(before.toLowerCase())) return `${before} not always ${verb}`;
+    if (BE_VERBS.has(verb.toLowerCase())) return `${before} ${verb}n’t always`;
+    const bare = pluralVerb(verb);
+    const aux = PLURAL_SUBJECTS.has(before.toLowerCase()) || bare === verb ? "don’t" : "doesn’t";
+    return `${before} ${aux} always ${bare}`;
+  });
+}
+
+function tidy(s: string) {
+  return s.replace(/\s+/g, " ").replace(/[.!]+$/, "").trim();
+}
+
+function lowerFirst(s: string) {
+  // keep "I" / "I’m" capitalized
+  return /^I\b/.test(s) ? s : s.charAt(0).toLowerCase() + s.slice(1);
+}
+
+/**
+ * Replace absolutes and necessity modals with workable wording.
+ * Modals go first so their quantifier goes with them; "never" goes last, after the
+ * other absolutes, since its rewrite brings in an "always" of its own.
+ */
+export function softenBelief(belief: string): string {
+  let out = softenNecessity(tidy(belief));
+  for (const [re, to] of SOFTEN) out = out.replace(re, to);
+  return softenNever(softenUniversal(out)).replace(/\bnever\b/gi, "don’t always");
+}
+
+/**
+ * One personalized reframe sentence derived from the belief text itself.
+ * Structure-first (equivalence, cause-effect), then softened absolutes/modals;
+ * mind-reading adds a "can't know what they think" clause.
+ */
+export function personalReframe(belief: string, patterns = detectPatterns(belief)): string {
+  const b = tidy(belief);
+  const has = (p: BeliefPattern) => patterns.some((m) => m.pattern === p);
+  let sentence: string | null = null;
+
+  // "X means/proves/shows Y" → X doesn't have to mean Y
+  const eq = /^(.*?)\s+(means|mean|proves|prove|shows|show)\s+(?:that\s+)?(.+)$/i.exec(b);
+  if (has("complex_equivalence") && eq) {
+    const [, x, verb, y] = eq;
+    const plural = !/s$/i.test(verb);
+    const doesnt = plural ? "don’t" : "doesn’t";
+    sentence = `${softenBelief(x)} ${doesnt} have to mean ${lowerFirst(softenBelief(y))} — that’s one meaning I learned, not a fact`;
+  }
+
+  // "If X, Y" → even if X, it doesn't follow that Y
+  const ce = /^if\s+(.+?),\s*(.+)$/i.exec(b);
+  if (!sentence && has("cause_effect") && ce) {
+    const [, x, y] = ce;
+    sentence = `Even if ${lowerFirst(softenBelief(x))}, it doesn’t follow that ${lowerFirst(softenBelief(y))} — I get to choose my next step`;
+  }
+
+  if (!sentence) {
+    const softened = softenBelief(b);
+    if (softened !== b) sentence = `${softened}, and that leaves room to act differently today`;
+  }
+
+  if (!sentence) {
+    sentence = `“${b}” is a thought I’ve practiced, not a verdict — I can take one useful step today anyway`;
+  }
+
+  if (has("mind_reading")) {
+    sentence += `. I can’t know what others will think; I can ask, and act on what matters to me`;
+  }
+
+  return `${sentence}.`;
+}
@@ -1,45 +1,25 @@
 // app/api/_lib/paywall.ts
-import Stripe from "stripe";
+import type Stripe from "stripe";
+import { parseLicenseKey } from "./license-key";
+import { isSubscriptionActive, type BillingWarning } from "./subscription";
 
 // ---- Types ----
 export type ProGateFail = {
   ok: false;
   status: number; // 402, 401, etc.
-  body: { error?: string; message: string; upgradeUrl?: string };
+  body: { error?: string; message: string; upgradeUrl?: string; warning?: BillingWarning };
 };
 
-export type ProGateOk = {
-  ok: true;
-  customerId: string; // cus_XXXX extracted from the license
-};
-
-export type ProGateResult = ProGateFail | ProGateOk;
-
-// ---- Stripe (lazy init; no Search API used) ----
-function getStripe(): Stripe {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) throw new Error("STRIPE_SECRET_KEY not set");
-  return new Stripe(key, { apiVersion: "2024-06-20" });
-}
-
-// Extract customer id from license format: LIC-PRO-cus_XXXX-ABCDEFGH
+// Extract customer id from a signed (LIC2.…) or legacy (LIC-PRO-cus_XXXX-ABCDEFGH) key.
+// Does NOT verify the key; gates use verifyLicenseKey() via ./entitlement.
 export function customerIdFromLicense(licenseKey: string): string | null {
-  const parts = (licenseKey || "").trim().split("-");
-  const candidate = parts.find((p) => p.startsWith("cus_"));
-  return candidate || null;
+  return parseLicenseKey(licenseKey)?.customerId ?? null;
 }
 
-// Check if the customer has an active/trialing subscription
-export async function hasActiveSubscription(stripe: Stripe, customerId: string): Promise<boolean> {
-  const subs = await stripe.subscriptions.list({
-    customer: customerId,
-    status: "all",
-    expand: ["data.items"],
-  });
-  const active = subs.data.find((s) =>
-    ["active", "trialing", "past_due", "unpaid"].includes(s.status)
-  );
-  return !!active && (active.status === "active" || active.status === "trialing");
+// Check if the customer has an active/trialing subscription.
+// Served from the subscription-status cache; `stripe` is kept for call-site compatibility.
+export async function hasActiveSubscription(_stripe: Stripe, customerId: string): Promise<boolean> {
+  return isSubscriptionActive(customerId);
 }
 
 // Read license key from either query (?key=...) or header (X-License-Key)
@@ -51,63 +31,5 @@ export function readLicenseFrom(req: Request): string {
   return (qp || header || "").trim();
 }
 
-// Main guard: ensure Pro subscription
-export async function requirePro(req: Request): Promise<ProGateResult> {
-  try {
-    const licenseKey = readLicenseFrom(req);
-
-    if (!licenseKey) {
-      return {
-        ok: false,
-        status: 402,
-        body: {
-          error: "UPGRADE_REQUIRED",
-          message: "Pro is required for this feature. Visit /pricing and paste your license key.",
-          upgradeUrl: "/pricing",
-        },
-      };
-    }
-
-    const cusId = customerIdFromLicense(licenseKey);
-    if (!cusId) {
-      return {
-        ok: false,
-        status: 402,
-        body: {
-          error: "LEGACY_LICENSE_FORMAT",
-          message:
-            "Your license key is from an older format. Please regenerate your license from the latest checkout success page or contact support.",
-          upgradeUrl: "/pricing",
-        },
-      };
-    }
-
-    const stripe = getStripe();
-    const active = await hasActiveSubscription(stripe, cusId);
-    if (!active) {
-      return {
-        ok: false,
-        status: 402,
-        body: {
-          error: "SUB_INACTIVE",
-          message:
-            "Your subscription isn’t active. Please renew in the billing portal or purchase a plan.",
-          upgradeUrl: "/pricing",
-        },
-      };
-    }
-
-    return { ok: true, customerId: cusId };
-  } catch (e: any) {
-    console.error("requirePro error:", e?.message || e);
-    return {
-      ok: false,
-      status: 401,
-      body: {
-        error: "PAYWALL_ERROR",
-        message: "Could not verify license at the moment. Please try again shortly.",
-      },
-    };
-    // Note: we intentionally do NOT throw; callers can safely return JSON with this.
-  }
-}
+// The Pro gate itself lives in ./entitlement (requireFeature), which resolves
+// license key, email-linked license, email trial and cookie trial in one place.
@@ -0,0 +1,506 @@
+// app/api/_lib/pdf-report.ts
+import { lookup } from "dns/promises";
+import type { IncomingMessage } from "http";
+import { get } from "https";
+import { isIP, type LookupFunction } from "net";
+import { PDFDocument, rgb, type PDFImage, type PDFPage, type RGB } from "pdf-lib";
+import type { BeliefBlueprint } from "./analysis";
+import { drawTextLine, loadPdfFonts, textWidth, wrapToWidth, type FontFace } from "./pdf-text";
+
+/* =========================
+   Belief Blueprint report → PDF
+   ========================= */
+/**
+ * Renders the extended analysis model ([Report-Local-001] analysis_payload) with the
+ * report_meta branding fields. Two passes:
+ *   1) body sections flow onto pages while their start pages are recorded
+ *   2) cover + table of contents are inserted in front, then every page after the
+ *      cover gets the running footer (footer_note + "Page n of N")
+ * Missing analysis fields simply drop their section, so partial payloads still render.
+ */
+
+export type ReportMeta = {
+  title: string;
+  prepared_for: string | null;
+  prepared_by: string | null;
+  brand: { logoUrl: string | null; accentColor: string | null };
+  footer_note: string | null;
+};
+
+export type ReportSection = { title: string; blocks: ReportBlock[] };
+
+type ReportBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; items: string[]; numbered?: boolean }
+  | { kind: "subheading"; text: string };
+
+export type RenderedReport = {
+  bytes: Uint8Array;
+  pages: number;
+  toc: Array<{ title: string; page: number }>;
+  unicodeFontsLoaded: boolean;
+  branding: { accentColor: string; logo: "embedded" | "linked" | "none" };
+};
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+const FOOTER_SPACE = 40;
+const DEFAULT_ACCENT = "#0D9488";
+const MAX_LOGO_BYTES = 1_000_000;
+
+const NAMED_COLORS: Record<string, string> = {
+  teal: "#0D9488",
+  navy: "#1E3A8A",
+  blue: "#2563EB",
+  indigo: "#4F46E5",
+  purple: "#7C3AED",
+  green: "#15803D",
+  red: "#B91C1C",
+  orange: "#C2410C",
+  gold: "#B45309",
+  gray: "#374151",
+  grey: "#374151",
+  black: "#000000",
+};
+
+/* =========================
+   Inputs
+   ========================= */
+
+const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+
+/** report_meta from the body (nested block, or the same fields at the top level) */
+export function parseReportMeta(body: any): ReportMeta {
+  const meta = body?.report_meta && typeof body.report_meta === "object" ? body.report_meta : body ?? {};
+  const brand = meta.brand && typeof meta.brand === "object" ? meta.brand : {};
+  return {
+    title: str(meta.title) ?? "Belief Blueprint Report",
+    prepared_for: str(meta.prepared_for),
+    prepared_by: str(meta.prepared_by),
+    brand: {
+      logoUrl: str(brand.logoUrl ?? meta.logoUrl),
+      accentColor: str(brand.accentColor ?? meta.accentColor),
+    },
+    footer_note: str(meta.footer_note),
+  };
+}
+
+/** "#0D9488", "#0d9", or a few color names → pdf-lib RGB (invalid input → default teal) */
+export function parseAccentColor(input: string | null): { hex: string; color: RGB } {
+  let hex = (input && NAMED_COLORS[input.toLowerCase()]) || input || DEFAULT_ACCENT;
+  if (/^#?[0-9a-f]{3}$/i.test(hex)) hex = hex.replace(/^#?(.)(.)(.)$/, "#$1$1$2$2$3$3");
+  if (!/^#?[0-9a-f]{6}$/i.test(hex)) hex = DEFAULT_ACCENT;
+  if (!hex.startsWith("#")) hex = `#${hex}`;
+  const n = parseInt(hex.slice(1), 16);
+  return { hex: hex.toUpperCase(), color: rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255) };
+}
+
+/** Loopback, private, link-local, CGNAT, multicast and unspecified ranges (v4, v6, v4-mapped v6) */
+function isPrivateAddress(ip: string): boolean {
+  const v4 = isIP(ip) === 4 ? ip : /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip)?.[1];
+  if (v4) {
+    const [a, b] = v4.split(".").map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+  const v6 = ip.toLowerCase();
+  return v6 === "::" || v6 === "::1" || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || /^ff/.test(v6) || v6.startsWith("::ffff:");
+}
+
+/** Public https URL whose host resolves only to public addresses, plus the address to connect to (else null) */
+async function publicHttpsUrl(raw: string | null): Promise<{ url: URL; address: string; family: number } | null> {
+  let url: URL;
+  try {
+    url = new URL(raw ?? "");
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" || url.username || url.password) return null;
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!host || /^localhost$|\.localhost$|\.internal$|\.local$/i.test(host)) return null;
+  const addrs = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true }).catch(() => []);
+  if (!addrs.length || addrs.some((a) => isPrivateAddress(a.address))) return null;
+  return { url, address: addrs[0].address, family: addrs[0].family };
+}
+
+/**
+ * GET over https, connecting to the already-checked address instead of resolving the
+ * host again (a second lookup could answer with a private address: DNS rebinding).
+ * The URL's host still goes out as Host and as the TLS server name.
+ */
+function getPinned(url: URL, address: string, family: number, signal: AbortSignal): Promise<IncomingMessage> {
+  const pinned: LookupFunction = (_host, options, callback) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+  return new Promise((resolve, reject) => {
+    get(url, { lookup: pinned, signal, headers: { accept: "image/png, image/jpeg" } }, resolve).on("error", reject);
+  });
+}
+
+/** Read a response body, giving up (null) once it passes `cap` bytes */
+async function readCapped(res: IncomingMessage, cap: number): Promise<Uint8Array | null> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const value of res as AsyncIterable<Uint8Array>) {
+    size += value.byteLength;
+    if (size > cap) {
+      res.destroy();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(size);
+  let at = 0;
+  for (const c of chunks) {
+    out.set(c, at);
+    at += c.byteLength;
+  }
+  return out;
+}
+
+/**
+ * Fetch a PNG/JPEG logo over https (short timeout, size-capped).
+ * Only public hosts are contacted — at the address that was checked — and redirects are
+ * refused, so a report can't be used to probe internal addresses. Content-Type must be
+ * image/png or image/jpeg and the body is streamed against MAX_LOGO_BYTES (Content-Length
+ * is checked first when present).
+ * Any failure returns null and the cover shows the URL as a label instead.
+ */
+async function fetchLogo(pdfDoc: PDFDocument, raw: string | null): Promise<PDFImage | null> {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), 4000);
+  try {
+    const target = await publicHttpsUrl(raw);
+    if (!target) return null;
+    const res = await getPinned(target.url, target.address, target.family, ctrl.signal);
+    const type = (res.headers["content-type"] || "").toLowerCase();
+    const kind = /^image\/png\b/.test(type) ? "png" : /^image\/jpe?g\b/.test(type) ? "jpg" : null;
+    const length = Number(res.headers["content-length"] || 0);
+    // 3xx included: redirects are not followed
+    const ok = res.statusCode !== undefined && res.statusCode >= 200 && res.statusCode < 300;
+    if (!ok || !kind || length > MAX_LOGO_BYTES) {
+      res.destroy();
+      return null;
+    }
+    const bytes = await readCapped(res, MAX_LOGO_BYTES);
+    if (!bytes) return null;
+    return kind === "png" ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/* =========================
+   Sections (extended model order)
+   ========================= */
+
+export function buildReportSections(a: Partial<BeliefBlueprint>): ReportSection[] {
+  const sections: ReportSection[] = [];
+  const add = (title: string, blocks: ReportBlock[]) => {
+    const kept = blocks.filter((b) => (b.kind === "list" ? b.items.length > 0 : b.text.trim().length > 0));
+    if (kept.some((b) => b.kind !== "subheading")) sections.push({ title, blocks: kept });
+  };
+  const list = (items: Array<string | null | undefined>, numbered = false): ReportBlock => ({
+    kind: "list",
+    items: items.filter((s): s is string => Boolean(s && s.trim())),
+    numbered,
+  });
+
+  const snap = a.executive_snapshot;
+  add("Executive Snapshot", [
+    { kind: "paragraph", text: a.summary ?? "" },
+    list([
+      snap?.core_identity_belief && `Core identity belief: ${snap.core_identity_belief}`,
+      snap?.competing_belief && `Competing belief: ${snap.competing_belief}`,
+      snap?.family_imprint && `Family imprint: ${snap.family_imprint}`,
+      snap?.justice_trigger && `Justice trigger: ${snap.justice_trigger}`,
+      snap?.present_contradiction && `Present contradiction: ${snap.present_contradiction}`,
+    ]),
+  ]);
+
+  add("Themes & Beliefs", [
+    { kind: "subheading", text: "Salient themes" },
+    list((a.salient_themes ?? []).map((t) => `${t.title} (weight ${t.weight})`)),
+    { kind: "subheading", text: "Limiting beliefs" },
+    list(
+      (a.limiting_beliefs ?? []).map(
+        (b) =>
+          `${b.belief} — confidence ${b.confidence}` +
+          (b.evidence_from_responses?.[0] ? `. Heard: “${b.evidence_from_responses[0].snippet}”` : "")
+      ),
+      true
+    ),
+    { kind: "subheading", text: "Supporting beliefs" },
+    list((a.supporting_beliefs ?? []).map((b) => b.belief)),
+    { kind: "subheading", text: "Emotional markers" },
+    list((a.emotional_markers ?? []).map((e) => `${e.label} (intensity ${e.intensity})`)),
+  ]);
+
+  add(
+    "Patterns",
+    (a.patterns ?? []).flatMap((p): ReportBlock[] => [
+      { kind: "subheading", text: p.name },
+      list([
+        p.pull?.length ? `Pull toward: ${p.pull.join(", ")}` : null,
+        p.push?.length ? `Push away from: ${p.push.join(", ")}` : null,
+        p.earliest_memory && `Earliest memory: ${p.earliest_memory}`,
+        p.origin && `Origin: ${p.origin}`,
+        p.effect && `Effect: ${p.effect}`,
+      ]),
+    ])
+  );
+
+  add(
+    "Belief Map",
+    (a.belief_map ?? []).flatMap((b): ReportBlock[] => [
+      { kind: "subheading", text: b.belief },
+      list([
+        b.impact && `Impact: ${b.impact}`,
+        b.language_tells?.length ? `Language tells: ${b.language_tells.join(", ")}` : null,
+        b.origin_cues?.length ? `Origin cues: ${b.origin_cues.join(" / ")}` : null,
+        b.model_tag && `Model tag: ${b.model_tag}`,
+      ]),
+    ])
+  );
+
+  add("Strengths", [list(a.strengths ?? [])]);
+
+  add(
+    "Socratic Dialogues",
+    (a.socratic_dialogues ?? []).flatMap((d): ReportBlock[] => [
+      { kind: "subheading", text: `${d.belief} (${d.pattern})` },
+      list(d.prompts ?? [], true),
+    ])
+  );
+
+  add(
+    "Reframes",
+    (a.reframes ?? []).flatMap((r): ReportBlock[] => [
+      { kind: "subheading", text: `From: ${r.from}` },
+      { kind: "paragraph", text: `To: ${r.to}` },
+      list([
+        r.why_this_matters && `Why this matters: ${r.why_this_matters}`,
+        r.meaning && `Meaning: ${r.meaning}`,
+        ...(r.actions ?? []).map((x) => `Action: ${x}`),
+        r.example && `Example: ${r.example}`,
+      ]),
+    ])
+  );
+
+  const plan = a.action_plan;
+  add("30/60/90 Action Plan", [
+    { kind: "subheading", text: "Days 1–30" },
+    list(plan?.days_1_30 ?? [], true),
+    { kind: "subheading", text: "Days 31–60" },
+    list(plan?.days_31_60 ?? [], true),
+    { kind: "subheading", text: "Days 61–90" },
+    list(plan?.days_61_90 ?? [], true),
+  ]);
+
+  add("Triggers → Swaps", [list((a.triggers_swaps ?? []).map((t) => `${t.trigger} → ${t.swap}`))]);
+
+  add("Language Cues → Challenges", [
+    list((a.language_cues_challenges ?? []).map((c) => `${c.cue} → ${c.method}`)),
+  ]);
+
+  add("Measures of Progress", [
+    list((a.measures_of_progress ?? []).map((m) => `${m.label} (${m.type}): ${m.template}`)),
+  ]);
+
+  add("Affirmations", [list(a.affirmations ?? [])]);
+
+  add("Recommendations", [list(a.recommendations ?? [], true)]);
+
+  return sections;
+}
+
+/* =========================
+   Render
+   ========================= */
+
+export async function renderReportPdf(
+  analysis: Partial<BeliefBlueprint>,
+  meta: ReportMeta,
+  generatedAt = new Date()
+): Promise<RenderedReport> {
+  const pdfDoc = await PDFDocument.create();
+  const fonts = await loadPdfFonts(pdfDoc);
+  const accent = parseAccentColor(meta.brand.accentColor);
+  const logo = await fetchLogo(pdfDoc, meta.brand.logoUrl);
+  const black = rgb(0, 0, 0);
+  const grey = rgb(0.4, 0.4, 0.4);
+  const contentWidth = A4[0] - 2 * MARGIN;
+
+  pdfDoc.setTitle(meta.title);
+  if (meta.prepared_by) pdfDoc.setAuthor(meta.prepared_by);
+
+  // 1) Body
+  const sections = buildReportSections(analysis);
+  let page: PDFPage = pdfDoc.addPage(A4);
+  let y = A4[1] - MARGIN;
+  const starts: Array<{ title: string; index: number }> = [];
+
+  function addPage() {
+    page = pdfDoc.addPage(A4);
+    y = A4[1] - MARGIN;
+  }
+  function ensure(space: number) {
+    if (y - space < MARGIN + FOOTER_SPACE) addPage();
+  }
+  function line(text: string, x: number, size: number, face: FontFace, color = black) {
+    ensure(size + 4);
+    drawTextLine(page, text, { x, y: (y -= size + 4), size, face, color });
+  }
+
+  for (const section of sections) {
+    ensure(70); // keep the heading with at least a few lines of content
+    starts.push({ title: section.title, index: pdfDoc.getPageCount() - 1 });
+    for (const l of wrapToWidth(section.title, fonts.bold, 16, contentWidth)) line(l, MARGIN, 16, fonts.bold, accent.color);
+    page.drawLine({
+      start: { x: MARGIN, y: y - 4 },
+      end: { x: A4[0] - MARGIN, y: y - 4 },
+      thickness: 1,
+      color: accent.color,
+    });
+    y -= 12;
+
+    for (const block of section.blocks) {
+      if (block.kind === "subheading") {
+        ensure(40);
+        y -= 4;
+        for (const l of wrapToWidth(block.text, fonts.bold, 12, contentWidth)) line(l, MARGIN, 12, fonts.bold);
+      } else if (block.kind === "paragraph") {
+        for (const l of wrapToWidth(block.text, fonts.regular, 11, contentWidth)) line(l, MARGIN, 11, fonts.regular);
+        y -= 4;
+      } else {
+        block.items.forEach((item, i) => {
+          const prefix = block.numbered ? `${i + 1}. ` : "• ";
+          const indent = textWidth(prefix, fonts.regular, 11);
+          wrapToWidth(item, fonts.regular, 11, contentWidth - 8 - indent).forEach((l, j) => {
+            line(l, MARGIN + 8 + indent, 11, fonts.regular);
+            if (j === 0) drawTextLine(page, prefix, { x: MARGIN + 8, y, size: 11, face: fonts.regular });
+          });
+        });
+        y -= 4;
+      }
+    }
+    y -= 10;
+  }
+
+  // 2) Cover + table of contents in front of the body
+  const tocPerPage = Math.floor((A4[1] - 2 * MARGIN - FOOTER_SPACE - 60) / 22);
+  const tocPages = Math.max(1, Math.ceil(starts.length / tocPerPage));
+  const offset = 1 + tocPages; // cover + toc pages before body page 0
+  const toc = starts.map((s) => ({ title: s.title, page: s.index + offset + 1 }));
+
+  const cover = pdfDoc.insertPage(0, A4);
+  cover.drawRectangle({ x: 0, y: A4[1] - 180, width: A4[0], height: 180, color: accent.color });
+  let cy = A4[1] - 110;
+  let titleWidth = contentWidth;
+  if (logo) {
+    const dims = logo.scaleToFit(140, 80);
+    cover.drawImage(logo, { x: A4[0] - MARGIN - dims.width, y: A4[1] - 130, width: dims.width, height: dims.height });
+    titleWidth -= dims.width + 16;
+  }
+  for (const l of wrapToWidth(meta.title, fonts.bold, 28, titleWidth).slice(0, 2)) {
+    drawTextLine(cover, l, { x: MARGIN, y: cy, size: 28, face: fonts.bold, color: rgb(1, 1, 1) });
+    cy -= 34;
+  }
+  cy = A4[1] - 240;
+  const coverLines = [
+    meta.prepared_for && `Prepared for: ${meta.prepared_for}`,
+    meta.prepared_by && `Prepared by: ${meta.prepared_by}`,
+    `Date: ${generatedAt.toISOString().slice(0, 10)}`,
+    !logo && meta.brand.logoUrl ? `Logo: ${meta.brand.logoUrl}` : null,
+  ].filter((s): s is string => Boolean(s));
+  for (const l of coverLines) {
+    for (const w of wrapToWidth(l, fonts.regular, 13, contentWidth)) {
+      drawTextLine(cover, w, { x: MARGIN, y: cy, size: 13, face: fonts.regular });
+      cy -= 20;
+    }
+  }
+  if (analysis.summary) {
+    cy -= 20;
+    for (const w of wrapToWidth(analysis.summary, fonts.regular, 12, contentWidth)) {
+      drawTextLine(cover, w, { x: MARGIN, y: cy, size: 12, face: fonts.regular, color: grey });
+      cy -= 17;
+    }
+  }
+  drawTextLine(cover, "Coaching guidance, not therapy. If distressed, use local crisis resources.", {
+    x: MARGIN,
+    y: MARGIN,
+    size: 9,
+    face: fonts.regular,
+    color: grey,
+  });
+
+  for (let p = 0; p < tocPages; p++) {
+    const tp = pdfDoc.insertPage(1 + p, A4);
+    let ty = A4[1] - MARGIN;
+    drawTextLine(tp, p ? "Contents (cont.)" : "Contents", {
+      x: MARGIN,
+      y: (ty -= 22),
+      size: 20,
+      face: fonts.bold,
+      color: accent.color,
+    });
+    ty -= 20;
+    for (const entry of toc.slice(p * tocPerPage, (p + 1) * tocPerPage)) {
+      const num = String(entry.page);
+      const numWidth = textWidth(num, fonts.regular, 12);
+      const title = fitLine(entry.title, fonts.regular, 12, contentWidth - numWidth - 40);
+      const dotsWidth = contentWidth - textWidth(title, fonts.regular, 12) - numWidth - 12;
+      const dots = ".".repeat(Math.max(0, Math.floor(dotsWidth / textWidth(".", fonts.regular, 12))));
+      ty -= 22;
+      drawTextLine(tp, `${title} ${dots}`, { x: MARGIN, y: ty, size: 12, face: fonts.regular });
+      drawTextLine(tp, num, { x: A4[0] - MARGIN - numWidth, y: ty, size: 12, face: fonts.regular });
+    }
+  }
+
+  // 3) Running footer on every page after the cover
+  const total = pdfDoc.getPageCount();
+  pdfDoc.getPages().forEach((p, i) => {
+    if (i === 0) return;
+    const label = `Page ${i + 1} of ${total}`;
+    const labelWidth = textWidth(label, fonts.regular, 9);
+    p.drawLine({
+      start: { x: MARGIN, y: MARGIN - 8 },
+      end: { x: A4[0] - MARGIN, y: MARGIN - 8 },
+      thickness: 0.5,
+      color: accent.color,
+    });
+    drawTextLine(p, fitLine(meta.footer_note ?? meta.title, fonts.regular, 9, contentWidth - labelWidth - 16), {
+      x: MARGIN,
+      y: MARGIN - 22,
+      size: 9,
+      face: fonts.regular,
+      color: grey,
+    });
+    drawTextLine(p, label, { x: A4[0] - MARGIN - labelWidth, y: MARGIN - 22, size: 9, face: fonts.regular, color: grey });
+  });
+
+  const bytes = await pdfDoc.save();
+  return {
+    bytes,
+    pages: total,
+    toc,
+    unicodeFontsLoaded: fonts.unicode,
+    branding: { accentColor: accent.hex, logo: logo ? "embedded" : meta.brand.logoUrl ? "linked" : "none" },
+  };
+}
+
+/** First wrapped line, with an ellipsis when the text had to be cut */
+function fitLine(text: string, face: FontFace, size: number, maxWidth: number): string {
+  const lines = wrapToWidth(text, face, size, maxWidth);
+  if (lines.length <= 1) return lines[0] ?? "";
+  return wrapToWidth(text, face, size, maxWidth - textWidth("…", face, size))[0] + "…";
+}
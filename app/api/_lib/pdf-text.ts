@@ -0,0 +1,230 @@
+// app/api/_lib/pdf-text.ts
+// fontkit's Indic (Devanagari) shaper expects a global regeneratorRuntime
+import "regenerator-runtime/runtime";
+import fs from "fs/promises";
+import path from "path";
+import fontkit from "@pdf-lib/fontkit";
+import { StandardFonts, rgb, type PDFDocument, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+
+/* =========================
+   Fonts + text layout shared by the PDF exporters
+   ========================= */
+/**
+ * Noto Sans (Latin, Latin Extended, Greek, Cyrillic, ₹) and Noto Sans Devanagari are
+ * embedded through fontkit (subset). A face is a priority list of fonts: text is split
+ * into runs by the font that has each glyph, so mixed English/Hindi lines draw in one call.
+ * Only characters no font covers are replaced ("→" → "->", otherwise "?").
+ * If the TTFs can't be read, Helvetica is used with the same per-glyph fallback.
+ */
+
+export type FontFace = { fonts: PDFFont[]; charsets: Array<Set<number>> };
+
+export type PdfFonts = { regular: FontFace; bold: FontFace; unicode: boolean };
+
+type TextRun = { text: string; font: PDFFont };
+
+const FONT_FILES = {
+  regular: [
+    "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf",
+    "@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf",
+  ],
+  bold: [
+    "@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf",
+    "@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf",
+  ],
+};
+
+// Replacements for glyphs the embedded fonts lack (same table the WinAnsi sanitizer used)
+const GLYPH_FALLBACKS: Record<string, string> = {
+  "≤": "<=",
+  "≥": ">=",
+  "≠": "!=",
+  "±": "+/-",
+  "→": "->",
+  "←": "<-",
+  "×": "x",
+  "–": "-",
+  "—": "-",
+  "“": '"',
+  "”": '"',
+  "‘": "'",
+  "’": "'",
+  "…": "...",
+  "₹": "Rs.",
+  "☐": "[ ]",
+};
+
+// Combining marks stay attached to the previous character when a long word is broken
+const COMBINING = /[\u0300-\u036f\u0900-\u0903\u093a-\u094f\u0951-\u0957\u0962\u0963\u200c\u200d]/;
+
+/* =========================
+   Loading
+   ========================= */
+
+const fontBytes = new Map<string, Promise<Uint8Array | null>>();
+
+function fontDir() {
+  return process.env.PDF_FONT_DIR || path.join(process.cwd(), "node_modules");
+}
+
+function readFont(file: string): Promise<Uint8Array | null> {
+  const full = path.join(fontDir(), file);
+  let p = fontBytes.get(full);
+  if (!p) {
+    p = fs.readFile(full).then(
+      (b) => new Uint8Array(b),
+      (e) => {
+        console.error("[pdf] font not available:", full, e?.code || e?.message || e);
+        fontBytes.delete(full); // retry on the next export
+        return null;
+      }
+    );
+    fontBytes.set(full, p);
+  }
+  return p;
+}
+
+function faceOf(fonts: PDFFont[]): FontFace {
+  return { fonts, charsets: fonts.map((f) => new Set(f.getCharacterSet())) };
+}
+
+/**
+ * Embed the Unicode faces (or Helvetica when the primary Latin TTF is missing).
+ * A missing Devanagari file only drops that script to the glyph fallback.
+ */
+export async function loadPdfFonts(pdfDoc: PDFDocument): Promise<PdfFonts> {
+  const [regular, bold] = await Promise.all([
+    Promise.all(FONT_FILES.regular.map(readFont)),
+    Promise.all(FONT_FILES.bold.map(readFont)),
+  ]);
+
+  if (regular[0] && bold[0]) {
+    try {
+      pdfDoc.registerFontkit(fontkit);
+      const embed = (list: Array<Uint8Array | null>) =>
+        Promise.all(
+          list.filter((b): b is Uint8Array => Boolean(b)).map((b) => pdfDoc.embedFont(b, { subset: true }))
+        );
+      return {
+        regular: faceOf(await embed(regular)),
+        bold: faceOf(await embed(bold)),
+        unicode: true,
+      };
+    } catch (e: any) {
+      console.error("[pdf] font embedding failed, using Helvetica:", e?.message || e);
+    }
+  }
+
+  return {
+    regular: faceOf([await pdfDoc.embedFont(StandardFonts.Helvetica)]),
+    bold: faceOf([await pdfDoc.embedFont(StandardFonts.HelveticaBold)]),
+    unicode: false,
+  };
+}
+
+/* =========================
+   Runs + measuring
+   ========================= */
+
+function fontIndexFor(face: FontFace, cp: number, prefer: number): number {
+  if (prefer >= 0 && face.charsets[prefer].has(cp)) return prefer;
+  return face.charsets.findIndex((set) => set.has(cp));
+}
+
+/** Split text into same-font runs; glyphs no font has are replaced or become "?" */
+export function toRuns(text: string, face: FontFace): TextRun[] {
+  const runs: Array<{ text: string; index: number }> = [];
+  let current = -1;
+
+  const push = (ch: string, index: number) => {
+    const last = runs[runs.length - 1];
+    if (last && last.index === index) last.text += ch;
+    else runs.push({ text: ch, index });
+    current = index;
+  };
+
+  for (const ch of Array.from(String(text || "").replace(/[\t\r]/g, " "))) {
+    const cp = ch.codePointAt(0)!;
+    const idx = fontIndexFor(face, cp, current);
+    if (idx >= 0) {
+      push(ch, idx);
+      continue;
+    }
+    const replacement = GLYPH_FALLBACKS[ch] ?? "?";
+    for (const r of Array.from(replacement)) {
+      const ri = fontIndexFor(face, r.codePointAt(0)!, current);
+      if (ri >= 0) push(r, ri);
+    }
+  }
+  return runs.map((r) => ({ text: r.text, font: face.fonts[r.index] }));
+}
+
+export function textWidth(text: string, face: FontFace, size: number): number {
+  return toRuns(text, face).reduce((w, r) => w + r.font.widthOfTextAtSize(r.text, size), 0);
+}
+
+/* =========================
+   Wrapping (glyph widths)
+   ========================= */
+
+function breakLongWord(word: string, face: FontFace, size: number, maxWidth: number): string[] {
+  const parts: string[] = [];
+  let cur = "";
+  for (const ch of Array.from(word)) {
+    if (cur && !COMBINING.test(ch) && textWidth(cur + ch, face, size) > maxWidth) {
+      parts.push(cur);
+      cur = "";
+    }
+    cur += ch;
+  }
+  if (cur) parts.push(cur);
+  return parts;
+}
+
+/** Wrap to a width in points; blank input lines are preserved */
+export function wrapToWidth(text: string, face: FontFace, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const rawLine of String(text || "").split("\n")) {
+    const words = rawLine.trim().split(/\s+/).filter(Boolean);
+    if (!words.length) {
+      lines.push("");
+      continue;
+    }
+    let line = "";
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, face, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      if (textWidth(word, face, size) <= maxWidth) {
+        line = word;
+      } else {
+        const pieces = breakLongWord(word, face, size, maxWidth);
+        lines.push(...pieces.slice(0, -1));
+        line = pieces[pieces.length - 1] ?? "";
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+/* =========================
+   Drawing
+   ========================= */
+
+/** Draw one line as font runs; returns the drawn width */
+export function drawTextLine(
+  page: PDFPage,
+  text: string,
+  opts: { x: number; y: number; size: number; face: FontFace; color?: RGB }
+): number {
+  let x = opts.x;
+  for (const run of toRuns(text, opts.face)) {
+    page.drawText(run.text, { x, y: opts.y, size: opts.size, font: run.font, color: opts.color ?? rgb(0, 0, 0) });
+    x += run.font.widthOfTextAtSize(run.text, opts.size);
+  }
+  return x - opts.x;
+}
@@ -0,0 +1,196 @@
+// app/api/_lib/plan-store.ts
+import { randomUUID } from "crypto";
+import type { ActionPlan } from "./action-plan";
+import { getSealedJson, putSealedJson } from "./sealed";
+import { getStore } from "./store";
+
+/* =========================
+   Saved plans + check-ins — plans/<owner>/<planId>.bin
+   ========================= */
+/**
+ * owner = verifiedOwnerOf(entitlement): Stripe customer id, or "email_<emailKey>" for
+ * team seat keys. Callers without a verified key (?email= only, cookie trials) get
+ * plans built but not saved, so nobody can open a plan by knowing an email.
+ * Plans carry goals, notes and moods, so they are sealed like journal entries (./sealed).
+ * Check-ins live on the plan record (one per day; a repeat check-in replaces it).
+ */
+
+export type CheckInStatus = "done" | "skipped";
+
+export type CheckIn = {
+  day: number;
+  status: CheckInStatus;
+  mood: number | null; // 1..10
+  note: string | null;
+  at: string; // ISO
+};
+
+export type SavedPlan = ActionPlan & {
+  id: string;
+  owner: string;
+  createdAt: string;
+  updatedAt: string;
+  checkins: CheckIn[]; // sorted by day
+};
+
+export type PlanProgress = {
+  length: number;
+  done: number;
+  skipped: number;
+  remaining: number;
+  completionRate: number; // done / length, 0..1
+  currentStreak: number; // consecutive "done" days ending at the latest check-in
+  longestStreak: number;
+  averageMood: number | null;
+  nextDay: number | null; // first day without a check-in
+  lastCheckInAt: string | null;
+};
+
+const MAX_NOTE_CHARS = 2000;
+
+const planPath = (owner: string, planId: string) => `plans/${owner}/${planId}.bin`;
+
+/* =========================
+   CRUD
+   ========================= */
+
+export async function savePlan(owner: string, plan: ActionPlan): Promise<SavedPlan> {
+  const nowIso = new Date().toISOString();
+  const saved: SavedPlan = {
+    ...plan,
+    id: randomUUID(),
+    owner,
+    createdAt: nowIso,
+    updatedAt: nowIso,
+    checkins: [],
+  };
+  await putSealedJson("plans", planPath(owner, saved.id), saved);
+  return saved;
+}
+
+export async function readPlan(owner: string, planId: string): Promise<SavedPlan | null> {
+  // ids are our own UUIDs; refuse anything else before it reaches a store key
+  if (!/^[0-9a-f-]{36}$/i.test(planId)) return null;
+  return getSealedJson<SavedPlan>("plans", planPath(owner, planId));
+}
+
+/** Newest first, without days/check-in details */
+export async function listPlans(owner: string, limit = 50) {
+  const store = getStore();
+  const items = (await store.list(`plans/${owner}/`)).sort(
+    (a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
+  );
+
+  const out: Array<
+    Pick<SavedPlan, "id" | "belief" | "goal" | "theme" | "length" | "difficulty" | "createdAt" | "updatedAt"> & {
+      progress: PlanProgress;
+    }
+  > = [];
+  for (const it of items.slice(0, limit)) {
+    const p = await getSealedJson<SavedPlan>("plans", it.key);
+    if (!p) continue;
+    out.push({
+      id: p.id,
+      belief: p.belief,
+      goal: p.goal,
+      theme: p.theme,
+      length: p.length,
+      difficulty: p.difficulty,
+      createdAt: p.createdAt,
+      updatedAt: p.updatedAt,
+      progress: computeProgress(p),
+    });
+  }
+  return out;
+}
+
+export type CheckInParse =
+  | { ok: true; checkin: Omit<CheckIn, "at"> }
+  | { ok: false; error: "INVALID_DAY" | "INVALID_STATUS" | "INVALID_MOOD"; message: string };
+
+/** Validate a check-in body against the plan length */
+export function parseCheckIn(
+  input: { day?: unknown; status?: unknown; mood?: unknown; note?: unknown },
+  length: number
+): CheckInParse {
+  const day = Number(input.day);
+  if (!Number.isInteger(day) || day < 1 || day > length) {
+    return { ok: false, error: "INVALID_DAY", message: `'day' must be an integer between 1 and ${length}.` };
+  }
+  const status = String(input.status || "done");
+  if (status !== "done" && status !== "skipped") {
+    return { ok: false, error: "INVALID_STATUS", message: "'status' must be 'done' or 'skipped'." };
+  }
+  let mood: number | null = null;
+  if (input.mood !== undefined && input.mood !== null && input.mood !== "") {
+    mood = Number(input.mood);
+    if (!Number.isInteger(mood) || mood < 1 || mood > 10) {
+      return { ok: false, error: "INVALID_MOOD", message: "'mood' must be an integer between 1 and 10." };
+    }
+  }
+  const note = String(input.note ?? "").trim().slice(0, MAX_NOTE_CHARS) || null;
+  return { ok: true, checkin: { day, status, mood, note } };
+}
+
+export async function recordCheckIn(plan: SavedPlan, checkin: Omit<CheckIn, "at">): Promise<SavedPlan> {
+  const nowIso = new Date().toISOString();
+  const updated: SavedPlan = {
+    ...plan,
+    updatedAt: nowIso,
+    checkins: [...plan.checkins.filter((c) => c.day !== checkin.day), { ...checkin, at: nowIso }].sort(
+      (a, b) => a.day - b.day
+    ),
+  };
+  await putSealedJson("plans", planPath(plan.owner, plan.id), updated);
+  return updated;
+}
+
+/* =========================
+   Progress
+   ========================= */
+
+export function computeProgress(plan: Pick<SavedPlan, "length" | "checkins">): PlanProgress {
+  const byDay = new Map(plan.checkins.map((c) => [c.day, c]));
+  const done = plan.checkins.filter((c) => c.status === "done").length;
+  const skipped = plan.checkins.filter((c) => c.status === "skipped").length;
+
+  // Streaks run over plan days: a skipped or missing day breaks them
+  let longestStreak = 0;
+  let run = 0;
+  for (let d = 1; d <= plan.length; d++) {
+    run = byDay.get(d)?.status === "done" ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  const lastDay = plan.checkins.reduce((m, c) => Math.max(m, c.day), 0);
+  let currentStreak = 0;
+  for (let d = lastDay; d >= 1 && byDay.get(d)?.status === "done"; d--) currentStreak++;
+
+  const moods = plan.checkins.map((c) => c.mood).filter((m): m is number => typeof m === "number");
+  let nextDay: number | null = null;
+  for (let d = 1; d <= plan.length; d++) {
+    if (!byDay.has(d)) {
+      nextDay = d;
+      break;
+    }
+  }
+  const lastCheckInAt = plan.checkins.reduce<string | null>(
+    (latest, c) => (!latest || c.at > latest ? c.at : latest),
+    null
+  );
+
+  return {
+    length: plan.length,
+    done,
+    skipped,
+    remaining: plan.length - plan.checkins.length,
+    completionRate: plan.length ? Number((done / plan.length).toFixed(3)) : 0,
+    currentStreak,
+    longestStreak,
+    averageMood: moods.length
+      ? Number((moods.reduce((a, b) => a + b, 0) / moods.length).toFixed(1))
+      : null,
+    nextDay,
+    lastCheckInAt,
+  };
+}
@@ -0,0 +1,105 @@
+// app/api/_lib/questionnaire.test.ts
+import { describe, expect, it } from "vitest";
+import { generateQuestionnaire, normalizeDomain, parseRefinements, type Questionnaire } from "./questionnaire";
+
+const items = (q: Questionnaire) => q.sections.flatMap((s) => s.items);
+
+describe("normalizeDomain", () => {
+  it("accepts theme keys and aliases, else general", () => {
+    expect(normalizeDomain("money_beliefs")).toBe("money_beliefs");
+    expect(normalizeDomain("Money")).toBe("money_beliefs");
+    expect(normalizeDomain("gardening")).toBe("general");
+  });
+});
+
+describe("parseRefinements", () => {
+  it("reads reduce-to and Likert topics from free text", () => {
+    expect(parseRefinements(["Reduce to 10 questions", "Add a Likert scale on confidence.", "something else"])).toEqual({
+      reduceTo: 10,
+      likertOn: ["confidence"],
+    });
+  });
+});
+
+describe("generateQuestionnaire", () => {
+  const base = { context: "asking for a raise", goal: "ask for a raise", domain: "money" };
+
+  it("is deterministic and numbers items q1..qN", () => {
+    const a = generateQuestionnaire(base);
+    expect(generateQuestionnaire(base)).toEqual(a);
+    expect(items(a).map((it) => it.id)).toEqual(items(a).map((_, i) => `q${i + 1}`));
+  });
+
+  it("honours the length presets", () => {
+    expect(items(generateQuestionnaire({ ...base, length: "short" }))).toHaveLength(10);
+    expect(items(generateQuestionnaire({ ...base, length: "medium" }))).toHaveLength(14);
+  });
+
+  it("caps the length to what the bank holds and says so", () => {
+    const q = generateQuestionnaire({ ...base, length: 30 });
+    const count = items(q).length;
+    expect(count).toBeLessThanOrEqual(30);
+    if (count < 30) expect(q.summary).toContain("capped from 30");
+    expect(new Set(items(q).map((it) => it.prompt)).size).toBe(count);
+  });
+
+  it("fills placeholders and gives scale/forced items their extras", () => {
+    const q = generateQuestionnaire(base);
+    for (const it of items(q)) {
+      expect(it.prompt).not.toMatch(/\{(goal|role|context)\}/);
+      if (it.type === "scale") expect(it.scale).toBeDefined();
+      if (it.type === "forced") expect(it.options?.length).toBeGreaterThan(1);
+    }
+  });
+
+  it("quotes the goal instead of splicing it into the sentence", () => {
+    const prompts = items(generateQuestionnaire({ ...base, goal: "Get promoted.", length: 30 })).map((it) => it.prompt);
+    const withGoal = prompts.filter((p) => p.includes("Get promoted"));
+    expect(withGoal.length).toBeGreaterThan(0);
+    for (const p of withGoal) expect(p).toMatch(/: “Get promoted”\?$/);
+
+    const bare = items(generateQuestionnaire({ goal: "", length: 30 })).map((it) => it.prompt);
+    expect(bare.some((p) => p.endsWith("work on your goal?"))).toBe(true);
+    expect(bare.join("\n")).not.toMatch(/goal: “|“this goal”/);
+  });
+
+  it("keeps one probe per question in direct tone", () => {
+    const q = generateQuestionnaire({ ...base, tone: "direct" });
+    expect(items(q).every((it) => !it.probes || it.probes.length === 1)).toBe(true);
+  });
+
+  it("reduces to N including the added Likert items", () => {
+    const q = generateQuestionnaire({ ...base, refinements: ["Reduce to 8 questions", "Add Likert scale on confidence"] });
+    expect(items(q)).toHaveLength(8);
+    const likert = items(q).at(-1)!;
+    expect(likert).toMatchObject({ type: "scale", scale: { min: 1, max: 5 } });
+    expect(likert.prompt).toBe("How strongly do you agree: “I’m satisfied with my confidence.”");
+    expect(q.refinements_applied).toEqual(["Reduce to 8 questions", "Add Likert scale on confidence"]);
+  });
+
+  it("raises a reduce-to below the minimum and reports the original ask", () => {
+    const q = generateQuestionnaire({ ...base, reduceTo: 1 });
+    expect(items(q)).toHaveLength(2);
+    expect(q.refinements_applied).toEqual(["Reduce to 2 questions (asked for 1)"]);
+    expect(q.reducedTo).toEqual({ requested: 1, applied: 2 });
+    expect(generateQuestionnaire({ ...base, reduceTo: 8 }).reducedTo).toBeUndefined();
+  });
+
+  it("branches only from a section's first question to the next section", () => {
+    const q = generateQuestionnaire({ ...base, branching: true });
+    const branched = q.sections.flatMap((s, si) => s.items.filter((it) => it.branch).map((it) => ({ it, si })));
+    expect(branched.length).toBeGreaterThan(0);
+    for (const { it, si } of branched) {
+      expect(q.sections[si].items[0]).toBe(it);
+      expect(it.options).toContain(it.branch![0].ifOption);
+      expect(it.branch![0].goTo).toBe(q.sections[si + 1].items[0].id);
+    }
+    expect(q.summary).toContain("with branching");
+  });
+
+  it("has no branches without the option", () => {
+    const q = generateQuestionnaire(base);
+    expect(items(q).some((it) => it.branch)).toBe(false);
+    expect(q.summary).not.toContain("branching");
+  });
+});
@@ -0,0 +1,490 @@
+// app/api/_lib/questionnaire.ts
+import crypto from "crypto";
+import { getTheme, type ThemeKey } from "./libs";
+
+/* =========================
+   Belief Blueprint Questionnaire Generator
+   ========================= */
+/**
+ * Builds the [Questionnaire-Local-001] payload (see action-examples-trial-and-pro.txt)
+ * from a tagged question bank — no model calls, so the same input always yields the
+ * same questionnaire (the id is a hash of the normalized input).
+ *
+ * Flow: pick 2–5 sections by length → fill each section from domain-tagged entries
+ * first, then general ones, honouring the open/scale/forced mix → apply refinements
+ * ("Reduce to N questions", "Add Likert scale on X") → number items q1..qN.
+ * Lengths beyond what the bank holds for the chosen sections/domain are capped (the
+ * summary says so); "Reduce to N" never drops below 2 sections plus the Likert items.
+ */
+
+export type QuestionType = "open" | "scale" | "forced";
+export type Tone = "gentle" | "direct" | "coach-like";
+export type LengthPreset = "short" | "medium" | "long";
+export type Domain = ThemeKey | "general";
+
+export type QuestionItem = {
+  id: string; // q1..qN
+  type: QuestionType;
+  prompt: string;
+  probes?: string[];
+  scale?: { min: number; max: number; labels: [string, string] };
+  options?: string[];
+  branch?: Array<{ ifOption: string; goTo: string }>; // only when branching is on
+};
+
+export type QuestionnaireSection = { title: string; items: QuestionItem[] };
+
+export type Questionnaire = {
+  questionnaire_id: string;
+  title: string;
+  intro: string;
+  domain: Domain;
+  tone: Tone;
+  sections: QuestionnaireSection[];
+  guidance: { dos: string[]; donts: string[]; pacing: string; safety: string };
+  summary: string;
+  privacy_note: string;
+  refinements_applied: string[];
+  reducedTo?: { requested: number; applied: number }; // only when "Reduce to N" could not be met exactly
+  text: string; // human-readable rendering of the same content
+};
+
+export type QuestionnaireInput = {
+  context?: string;
+  target_role?: string;
+  goal?: string;
+  tone?: string;
+  length?: string | number; // "short" | "medium" | "long" | total questions
+  domain?: string;
+  mix?: { open?: number; scale?: number; forced?: number };
+  branching?: boolean;
+  reduceTo?: number;
+  likertOn?: string[];
+  refinements?: string[]; // free text: "Reduce to 10 questions", "Add Likert scale on confidence"
+};
+
+/* =========================
+   Question bank
+   ========================= */
+
+type SectionKey = "context" | "cues" | "origins" | "impact" | "future";
+
+type BankEntry = {
+  section: SectionKey;
+  domain: Domain;
+  type: QuestionType;
+  prompt: string; // {goal} {role} {context} placeholders; {goal} is always quoted: “{goal}”
+  probes?: string[];
+  options?: string[];
+  labels?: [string, string];
+  skipRest?: string; // forced only: this option makes the rest of the section moot (branching)
+};
+
+const SECTION_TITLES: Record<SectionKey, string> = {
+  context: "Context & Goals",
+  cues: "Belief Cues",
+  origins: "Origins & Patterns",
+  impact: "Impact & Emotions",
+  future: "Future & Commitments",
+};
+
+// Section sets by count (2–5), always starting with context
+const SECTION_SETS: Record<number, SectionKey[]> = {
+  2: ["context", "cues"],
+  3: ["context", "cues", "future"],
+  4: ["context", "cues", "impact", "future"],
+  5: ["context", "cues", "origins", "impact", "future"],
+};
+
+const BANK: BankEntry[] = [
+  // ---- context ----
+  { section: "context", domain: "general", type: "open", prompt: "In your own words, what is happening around {context} right now?",
+    probes: ["What makes this important now rather than later?"] },
+  { section: "context", domain: "general", type: "open", prompt: "Concretely, what would a good outcome look like for your goal: “{goal}”?",
+    probes: ["How would you know you got there?", "Who else would notice?"] },
+  { section: "context", domain: "general", type: "scale", prompt: "How important is this goal to you right now: “{goal}”?", labels: ["Not important", "Essential"] },
+  { section: "context", domain: "general", type: "scale", prompt: "How confident are you that you can reach your goal: “{goal}”?", labels: ["Not at all", "Completely"] },
+  { section: "context", domain: "general", type: "forced", prompt: "Which best describes where you are with your goal: “{goal}”?",
+    options: ["Haven’t started", "Started, then stalled", "Making steady progress", "Close, but stuck"] },
+  { section: "context", domain: "general", type: "open", prompt: "As {role}, what is expected of you that you find hardest to meet?" },
+
+  // ---- cues ----
+  { section: "cues", domain: "general", type: "open", prompt: "What self-talk appears when you think about your goal: “{goal}”?",
+    probes: ["What exact words does that voice use?", "Whose voice does it sound like?"] },
+  { section: "cues", domain: "general", type: "open", prompt: "Finish the sentence: “People like me can’t …”",
+    probes: ["Where did you see that proven?"] },
+  { section: "cues", domain: "general", type: "forced", prompt: "Which statement feels truer now?",
+    options: ["I can learn what this needs", "I either have it or I don’t"], skipRest: "I can learn what this needs" },
+  { section: "cues", domain: "general", type: "open", prompt: "What do you tell yourself right before you hold back?" },
+  { section: "cues", domain: "general", type: "scale", prompt: "How often do the words “always”, “never” or “should” show up in your thinking about this?", labels: ["Rarely", "Constantly"] },
+
+  { section: "cues", domain: "money_beliefs", type: "open", prompt: "What goes through your mind when you name your price or ask for more?",
+    probes: ["What do you imagine the other person thinks?"] },
+  { section: "cues", domain: "money_beliefs", type: "forced", prompt: "Which feels truer?", options: ["Money follows value I create", "Money is mostly luck or who you know"],
+    skipRest: "Money follows value I create" },
+  { section: "cues", domain: "health_discipline", type: "open", prompt: "What do you say to yourself the day after you miss a workout or routine?",
+    probes: ["Is that how you’d speak to a friend?"] },
+  { section: "cues", domain: "health_discipline", type: "forced", prompt: "Which feels truer?", options: ["Small sessions count", "It only counts if I do it fully"],
+    skipRest: "Small sessions count" },
+  { section: "cues", domain: "leadership_imposter", type: "open", prompt: "When you’re about to speak up in a meeting, what’s the first thought?",
+    probes: ["What are you afraid will be exposed?"] },
+  { section: "cues", domain: "leadership_imposter", type: "scale", prompt: "How much do you attribute your results to luck rather than skill?", labels: ["All skill", "All luck"] },
+  { section: "cues", domain: "relationships_boundaries", type: "open", prompt: "What do you fear will happen if you say no to someone close to you?",
+    probes: ["Has that ever actually happened?"] },
+  { section: "cues", domain: "relationships_boundaries", type: "forced", prompt: "Which feels truer?", options: ["Clear boundaries protect relationships", "Boundaries push people away"],
+    skipRest: "Clear boundaries protect relationships" },
+  { section: "cues", domain: "entrepreneur_risk_tolerance", type: "open", prompt: "What has to be true before you feel ready to launch or decide?",
+    probes: ["Who set that standard?"] },
+  { section: "cues", domain: "entrepreneur_risk_tolerance", type: "scale", prompt: "How tolerable does a small, reversible failure feel to you?", labels: ["Unbearable", "Totally fine"] },
+
+  // ---- origins ----
+  { section: "origins", domain: "general", type: "open", prompt: "When is the earliest time you remember believing this?",
+    probes: ["What was happening around you then?", "Who modelled this belief for you?"] },
+  { section: "origins", domain: "general", type: "open", prompt: "What did your family say or show about goals like yours: “{goal}”?" },
+  { section: "origins", domain: "general", type: "forced", prompt: "Where did this belief mostly come from?",
+    options: ["Family", "School or early work", "A specific event", "Culture or media", "Not sure"], skipRest: "Not sure" },
+  { section: "origins", domain: "general", type: "open", prompt: "What did this belief protect you from back then?" },
+  { section: "origins", domain: "money_beliefs", type: "open", prompt: "What was said about money at home when you were growing up?" },
+  { section: "origins", domain: "leadership_imposter", type: "open", prompt: "When did you first feel you had to prove you belonged?" },
+  { section: "origins", domain: "relationships_boundaries", type: "open", prompt: "Growing up, what happened when someone in your family said no?" },
+
+  // ---- impact ----
+  { section: "impact", domain: "general", type: "open", prompt: "What has this belief cost you in the past year?",
+    probes: ["Time, money, relationships, opportunities — which stands out?"] },
+  { section: "impact", domain: "general", type: "scale", prompt: "How strongly does this belief affect your daily choices?", labels: ["Barely", "Completely"] },
+  { section: "impact", domain: "general", type: "open", prompt: "Which emotion shows up most when the belief is active?",
+    probes: ["Where do you feel it in your body?"] },
+  { section: "impact", domain: "general", type: "forced", prompt: "When the belief shows up, what do you usually do?",
+    options: ["Avoid", "Over-prepare", "Push through", "Ask for help"] },
+  { section: "impact", domain: "general", type: "open", prompt: "What does holding this belief give you (safety, approval, certainty)?" },
+  { section: "impact", domain: "health_discipline", type: "scale", prompt: "How much does your energy level decide whether you act?", labels: ["Not at all", "Entirely"] },
+  { section: "impact", domain: "entrepreneur_risk_tolerance", type: "open", prompt: "Which opportunity did you pass on because it felt too risky?" },
+
+  // ---- future ----
+  { section: "future", domain: "general", type: "open", prompt: "If this belief were 30% quieter, what would you try this week?",
+    probes: ["What is the smallest version of that?"] },
+  { section: "future", domain: "general", type: "open", prompt: "Who could reflect evidence back to you as you work on your goal: “{goal}”?" },
+  { section: "future", domain: "general", type: "scale", prompt: "How willing are you to test a new belief for 7 days?", labels: ["Not willing", "Fully willing"] },
+  { section: "future", domain: "general", type: "forced", prompt: "Which first step feels most doable?",
+    options: ["Write it down", "Talk to someone", "Take a 10-minute action", "Change one environment cue"] },
+  { section: "future", domain: "general", type: "open", prompt: "What belief would you rather hold instead? Write it in your own words." },
+];
+
+/* =========================
+   Defaults + normalization
+   ========================= */
+
+const DEFAULT_MIX = { open: 0.6, scale: 0.25, forced: 0.15 };
+const LENGTH_PRESETS: Record<LengthPreset, number> = { short: 10, medium: 14, long: 18 };
+const MIN_QUESTIONS = 6;
+const MAX_QUESTIONS = 30;
+
+const DOMAIN_ALIASES: Record<string, ThemeKey> = {
+  money: "money_beliefs",
+  finance: "money_beliefs",
+  health: "health_discipline",
+  fitness: "health_discipline",
+  discipline: "health_discipline",
+  leadership: "leadership_imposter",
+  imposter: "leadership_imposter",
+  career: "leadership_imposter",
+  relationships: "relationships_boundaries",
+  boundaries: "relationships_boundaries",
+  entrepreneur: "entrepreneur_risk_tolerance",
+  business: "entrepreneur_risk_tolerance",
+  risk: "entrepreneur_risk_tolerance",
+  confidence: "everyday_confidence",
+  "self-esteem": "everyday_confidence",
+  learning: "learning_growth",
+  study: "learning_growth",
+  growth: "learning_growth",
+};
+
+export function normalizeDomain(v: unknown): Domain {
+  const s = String(v || "").trim().toLowerCase();
+  if (getTheme(s)) return s as ThemeKey;
+  return DOMAIN_ALIASES[s] ?? "general";
+}
+
+function normalizeTone(v: unknown): Tone {
+  const s = String(v || "").trim().toLowerCase();
+  if (s === "gentle" || s === "direct") return s;
+  return "coach-like";
+}
+
+function totalFor(length: unknown): number {
+  const preset = LENGTH_PRESETS[String(length || "").toLowerCase() as LengthPreset];
+  if (preset) return preset;
+  const n = Math.floor(Number(length));
+  return Number.isFinite(n) && n > 0 ? Math.min(MAX_QUESTIONS, Math.max(MIN_QUESTIONS, n)) : LENGTH_PRESETS.medium;
+}
+
+function sectionCountFor(total: number) {
+  return total <= 8 ? 2 : total <= 12 ? 3 : total <= 16 ? 4 : 5;
+}
+
+function normalizeMix(mix: QuestionnaireInput["mix"]) {
+  const m = { ...DEFAULT_MIX, ...(mix || {}) };
+  const clamp = (n: unknown) => (Number.isFinite(Number(n)) && Number(n) > 0 ? Number(n) : 0);
+  const open = clamp(m.open);
+  const scale = clamp(m.scale);
+  const forced = clamp(m.forced);
+  const sum = open + scale + forced;
+  return sum > 0 ? { open: open / sum, scale: scale / sum, forced: forced / sum } : DEFAULT_MIX;
+}
+
+/** "Reduce to 10 questions", "Add Likert scale on confidence" → structured refinements */
+export function parseRefinements(lines: string[] = []) {
+  let reduceTo: number | undefined;
+  const likertOn: string[] = [];
+  for (const raw of lines) {
+    const line = String(raw || "").trim();
+    const reduce = /reduce\s+to\s+(\d+)/i.exec(line);
+    if (reduce) reduceTo = Number(reduce[1]);
+    const likert = /add\s+(?:a\s+)?likert(?:\s+scale)?\s+(?:on|for|about)\s+(.+)$/i.exec(line);
+    if (likert) likertOn.push(likert[1].replace(/[.?!]+$/, "").trim());
+  }
+  return { reduceTo, likertOn };
+}
+
+/* =========================
+   Build
+   ========================= */
+
+// The goal is the caller's own wording, so it is quoted rather than spliced into the sentence;
+// without one, the quote goes and "your goal" stands alone
+function fill(template: string, vars: { goal: string; role: string; context: string }) {
+  return template
+    .replace(/: “\{goal\}”/g, vars.goal ? `: “${vars.goal}”` : "")
+    .replace(/\{role\}/g, vars.role)
+    .replace(/\{context\}/g, vars.context);
+}
+
+function soften(prompt: string, tone: Tone, type: QuestionType) {
+  if (tone !== "gentle" || type !== "open") return prompt;
+  return `If it feels okay, ${prompt.charAt(0).toLowerCase()}${prompt.slice(1)}`;
+}
+
+// Per-section counts: spread total as evenly as possible, earlier sections first,
+// never past a section's capacity (the overflow goes to sections that still have room)
+function distribute(total: number, caps: number[]) {
+  const counts = caps.map(() => 0);
+  let left = Math.min(total, caps.reduce((a, b) => a + b, 0));
+  while (left > 0) {
+    const open = caps.map((c, i) => i).filter((i) => counts[i] < caps[i]);
+    const share = Math.max(1, Math.floor(left / open.length));
+    for (const i of open) {
+      if (left <= 0) break;
+      const add = Math.min(share, caps[i] - counts[i], left);
+      counts[i] += add;
+      left -= add;
+    }
+  }
+  return counts;
+}
+
+function renderText(q: Omit<Questionnaire, "text">) {
+  const lines: string[] = [q.title, q.intro, ""];
+  for (const s of q.sections) {
+    lines.push(s.title);
+    for (const it of s.items) {
+      const n = it.id.replace(/^q/, "");
+      let line = `${n}. ${it.prompt}`;
+      if (it.type === "scale" && it.scale) {
+        line += ` (${it.scale.min}–${it.scale.max}: ${it.scale.labels[0]} → ${it.scale.labels[1]})`;
+      }
+      lines.push(line);
+      for (const opt of it.options || []) lines.push(`   ☐ ${opt}`);
+      for (const b of it.branch || []) lines.push(`   ↳ If “${b.ifOption}”, go to ${b.goTo.replace(/^q/, "Q")}`);
+      for (const p of it.probes || []) lines.push(`   Probe: ${p}`);
+    }
+    lines.push("");
+  }
+  lines.push("Interviewer guidance");
+  for (const d of q.guidance.dos) lines.push(`• Do: ${d}`);
+  for (const d of q.guidance.donts) lines.push(`• Don’t: ${d}`);
+  lines.push(`• Pacing: ${q.guidance.pacing}`);
+  lines.push(`• Safety: ${q.guidance.safety}`);
+  lines.push("", q.summary);
+  return lines.join("\n");
+}
+
+export function generateQuestionnaire(input: QuestionnaireInput): Questionnaire {
+  const context = String(input.context || "").trim();
+  const goal = (String(input.goal || "").trim() || context).replace(/[.?!]+$/, "");
+  const role = String(input.target_role || "").trim() || "someone in your position";
+  const tone = normalizeTone(input.tone);
+  const domain = normalizeDomain(input.domain);
+  const mix = normalizeMix(input.mix);
+  const branching = Boolean(input.branching);
+  const vars = { goal, role, context: context || goal || "this goal" };
+
+  const parsed = parseRefinements(input.refinements);
+  const reduceTo = Number(input.reduceTo ?? parsed.reduceTo) || undefined;
+  const likertOn = [...(input.likertOn || []), ...parsed.likertOn]
+    .map((s) => String(s).trim())
+    .filter(Boolean);
+
+  const normalizedInput = JSON.stringify({ context, goal, role, tone, domain, mix, branching, length: input.length, reduceTo, likertOn });
+  const hash = crypto.createHash("sha256").update(normalizedInput).digest();
+  const seed = hash.readUInt32BE(0);
+
+  const requested = totalFor(input.length);
+  const sectionKeys = SECTION_SETS[sectionCountFor(requested)];
+  const pools = sectionKeys.map((key) =>
+    BANK.filter((e) => e.section === key && (e.domain === "general" || e.domain === domain))
+  );
+  const total = Math.min(requested, pools.reduce((n, p) => n + p.length, 0));
+  const counts = distribute(total, pools.map((p) => p.length));
+
+  // Type quotas across the whole questionnaire (open gets the rounding remainder)
+  const quota = {
+    scale: Math.round(total * mix.scale),
+    forced: Math.round(total * mix.forced),
+    open: 0,
+  };
+  quota.open = Math.max(0, total - quota.scale - quota.forced);
+  const usedTypes = { open: 0, scale: 0, forced: 0 };
+
+  const raw: Array<{ key: SectionKey; entries: BankEntry[] }> = sectionKeys.map((key, si) => {
+    // Domain entries first, then general ones rotated by seed for variety across inputs
+    const inSection = pools[si];
+    const domainFirst = domain === "general" ? [] : inSection.filter((e) => e.domain === domain);
+    const general = inSection.filter((e) => e.domain === "general");
+    const offset = general.length ? (seed + si) % general.length : 0;
+    const rotated = [...domainFirst, ...general.slice(offset), ...general.slice(0, offset)];
+    // With branching on, entries that can branch are picked first so the option has an effect
+    const ordered = branching ? [...rotated.filter((e) => e.skipRest), ...rotated.filter((e) => !e.skipRest)] : rotated;
+
+    const picked: BankEntry[] = [];
+    // Pass 1: respect type quotas; pass 2: fill up with whatever is left
+    for (const pass of [1, 2]) {
+      for (const e of ordered) {
+        if (picked.length >= counts[si]) break;
+        if (picked.includes(e)) continue;
+        if (pass === 1 && usedTypes[e.type] >= quota[e.type]) continue;
+        picked.push(e);
+        usedTypes[e.type]++;
+      }
+    }
+    return { key, entries: picked };
+  });
+
+  // Refinement: reduce to N (keeps at least one question per section, trims the longest first;
+  // drops trailing sections only when N is smaller than the section count, never below 2).
+  // Likert items added below count toward N, so N is at least 2 + their number; when N had
+  // to be raised (or is more than the questionnaire holds) reducedTo reports both numbers.
+  const refinementsApplied: string[] = [];
+  let reducedTo: Questionnaire["reducedTo"];
+  if (reduceTo && reduceTo > 0) {
+    const target = Math.min(Math.max(reduceTo, 2 + likertOn.length), total + likertOn.length);
+    const bankTarget = target - likertOn.length;
+    while (raw.reduce((n, s) => n + s.entries.length, 0) > bankTarget) {
+      const longest = raw.reduce((a, b) => (b.entries.length > a.entries.length ? b : a));
+      if (longest.entries.length <= 1) {
+        raw.pop();
+      } else {
+        longest.entries.pop();
+      }
+    }
+    refinementsApplied.push(
+      target === reduceTo ? `Reduce to ${target} questions` : `Reduce to ${target} questions (asked for ${reduceTo})`
+    );
+    if (target !== reduceTo) reducedTo = { requested: reduceTo, applied: target };
+  }
+
+  // Branching: an item whose answer can make the rest of its section moot is asked first
+  // in that section, so its branch actually skips the remaining questions
+  const branches = new Map<BankEntry, SectionKey>();
+  if (branching) {
+    raw.forEach((s, si) => {
+      const gate = s.entries.find((e) => e.skipRest);
+      if (!gate || s.entries.length < 2 || !raw[si + 1]) return;
+      s.entries = [gate, ...s.entries.filter((e) => e !== gate)];
+      branches.set(gate, raw[si + 1].key);
+    });
+  }
+
+  // Build items + numbering
+  let n = 0;
+  const sections: QuestionnaireSection[] = raw.map(({ key, entries }) => ({
+    title: SECTION_TITLES[key],
+    items: entries.map((e) => {
+      const item: QuestionItem = {
+        id: `q${++n}`,
+        type: e.type,
+        prompt: soften(fill(e.prompt, vars), tone, e.type),
+      };
+      // direct tone keeps a single probe per question
+      if (e.probes?.length) {
+        item.probes = (tone === "direct" ? e.probes.slice(0, 1) : e.probes).map((p) => fill(p, vars));
+      }
+      if (e.type === "scale") item.scale = { min: 1, max: 10, labels: e.labels ?? ["Low", "High"] };
+      if (e.type === "forced") item.options = e.options ?? ["Yes", "No"];
+      return item;
+    }),
+  }));
+  // Resolve each branch to the first question of the following section
+  raw.forEach(({ entries }, si) => {
+    const gate = entries[0];
+    const next = sections[si + 1]?.items[0];
+    if (gate && branches.has(gate) && next && gate.skipRest) {
+      sections[si].items[0].branch = [{ ifOption: gate.skipRest, goTo: next.id }];
+    }
+  });
+
+  // Refinement: Likert items appended to the last section
+  for (const topic of likertOn) {
+    const last = sections[sections.length - 1];
+    last.items.push({
+      id: `q${++n}`,
+      type: "scale",
+      prompt: `How strongly do you agree: “I’m satisfied with my ${topic}.”`,
+      scale: { min: 1, max: 5, labels: ["Strongly disagree", "Strongly agree"] },
+    });
+    refinementsApplied.push(`Add Likert scale on ${topic}`);
+  }
+
+  const count = n;
+  const minutes = Math.max(10, Math.round(count * 2.5));
+  const intro =
+    tone === "gentle"
+      ? `There are no right answers here. Take your time with these questions about ${vars.context}; skip anything that doesn’t feel okay today.`
+      : tone === "direct"
+        ? `Answer quickly and honestly. These questions target the beliefs shaping ${vars.context}.`
+        : `These questions help surface the beliefs behind ${vars.context}. Answer in your own words — first thoughts are often the most useful.`;
+
+  const guidance = {
+    dos: [
+      "Use the respondent’s own words when you probe.",
+      "Ask one question at a time and allow silence.",
+      ...(tone === "gentle" ? ["Check in on comfort between sections."] : []),
+    ],
+    donts: [
+      "Don’t lead (“Don’t you think…?”) or suggest answers.",
+      "Don’t analyse or reframe during the interview — capture first.",
+    ],
+    pacing: `${count} questions, about ${minutes} minutes; pause briefly between sections.`,
+    safety: "Not therapy. If distress rises, pause, slow the breath, and offer to stop or use local crisis resources.",
+  };
+
+  const themeTitle = domain === "general" ? null : getTheme(domain)?.title ?? null;
+  const branched = sections.some((s) => s.items.some((it) => it.branch));
+  const capped = total < requested ? ` (capped from ${requested}: the question bank’s limit for this domain)` : "";
+  const summary = `${count} questions${capped} across ${sections.length} sections${themeTitle ? ` for ${themeTitle}` : ""}, ${tone} tone${branched ? ", with branching" : ""}.`;
+
+  const q: Omit<Questionnaire, "text"> = {
+    questionnaire_id: `q-${hash.toString("hex").slice(0, 12)}`,
+    title: "Belief Discovery Questionnaire",
+    intro,
+    domain,
+    tone,
+    sections,
+    guidance,
+    summary,
+    privacy_note: "Not therapy; if distressed, seek local crisis resources.",
+    refinements_applied: refinementsApplied,
+    ...(reducedTo ? { reducedTo } : {}),
+  };
+  return { ...q, text: renderText(q) };
+}
@@ -0,0 +1,94 @@
+// app/api/_lib/quota.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getDayStamp,
+  getMonthStamp,
+  incAndCheck,
+  limitForPlan,
+  nextUtcMidnightISO,
+  nextUtcMonthISO,
+  readQuotaWindow,
+} from "./quota";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("quota");
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("window stamps", () => {
+  const at = new Date("2026-12-31T23:30:00Z");
+
+  it("are UTC based", () => {
+    expect(getDayStamp(at)).toBe("2026-12-31");
+    expect(getMonthStamp(at)).toBe("2026-12");
+  });
+
+  it("reset at the next UTC midnight or month", () => {
+    expect(nextUtcMidnightISO(at)).toBe("2027-01-01T00:00:00.000Z");
+    expect(nextUtcMonthISO(at)).toBe("2027-01-01T00:00:00.000Z");
+    expect(nextUtcMonthISO(new Date("2026-01-31T12:00:00Z"))).toBe("2026-02-01T00:00:00.000Z");
+  });
+});
+
+describe("config", () => {
+  it("defaults to a daily window", () => {
+    vi.stubEnv("QUOTA_WINDOW", "weekly");
+    expect(readQuotaWindow()).toBe("daily");
+    vi.stubEnv("QUOTA_WINDOW", "Rolling24h");
+    expect(readQuotaWindow()).toBe("rolling24h");
+    vi.stubEnv("QUOTA_WINDOW", "");
+  });
+
+  it("reads per-plan limits with fallbacks", () => {
+    vi.stubEnv("QUOTA_LIMIT_FREE", "");
+    vi.stubEnv("FREE_DAILY_LIMIT", "3");
+    expect(limitForPlan("free")).toBe(3);
+    vi.stubEnv("FREE_DAILY_LIMIT", "");
+    expect(limitForPlan("free")).toBe(5);
+    expect(limitForPlan("trial")).toBe(25);
+    vi.stubEnv("QUOTA_LIMIT_PRO", "");
+    expect(limitForPlan("pro")).toBeNull();
+  });
+});
+
+describe("incAndCheck", () => {
+  it("admits up to the cap, then refuses without writing", async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await incAndCheck("anon-daily", { limit: 3, window: "daily" }));
+    expect(results.map((r) => [r.allowed, r.count])).toEqual([
+      [true, 1],
+      [true, 2],
+      [true, 3],
+      [false, 3],
+    ]);
+    expect(results[3].resetAt).toBe(nextUtcMidnightISO());
+  });
+
+  it("counts monthly windows separately per caller", async () => {
+    expect(await incAndCheck("anon-a", { limit: 1, window: "monthly" })).toMatchObject({ allowed: true, resetAt: nextUtcMonthISO() });
+    expect((await incAndCheck("anon-b", { limit: 1, window: "monthly" })).allowed).toBe(true);
+    expect((await incAndCheck("anon-a", { limit: 1, window: "monthly" })).allowed).toBe(false);
+  });
+
+  it("starts a new daily window after midnight UTC", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-05-01T23:59:00Z"));
+    expect((await incAndCheck("anon-midnight", { limit: 1, window: "daily" })).allowed).toBe(true);
+    expect((await incAndCheck("anon-midnight", { limit: 1, window: "daily" })).allowed).toBe(false);
+    vi.setSystemTime(new Date("2026-05-02T00:01:00Z"));
+    expect((await incAndCheck("anon-midnight", { limit: 1, window: "daily" })).allowed).toBe(true);
+  });
+
+  it("frees rolling slots 24h after the oldest call", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-05-01T10:00:00Z"));
+    await incAndCheck("anon-rolling", { limit: 1, window: "rolling24h" });
+    vi.setSystemTime(new Date("2026-05-02T09:00:00Z"));
+    const refused = await incAndCheck("anon-rolling", { limit: 1, window: "rolling24h" });
+    expect(refused).toMatchObject({ allowed: false, resetAt: "2026-05-02T10:00:00.000Z" });
+    vi.setSystemTime(new Date("2026-05-02T10:00:01Z"));
+    expect((await incAndCheck("anon-rolling", { limit: 1, window: "rolling24h" })).allowed).toBe(true);
+  });
+});
@@ -1,8 +1,34 @@
 // app/api/_lib/quota.ts
+import { createHash, randomBytes } from "crypto";
+import type { Plan } from "./entitlement";
+import { getStore } from "./store";
 
-// Naive in-memory daily quota (resets on cold start/redeploy)
-// key format: `${anonOrIp}::${dayStamp}`
-const usage = new Map<string, number>();
+// Durable quota backed by the store (survives cold starts, shared by all instances).
+// Every allowed call appends one marker object; the count is the number of markers
+// in the current window. Admission is decided by each marker's rank after it is
+// written, so concurrent callers can never push a window past its cap.
+//
+// key layout: quota/<sha256(id)>/<windowStamp>/<ms>-<rand>.json
+//   daily      → windowStamp = YYYY-MM-DD (UTC)
+//   monthly    → windowStamp = YYYY-MM    (UTC)
+//   rolling24h → windowStamp = "rolling"  (markers filtered by timestamp)
+
+export type QuotaWindow = "daily" | "rolling24h" | "monthly";
+
+export type QuotaOptions = {
+  limit?: number; // explicit cap; wins over the plan default
+  plan?: Plan; // picks QUOTA_LIMIT_<PLAN> when no explicit limit
+  window?: QuotaWindow; // defaults to QUOTA_WINDOW env (or "daily")
+};
+
+export type QuotaResult = {
+  allowed: boolean;
+  count: number;
+  limit: number;
+  resetAt: string; // ISO
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export function getDayStamp(d = new Date()) {
   // YYYY-MM-DD (UTC) so "day" is consistent regardless of region
@@ -12,6 +38,12 @@ export function getDayStamp(d = new Date()) {
   return `${y}-${m}-${day}`;
 }
 
+export function getMonthStamp(d = new Date()) {
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  return `${y}-${m}`;
+}
+
 /**
  * Returns the next UTC midnight ISO string for the given date.
  */
@@ -21,33 +53,154 @@ export function nextUtcMidnightISO(d = new Date()): string {
 }
 
 /**
- * Increment and check the quota for a given key.
- * - limit: if omitted, reads from process.env.FREE_DAILY_LIMIT or defaults to 5
+ * Returns the first instant of next UTC month as an ISO string.
+ */
+export function nextUtcMonthISO(d = new Date()): string {
+  const dt = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1, 0, 0, 0));
+  return dt.toISOString();
+}
+
+/* =========================
+   Config (env)
+   ========================= */
+
+export function readQuotaWindow(): QuotaWindow {
+  const raw = (process.env.QUOTA_WINDOW || "").trim().toLowerCase();
+  if (raw === "rolling24h" || raw === "monthly") return raw;
+  return "daily";
+}
+
+function readLimit(name: string): number | null {
+  const raw = process.env[name]?.trim();
+  if (!raw) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : null;
+}
+
+/**
+ * Per-plan cap for the configured window.
+ * - free  → QUOTA_LIMIT_FREE  (falls back to FREE_DAILY_LIMIT, then 5)
+ * - trial → QUOTA_LIMIT_TRIAL (default 25)
+ * - pro   → QUOTA_LIMIT_PRO   (unset = unlimited → null)
+ */
+export function limitForPlan(plan: Plan): number | null {
+  switch (plan) {
+    case "pro":
+      return readLimit("QUOTA_LIMIT_PRO");
+    case "trial":
+      return readLimit("QUOTA_LIMIT_TRIAL") ?? 25;
+    default:
+      return readLimit("QUOTA_LIMIT_FREE") ?? readLimit("FREE_DAILY_LIMIT") ?? 5;
+  }
+}
+
+/* =========================
+   Markers
+   ========================= */
+
+function idHash(id: string) {
+  // Hash callers (anonId / IP) so raw identifiers never land in storage
+  return createHash("sha256").update(id).digest("hex").slice(0, 32);
+}
+
+function windowStamp(window: QuotaWindow, now: Date) {
+  if (window === "monthly") return getMonthStamp(now);
+  if (window === "rolling24h") return "rolling";
+  return getDayStamp(now);
+}
+
+// <13-digit ms>-<8 hex>.json → sorts chronologically as plain strings
+function markerName(now: Date) {
+  return `${String(now.getTime()).padStart(13, "0")}-${randomBytes(4).toString("hex")}.json`;
+}
+
+function markerTime(key: string) {
+  const name = key.slice(key.lastIndexOf("/") + 1);
+  return Number(name.split("-")[0]) || 0;
+}
+
+async function listWindowMarkers(prefix: string, window: QuotaWindow, now: Date) {
+  const keys = (await getStore().list(prefix)).map((it) => it.key).sort();
+  if (window !== "rolling24h") return keys;
+  const since = now.getTime() - DAY_MS;
+  return keys.filter((k) => markerTime(k) > since);
+}
+
+function resetAtFor(window: QuotaWindow, now: Date, markers: string[]) {
+  if (window === "monthly") return nextUtcMonthISO(now);
+  if (window === "rolling24h") {
+    // Oldest in-window marker frees up a slot 24h after it was written
+    const oldest = markers.length ? markerTime(markers[0]) : now.getTime();
+    return new Date(oldest + DAY_MS).toISOString();
+  }
+  return nextUtcMidnightISO(now);
+}
+
+// Drop markers from past windows (and expired rolling markers). Best-effort.
+async function sweep(idPrefix: string, current: string, window: QuotaWindow, now: Date) {
+  const store = getStore();
+  const since = now.getTime() - DAY_MS;
+  for (const it of await store.list(idPrefix)) {
+    const stale =
+      !it.key.startsWith(current) ||
+      (window === "rolling24h" && markerTime(it.key) <= since);
+    if (stale) await store.delete(it.key).catch(() => {});
+  }
+}
+
+/* =========================
+   Public API
+   ========================= */
+
+/**
+ * Increment and check the quota for a given caller id (anonId, ip:..., cus_...).
+ * - limit: number (back-compat) or { limit, plan, window }
  * - returns { allowed, count, limit, resetAt }
  */
-export function incAndCheck(key: string, limit?: number) {
-  const dailyLimit = Number(process.env.FREE_DAILY_LIMIT || 5);
-  const cap = typeof limit === "number" ? limit : dailyLimit;
+export async function incAndCheck(
+  key: string,
+  opts: number | QuotaOptions = {}
+): Promise<QuotaResult> {
+  const o: QuotaOptions = typeof opts === "number" ? { limit: opts } : opts;
+  const window = o.window ?? readQuotaWindow();
+  const cap =
+    typeof o.limit === "number" ? o.limit : limitForPlan(o.plan ?? "free") ?? Number.MAX_SAFE_INTEGER;
+
+  const store = getStore();
+  const now = new Date();
+  const idPrefix = `quota/${idHash(key)}/`;
+  const prefix = `${idPrefix}${windowStamp(window, now)}/`;
 
-  const current = usage.get(key) ?? 0;
-  if (current >= cap) {
-    return { allowed: false as const, count: current, limit: cap, resetAt: nextUtcMidnightISO() };
+  // Fast path: already at cap → no write
+  const before = await listWindowMarkers(prefix, window, now);
+  if (before.length >= cap) {
+    return { allowed: false, count: before.length, limit: cap, resetAt: resetAtFor(window, now, before) };
   }
 
-  const next = current + 1;
-  usage.set(key, next);
+  // Append our marker, then find our rank among everything in the window
+  const mine = `${prefix}${markerName(now)}`;
+  await store.putJson(mine, { at: now.toISOString() });
+  const after = await listWindowMarkers(prefix, window, now);
+  const rank = after.indexOf(mine);
+  const position = rank >= 0 ? rank + 1 : after.length + 1;
+
+  if (position > cap) {
+    // Lost a race for the last slot(s): roll back our marker
+    await store.delete(mine).catch(() => {});
+    // (other losers may not have rolled back yet, so never report more than the cap)
+    const remaining = after.filter((k) => k !== mine);
+    return {
+      allowed: false,
+      count: Math.min(remaining.length, cap),
+      limit: cap,
+      resetAt: resetAtFor(window, now, remaining),
+    };
+  }
 
-  // Lightweight sweep once per call-day to keep the map from growing forever.
-  // If your key includes '::YYYY-MM-DD', we can drop old keys cheaply.
+  // Lightweight sweep on a small fraction of calls to keep old windows from piling up
   if (Math.random() < 0.02) {
-    const today = key.split("::")[1]; // safe because caller builds as `${id}::${day}`
-    for (const k of usage.keys()) {
-      if (typeof k === "string" && k.includes("::")) {
-        const [, day] = k.split("::");
-        if (day !== today) usage.delete(k);
-      }
-    }
+    await sweep(idPrefix, prefix, window, now).catch(() => {});
   }
 
-  return { allowed: true as const, count: next, limit: cap, resetAt: nextUtcMidnightISO() };
+  return { allowed: true, count: position, limit: cap, resetAt: resetAtFor(window, now, after) };
 }
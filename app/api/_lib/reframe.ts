@@ -0,0 +1,251 @@
+// app/api/_lib/reframe.ts
+import type { ItemDetail } from "./belief-item";
+import { itemVariants, t, type Locale } from "./i18n";
+import { inferBeliefs } from "./inference";
+import { getTheme, listThemes, type ThemeKey } from "./libs";
+import {
+  detectPatterns,
+  personalReframe,
+  type BeliefPattern,
+  type PatternMatch,
+} from "./linguistics";
+
+/* =========================
+   Reframe technique library
+   ========================= */
+/**
+ * A reframe is six steps: name it → four techniques → anchor.
+ * The four techniques are picked from the library by score:
+ *   theme affinity (THEME_PROFILE) + linguistic pattern fit (PATTERN_FIT),
+ * ties broken by library order, so the same belief always gets the same steps.
+ * Step text is an English template per variant; other locales swap in the catalog's
+ * "reframe.<step>.<variant>" template, and "reframe.personal" for the reframe sentence.
+ * A library item (belief-item.ts) brings its own reframe sentence, counter-evidence prompts
+ * and micro-action: counter-evidence is always one of its techniques, and the anchor ends
+ * with the micro-action.
+ */
+
+export type TechniqueId =
+  | "counter_evidence"
+  | "context_reframe"
+  | "meaning_reframe"
+  | "submodalities"
+  | "as_if"
+  | "values_bridge";
+
+/** Step kinds: the bookends plus the technique library */
+export type StepKind = "name_it" | TechniqueId | "anchor";
+
+export type ReframeStep = {
+  technique: StepKind;
+  label: string;
+  text: string;
+};
+
+export type ReframeResult = {
+  theme: ThemeKey | null;
+  patterns: PatternMatch[];
+  reframe: string; // personalized sentence derived from the belief text (or the item's own)
+  steps: ReframeStep[];
+};
+
+type StepCtx = {
+  locale: Locale;
+  belief: string;
+  context: string;
+  reframe: string;
+  patterns: PatternMatch[];
+  value: string;
+  item: ItemDetail | null;
+};
+
+const cueOf = (ctx: StepCtx, p: BeliefPattern) => ctx.patterns.find((m) => m.pattern === p)?.cue;
+const varsOf = ({ belief, context, reframe, value }: StepCtx) => ({ belief, context, reframe, value });
+
+const TECHNIQUES: Record<TechniqueId, { label: string; build: (ctx: StepCtx) => string }> = {
+  counter_evidence: {
+    label: "Counter-evidence",
+    build: (ctx) => {
+      if (ctx.item) {
+        const prompts = ctx.item.counterEvidence.join(" ");
+        return t(ctx.locale, "reframe.counter_evidence.text_item", "Counter-evidence: answer each with concrete examples from your own life. {prompts}", { prompts });
+      }
+      const cue = cueOf(ctx, "universal");
+      return cue
+        ? t(ctx.locale, "reframe.counter_evidence.text_cue", "Counter-evidence: the belief says “{cue}”. List 5 concrete times from the past month when that wasn’t true.", { cue })
+        : t(ctx.locale, "reframe.counter_evidence.text", "Counter-evidence: list 5 concrete facts from the past month that weaken this belief.");
+    },
+  },
+  context_reframe: {
+    label: "Context reframe",
+    build: (ctx) =>
+      ctx.context
+        ? t(ctx.locale, "reframe.context_reframe.text_context", "Context reframe: where would the behaviour behind “{belief}” actually be useful? Name one setting where it protects you, and one (like {context}) where it no longer fits.", varsOf(ctx))
+        : t(ctx.locale, "reframe.context_reframe.text", "Context reframe: where would the behaviour behind “{belief}” actually be useful? Name one setting where it protects you, and one where it no longer fits.", varsOf(ctx)),
+  },
+  meaning_reframe: {
+    label: "Meaning reframe",
+    build: (ctx) =>
+      t(ctx.locale, "reframe.meaning_reframe.text", "Meaning reframe: say it the workable way — “{reframe}” Write two other meanings the same facts could have.", varsOf(ctx)),
+  },
+  submodalities: {
+    label: "Submodalities shift",
+    build: (ctx) =>
+      t(ctx.locale, "reframe.submodalities.text", "Submodalities shift: shrink/dim the ‘threat’ image; brighten/bring closer the ‘capable’ scene."),
+  },
+  as_if: {
+    label: "As-if experiment",
+    build: (ctx) => {
+      const cue = cueOf(ctx, "modal");
+      return cue
+        ? t(ctx.locale, "reframe.as_if.text_cue", "As-if experiment: for 10 minutes, act as if “{cue}” were a choice rather than a rule; then note what changed.", { cue })
+        : t(ctx.locale, "reframe.as_if.text", "As-if experiment: act for 10 minutes as if the belief were 30% quieter; then note what changed.");
+    },
+  },
+  values_bridge: {
+    label: "Values bridge",
+    build: (ctx) =>
+      t(ctx.locale, "reframe.values_bridge.text", "Values bridge: what does this belief try to protect? Connect it to {value} and pick one small action that honours that value today.", varsOf(ctx)),
+  },
+};
+
+// Which techniques suit each theme (higher = better fit) + the value it bridges to
+const THEME_PROFILE: Partial<Record<ThemeKey, { value: string; affinity: Partial<Record<TechniqueId, number>> }>> = {
+  health_discipline: {
+    value: "your long-term health and energy",
+    affinity: { as_if: 3, submodalities: 2, counter_evidence: 2, meaning_reframe: 1 },
+  },
+  leadership_imposter: {
+    value: "the contribution you make for your team",
+    affinity: { counter_evidence: 3, context_reframe: 2, values_bridge: 2, submodalities: 1 },
+  },
+  money_beliefs: {
+    value: "fair exchange and the security money buys for people you care about",
+    affinity: { meaning_reframe: 3, values_bridge: 3, counter_evidence: 1 },
+  },
+  relationships_boundaries: {
+    value: "honest, lasting connection",
+    affinity: { meaning_reframe: 3, values_bridge: 2, as_if: 2, context_reframe: 1 },
+  },
+  entrepreneur_risk_tolerance: {
+    value: "learning fast and the freedom you’re building",
+    affinity: { context_reframe: 3, as_if: 2, counter_evidence: 2, values_bridge: 1 },
+  },
+  everyday_confidence: {
+    value: "self-respect and showing up as yourself",
+    affinity: { counter_evidence: 3, as_if: 2, meaning_reframe: 1 },
+  },
+  learning_growth: {
+    value: "curiosity and steady progress",
+    affinity: { meaning_reframe: 3, counter_evidence: 2, as_if: 1 },
+  },
+};
+
+// Which techniques loosen each linguistic pattern
+const PATTERN_FIT: Record<BeliefPattern, Partial<Record<TechniqueId, number>>> = {
+  universal: { counter_evidence: 3, context_reframe: 1 },
+  modal: { as_if: 3, values_bridge: 2 },
+  mind_reading: { counter_evidence: 2, context_reframe: 2 },
+  cause_effect: { context_reframe: 2, meaning_reframe: 2, as_if: 1 },
+  complex_equivalence: { meaning_reframe: 3, counter_evidence: 1 },
+};
+
+const TECHNIQUE_ORDER = Object.keys(TECHNIQUES) as TechniqueId[];
+const TECHNIQUES_PER_REFRAME = 4;
+const DEFAULT_VALUE = "what matters most to you";
+
+/* =========================
+   Selection
+   ========================= */
+
+/** Theme for a belief: explicit key → exact library item (any locale) → inferred from the text */
+export function themeForBelief(belief: string, hint?: string | null): ThemeKey | null {
+  if (hint && getTheme(hint)) return hint as ThemeKey;
+
+  const b = belief.trim().toLowerCase();
+  for (const { key } of listThemes()) {
+    const items = getTheme(key)?.items as readonly string[] | undefined;
+    if (items?.some((it) => itemVariants(key, it).some((v) => v.toLowerCase() === b))) return key;
+  }
+
+  return inferBeliefs({ situation: belief }, 1).candidates[0]?.theme ?? null;
+}
+
+/** `must` techniques are always included (they take the top slots before scoring) */
+export function pickTechniques(
+  theme: ThemeKey | null,
+  patterns: PatternMatch[],
+  must: readonly TechniqueId[] = []
+): TechniqueId[] {
+  const score = (t: TechniqueId) =>
+    (must.includes(t) ? 100 : 0) +
+    (theme ? THEME_PROFILE[theme]?.affinity[t] ?? 0 : 0) +
+    patterns.reduce((n, m) => n + (PATTERN_FIT[m.pattern][t] ?? 0), 0);
+
+  const picked = [...TECHNIQUE_ORDER]
+    .sort((a, b) => score(b) - score(a) || TECHNIQUE_ORDER.indexOf(a) - TECHNIQUE_ORDER.indexOf(b))
+    .slice(0, TECHNIQUES_PER_REFRAME);
+
+  // Present in library order (evidence before meaning before embodiment)
+  return picked.sort((a, b) => TECHNIQUE_ORDER.indexOf(a) - TECHNIQUE_ORDER.indexOf(b));
+}
+
+/* =========================
+   Build
+   ========================= */
+
+export function buildReframe(input: {
+  belief: string;
+  context?: string;
+  theme?: string | null;
+  locale?: Locale;
+  item?: ItemDetail | null; // library item (already in `locale`): its text, theme and content win
+}): ReframeResult {
+  const locale = input.locale ?? "en";
+  const item = input.item ?? null;
+  const belief = item?.text || (input.belief || "").trim() || t(locale, "reframe.default_belief", "I’m not enough");
+  const context = (input.context || "").trim();
+  const theme = item?.theme ?? themeForBelief(belief, input.theme);
+  const patterns = detectPatterns(belief);
+  // personalReframe rewrites English grammar; other locales get the catalog's generic sentence
+  const personal = personalReframe(belief, patterns);
+  const reframe = item?.reframe ?? (locale === "en" ? personal : t(locale, "reframe.personal", personal, { belief }));
+  const profileValue = theme ? THEME_PROFILE[theme]?.value : undefined;
+
+  const ctx: StepCtx = {
+    locale,
+    belief,
+    context,
+    reframe,
+    patterns,
+    item,
+    value: profileValue
+      ? t(locale, `reframe.value.${theme}`, profileValue)
+      : t(locale, "reframe.value.default", DEFAULT_VALUE),
+  };
+  const label = (kind: StepKind, source: string) => t(locale, `reframe.${kind}.label`, source);
+
+  const steps: ReframeStep[] = [
+    {
+      technique: "name_it",
+      label: label("name_it", "Name it"),
+      text: context
+        ? t(locale, "reframe.name_it.text_context", "Name it precisely: “{belief}”. Write 1–2 sentences that capture how it shows up in: {context}.", varsOf(ctx))
+        : t(locale, "reframe.name_it.text", "Name it precisely: “{belief}”. Write 1–2 sentences that capture how it shows up.", varsOf(ctx)),
+    },
+    ...pickTechniques(theme, patterns, item ? ["counter_evidence"] : []).map((id) => ({
+      technique: id,
+      label: label(id, TECHNIQUES[id].label),
+      text: TECHNIQUES[id].build(ctx),
+    })),
+    {
+      technique: "anchor",
+      label: label("anchor", "Anchor"),
+      text: item
+        ? t(locale, "reframe.anchor.text_item", "Anchor: 4/6 breath for 2 minutes; say “{reframe}” aloud; then: {action}", { ...varsOf(ctx), action: item.microAction })
+        : t(locale, "reframe.anchor.text", "Anchor: 4/6 breath for 2 minutes; say “{reframe}” aloud; take the next 60-second action.", varsOf(ctx)),
+    },
+  ];
+
+  return { theme, patterns, reframe, steps };
+}
@@ -0,0 +1,49 @@
+// app/api/_lib/sealed.test.ts
+import { describe, expect, it } from "vitest";
+import { buildActionPlan } from "./action-plan";
+import { listPlans, readPlan, savePlan } from "./plan-store";
+import { getSealedJson, openJson, putSealedJson, sealJson } from "./sealed";
+import { getStore } from "./store";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("sealed", { LICENSE_SIGNING_SECRET: "test-secret" });
+
+describe("sealJson / openJson", () => {
+  it("round-trips a value bound to its key and purpose", () => {
+    const sealed = sealJson("plans", "plans/cus_a/1.bin", { goal: "speak up" });
+    expect(sealed.toString("utf8")).not.toContain("speak up");
+    expect(openJson("plans", "plans/cus_a/1.bin", sealed)).toEqual({ goal: "speak up" });
+    expect(openJson("plans", "plans/cus_b/1.bin", sealed)).toBeNull();
+    expect(openJson("journal", "plans/cus_a/1.bin", sealed)).toBeNull();
+  });
+
+  it("rejects tampered or truncated records", () => {
+    const sealed = sealJson("journal", "journals/cus_a/x.bin", { note: "private" });
+    sealed[sealed.length - 1] ^= 1;
+    expect(openJson("journal", "journals/cus_a/x.bin", sealed)).toBeNull();
+    expect(openJson("journal", "journals/cus_a/x.bin", Buffer.alloc(10))).toBeNull();
+    expect(openJson("journal", "journals/cus_a/x.bin", null)).toBeNull();
+  });
+
+  it("stores sealed bytes through the store", async () => {
+    await putSealedJson("journal", "journals/cus_a/y.bin", { n: 1 });
+    expect(await getSealedJson("journal", "journals/cus_a/y.bin")).toEqual({ n: 1 });
+    expect(await getSealedJson("journal", "journals/cus_a/missing.bin")).toBeNull();
+  });
+});
+
+describe("saved plans", () => {
+  it("are written encrypted and read back by their owner only", async () => {
+    const plan = buildActionPlan({ belief: "I always fall off routines", goal: "walk after lunch" });
+    const saved = await savePlan("cus_owner", plan);
+
+    const [item] = await getStore().list("plans/cus_owner/");
+    expect(item.key).toBe(`plans/cus_owner/${saved.id}.bin`);
+    const raw = await getStore().getBytes(item.key);
+    expect(raw?.toString("utf8")).not.toContain("walk after lunch");
+
+    expect((await readPlan("cus_owner", saved.id))?.goal).toBe("walk after lunch");
+    expect(await readPlan("cus_other", saved.id)).toBeNull();
+    expect((await listPlans("cus_owner")).map((p) => p.id)).toEqual([saved.id]);
+  });
+});
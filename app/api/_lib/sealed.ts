@@ -0,0 +1,55 @@
+// app/api/_lib/sealed.ts
+import crypto from "crypto";
+import { getStore } from "./store";
+
+/* =========================
+   Encrypted JSON records (journal entries, saved plans)
+   ========================= */
+/**
+ * The blob backend only offers public objects, so private records are stored sealed:
+ * AES-256-GCM, key derived (HKDF) from LICENSE_SIGNING_SECRET per purpose, and the
+ * store key as AAD so a sealed record can't be moved to another owner's path.
+ * Layout: iv (12) | tag (16) | ciphertext.
+ */
+
+export type SealPurpose = "journal" | "plans";
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function encryptionKey(purpose: SealPurpose): Buffer {
+  const secret = process.env.LICENSE_SIGNING_SECRET;
+  if (!secret) throw new Error("LICENSE_SIGNING_SECRET not set");
+  return Buffer.from(crypto.hkdfSync("sha256", secret, "", `belief-blueprint/${purpose}/v1`, 32));
+}
+
+export function sealJson(purpose: SealPurpose, key: string, value: unknown): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(purpose), iv);
+  cipher.setAAD(Buffer.from(key));
+  const sealed = Buffer.concat([iv, Buffer.alloc(TAG_BYTES), cipher.update(JSON.stringify(value)), cipher.final()]);
+  cipher.getAuthTag().copy(sealed, IV_BYTES);
+  return sealed;
+}
+
+/** Decrypted value, or null when missing, truncated or tampered with */
+export function openJson<T>(purpose: SealPurpose, key: string, sealed: Buffer | null): T | null {
+  if (!sealed || sealed.length < IV_BYTES + TAG_BYTES) return null;
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(purpose), sealed.subarray(0, IV_BYTES));
+    decipher.setAAD(Buffer.from(key));
+    decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const json = Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    return JSON.parse(json.toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function putSealedJson(purpose: SealPurpose, key: string, value: unknown): Promise<void> {
+  await getStore().putBytes(key, sealJson(purpose, key, value), "application/octet-stream");
+}
+
+export async function getSealedJson<T>(purpose: SealPurpose, key: string): Promise<T | null> {
+  return openJson<T>(purpose, key, await getStore().getBytes(key));
+}
@@ -0,0 +1,245 @@
+// app/api/_lib/store.ts
+import { del, list, put } from "@vercel/blob";
+import { promises as fs } from "fs";
+import path from "path";
+
+/* =========================
+   Store contract
+   ========================= */
+/**
+ * Key/value storage for everything we persist (licenses/, licenses_by_email/,
+ * licenses_history/, trials/, exports/ ...). Keys are slash-separated paths,
+ * identical across backends, so records written by one can be read by the other.
+ *
+ * Backends:
+ * - "blob"  (default) → Vercel Blob, token from BLOB_READ_WRITE_TOKEN
+ * - "local"           → JSON/binary files under STORE_LOCAL_DIR (default ./.data/store)
+ * Reads return null only for missing keys; backend failures throw.
+ */
+export type StoreItem = {
+  key: string;
+  size: number;
+  uploadedAt: string; // ISO
+};
+
+export type StorePutResult = {
+  key: string;
+  url: string | null; // public URL (blob) or file:// URL (local)
+};
+
+export type Store = {
+  driver: "blob" | "local";
+  getJson<T = any>(key: string): Promise<T | null>;
+  putJson(key: string, value: unknown): Promise<StorePutResult>;
+  getBytes(key: string): Promise<Buffer | null>;
+  putBytes(key: string, bytes: Uint8Array, contentType: string): Promise<StorePutResult>;
+  list(prefix: string): Promise<StoreItem[]>;
+  delete(key: string): Promise<void>;
+};
+
+function encodeJson(value: unknown) {
+  return Buffer.from(JSON.stringify(value, null, 2));
+}
+
+function decodeJson<T>(buf: Buffer | null): T | null {
+  if (!buf) return null;
+  try {
+    return JSON.parse(buf.toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/* =========================
+   Vercel Blob backend
+   ========================= */
+
+const EXPECTED_BLOB_SUBDOMAIN = process.env.EXPECTED_BLOB_SUBDOMAIN || ""; // e.g. "yortzkpqfilo9jvz"
+
+function blobToken() {
+  return process.env.BLOB_READ_WRITE_TOKEN || "";
+}
+
+// Hard isolation: never read/write a different project's store via a wrong token
+function assertBlobStoreIsolation() {
+  if (
+    EXPECTED_BLOB_SUBDOMAIN &&
+    !blobToken().toLowerCase().includes(EXPECTED_BLOB_SUBDOMAIN.toLowerCase())
+  ) {
+    throw new Error("BLOB token mismatch — check EXPECTED_BLOB_SUBDOMAIN.");
+  }
+}
+
+async function blobListAll(prefix: string) {
+  assertBlobStoreIsolation();
+  const token = blobToken();
+  const out: Array<{ url: string; pathname: string; size: number; uploadedAt: Date }> = [];
+  let cursor: string | undefined;
+  do {
+    const page = await list({ prefix, cursor, ...(token ? { token } : {}) });
+    out.push(...page.blobs);
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+  return out;
+}
+
+async function blobFind(key: string) {
+  const blobs = await blobListAll(key);
+  return blobs.find((b) => b.pathname === key) ?? null;
+}
+
+// null only when the key doesn't exist; outages throw so callers never mistake them for "no record"
+async function blobFetch(key: string): Promise<Buffer | null> {
+  const hit = await blobFind(key);
+  if (!hit) return null;
+  // Version the URL with uploadedAt so an overwritten key never serves a stale CDN copy
+  const v = new Date(hit.uploadedAt).getTime();
+  const r = await fetch(`${hit.url}?v=${v}`, { cache: "no-store" });
+  if (r.status === 404) return null; // deleted between list and fetch
+  if (!r.ok) throw new Error(`Blob read failed for ${key}: HTTP ${r.status}`);
+  return Buffer.from(await r.arrayBuffer());
+}
+
+async function blobPut(key: string, body: Buffer, contentType: string): Promise<StorePutResult> {
+  assertBlobStoreIsolation();
+  const token = blobToken();
+  const { url } = await put(key, body, {
+    access: "public",
+    contentType,
+    addRandomSuffix: false, // stable file names
+    ...(token ? { token } : {}),
+  });
+  return { key, url };
+}
+
+const blobStore: Store = {
+  driver: "blob",
+  async getJson<T>(key: string) {
+    return decodeJson<T>(await blobFetch(key));
+  },
+  putJson(key, value) {
+    return blobPut(key, encodeJson(value), "application/json");
+  },
+  getBytes(key) {
+    return blobFetch(key);
+  },
+  putBytes(key, bytes, contentType) {
+    return blobPut(key, Buffer.from(bytes), contentType);
+  },
+  async list(prefix) {
+    const blobs = await blobListAll(prefix);
+    return blobs.map((b) => ({
+      key: b.pathname,
+      size: b.size,
+      uploadedAt: new Date(b.uploadedAt).toISOString(),
+    }));
+  },
+  async delete(key) {
+    const hit = await blobFind(key);
+    if (!hit) return;
+    const token = blobToken();
+    await del(hit.url, token ? { token } : undefined);
+  },
+};
+
+/* =========================
+   Local filesystem backend (offline dev + tests)
+   ========================= */
+
+function localRoot() {
+  return path.resolve(process.env.STORE_LOCAL_DIR || path.join(process.cwd(), ".data", "store"));
+}
+
+function localPath(key: string) {
+  const root = localRoot();
+  const full = path.resolve(root, key);
+  if (!full.startsWith(root + path.sep)) {
+    throw new Error(`Invalid store key: ${key}`);
+  }
+  return full;
+}
+
+async function localRead(key: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(localPath(key));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+async function localWrite(key: string, body: Buffer): Promise<StorePutResult> {
+  const file = localPath(key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // write-then-rename so readers never observe a half-written file
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, body);
+  await fs.rename(tmp, file);
+  return { key, url: `file://${file}` };
+}
+
+async function localWalk(dir: string, root: string, out: StoreItem[]) {
+  let entries: import("fs").Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return;
+    throw e;
+  }
+  for (const ent of entries) {
+    const full = path.join(dir, ent.name);
+    if (ent.isDirectory()) {
+      await localWalk(full, root, out);
+    } else if (ent.isFile() && !ent.name.endsWith(".tmp")) {
+      const st = await fs.stat(full);
+      out.push({
+        key: path.relative(root, full).split(path.sep).join("/"),
+        size: st.size,
+        uploadedAt: st.mtime.toISOString(),
+      });
+    }
+  }
+}
+
+const localStore: Store = {
+  driver: "local",
+  async getJson<T>(key: string) {
+    return decodeJson<T>(await localRead(key));
+  },
+  putJson(key, value) {
+    return localWrite(key, encodeJson(value));
+  },
+  getBytes(key) {
+    return localRead(key);
+  },
+  putBytes(key, bytes) {
+    return localWrite(key, Buffer.from(bytes));
+  },
+  async list(prefix) {
+    const root = localRoot();
+    // Only walk the deepest directory the prefix pins down
+    const dirPart = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : "";
+    const out: StoreItem[] = [];
+    await localWalk(dirPart ? localPath(dirPart) : root, root, out);
+    return out
+      .filter((it) => it.key.startsWith(prefix))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  },
+  async delete(key) {
+    try {
+      await fs.unlink(localPath(key));
+    } catch (e: any) {
+      if (e?.code !== "ENOENT") throw e;
+    }
+  },
+};
+
+/* =========================
+   Selection
+   ========================= */
+
+/** STORE_DRIVER=local switches every module to the filesystem backend */
+export function getStore(): Store {
+  const driver = (process.env.STORE_DRIVER || "blob").trim().toLowerCase();
+  return driver === "local" ? localStore : blobStore;
+}
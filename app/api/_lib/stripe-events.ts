@@ -0,0 +1,561 @@
+// app/api/_lib/stripe-events.ts
+import Stripe from "stripe";
+import { issueLicenseKey } from "./license-key";
+import { readLicenseRecord, saveLicenseRecord } from "./licenses";
+import { PAYMENT_GRACE_DAYS, type DunningState } from "./subscription";
+import { saveTeamFromBilling } from "./teams";
+import {
+  isInFlight,
+  markFailed,
+  markProcessed,
+  markReceived,
+  readLedgerEntry,
+  type LedgerEntry,
+} from "./webhook-ledger";
+
+// ---------- Per-project routing guards (configure in Vercel env; shared with the webhook route) ----------
+const CONFIGURED_PRICE_IDS = (process.env.ALLOWED_PRICE_IDS || "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean); // e.g. "price_123,price_456"
+
+// Per-seat team prices (PRICE_TEAM_{MONTHLY|ANNUAL}_{INR|USD}) are this project's too
+export const TEAM_PRICE_IDS = ["MONTHLY", "ANNUAL"]
+  .flatMap((interval) => ["INR", "USD"].map((cur) => process.env[`PRICE_TEAM_${interval}_${cur}`]?.trim() || ""))
+  .filter(Boolean);
+
+// Empty stays empty (no filtering); otherwise the configured list plus the team prices
+export const ALLOWED_PRICE_IDS =
+  CONFIGURED_PRICE_IDS.length > 0 ? [...new Set([...CONFIGURED_PRICE_IDS, ...TEAM_PRICE_IDS])] : [];
+
+export const EXPECTED_BLOB_SUBDOMAIN = process.env.EXPECTED_BLOB_SUBDOMAIN || ""; // e.g. "yortzkpqfilo9jvz"
+
+// -------- Subscription helpers --------
+function cancellationFields(sub: Stripe.Subscription) {
+  return {
+    cancel_at_period_end: sub.cancel_at_period_end ?? false,
+    cancel_at: sub.cancel_at ?? null,
+    canceled_at: sub.canceled_at ?? null,
+    ended_at: sub.ended_at ?? null,
+    cancellation_reason: sub.cancellation_details?.reason ?? null,
+    cancellation_feedback: sub.cancellation_details?.feedback ?? null,
+  };
+}
+
+/** Seat count of a team subscription (summed item quantities); null for single licenses */
+function teamSeatsOf(sub: Stripe.Subscription): number | null {
+  if (sub.metadata?.plan_kind !== "team") return null;
+  return (sub.items?.data || []).reduce((n, it) => n + (it.quantity ?? 0), 0);
+}
+
+/** Keep a team's seat count and standing in step with its subscription (ordering-protected) */
+async function syncTeamSeats(
+  sub: Stripe.Subscription,
+  customerId: string,
+  email: string | null,
+  eventCreated: number
+): Promise<void> {
+  const seats = teamSeatsOf(sub);
+  if (seats === null) return;
+  await saveTeamFromBilling({
+    customerId,
+    seats,
+    ownerEmail: email,
+    name: sub.metadata?.team_name || null,
+    subscriptionId: sub.id,
+    eventCreated,
+    ended: sub.status === "canceled" || sub.status === "incomplete_expired",
+  });
+}
+
+// -------- License key helpers --------
+/**
+ * Issue a signed key, or say why it could not be issued. A missing LICENSE_SIGNING_SECRET
+ * must not fail the event (Stripe would retry it forever): the record is still written,
+ * with `licenseKeyError` set, and the event can be replayed once the secret is configured.
+ */
+function tryIssueLicenseKey(customerId: string): { licenseKey: string | null; licenseKeyError: string | null } {
+  if (!process.env.LICENSE_SIGNING_SECRET) {
+    const licenseKeyError = "LICENSE_SIGNING_SECRET not set; no license key was issued";
+    console.error("[stripe:webhook] " + licenseKeyError, { customerId });
+    return { licenseKey: null, licenseKeyError };
+  }
+  return { licenseKey: issueLicenseKey(customerId), licenseKeyError: null };
+}
+
+// -------- Invoice helpers --------
+function invoiceCustomerId(invoice: Stripe.Invoice): string | null {
+  const c = invoice.customer;
+  return typeof c === "string" ? c : c?.id ?? null;
+}
+
+function invoiceAllowed(invoice: Stripe.Invoice, label: string): boolean {
+  if (ALLOWED_PRICE_IDS.length === 0) return true;
+  const priceIds = (invoice.lines?.data || [])
+    .map((li) => li.price?.id)
+    .filter(Boolean) as string[];
+  const allowed = priceIds.some((id) => ALLOWED_PRICE_IDS.includes(id));
+  if (!allowed) {
+    console.log(`[stripe:webhook] skipped ${label} (no allowed price ids)`, {
+      invoiceId: invoice.id,
+      priceIds,
+      allowedList: ALLOWED_PRICE_IDS,
+    });
+  }
+  return allowed;
+}
+
+// -------- Customer helpers --------
+function isDeletedCustomer(
+  c: Stripe.Customer | Stripe.DeletedCustomer
+): c is Stripe.DeletedCustomer {
+  return (c as any).deleted === true;
+}
+
+/**
+ * Apply one verified Stripe event to our license records.
+ * Shared by the webhook route and the admin replay endpoint.
+ * Resolves when the event was handled (or deliberately skipped);
+ * throws on failures that a retry could fix.
+ */
+export async function handleStripeEvent(stripe: Stripe, event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    // ----------------------------------------------------------
+    // 1) Checkout completes: create license (allowlist-enforced)
+    // ----------------------------------------------------------
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+
+      // Collect priceIds + productIds from actual line items
+      const priceIds = new Set<string>();
+      const productIds = new Set<string>();
+      let quantity = 0;
+      try {
+        const items = await stripe.checkout.sessions.listLineItems(session.id, { limit: 100 });
+        for (const li of items.data) {
+          const priceId = li.price?.id ?? (li as any)?.price ?? null;
+          if (typeof priceId === "string") priceIds.add(priceId);
+          quantity += li.quantity ?? 0;
+
+          // product can be string or object depending on expansion
+          const prod = li.price?.product as string | Stripe.Product | undefined;
+          const productId =
+            typeof prod === "string" ? prod : (prod?.id ?? undefined);
+          if (typeof productId === "string") productIds.add(productId);
+        }
+      } catch (e) {
+        console.warn("[stripe:webhook] listLineItems failed", { sessionId: session.id, e });
+      }
+
+      if (ALLOWED_PRICE_IDS.length > 0) {
+        const allowed = [...priceIds].some((id) => ALLOWED_PRICE_IDS.includes(id));
+        if (!allowed) {
+          console.log("[stripe:webhook] skipped checkout.session.completed (no allowed price ids)", {
+            sessionId: session.id,
+            priceIds: [...priceIds],
+            allowedList: ALLOWED_PRICE_IDS,
+          });
+          return;
+        }
+      }
+
+      const customerId =
+        typeof session.customer === "string"
+          ? session.customer
+          : session.customer?.id;
+
+      if (!customerId) {
+        console.error("checkout.session.completed: missing customer id");
+        return;
+      }
+
+      const { licenseKey, licenseKeyError } = tryIssueLicenseKey(customerId);
+      if (licenseKey) {
+        await stripe.customers.update(customerId, {
+          metadata: { license_key: licenseKey },
+        });
+      }
+
+      let email: string | null = session.customer_details?.email ?? null;
+      if (!email) {
+        try {
+          const cust = await stripe.customers.retrieve(customerId);
+          email = isDeletedCustomer(cust) ? null : cust.email ?? null;
+        } catch {
+          email = null;
+        }
+      }
+
+      await saveLicenseRecord({
+        customerId,
+        licenseKey,
+        email,
+        source: "checkout.session.completed",
+        extra: {
+          store: EXPECTED_BLOB_SUBDOMAIN,
+          projectHost: process.env.VERCEL_URL || null,
+          priceIds: [...priceIds],
+          productIds: [...productIds],
+          sessionId: session.id,
+          mode: session.mode,
+          currency: session.currency,
+          amount_total: session.amount_total,
+          licenseKeyError,
+        },
+        writeLatest: true,
+        writeHistory: true,
+        merge: true, // keep subscription status if customer.subscription.* landed first
+      });
+
+      if (licenseKey) console.log("Issued license:", licenseKey, "for", customerId);
+
+      // Team license: create the team and seat the purchaser
+      if (session.metadata?.plan_kind === "team") {
+        const subscriptionId =
+          typeof session.subscription === "string" ? session.subscription : session.subscription?.id;
+        const team = await saveTeamFromBilling({
+          customerId,
+          seats: quantity || Number(session.metadata.team_seats) || 1,
+          ownerEmail: email,
+          name: session.metadata.team_name || null,
+          subscriptionId: subscriptionId ?? null,
+        });
+        console.log("Team license:", customerId, { seats: team.seats, members: team.members.length });
+      }
+      return;
+    }
+
+    // ----------------------------------------------------------
+    // 2) Subscription created: backfill license if missing (allowlist)
+    // ----------------------------------------------------------
+    case "customer.subscription.created": {
+      const sub = event.data.object as Stripe.Subscription;
+
+      const subPriceIds = (sub.items?.data || [])
+        .map((it) => it.price?.id)
+        .filter(Boolean) as string[];
+      const subProductIds = (sub.items?.data || [])
+        .map((it) => {
+          const p = it.price?.product as string | Stripe.Product | undefined;
+          return typeof p === "string" ? p : p?.id;
+        })
+        .filter(Boolean) as string[];
+
+      if (ALLOWED_PRICE_IDS.length > 0) {
+        const allowed = subPriceIds.some((id) => ALLOWED_PRICE_IDS.includes(id));
+        if (!allowed) {
+          console.log("[stripe:webhook] skipped subscription.created (no allowed price ids)", {
+            subId: sub.id,
+            priceIds: subPriceIds,
+            allowedList: ALLOWED_PRICE_IDS,
+          });
+          return;
+        }
+      }
+
+      const customerId =
+        typeof sub.customer === "string" ? sub.customer : sub.customer?.id;
+      if (!customerId) return;
+
+      let email: string | null = null;
+      let licenseKey: string | null = null;
+      let licenseKeyError: string | null = null;
+
+      try {
+        const customer = await stripe.customers.retrieve(customerId);
+        if (!isDeletedCustomer(customer)) {
+          email = customer.email ?? null;
+          licenseKey = (customer.metadata?.license_key as string | undefined) ?? null;
+        }
+      } catch {
+        // ignore
+      }
+
+      if (!licenseKey) {
+        ({ licenseKey, licenseKeyError } = tryIssueLicenseKey(customerId));
+        if (licenseKey) {
+          await stripe.customers.update(customerId, {
+            metadata: { license_key: licenseKey },
+          });
+          console.log("Backfilled license:", licenseKey, "for", customerId);
+        }
+      }
+
+      await saveLicenseRecord({
+        customerId,
+        licenseKey,
+        email,
+        source: "customer.subscription.created",
+        extra: {
+          store: EXPECTED_BLOB_SUBDOMAIN,
+          projectHost: process.env.VERCEL_URL || null,
+          priceIds: subPriceIds,
+          productIds: subProductIds,
+          subscriptionId: sub.id,
+          status: sub.status,
+          current_period_end: sub.current_period_end,
+          statusCheckedAt: new Date(event.created * 1000).toISOString(),
+          licenseKeyError,
+        },
+        writeLatest: true,
+        writeHistory: true,
+        merge: true,
+        eventCreated: event.created,
+      });
+      await syncTeamSeats(sub, customerId, email, event.created);
+
+      return;
+    }
+
+    // ----------------------------------------------------------
+    // 3) Subscription updated: latest + history (allowlist, ordering-protected)
+    // ----------------------------------------------------------
+    case "customer.subscription.updated": {
+      const sub = event.data.object as Stripe.Subscription;
+
+      const subPriceIds = (sub.items?.data || [])
+        .map((it) => it.price?.id)
+        .filter(Boolean) as string[];
+      const subProductIds = (sub.items?.data || [])
+        .map((it) => {
+          const p = it.price?.product as string | Stripe.Product | undefined;
+          return typeof p === "string" ? p : p?.id;
+        })
+        .filter(Boolean) as string[];
+
+      if (ALLOWED_PRICE_IDS.length > 0) {
+        const allowed = subPriceIds.some((id) => ALLOWED_PRICE_IDS.includes(id));
+        if (!allowed) {
+          console.log("[stripe:webhook] skipped subscription.updated (no allowed price ids)", {
+            subId: sub.id,
+            priceIds: subPriceIds,
+            allowedList: ALLOWED_PRICE_IDS,
+          });
+          return;
+        }
+      }
+
+      const customerId =
+        typeof sub.customer === "string" ? sub.customer : sub.customer?.id;
+      if (!customerId) return;
+
+      let email: string | null = null;
+      let licenseKey: string | null = null;
+
+      try {
+        const customer = await stripe.customers.retrieve(customerId);
+        if (!isDeletedCustomer(customer)) {
+          email = customer.email ?? null;
+          licenseKey = (customer.metadata?.license_key as string | undefined) ?? null;
+        }
+      } catch {
+        // ignore
+      }
+
+      await saveLicenseRecord({
+        customerId,
+        licenseKey: licenseKey ?? null,
+        email,
+        source: "customer.subscription.updated",
+        extra: {
+          store: EXPECTED_BLOB_SUBDOMAIN,
+          projectHost: process.env.VERCEL_URL || null,
+          priceIds: subPriceIds,
+          productIds: subProductIds,
+          subscriptionId: sub.id,
+          status: sub.status,
+          current_period_end: sub.current_period_end,
+          statusCheckedAt: new Date(event.created * 1000).toISOString(),
+          ...cancellationFields(sub),
+        },
+        writeLatest: true, // status page reads latest; older events are skipped
+        writeHistory: true,
+        merge: true,
+        eventCreated: event.created,
+      });
+      await syncTeamSeats(sub, customerId, email, event.created);
+
+      return;
+    }
+
+    // ----------------------------------------------------------
+    // 4) Subscription canceled/deleted: latest + history (allowlist, ordering-protected)
+    // ----------------------------------------------------------
+    case "customer.subscription.deleted": {
+      const sub = event.data.object as Stripe.Subscription;
+
+      const subPriceIds = (sub.items?.data || [])
+        .map((it) => it.price?.id)
+        .filter(Boolean) as string[];
+      const subProductIds = (sub.items?.data || [])
+        .map((it) => {
+          const p = it.price?.product as string | Stripe.Product | undefined;
+          return typeof p === "string" ? p : p?.id;
+        })
+        .filter(Boolean) as string[];
+
+      if (ALLOWED_PRICE_IDS.length > 0) {
+        const allowed = subPriceIds.some((id) => ALLOWED_PRICE_IDS.includes(id));
+        if (!allowed) {
+          console.log("[stripe:webhook] skipped subscription.deleted (no allowed price ids)", {
+            subId: sub.id,
+            priceIds: subPriceIds,
+            allowedList: ALLOWED_PRICE_IDS,
+          });
+          return;
+        }
+      }
+
+      const customerId =
+        typeof sub.customer === "string" ? sub.customer : sub.customer?.id;
+      if (!customerId) return;
+
+      let email: string | null = null;
+      let licenseKey: string | null = null;
+
+      try {
+        const customer = await stripe.customers.retrieve(customerId);
+        if (!isDeletedCustomer(customer)) {
+          email = customer.email ?? null;
+          licenseKey = (customer.metadata?.license_key as string | undefined) ?? null;
+        }
+      } catch {
+        // ignore
+      }
+
+      await saveLicenseRecord({
+        customerId,
+        licenseKey: licenseKey ?? null,
+        email,
+        source: "customer.subscription.deleted",
+        extra: {
+          store: EXPECTED_BLOB_SUBDOMAIN,
+          projectHost: process.env.VERCEL_URL || null,
+          priceIds: subPriceIds,
+          productIds: subProductIds,
+          subscriptionId: sub.id,
+          status: sub.status,
+          current_period_end: sub.current_period_end,
+          statusCheckedAt: new Date(event.created * 1000).toISOString(),
+          ...cancellationFields(sub),
+        },
+        writeLatest: true, // flips latest to canceled; older events are skipped
+        writeHistory: true,
+        merge: true,
+        eventCreated: event.created,
+      });
+      await syncTeamSeats(sub, customerId, email, event.created); // suspends every seat
+
+      return;
+    }
+
+    // ----------------------------------------------------------
+    // 5) Payment failed: open/advance dunning + grace deadline (allowlist)
+    // ----------------------------------------------------------
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      const customerId = invoiceCustomerId(invoice);
+      if (!customerId || !invoiceAllowed(invoice, "invoice.payment_failed")) return;
+
+      const rec = await readLicenseRecord(customerId);
+      const prev: DunningState | null = rec?.dunning ?? null;
+      if (prev && prev.eventCreated > event.created) return; // older retry notice
+
+      const failedAt = new Date(event.created * 1000);
+      const firstFailedAt = prev?.firstFailedAt ?? failedAt.toISOString();
+      const dunning: DunningState = {
+        failedAttempts: Math.max(invoice.attempt_count ?? 0, (prev?.failedAttempts ?? 0) + 1),
+        firstFailedAt,
+        lastFailedAt: failedAt.toISOString(),
+        nextRetryAt: invoice.next_payment_attempt
+          ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+          : null,
+        graceUntil:
+          prev?.graceUntil ??
+          new Date(new Date(firstFailedAt).getTime() + PAYMENT_GRACE_DAYS * 86400 * 1000).toISOString(),
+        lastInvoiceId: invoice.id ?? null,
+        eventCreated: event.created,
+      };
+
+      await saveLicenseRecord({
+        customerId,
+        licenseKey: null, // merge keeps the stored key
+        email: invoice.customer_email ?? null,
+        source: "invoice.payment_failed",
+        extra: { dunning },
+        writeLatest: true,
+        writeHistory: true,
+        merge: true,
+      });
+      console.log("[stripe:webhook] dunning", { customerId, ...dunning });
+      return;
+    }
+
+    // ----------------------------------------------------------
+    // 6) Payment succeeded: close dunning (allowlist)
+    // ----------------------------------------------------------
+    case "invoice.payment_succeeded": {
+      const invoice = event.data.object as Stripe.Invoice;
+      const customerId = invoiceCustomerId(invoice);
+      if (!customerId || !invoiceAllowed(invoice, "invoice.payment_succeeded")) return;
+
+      const rec = await readLicenseRecord(customerId);
+      const prev: DunningState | null = rec?.dunning ?? null;
+      if (!prev || prev.eventCreated > event.created) return; // nothing to clear
+
+      await saveLicenseRecord({
+        customerId,
+        licenseKey: null,
+        email: invoice.customer_email ?? null,
+        source: "invoice.payment_succeeded",
+        extra: {
+          dunning: null,
+          lastPaymentAt: new Date(event.created * 1000).toISOString(),
+          lastInvoiceId: invoice.id ?? null,
+        },
+        writeLatest: true,
+        writeHistory: true,
+        merge: true,
+      });
+      return;
+    }
+
+    default:
+      return;
+  }
+}
+
+/* =========================
+   Ledger-wrapped processing
+   ========================= */
+
+export type ProcessOutcome =
+  | { outcome: "processed"; entry: LedgerEntry }
+  | { outcome: "duplicate"; entry: LedgerEntry } // already processed → skip
+  | { outcome: "in_flight"; entry: LedgerEntry } // another delivery is mid-way
+  | { outcome: "failed"; entry: LedgerEntry; error: string };
+
+/**
+ * Record → handle → mark. Used for live deliveries and admin replays.
+ * `force` (replay) re-runs even an already processed event.
+ */
+export async function processStripeEvent(
+  stripe: Stripe,
+  event: Stripe.Event,
+  opts: { force?: boolean; replayedBy?: string | null } = {}
+): Promise<ProcessOutcome> {
+  const prev = await readLedgerEntry(event.id);
+  if (prev && !opts.force) {
+    if (prev.state === "processed") return { outcome: "duplicate", entry: prev };
+    if (isInFlight(prev)) return { outcome: "in_flight", entry: prev };
+  }
+
+  const entry = await markReceived(event, prev, opts.replayedBy ?? null);
+  try {
+    await handleStripeEvent(stripe, event);
+    return { outcome: "processed", entry: await markProcessed(entry) };
+  } catch (err: any) {
+    console.error("Webhook handler error:", { eventId: event.id, type: event.type, error: err?.message || err });
+    return { outcome: "failed", entry: await markFailed(entry, err), error: err?.message || String(err) };
+  }
+}
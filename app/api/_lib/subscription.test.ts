@@ -0,0 +1,215 @@
+// app/api/_lib/subscription.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readLicenseRecord, saveLicenseRecord } from "./licenses";
+import {
+  billingStanding,
+  getSubscriptionStatus,
+  PAYMENT_GRACE_DAYS,
+  subscriptionCacheMetrics,
+  type DunningState,
+} from "./subscription";
+import { useLocalStore } from "./test-store";
+
+const stripeList = vi.hoisted(() => vi.fn());
+
+vi.mock("stripe", () => ({
+  default: vi.fn().mockImplementation(() => ({ subscriptions: { list: stripeList } })),
+}));
+
+useLocalStore("subscription", { STRIPE_SECRET_KEY: "sk_test_dummy", SUB_CACHE_TTL_SECONDS: "60" });
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+async function seedStatus(customerId: string, status: string, checkedAt: Date | null) {
+  await saveLicenseRecord({
+    customerId,
+    licenseKey: null,
+    source: "test",
+    writeHistory: false,
+    extra: { status, ...(checkedAt ? { statusCheckedAt: checkedAt.toISOString() } : {}) },
+  });
+}
+
+/** Metric deltas across `fn` (the counters are per instance, shared by every test) */
+async function metricsDelta(fn: () => Promise<unknown>) {
+  const before = subscriptionCacheMetrics();
+  await fn();
+  const after = subscriptionCacheMetrics();
+  return {
+    hits: after.hits - before.hits,
+    misses: after.misses - before.misses,
+    forcedRefreshes: after.forcedRefreshes - before.forcedRefreshes,
+    staleServed: after.staleServed - before.staleServed,
+    errors: after.errors - before.errors,
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  stripeList.mockReset();
+  stripeList.mockResolvedValue({
+    data: [{ id: "sub_live", status: "active", created: 1, current_period_end: 1900000000 }],
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getSubscriptionStatus cache", () => {
+  it("serves a status checked inside the TTL without asking Stripe", async () => {
+    await seedStatus("cus_fresh", "active", new Date(NOW.getTime() - 30_000));
+    let status;
+    const delta = await metricsDelta(async () => (status = await getSubscriptionStatus("cus_fresh")));
+    expect(status).toMatchObject({ source: "cache", active: true, status: "active" });
+    expect(delta).toMatchObject({ hits: 1, misses: 0 });
+    expect(stripeList).not.toHaveBeenCalled();
+  });
+
+  it("expires the cached status once the TTL has passed", async () => {
+    await seedStatus("cus_expiring", "canceled", NOW);
+    expect((await getSubscriptionStatus("cus_expiring")).source).toBe("cache");
+
+    vi.setSystemTime(new Date(NOW.getTime() + 61_000));
+    let status;
+    const delta = await metricsDelta(async () => (status = await getSubscriptionStatus("cus_expiring")));
+    expect(status).toMatchObject({ source: "stripe", active: true, subscriptionId: "sub_live" });
+    expect(delta).toMatchObject({ hits: 0, misses: 1 });
+    expect(stripeList).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes Stripe's answer back so the next lookup is a hit", async () => {
+    await getSubscriptionStatus("cus_new");
+    const rec = await readLicenseRecord("cus_new");
+    expect(rec).toMatchObject({ status: "active", subscriptionId: "sub_live", statusCheckedAt: NOW.toISOString() });
+
+    const delta = await metricsDelta(() => getSubscriptionStatus("cus_new"));
+    expect(delta.hits).toBe(1);
+    expect(stripeList).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats savedAt as the check time for records without statusCheckedAt", async () => {
+    await seedStatus("cus_legacy", "active", null);
+    expect((await getSubscriptionStatus("cus_legacy")).source).toBe("cache");
+  });
+
+  it("counts forced refreshes separately from misses", async () => {
+    await seedStatus("cus_forced", "active", NOW);
+    const delta = await metricsDelta(() => getSubscriptionStatus("cus_forced", { forceRefresh: true }));
+    expect(delta).toMatchObject({ hits: 0, misses: 0, forcedRefreshes: 1 });
+    expect(stripeList).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves the stale record when Stripe fails, and throws when there is none", async () => {
+    stripeList.mockRejectedValue(new Error("stripe down"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await seedStatus("cus_stale", "active", new Date(NOW.getTime() - 3600_000));
+
+    let status;
+    const delta = await metricsDelta(async () => (status = await getSubscriptionStatus("cus_stale")));
+    expect(status).toMatchObject({ source: "stale_cache", active: true });
+    expect(delta).toMatchObject({ misses: 1, errors: 1, staleServed: 1 });
+
+    await expect(getSubscriptionStatus("cus_unknown")).rejects.toThrow("stripe down");
+  });
+});
+
+describe("subscriptionCacheMetrics", () => {
+  it("reports the hit rate and the configured TTL", async () => {
+    await seedStatus("cus_rate", "active", NOW);
+    await getSubscriptionStatus("cus_rate");
+    const m = subscriptionCacheMetrics();
+    expect(m.ttlSeconds).toBe(60);
+    expect(m.hitRate).toBe(Number((m.hits / (m.hits + m.misses)).toFixed(3)));
+  });
+});
+
+describe("billingStanding", () => {
+  const now = NOW.getTime();
+  const dunning = (graceUntil: Date): DunningState => ({
+    failedAttempts: 2,
+    firstFailedAt: "2026-02-27T12:00:00.000Z",
+    lastFailedAt: "2026-02-28T12:00:00.000Z",
+    nextRetryAt: "2026-03-03T12:00:00.000Z",
+    graceUntil: graceUntil.toISOString(),
+    lastInvoiceId: "in_1",
+    eventCreated: 1,
+  });
+  const future = new Date(now + 2 * 86400_000);
+  const past = new Date(now - 1000);
+
+  it("is active for active/trialing, warning only while a failed payment is open", () => {
+    expect(billingStanding({ status: "active" }, now)).toEqual({ standing: "active" });
+    expect(billingStanding({ status: "trialing" }, now)).toEqual({ standing: "active" });
+
+    const warned = billingStanding({ status: "active", dunning: dunning(future) }, now);
+    expect(warned.standing).toBe("active");
+    expect(warned.warning).toMatchObject({ code: "PAYMENT_PAST_DUE", failedAttempts: 2 });
+  });
+
+  it("keeps past_due/unpaid in grace until the deadline, then fails", () => {
+    for (const status of ["past_due", "unpaid"]) {
+      const grace = billingStanding({ status, dunning: dunning(future) }, now);
+      expect(grace.standing).toBe("grace");
+      expect(grace.warning).toMatchObject({
+        graceUntil: future.toISOString(),
+        nextRetryAt: "2026-03-03T12:00:00.000Z",
+      });
+      expect(grace.warning?.message).toContain(future.toISOString().slice(0, 10));
+
+      const failed = billingStanding({ status, dunning: dunning(past) }, now);
+      expect(failed.standing).toBe("payment_failed");
+      expect(failed.warning?.graceUntil).toBe(past.toISOString());
+    }
+  });
+
+  it("runs grace from current_period_end when the payment_failed webhook was missed", () => {
+    const periodEnd = Math.floor(now / 1000) - 86400; // ended yesterday
+    const grace = billingStanding({ status: "past_due", current_period_end: periodEnd }, now);
+    expect(grace.standing).toBe("grace"); // default grace: 7 days
+    expect(grace.warning?.failedAttempts).toBe(0);
+
+    const later = now + (PAYMENT_GRACE_DAYS + 1) * 86400_000;
+    expect(billingStanding({ status: "past_due", current_period_end: periodEnd }, later).standing).toBe(
+      "payment_failed"
+    );
+    expect(billingStanding({ status: "past_due" }, now).standing).toBe("payment_failed");
+  });
+
+  it("is inactive for everything else", () => {
+    for (const status of ["canceled", "incomplete", "none", null]) {
+      expect(billingStanding({ status, dunning: dunning(future) }, now)).toEqual({ standing: "inactive" });
+    }
+  });
+});
+
+describe("grace in getSubscriptionStatus", () => {
+  it("keeps Pro active during grace and drops it afterwards", async () => {
+    const graceUntil = new Date(NOW.getTime() + 3600_000).toISOString();
+    await saveLicenseRecord({
+      customerId: "cus_dunning",
+      licenseKey: null,
+      source: "test",
+      writeHistory: false,
+      extra: {
+        status: "past_due",
+        statusCheckedAt: NOW.toISOString(),
+        dunning: { failedAttempts: 1, graceUntil, nextRetryAt: null },
+      },
+    });
+    expect(await getSubscriptionStatus("cus_dunning")).toMatchObject({ active: true, standing: "grace" });
+
+    // Still inside the cache TTL, but past the grace deadline
+    vi.setSystemTime(new Date(NOW.getTime() + 30_000));
+    await saveLicenseRecord({
+      customerId: "cus_dunning",
+      licenseKey: null,
+      source: "test",
+      writeHistory: false,
+      merge: true,
+      extra: { dunning: { failedAttempts: 3, graceUntil: NOW.toISOString(), nextRetryAt: null } },
+    });
+    expect(await getSubscriptionStatus("cus_dunning")).toMatchObject({ active: false, standing: "payment_failed" });
+  });
+});
@@ -0,0 +1,252 @@
+// app/api/_lib/subscription.ts
+import Stripe from "stripe";
+import { patchLicenseRecord, readLicenseRecord, type LicenseRecord } from "./licenses";
+
+/* =========================
+   Subscription-status cache
+   ========================= */
+/**
+ * Gate decisions read subscription status from the stored license record
+ * (licenses/<cus>.json), which the webhook keeps current on customer.subscription.*.
+ * Stripe is only asked when the record is missing or older than the TTL, or
+ * when a refresh is forced; the answer is written back to the record.
+ *
+ * Cached fields on the record: status, subscriptionId, current_period_end, statusCheckedAt
+ *
+ * Dunning: invoice.payment_failed writes `dunning` onto the record. While the
+ * subscription is past_due/unpaid and the grace deadline has not passed, Pro
+ * stays unlocked with a warning; afterwards access drops with PAYMENT_FAILED.
+ */
+
+function getStripe() {
+  const key = process.env.STRIPE_SECRET_KEY;
+  if (!key) throw new Error("STRIPE_SECRET_KEY not set");
+  return new Stripe(key, { apiVersion: "2024-06-20" });
+}
+
+function readTtlSeconds(): number {
+  const n = Number(process.env.SUB_CACHE_TTL_SECONDS || "900");
+  return Number.isFinite(n) && n >= 0 ? n : 900;
+}
+
+function readGraceDays(): number {
+  const n = Number(process.env.PAYMENT_GRACE_DAYS || "7");
+  return Number.isFinite(n) && n >= 0 ? Math.min(n, 60) : 7;
+}
+
+/** Exposed so the webhook computes the same grace deadline */
+export const PAYMENT_GRACE_DAYS = readGraceDays();
+
+const ACTIVE_STATUSES = ["active", "trialing"];
+const DUNNING_STATUSES = ["past_due", "unpaid"];
+
+/** Stored on licenses/<cus>.json by invoice.payment_failed; cleared on payment_succeeded */
+export type DunningState = {
+  failedAttempts: number;
+  firstFailedAt: string; // ISO
+  lastFailedAt: string; // ISO
+  nextRetryAt: string | null; // ISO; null when Stripe stopped retrying
+  graceUntil: string; // ISO
+  lastInvoiceId: string | null;
+  eventCreated: number; // invoice event ordering
+};
+
+export type BillingWarning = {
+  code: "PAYMENT_PAST_DUE";
+  message: string;
+  graceUntil: string | null;
+  failedAttempts: number;
+  nextRetryAt: string | null;
+};
+
+/**
+ * - active          → active/trialing (may still carry a warning if a payment just failed)
+ * - grace           → past_due/unpaid, grace deadline not reached → Pro stays on
+ * - payment_failed  → past_due/unpaid, grace expired
+ * - inactive        → anything else (canceled, incomplete, none)
+ */
+export type BillingStanding = "active" | "grace" | "payment_failed" | "inactive";
+
+export type SubscriptionStatus = {
+  customerId: string;
+  active: boolean;
+  status: string | null; // Stripe status, e.g. "active", "past_due", "canceled"
+  subscriptionId: string | null;
+  current_period_end: number | null; // unix seconds
+  checkedAt: string | null; // ISO, when this status was last confirmed
+  source: "cache" | "stripe" | "stale_cache";
+  standing: BillingStanding;
+  warning?: BillingWarning;
+  dunning?: DunningState | null;
+};
+
+/* =========================
+   Metrics (per instance; reset on cold start)
+   ========================= */
+
+const metrics = { hits: 0, misses: 0, forcedRefreshes: 0, staleServed: 0, errors: 0 };
+
+export function subscriptionCacheMetrics() {
+  const lookups = metrics.hits + metrics.misses;
+  return {
+    ...metrics,
+    hitRate: lookups ? Number((metrics.hits / lookups).toFixed(3)) : null,
+    ttlSeconds: readTtlSeconds(),
+  };
+}
+
+/* =========================
+   Helpers
+   ========================= */
+
+function checkedAtOf(rec: LicenseRecord): string | null {
+  // Webhook writes before statusCheckedAt existed still carry a fresh status at savedAt
+  return rec.statusCheckedAt || (rec.status ? rec.savedAt : null) || null;
+}
+
+function isFresh(rec: LicenseRecord | null, now = Date.now()): rec is LicenseRecord {
+  if (!rec?.status) return false;
+  const at = checkedAtOf(rec);
+  if (!at) return false;
+  return now - new Date(at).getTime() < readTtlSeconds() * 1000;
+}
+
+/**
+ * Pure standing/grace decision from a stored record (also used by /api/license/status).
+ * Without dunning info (missed webhook), grace runs from current_period_end.
+ */
+export function billingStanding(
+  rec: { status?: string | null; current_period_end?: number | null; dunning?: DunningState | null },
+  now = Date.now()
+): { standing: BillingStanding; warning?: BillingWarning } {
+  const status = rec.status ?? "";
+  const dunning = rec.dunning ?? null;
+
+  const graceUntil =
+    dunning?.graceUntil ??
+    (typeof rec.current_period_end === "number" && rec.current_period_end > 0
+      ? new Date((rec.current_period_end + PAYMENT_GRACE_DAYS * 86400) * 1000).toISOString()
+      : null);
+
+  const warning = (message: string): BillingWarning => ({
+    code: "PAYMENT_PAST_DUE",
+    message,
+    graceUntil,
+    failedAttempts: dunning?.failedAttempts ?? 0,
+    nextRetryAt: dunning?.nextRetryAt ?? null,
+  });
+
+  if (ACTIVE_STATUSES.includes(status)) {
+    return dunning
+      ? {
+          standing: "active",
+          warning: warning("Your last payment failed. Please update your payment method in the billing portal."),
+        }
+      : { standing: "active" };
+  }
+
+  if (DUNNING_STATUSES.includes(status)) {
+    if (graceUntil && new Date(graceUntil).getTime() > now) {
+      return {
+        standing: "grace",
+        warning: warning(
+          `Payment failed. Pro stays unlocked until ${graceUntil.slice(0, 10)} — please update your payment method in the billing portal.`
+        ),
+      };
+    }
+    return {
+      standing: "payment_failed",
+      warning: warning("Payment failed and the grace period has ended. Update your payment method to restore Pro."),
+    };
+  }
+
+  return { standing: "inactive" };
+}
+
+function fromRecord(rec: LicenseRecord, source: SubscriptionStatus["source"]): SubscriptionStatus {
+  const status = rec.status ?? null;
+  const { standing, warning } = billingStanding(rec);
+  return {
+    customerId: rec.customerId,
+    // Pro access: active/trialing, or still inside the payment grace period
+    active: standing === "active" || standing === "grace",
+    status,
+    subscriptionId: rec.subscriptionId ?? null,
+    current_period_end: rec.current_period_end ?? null,
+    checkedAt: checkedAtOf(rec),
+    source,
+    standing,
+    ...(warning ? { warning } : {}),
+    dunning: rec.dunning ?? null,
+  };
+}
+
+// Prefer an active/trialing sub; otherwise the most recently created one
+function pickSubscription(subs: Stripe.Subscription[]) {
+  const active = subs.find((s) => ACTIVE_STATUSES.includes(s.status));
+  if (active) return active;
+  return [...subs].sort((a, b) => b.created - a.created)[0] ?? null;
+}
+
+/* =========================
+   Public API
+   ========================= */
+
+/** Ask Stripe and write the answer back to licenses/<cus>.json */
+export async function refreshSubscriptionStatus(customerId: string): Promise<SubscriptionStatus> {
+  const stripe = getStripe();
+  const subs = await stripe.subscriptions.list({
+    customer: customerId,
+    status: "all",
+    expand: ["data.items"],
+  });
+  const sub = pickSubscription(subs.data);
+
+  const rec = await patchLicenseRecord(customerId, {
+    status: sub?.status ?? "none",
+    subscriptionId: sub?.id ?? null,
+    current_period_end: sub?.current_period_end ?? null,
+    statusCheckedAt: new Date().toISOString(),
+    // Stripe's answer is current as of now: older webhook deliveries must not undo it
+    eventCreated: Math.floor(Date.now() / 1000),
+  });
+  return fromRecord(rec, "stripe");
+}
+
+/**
+ * Cached status for gates. Falls back to Stripe when stale/missing (or forced);
+ * if Stripe is unreachable, a stale cached status is served rather than failing.
+ */
+export async function getSubscriptionStatus(
+  customerId: string,
+  opts: { forceRefresh?: boolean } = {}
+): Promise<SubscriptionStatus> {
+  const rec = await readLicenseRecord(customerId);
+
+  if (!opts.forceRefresh && isFresh(rec)) {
+    metrics.hits++;
+    return fromRecord(rec, "cache");
+  }
+
+  if (opts.forceRefresh) metrics.forcedRefreshes++;
+  else metrics.misses++;
+
+  try {
+    return await refreshSubscriptionStatus(customerId);
+  } catch (e: any) {
+    metrics.errors++;
+    if (rec?.status) {
+      metrics.staleServed++;
+      console.warn("[subscription] Stripe refresh failed; serving stale cache", {
+        customerId,
+        error: e?.message || e,
+      });
+      return fromRecord(rec, "stale_cache");
+    }
+    throw e;
+  }
+}
+
+export async function isSubscriptionActive(customerId: string): Promise<boolean> {
+  return (await getSubscriptionStatus(customerId)).active;
+}
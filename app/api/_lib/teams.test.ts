@@ -0,0 +1,149 @@
+// app/api/_lib/teams.test.ts
+import { describe, expect, it } from "vitest";
+import { verifyLicenseKey } from "./license-key";
+import {
+  assignSeat,
+  normalizeEmail,
+  parseSeatCount,
+  revokeSeat,
+  saveTeamFromBilling,
+  seatForEmail,
+  seatForKey,
+  seatState,
+  teamView,
+  type TeamRecord,
+} from "./teams";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("teams", { LICENSE_SIGNING_SECRET: "test-secret" });
+
+const seat = (email: string) => ({ email, assignedAt: "2026-01-01T00:00:00.000Z", assignedBy: "owner" as const });
+
+const team: TeamRecord = {
+  customerId: "cus_team",
+  name: "Acme",
+  ownerEmail: "owner@acme.test",
+  seats: 2,
+  members: [seat("owner@acme.test"), seat("a@acme.test"), seat("b@acme.test")],
+  subscriptionId: "sub_1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-02T00:00:00.000Z",
+};
+
+describe("input helpers", () => {
+  it("normalizes emails and rejects non-emails", () => {
+    expect(normalizeEmail("  A@Acme.Test ")).toBe("a@acme.test");
+    expect(normalizeEmail("not-an-email")).toBeNull();
+  });
+
+  it("accepts whole seat counts within the limits", () => {
+    expect(parseSeatCount("5")).toBe(5);
+    expect(parseSeatCount(1)).toBeNull();
+    expect(parseSeatCount(2.5)).toBeNull();
+    expect(parseSeatCount(501)).toBeNull();
+  });
+});
+
+describe("seatState", () => {
+  it("is active inside the seat count, suspended beyond it, null for non-members", () => {
+    expect(seatState(team, "owner@acme.test")).toBe("active");
+    expect(seatState(team, "a@acme.test")).toBe("active");
+    expect(seatState(team, "b@acme.test")).toBe("suspended");
+    expect(seatState(team, "x@acme.test")).toBeNull();
+  });
+});
+
+describe("teamView", () => {
+  it("counts used, available and suspended seats", () => {
+    const view = teamView(team);
+    expect(view).toMatchObject({ seats: 2, used: 2, available: 0, suspended: 1 });
+    expect(view.members.map((m) => m.active)).toEqual([true, true, false]);
+    expect(view.members[0].seatKey).toBeUndefined();
+  });
+
+  it("reports free seats when under the count", () => {
+    expect(teamView({ ...team, seats: 5 })).toMatchObject({ used: 3, available: 2, suspended: 0 });
+  });
+
+  it("hands out verifiable seat keys on request", async () => {
+    const view = teamView(team, { withKeys: true });
+    const result = await verifyLicenseKey(view.members[1].seatKey!);
+    expect(result).toMatchObject({ ok: true, claims: { customerId: "cus_team", seat: "a@acme.test" } });
+  });
+});
+
+describe("seat assignment", () => {
+  it("seats the owner when billing creates the team", async () => {
+    const created = await saveTeamFromBilling({ customerId: "cus_flow", seats: 2, ownerEmail: "Owner@Flow.test", eventCreated: 100 });
+    expect(created.members.map((m) => m.email)).toEqual(["owner@flow.test"]);
+    expect(await seatForEmail("owner@flow.test")).toMatchObject({ role: "owner", active: true });
+  });
+
+  it("fills the remaining seats, then refuses", async () => {
+    expect(await assignSeat("cus_flow", "m1@flow.test", "owner")).toMatchObject({ ok: true });
+    expect(await assignSeat("cus_flow", "m1@flow.test", "owner")).toMatchObject({ ok: true });
+    expect(await assignSeat("cus_flow", "m2@flow.test", "owner")).toMatchObject({ ok: false, error: "NO_SEATS_LEFT" });
+  });
+
+  it("won't seat an email that holds a seat on another team", async () => {
+    await saveTeamFromBilling({ customerId: "cus_other", seats: 3 });
+    expect(await assignSeat("cus_other", "m1@flow.test", "admin")).toMatchObject({ ok: false, error: "SEAT_TAKEN" });
+  });
+
+  it("ignores seat counts from older events", async () => {
+    const stale = await saveTeamFromBilling({ customerId: "cus_flow", seats: 10, eventCreated: 50 });
+    expect(stale.seats).toBe(2);
+    const fresh = await saveTeamFromBilling({ customerId: "cus_flow", seats: 3, eventCreated: 150 });
+    expect(fresh.seats).toBe(3);
+  });
+
+  it("frees a seat on revoke", async () => {
+    expect(await revokeSeat("cus_flow", "m1@flow.test")).toMatchObject({ ok: true });
+    expect(await seatForEmail("m1@flow.test")).toBeNull();
+    expect(await revokeSeat("cus_flow", "m1@flow.test")).toMatchObject({ ok: false, error: "SEAT_NOT_FOUND" });
+  });
+
+  it("keeps the owner's seat", async () => {
+    expect(await revokeSeat("cus_flow", "owner@flow.test")).toMatchObject({ ok: false, status: 409, error: "OWNER_SEAT" });
+    expect(await seatForEmail("owner@flow.test")).toMatchObject({ role: "owner", active: true });
+  });
+
+  it("clamps billing seat counts to the team minimum", async () => {
+    expect((await saveTeamFromBilling({ customerId: "cus_small", seats: 1 })).seats).toBe(2);
+    expect((await saveTeamFromBilling({ customerId: "cus_small", seats: 0 })).seats).toBe(2);
+  });
+});
+
+describe("ended subscriptions", () => {
+  it("suspend every seat until a later event reopens them", async () => {
+    await saveTeamFromBilling({ customerId: "cus_end", seats: 3, ownerEmail: "owner@end.test", eventCreated: 100 });
+    await assignSeat("cus_end", "m@end.test", "owner");
+
+    const ended = await saveTeamFromBilling({ customerId: "cus_end", seats: 3, eventCreated: 200, ended: true });
+    expect(teamView(ended)).toMatchObject({ used: 0, available: 0, suspended: 2, suspendedAt: expect.any(String) });
+    expect(await seatForEmail("m@end.test")).toMatchObject({ active: false });
+    expect(await seatForKey({ customerId: "cus_end", seat: null })).toMatchObject({ role: "owner", active: false });
+
+    const late = await saveTeamFromBilling({ customerId: "cus_end", seats: 3, eventCreated: 150 });
+    expect(late.suspendedAt).toBe(ended.suspendedAt);
+
+    const renewed = await saveTeamFromBilling({ customerId: "cus_end", seats: 3, eventCreated: 300 });
+    expect(renewed.suspendedAt).toBeNull();
+    expect(await seatForEmail("m@end.test")).toMatchObject({ active: true });
+  });
+});
+
+describe("seatForKey", () => {
+  it("lets the customer key through when the team has no owner email", async () => {
+    await saveTeamFromBilling({ customerId: "cus_ownerless", seats: 2 });
+    expect(await seatForKey({ customerId: "cus_ownerless", seat: null })).toMatchObject({
+      email: null,
+      role: "owner",
+      active: true,
+    });
+    expect(await seatForKey({ customerId: "cus_ownerless", seat: "x@ownerless.test" })).toMatchObject({
+      role: "member",
+      active: false,
+    });
+  });
+});
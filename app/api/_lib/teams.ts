@@ -0,0 +1,341 @@
+// app/api/_lib/teams.ts
+import { issueLicenseKey, verifyLicenseKey, type LicenseClaims } from "./license-key";
+import { emailKey } from "./licenses";
+import { readLicenseFrom, type ProGateFail } from "./paywall";
+import { getStore } from "./store";
+
+/* =========================
+   Team licenses
+   ========================= */
+/**
+ * A team license is one Stripe subscription (one customer, one license key) whose
+ * quantity is the number of seats. The purchaser owns the team: their license key
+ * manages seats, and it unlocks Pro only while their own email holds a seat
+ * (checkout assigns them the first one). Members get access through their seat:
+ * a seat key (LIC2 key with the member's email, see ./license-key) or ?email=.
+ *
+ * Storage:
+ *   teams/<customerId>.json                 → TeamRecord
+ *   team_seats_by_email/<emailKey>.json     → { customerId, email } (an email seats one team)
+ *
+ * Seats are honoured in assignment order: when the Stripe quantity drops below the
+ * number of members, the most recently assigned ones are suspended (kept, no access)
+ * until seats are added or someone is revoked. When the subscription ends, every seat
+ * is suspended until a new one starts. The owner's own seat can't be revoked.
+ * The store has no compare-and-swap, so two seat edits at the same instant can race.
+ */
+
+export const MIN_TEAM_SEATS = 2;
+export const MAX_TEAM_SEATS = 500;
+
+export type TeamSeat = {
+  email: string; // normalized (trimmed, lower-case)
+  assignedAt: string; // ISO
+  assignedBy: "owner" | "admin" | "checkout";
+};
+
+export type TeamRecord = {
+  customerId: string;
+  name: string | null;
+  ownerEmail: string | null;
+  seats: number; // subscription quantity
+  members: TeamSeat[]; // assignment order
+  subscriptionId: string | null;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  eventCreated?: number; // Stripe event ordering for seat counts
+  suspendedAt?: string | null; // ISO; set while the subscription has ended (all seats suspended)
+};
+
+export type TeamSeatView = TeamSeat & { active: boolean; seatKey?: string };
+
+export type TeamView = {
+  customerId: string;
+  name: string | null;
+  ownerEmail: string | null;
+  seats: number;
+  used: number;
+  available: number;
+  suspended: number; // members beyond the seat count (all of them once the subscription ended)
+  suspendedAt: string | null;
+  members: TeamSeatView[];
+  subscriptionId: string | null;
+  updatedAt: string;
+};
+
+export type TeamEditError = {
+  ok: false;
+  status: 400 | 404 | 409;
+  error:
+    | "INVALID_EMAIL"
+    | "INVALID_SEATS"
+    | "TEAM_NOT_FOUND"
+    | "NO_SEATS_LEFT"
+    | "SEAT_TAKEN"
+    | "SEAT_NOT_FOUND"
+    | "OWNER_SEAT";
+  message: string;
+};
+
+export type TeamEditResult = { ok: true; team: TeamRecord } | TeamEditError;
+
+/** An email's seat as seen by the access gate */
+export type TeamSeatAccess = {
+  team: TeamRecord;
+  email: string | null;
+  role: "owner" | "member";
+  active: boolean; // assigned and within the seat count
+};
+
+export const teamPaths = {
+  team: (customerId: string) => `teams/${customerId}.json`,
+  seatByEmail: (email: string) => `team_seats_by_email/${emailKey(email)}.json`,
+};
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Trimmed, lower-cased email; null when it doesn't look like one */
+export function normalizeEmail(raw: unknown): string | null {
+  const email = String(raw ?? "").trim().toLowerCase();
+  return EMAIL_RE.test(email) && email.length <= 254 ? email : null;
+}
+
+/** Whole seats in MIN_TEAM_SEATS..MAX_TEAM_SEATS; null otherwise */
+export function parseSeatCount(raw: unknown): number | null {
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= MIN_TEAM_SEATS && n <= MAX_TEAM_SEATS ? n : null;
+}
+
+function fail(status: TeamEditError["status"], error: TeamEditError["error"], message: string): TeamEditError {
+  return { ok: false, status, error, message };
+}
+
+/* =========================
+   Read
+   ========================= */
+
+export async function readTeam(customerId: string): Promise<TeamRecord | null> {
+  return getStore().getJson<TeamRecord>(teamPaths.team(customerId));
+}
+
+export async function listTeams(): Promise<TeamRecord[]> {
+  const store = getStore();
+  const items = await store.list("teams/");
+  const teams = await Promise.all(items.map((it) => store.getJson<TeamRecord>(it.key)));
+  return teams
+    .filter((t): t is TeamRecord => !!t?.customerId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Seats that currently give access: the seat count, or none once the subscription ended */
+function openSeats(team: TeamRecord): number {
+  return team.suspendedAt ? 0 : team.seats;
+}
+
+/** "active" inside the open seats, "suspended" beyond them, null when not a member */
+export function seatState(team: TeamRecord, email: string): "active" | "suspended" | null {
+  const at = team.members.findIndex((m) => m.email === email);
+  if (at < 0) return null;
+  return at < openSeats(team) ? "active" : "suspended";
+}
+
+/** Owner/admin view; `withKeys` adds a seat key per member to hand out */
+export function teamView(team: TeamRecord, opts: { withKeys?: boolean } = {}): TeamView {
+  const open = openSeats(team);
+  const members = team.members.map((m, i) => ({
+    ...m,
+    active: i < open,
+    ...(opts.withKeys ? { seatKey: seatKeyFor(team.customerId, m.email) } : {}),
+  }));
+  return {
+    customerId: team.customerId,
+    name: team.name,
+    ownerEmail: team.ownerEmail,
+    seats: team.seats,
+    used: Math.min(team.members.length, open),
+    available: Math.max(0, open - team.members.length),
+    suspended: Math.max(0, team.members.length - open),
+    suspendedAt: team.suspendedAt ?? null,
+    members,
+    subscriptionId: team.subscriptionId,
+    updatedAt: team.updatedAt,
+  };
+}
+
+export function seatKeyFor(customerId: string, email: string): string {
+  return issueLicenseKey(customerId, { seat: email });
+}
+
+/* =========================
+   Access checks (used by ./entitlement and /api/license/status)
+   ========================= */
+
+/**
+ * Seat behind a verified key, or null when the customer has no team.
+ * Seat keys check their member; the plain customer key is the owner's. A team created
+ * without an owner email has no owner seat to check, so the customer key stays usable
+ * (unless the subscription ended).
+ */
+export async function seatForKey(claims: Pick<LicenseClaims, "customerId" | "seat">): Promise<TeamSeatAccess | null> {
+  const team = await readTeam(claims.customerId);
+  if (!team) return null;
+  const email = claims.seat ? normalizeEmail(claims.seat) : team.ownerEmail;
+  const unseatedOwner = !claims.seat && !team.ownerEmail;
+  return {
+    team,
+    email,
+    role: claims.seat && email !== team.ownerEmail ? "member" : "owner",
+    active: unseatedOwner ? !team.suspendedAt : !!email && seatState(team, email) === "active",
+  };
+}
+
+/** Seat held by an email (any team), or null */
+export async function seatForEmail(emailRaw: string): Promise<TeamSeatAccess | null> {
+  const email = normalizeEmail(emailRaw);
+  if (!email) return null;
+  const link = await getStore().getJson<{ customerId: string }>(teamPaths.seatByEmail(email));
+  const team = link?.customerId ? await readTeam(link.customerId) : null;
+  const state = team && seatState(team, email);
+  if (!team || !state) return null;
+  return { team, email, role: email === team.ownerEmail ? "owner" : "member", active: state === "active" };
+}
+
+/* =========================
+   Write
+   ========================= */
+
+async function writeTeam(team: TeamRecord): Promise<TeamRecord> {
+  const next = { ...team, updatedAt: new Date().toISOString() };
+  await getStore().putJson(teamPaths.team(team.customerId), next);
+  return next;
+}
+
+/**
+ * Create or update a team from billing (checkout / subscription events, admin).
+ * The seat count follows the subscription quantity (clamped to MIN..MAX_TEAM_SEATS) and
+ * `ended` suspends every seat until a later event reopens them; an older event never
+ * overwrites either. A new team seats its owner first.
+ */
+export async function saveTeamFromBilling(params: {
+  customerId: string;
+  seats: number;
+  ownerEmail?: string | null;
+  name?: string | null;
+  subscriptionId?: string | null;
+  eventCreated?: number;
+  ended?: boolean;
+}): Promise<TeamRecord> {
+  const existing = await readTeam(params.customerId);
+  const seats = Math.max(MIN_TEAM_SEATS, Math.min(MAX_TEAM_SEATS, Math.floor(params.seats) || MIN_TEAM_SEATS));
+  const ownerEmail = normalizeEmail(params.ownerEmail);
+  const suspendedAt = (since?: string | null) => (params.ended ? since ?? new Date().toISOString() : null);
+
+  if (existing) {
+    const stale =
+      typeof params.eventCreated === "number" &&
+      typeof existing.eventCreated === "number" &&
+      existing.eventCreated > params.eventCreated;
+    return writeTeam({
+      ...existing,
+      ...(stale
+        ? {}
+        : {
+            seats,
+            suspendedAt: suspendedAt(existing.suspendedAt),
+            ...(typeof params.eventCreated === "number" ? { eventCreated: params.eventCreated } : {}),
+          }),
+      name: existing.name ?? params.name ?? null,
+      ownerEmail: existing.ownerEmail ?? ownerEmail,
+      subscriptionId: params.subscriptionId ?? existing.subscriptionId,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const team = await writeTeam({
+    customerId: params.customerId,
+    name: params.name ?? null,
+    ownerEmail,
+    seats,
+    members: [],
+    subscriptionId: params.subscriptionId ?? null,
+    createdAt: now,
+    updatedAt: now,
+    ...(typeof params.eventCreated === "number" ? { eventCreated: params.eventCreated } : {}),
+    ...(params.ended ? { suspendedAt: now } : {}),
+  });
+  if (!ownerEmail) return team;
+  const seated = await assignSeat(params.customerId, ownerEmail, "checkout");
+  return seated.ok ? seated.team : team;
+}
+
+/** Give `email` a seat (idempotent for existing members) */
+export async function assignSeat(
+  customerId: string,
+  emailRaw: unknown,
+  by: TeamSeat["assignedBy"]
+): Promise<TeamEditResult> {
+  const email = normalizeEmail(emailRaw);
+  if (!email) return fail(400, "INVALID_EMAIL", "Provide a valid 'email'.");
+  const team = await readTeam(customerId);
+  if (!team) return fail(404, "TEAM_NOT_FOUND", "No team license for this customer.");
+  if (seatState(team, email)) return { ok: true, team };
+
+  if (team.members.length >= team.seats) {
+    return fail(409, "NO_SEATS_LEFT", `All ${team.seats} seats are assigned. Revoke one or add seats in the billing portal.`);
+  }
+  const elsewhere = await seatForEmail(email);
+  if (elsewhere && elsewhere.team.customerId !== customerId) {
+    return fail(409, "SEAT_TAKEN", "This email already holds a seat on another team.");
+  }
+
+  const next = await writeTeam({
+    ...team,
+    members: [...team.members, { email, assignedAt: new Date().toISOString(), assignedBy: by }],
+  });
+  await getStore().putJson(teamPaths.seatByEmail(email), { customerId, email, assignedAt: next.updatedAt });
+  return { ok: true, team: next };
+}
+
+/** Free `email`'s seat; the member loses access on their next request */
+export async function revokeSeat(customerId: string, emailRaw: unknown): Promise<TeamEditResult> {
+  const email = normalizeEmail(emailRaw);
+  if (!email) return fail(400, "INVALID_EMAIL", "Provide a valid 'email'.");
+  const team = await readTeam(customerId);
+  if (!team) return fail(404, "TEAM_NOT_FOUND", "No team license for this customer.");
+  if (!seatState(team, email)) return fail(404, "SEAT_NOT_FOUND", "This email has no seat on the team.");
+  if (email === team.ownerEmail) {
+    return fail(409, "OWNER_SEAT", "The owner's seat can't be revoked; the owner's license key depends on it.");
+  }
+
+  const next = await writeTeam({ ...team, members: team.members.filter((m) => m.email !== email) });
+  const link = await getStore().getJson<{ customerId: string }>(teamPaths.seatByEmail(email));
+  if (link?.customerId === customerId) await getStore().delete(teamPaths.seatByEmail(email));
+  return { ok: true, team: next };
+}
+
+/* =========================
+   Owner guard for /api/team/*
+   ========================= */
+
+/**
+ * The caller's license key must verify and be the team's customer key (not a seat key).
+ * Billing standing isn't checked, so owners can fix seats while a payment is pending.
+ */
+export async function requireTeamOwner(req: Request): Promise<{ ok: true; team: TeamRecord } | ProGateFail> {
+  const key = readLicenseFrom(req);
+  if (!key) {
+    return { ok: false, status: 401, body: { error: "UNAUTHORIZED", message: "Provide the team owner's license key (?key= or X-License-Key)." } };
+  }
+  const verified = await verifyLicenseKey(key);
+  if (!verified.ok) {
+    return { ok: false, status: 401, body: { error: verified.error, message: "This license key could not be verified." } };
+  }
+  const team = await readTeam(verified.claims.customerId);
+  if (!team) {
+    return { ok: false, status: 404, body: { error: "TEAM_NOT_FOUND", message: "This license has no team seats." } };
+  }
+  if (verified.claims.seat) {
+    return { ok: false, status: 403, body: { error: "FORBIDDEN", message: "Seat keys can't manage the team; use the owner's license key." } };
+  }
+  return { ok: true, team };
+}
@@ -0,0 +1,32 @@
+// app/api/_lib/test-store.ts
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, vi } from "vitest";
+
+/* =========================
+   Test helper — local-disk Store per test file
+   ========================= */
+/**
+ * Points getStore() at a fresh temp directory (STORE_DRIVER=local) for the calling
+ * test file, stubs any extra env it needs, and silences console log/error.
+ * Everything is undone and the directory removed after the file's tests.
+ */
+export function useLocalStore(prefix: string, env: Record<string, string> = {}): void {
+  let dir = "";
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), `${prefix}-`));
+    vi.stubEnv("STORE_DRIVER", "local");
+    vi.stubEnv("STORE_LOCAL_DIR", dir);
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+}
@@ -0,0 +1,72 @@
+// app/api/_lib/theme-library.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  cachedTheme,
+  editThemeLibrary,
+  listThemeVersions,
+  parseTheme,
+  readThemeLibrary,
+  readThemeVersion,
+} from "./theme-library";
+import { useLocalStore } from "./test-store";
+
+useLocalStore("theme-library");
+
+const theme = {
+  key: "public_speaking",
+  title: "Public Speaking",
+  requiresPro: false,
+  items: ["I’m not a natural speaker", { id: "forget-words", text: "I will forget my words" }],
+};
+
+describe("theme library", () => {
+  it("validates themes and saves each edit as the next version", async () => {
+    expect(parseTheme({ ...theme, key: "Bad Key" })).toMatchObject({ ok: false, status: 400, error: "INVALID_THEME" });
+    expect(parseTheme({ ...theme, key: "search" })).toMatchObject({ ok: false, error: "INVALID_THEME" });
+    expect(parseTheme({ ...theme, items: ["Same words", "same words"] })).toMatchObject({
+      ok: false,
+      message: "items[1] duplicates an earlier item.",
+    });
+    expect(parseTheme(theme)).toMatchObject({
+      ok: true,
+      theme: {
+        teaserItems: 2,
+        items: [
+          { id: "im-not-a-natural-speaker", text: "I’m not a natural speaker" },
+          { id: "forget-words", text: "I will forget my words" },
+        ],
+      },
+    });
+
+    const seed = await readThemeLibrary();
+    expect(seed).toMatchObject({ source: "seed", library: { version: 0 } });
+
+    const created = await editThemeLibrary({ op: "create", theme }, { expectedVersion: 0, updatedBy: "admin" });
+    expect(created).toMatchObject({ ok: true, library: { version: 1, updatedBy: "admin" } });
+    expect(cachedTheme("public_speaking")?.items).toHaveLength(2);
+
+    const stale = await editThemeLibrary({ op: "delete", key: "public_speaking" }, { expectedVersion: 0 });
+    expect(stale).toMatchObject({ ok: false, status: 409, error: "VERSION_CONFLICT" });
+    expect(await editThemeLibrary({ op: "create", theme })).toMatchObject({
+      ok: false,
+      message: "items[1].id 'forget-words' is already used.",
+    });
+    expect(await editThemeLibrary({ op: "create", theme: { ...theme, items: ["Everyone will stare"] } })).toMatchObject({
+      ok: false,
+      status: 409,
+      error: "THEME_EXISTS",
+    });
+
+    const edited = await editThemeLibrary(
+      { op: "edit_item", key: "public_speaking", id: "forget-words", changes: { reframe: "Notes are allowed." } },
+      { expectedVersion: 1 }
+    );
+    expect(edited).toMatchObject({ ok: true, library: { version: 2 } });
+
+    expect((await listThemeVersions()).map((v) => v.version)).toEqual([2, 1]);
+    const v1 = await readThemeVersion(1);
+    expect(v1?.themes.find((t) => t.key === "public_speaking")?.items[1]).not.toHaveProperty("reframe");
+    expect((await readThemeVersion(0))?.version).toBe(0);
+    expect(await readThemeLibrary()).toMatchObject({ source: "store", library: { version: 2 } });
+  });
+});
@@ -0,0 +1,512 @@
+// app/api/_lib/theme-library.ts
+import crypto from "crypto";
+import seed from "./themes.seed.json";
+import { getStore } from "./store";
+
+/* =========================
+   Theme library content — themes/library.json (+ themes/versions/v<N>.json)
+   ========================= */
+/**
+ * Belief themes are content, not code. The live library is one versioned JSON
+ * document in the store; every save writes the next version and keeps a snapshot
+ * under themes/versions/ so an earlier version can be inspected or restored.
+ * Until the first admin save, the bundled seed (themes.seed.json, version 0) is served.
+ *
+ * Reads are synchronous (listThemes/getTheme/isProTheme in libs.ts) against a
+ * per-instance cache; routes call refreshThemes() first, which re-reads the store
+ * at most every THEMES_CACHE_TTL_SECONDS (default 60). Admin edits update the
+ * cache of the instance that made them immediately.
+ *
+ * Writes are optimistic: pass `expectedVersion` to get VERSION_CONFLICT instead of
+ * overwriting a newer library (the store has no compare-and-swap, so two saves in
+ * the same instant can still race; the later one wins and both snapshots remain).
+ *
+ * Items carry a stable id (unique across the library, kept through edits and reorders)
+ * plus optional companion content. Plain-string items (older libraries, quick admin
+ * adds) are accepted and get an id derived from their wording.
+ */
+
+export type ThemeItem = {
+  id: string;
+  text: string;
+  category?: string; // e.g. "perfectionism", "approval"
+  reframe?: string; // suggested empowering reframe
+  counterEvidence?: readonly string[]; // 1–3 prompts
+  microAction?: string; // starter micro-action
+  reflection?: string; // reflection question
+};
+
+export type ThemeContent = {
+  title: string;
+  requiresPro: boolean;
+  teaserItems: number; // Pro themes: leading items free callers may see (free themes show all)
+  items: readonly ThemeItem[];
+};
+
+export type ThemeRecord = ThemeContent & { key: string };
+
+export type ThemeLibrary = {
+  version: number; // 0 = bundled seed
+  updatedAt: string | null; // ISO
+  updatedBy: string | null;
+  note?: string | null;
+  themes: ThemeRecord[];
+};
+
+export type ThemeLibrarySource = "seed" | "store";
+
+export type ThemeVersionInfo = { version: number; size: number; savedAt: string };
+
+/** One admin change; applied to the current library and saved as the next version */
+export type ThemeEdit =
+  | { op: "create"; theme: unknown }
+  | { op: "update"; key: string; title?: unknown; requiresPro?: unknown; teaserItems?: unknown }
+  | { op: "delete"; key: string }
+  | { op: "add_item"; key: string; item: unknown; position?: unknown }
+  | { op: "edit_item"; key: string; index?: unknown; id?: unknown; changes: unknown }
+  | { op: "remove_item"; key: string; index?: unknown; id?: unknown }
+  | { op: "reorder_items"; key: string; order: unknown }
+  | { op: "replace"; themes: unknown };
+
+export type ThemeEditError = {
+  ok: false;
+  status: 400 | 404 | 409;
+  error: "INVALID_THEME" | "THEME_NOT_FOUND" | "THEME_EXISTS" | "VERSION_CONFLICT";
+  message: string;
+};
+
+export type ThemeEditResult = { ok: true; library: ThemeLibrary } | ThemeEditError;
+
+type ThemeParse = { ok: true; theme: ThemeRecord } | ThemeEditError;
+
+const LIBRARY_PATH = "themes/library.json";
+const VERSIONS_PREFIX = "themes/versions/";
+const versionPath = (version: number) => `${VERSIONS_PREFIX}v${String(version).padStart(6, "0")}.json`;
+
+const KEY_RE = /^[a-z][a-z0-9_]{2,47}$/;
+const ITEM_ID_RE = /^[a-z0-9][a-z0-9-]{2,63}$/;
+const CATEGORY_RE = /^[a-z][a-z0-9_]{2,31}$/;
+// Static routes under /api/libraries/ that a theme key would be shadowed by
+const RESERVED_KEYS = new Set(["search", "themes"]);
+const MAX_THEMES = 50;
+const MAX_ITEMS = 50;
+const MAX_TITLE_CHARS = 80;
+const MAX_ITEM_CHARS = 200;
+const MAX_NOTE_CHARS = 200;
+const MAX_COUNTER_EVIDENCE = 3;
+const ITEM_TEXT_FIELDS = ["reframe", "microAction", "reflection"] as const;
+const DEFAULT_TEASER_ITEMS = 2;
+
+const SEED_LIBRARY = seed as ThemeLibrary;
+
+/* =========================
+   Schema validation
+   ========================= */
+
+const invalid = (message: string): ThemeEditError => ({ ok: false, status: 400, error: "INVALID_THEME", message });
+
+function cleanText(s: unknown): string {
+  return String(s ?? "").replace(/\s+/g, " ").trim();
+}
+
+function parseText(raw: unknown, label: string): { ok: true; text: string } | ThemeEditError {
+  if (typeof raw !== "string") return invalid(`${label} must be a string.`);
+  const text = cleanText(raw);
+  if (text.length < 3 || text.length > MAX_ITEM_CHARS) {
+    return invalid(`${label} must be 3–${MAX_ITEM_CHARS} characters.`);
+  }
+  return { ok: true, text };
+}
+
+/** "I’m not good enough" → "im-not-good-enough" (wording without Latin letters gets a hash) */
+function slugId(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[’'`]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48)
+    .replace(/-+$/, "");
+  return slug.length >= 3 ? slug : `item-${crypto.createHash("sha256").update(text).digest("hex").slice(0, 8)}`;
+}
+
+type ItemContent = Omit<ThemeItem, "id">;
+type ItemParse = { ok: true; item: ItemContent; id: string | null } | ThemeEditError;
+
+/** A string (wording only) or { id?, text, category?, reframe?, counterEvidence?, microAction?, reflection? } */
+function parseItem(raw: unknown, label: string): ItemParse {
+  const input: any = typeof raw === "string" ? { text: raw } : raw;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return invalid(`${label} must be a string or an object with 'text'.`);
+  }
+
+  const text = parseText(input.text, `${label}.text`);
+  if (!text.ok) return text;
+  const item: { -readonly [K in keyof ItemContent]: ItemContent[K] } = { text: text.text };
+
+  let id: string | null = null;
+  if (input.id !== undefined && input.id !== null) {
+    id = String(input.id).trim();
+    if (!ITEM_ID_RE.test(id)) {
+      return invalid(`${label}.id must be 3–64 characters: lower-case letters, digits and hyphens.`);
+    }
+  }
+
+  if (input.category !== undefined && input.category !== null) {
+    const category = String(input.category).trim();
+    if (!CATEGORY_RE.test(category)) {
+      return invalid(`${label}.category must be 3–32 characters: lower-case letters, digits and underscores.`);
+    }
+    item.category = category;
+  }
+
+  for (const field of ITEM_TEXT_FIELDS) {
+    if (input[field] === undefined || input[field] === null) continue;
+    const parsed = parseText(input[field], `${label}.${field}`);
+    if (!parsed.ok) return parsed;
+    item[field] = parsed.text;
+  }
+
+  if (input.counterEvidence !== undefined && input.counterEvidence !== null) {
+    const list = input.counterEvidence;
+    if (!Array.isArray(list) || list.length < 1 || list.length > MAX_COUNTER_EVIDENCE) {
+      return invalid(`${label}.counterEvidence must be a list of 1–${MAX_COUNTER_EVIDENCE} prompts.`);
+    }
+    const prompts: string[] = [];
+    for (let i = 0; i < list.length; i++) {
+      const parsed = parseText(list[i], `${label}.counterEvidence[${i}]`);
+      if (!parsed.ok) return parsed;
+      prompts.push(parsed.text);
+    }
+    item.counterEvidence = prompts;
+  }
+
+  return { ok: true, item, id };
+}
+
+/** Explicit item ids in an unparsed theme (so derived ids elsewhere can avoid them) */
+function rawItemIds(input: any): string[] {
+  const items: unknown[] = Array.isArray(input?.items) ? input.items : [];
+  return items.flatMap((it: any) => (it && typeof it === "object" && typeof it.id === "string" ? [it.id.trim()] : []));
+}
+
+/**
+ * Validate one theme: key, title, requiresPro (default true), teaserItems (default 2), 1..50 unique items.
+ * `otherIds` = item ids used elsewhere in the library: reusing one explicitly is an error,
+ * and derived ids skip them.
+ */
+export function parseTheme(input: any, otherIds: ReadonlySet<string> = new Set()): ThemeParse {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return invalid("Theme must be an object.");
+
+  const key = String(input.key ?? "").trim();
+  if (!KEY_RE.test(key)) {
+    return invalid("'key' must be 3–48 characters: lower-case letters, digits and underscores, starting with a letter.");
+  }
+  if (RESERVED_KEYS.has(key)) return invalid(`'key' cannot be "${key}" (reserved for /api/libraries/${key}).`);
+  const title = cleanText(input.title);
+  if (!title || title.length > MAX_TITLE_CHARS) return invalid(`'title' must be 1–${MAX_TITLE_CHARS} characters.`);
+
+  if (input.requiresPro !== undefined && typeof input.requiresPro !== "boolean") {
+    return invalid("'requiresPro' must be true or false.");
+  }
+  const teaserItems = input.teaserItems === undefined ? DEFAULT_TEASER_ITEMS : input.teaserItems;
+  if (!Number.isInteger(teaserItems) || teaserItems < 0 || teaserItems > MAX_ITEMS) {
+    return invalid(`'teaserItems' must be an integer between 0 and ${MAX_ITEMS}.`);
+  }
+
+  if (!Array.isArray(input.items) || input.items.length < 1 || input.items.length > MAX_ITEMS) {
+    return invalid(`'items' must be a list of 1–${MAX_ITEMS} belief statements.`);
+  }
+  const parsedItems: Array<{ item: ItemContent; id: string | null }> = [];
+  const seen = new Set<string>();
+  const ids = new Set<string>();
+  for (let i = 0; i < input.items.length; i++) {
+    const parsed = parseItem(input.items[i], `items[${i}]`);
+    if (!parsed.ok) return parsed;
+    const k = parsed.item.text.toLowerCase();
+    if (seen.has(k)) return invalid(`items[${i}] duplicates an earlier item.`);
+    seen.add(k);
+    if (parsed.id) {
+      if (ids.has(parsed.id) || otherIds.has(parsed.id)) return invalid(`items[${i}].id '${parsed.id}' is already used.`);
+      ids.add(parsed.id);
+    }
+    parsedItems.push(parsed);
+  }
+
+  // Items without an id get one from their wording, suffixed (-2, -3…) when taken
+  const items: ThemeItem[] = parsedItems.map(({ item, id }) => {
+    if (id) return { id, ...item };
+    const base = slugId(item.text);
+    let derived = base;
+    for (let n = 2; ids.has(derived) || otherIds.has(derived); n++) derived = `${base}-${n}`;
+    ids.add(derived);
+    return { id: derived, ...item };
+  });
+
+  return { ok: true, theme: { key, title, requiresPro: input.requiresPro ?? true, teaserItems, items } };
+}
+
+/** Validate a whole library's theme list (unique keys and item ids, at most 50 themes) */
+export function parseThemeList(input: unknown): { ok: true; themes: ThemeRecord[] } | ThemeEditError {
+  if (!Array.isArray(input) || input.length > MAX_THEMES) {
+    return invalid(`'themes' must be a list of at most ${MAX_THEMES} themes.`);
+  }
+  const themes: ThemeRecord[] = [];
+  const keys = new Set<string>();
+  const usedIds = new Set<string>();
+  for (let i = 0; i < input.length; i++) {
+    // ids taken by earlier themes + ids that later themes spell out explicitly
+    const otherIds = new Set([...usedIds, ...input.slice(i + 1).flatMap(rawItemIds)]);
+    const parsed = parseTheme(input[i], otherIds);
+    if (!parsed.ok) return { ...parsed, message: `themes[${i}]: ${parsed.message}` };
+    if (keys.has(parsed.theme.key)) return invalid(`themes[${i}]: duplicate key '${parsed.theme.key}'.`);
+    keys.add(parsed.theme.key);
+    for (const item of parsed.theme.items) usedIds.add(item.id);
+    themes.push(parsed.theme);
+  }
+  return { ok: true, themes };
+}
+
+function parseIndex(raw: unknown, length: number, allowEnd = false): number | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  const n = Number(raw);
+  const max = allowEnd ? length : length - 1;
+  return Number.isInteger(n) && n >= 0 && n <= max ? n : null;
+}
+
+/* =========================
+   Edits (pure: current themes → next themes)
+   ========================= */
+
+export function applyThemeEdit(themes: ThemeRecord[], edit: ThemeEdit): { ok: true; themes: ThemeRecord[] } | ThemeEditError {
+  if (edit.op === "replace") return parseThemeList(edit.themes);
+
+  const idsOutside = (skip: number) =>
+    new Set(themes.flatMap((t, i) => (i === skip ? [] : t.items.map((it) => it.id))));
+
+  if (edit.op === "create") {
+    const parsed = parseTheme(edit.theme, idsOutside(-1));
+    if (!parsed.ok) return parsed;
+    if (themes.some((t) => t.key === parsed.theme.key)) {
+      return { ok: false, status: 409, error: "THEME_EXISTS", message: `Theme '${parsed.theme.key}' already exists.` };
+    }
+    if (themes.length >= MAX_THEMES) return invalid(`The library is limited to ${MAX_THEMES} themes.`);
+    return { ok: true, themes: [...themes, parsed.theme] };
+  }
+
+  const at = themes.findIndex((t) => t.key === edit.key);
+  if (at < 0) return { ok: false, status: 404, error: "THEME_NOT_FOUND", message: `Unknown theme '${edit.key}'.` };
+  const theme = themes[at];
+  const items: unknown[] = [...theme.items];
+  // Items are addressed by id (preferred) or 0-based index
+  const locate = (e: { index?: unknown; id?: unknown }): number | null => {
+    if (e.id === undefined || e.id === null || e.id === "") return parseIndex(e.index, items.length);
+    const i = theme.items.findIndex((it) => it.id === String(e.id));
+    return i < 0 ? null : i;
+  };
+
+  let next: any;
+  switch (edit.op) {
+    case "delete":
+      return { ok: true, themes: themes.filter((t) => t.key !== edit.key) };
+
+    case "update":
+      if (edit.title === undefined && edit.requiresPro === undefined && edit.teaserItems === undefined) {
+        return invalid("Provide 'title', 'requiresPro' and/or 'teaserItems'.");
+      }
+      next = {
+        ...theme,
+        ...(edit.title !== undefined ? { title: edit.title } : {}),
+        ...(edit.requiresPro !== undefined ? { requiresPro: edit.requiresPro } : {}),
+        ...(edit.teaserItems !== undefined ? { teaserItems: edit.teaserItems } : {}),
+      };
+      break;
+
+    case "add_item": {
+      const position = edit.position === undefined ? items.length : parseIndex(edit.position, items.length, true);
+      if (position === null) return invalid(`'position' must be an integer between 0 and ${items.length}.`);
+      items.splice(position, 0, edit.item);
+      next = { ...theme, items };
+      break;
+    }
+
+    case "edit_item": {
+      const index = locate(edit);
+      if (index === null) return invalid(`Provide a known item 'id' or an 'index' between 0 and ${items.length - 1}.`);
+      const changes = edit.changes as Record<string, unknown> | null;
+      if (!changes || typeof changes !== "object" || Array.isArray(changes) || !Object.keys(changes).length) {
+        return invalid("Provide the fields to change: text, category, reframe, counterEvidence, microAction, reflection.");
+      }
+      const current = theme.items[index];
+      if (changes.id !== undefined && changes.id !== current.id) return invalid("An item's 'id' cannot be changed.");
+      // null clears an optional field
+      items[index] = { ...current, ...changes, id: current.id };
+      next = { ...theme, items };
+      break;
+    }
+
+    case "remove_item": {
+      const index = locate(edit);
+      if (index === null) return invalid(`Provide a known item 'id' or an 'index' between 0 and ${items.length - 1}.`);
+      items.splice(index, 1);
+      next = { ...theme, items };
+      break;
+    }
+
+    case "reorder_items": {
+      // order = the current indexes in their new order (a permutation)
+      const order = Array.isArray(edit.order) ? edit.order.map(Number) : [];
+      const valid =
+        order.length === items.length &&
+        new Set(order).size === items.length &&
+        order.every((i) => Number.isInteger(i) && i >= 0 && i < items.length);
+      if (!valid) return invalid(`'order' must list every item index (0–${items.length - 1}) exactly once.`);
+      next = { ...theme, items: order.map((i) => items[i]) };
+      break;
+    }
+  }
+
+  // Re-validate the edited theme (item text, duplicates, ids, title, requiresPro type)
+  const parsed = parseTheme(next, idsOutside(at));
+  if (!parsed.ok) return parsed;
+  return { ok: true, themes: themes.map((t, i) => (i === at ? parsed.theme : t)) };
+}
+
+/* =========================
+   Cache
+   ========================= */
+
+type CacheState = {
+  library: ThemeLibrary;
+  source: ThemeLibrarySource;
+  byKey: Map<string, ThemeRecord>;
+  loadedAt: number; // ms; 0 = never read from the store
+};
+
+function cacheTtlSeconds(): number {
+  const n = Number(process.env.THEMES_CACHE_TTL_SECONDS ?? "60");
+  return Number.isFinite(n) && n >= 0 ? n : 60;
+}
+
+function stateFor(library: ThemeLibrary, source: ThemeLibrarySource, loadedAt: number): CacheState {
+  return { library, source, byKey: new Map(library.themes.map((t) => [t.key, t])), loadedAt };
+}
+
+let cache: CacheState = stateFor(SEED_LIBRARY, "seed", 0);
+let inflight: Promise<void> | null = null;
+
+export function cachedThemeLibrary(): { library: ThemeLibrary; source: ThemeLibrarySource } {
+  return { library: cache.library, source: cache.source };
+}
+
+export function cachedTheme(key: string): ThemeRecord | undefined {
+  return cache.byKey.get(key);
+}
+
+/** Stored library, validated; null when none has been saved (or it is unreadable) */
+async function readStoredLibrary(): Promise<ThemeLibrary | null> {
+  const stored = await getStore().getJson<ThemeLibrary>(LIBRARY_PATH);
+  if (!stored) return null;
+  const parsed = parseThemeList(stored.themes);
+  if (!parsed.ok || !Number.isInteger(stored.version)) {
+    console.error("[themes] stored library failed validation; keeping cached themes:", parsed.ok ? "bad version" : parsed.message);
+    return null;
+  }
+  return { ...stored, themes: parsed.themes };
+}
+
+/** Re-read the store when the cache is older than the TTL (or when forced) */
+export async function refreshThemes(opts: { force?: boolean } = {}): Promise<void> {
+  const ttlMs = cacheTtlSeconds() * 1000;
+  if (!opts.force && cache.loadedAt && Date.now() - cache.loadedAt < ttlMs) return;
+  if (inflight) return inflight;
+
+  inflight = (async () => {
+    try {
+      const stored = await readStoredLibrary();
+      cache = stored ? stateFor(stored, "store", Date.now()) : { ...cache, loadedAt: Date.now() };
+    } catch (e: any) {
+      // Store outage: keep serving what we have and try again after the TTL
+      console.warn("[themes] refresh failed; serving cached themes:", e?.message || e);
+      cache = { ...cache, loadedAt: Date.now() };
+    } finally {
+      inflight = null;
+    }
+  })();
+  return inflight;
+}
+
+/* =========================
+   Versioned writes
+   ========================= */
+
+/** Current library straight from the store (seed when nothing has been saved yet) */
+export async function readThemeLibrary(): Promise<{ library: ThemeLibrary; source: ThemeLibrarySource }> {
+  const stored = await readStoredLibrary();
+  return stored ? { library: stored, source: "store" } : { library: SEED_LIBRARY, source: "seed" };
+}
+
+/**
+ * Apply one edit to the latest library and save it as the next version.
+ * `expectedVersion` (optional) must match the version the edit was made against.
+ */
+export async function editThemeLibrary(
+  edit: ThemeEdit,
+  opts: { expectedVersion?: number | null; updatedBy?: string | null; note?: string | null } = {}
+): Promise<ThemeEditResult> {
+  const { library: current } = await readThemeLibrary();
+  if (opts.expectedVersion !== undefined && opts.expectedVersion !== null && opts.expectedVersion !== current.version) {
+    return {
+      ok: false,
+      status: 409,
+      error: "VERSION_CONFLICT",
+      message: `The library is at version ${current.version}, not ${opts.expectedVersion}. Reload and retry.`,
+    };
+  }
+
+  const applied = applyThemeEdit(current.themes, edit);
+  if (!applied.ok) return applied;
+
+  const library: ThemeLibrary = {
+    version: current.version + 1,
+    updatedAt: new Date().toISOString(),
+    updatedBy: cleanText(opts.updatedBy).slice(0, MAX_NOTE_CHARS) || null,
+    note: cleanText(opts.note).slice(0, MAX_NOTE_CHARS) || null,
+    themes: applied.themes,
+  };
+
+  const store = getStore();
+  await store.putJson(versionPath(library.version), library);
+  await store.putJson(LIBRARY_PATH, library);
+  cache = stateFor(library, "store", Date.now());
+  return { ok: true, library };
+}
+
+/** expectedVersion / updatedBy / note from an admin request (body wins over the query) */
+export function themeEditOptions(
+  body: any,
+  query: URLSearchParams
+): { expectedVersion: number | null; updatedBy: string | null; note: string | null } {
+  const rawVersion = body?.expectedVersion ?? query.get("expectedVersion");
+  const expectedVersion = rawVersion === undefined || rawVersion === null || rawVersion === "" ? null : Number(rawVersion);
+  return {
+    expectedVersion: Number.isInteger(expectedVersion) ? expectedVersion : null,
+    updatedBy: body?.updatedBy ? String(body.updatedBy) : query.get("by"),
+    note: body?.note ? String(body.note) : null,
+  };
+}
+
+export async function listThemeVersions(): Promise<ThemeVersionInfo[]> {
+  const items = await getStore().list(VERSIONS_PREFIX);
+  return items
+    .map((it) => ({ version: Number(/v(\d+)\.json$/.exec(it.key)?.[1] ?? NaN), size: it.size, savedAt: it.uploadedAt }))
+    .filter((v) => Number.isInteger(v.version))
+    .sort((a, b) => b.version - a.version);
+}
+
+/** A saved snapshot (version 0 is the bundled seed) */
+export async function readThemeVersion(version: number): Promise<ThemeLibrary | null> {
+  if (version === 0) return SEED_LIBRARY;
+  if (!Number.isInteger(version) || version < 0) return null;
+  return getStore().getJson<ThemeLibrary>(versionPath(version));
+}
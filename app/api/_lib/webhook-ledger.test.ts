@@ -0,0 +1,78 @@
+// app/api/_lib/webhook-ledger.test.ts
+import type Stripe from "stripe";
+import { describe, expect, it, vi } from "vitest";
+import { processStripeEvent } from "./stripe-events";
+import { useLocalStore } from "./test-store";
+import { isInFlight, listLedgerEntries, markReceived, readLedgerEntry } from "./webhook-ledger";
+
+useLocalStore("ledger", { LICENSE_SIGNING_SECRET: "test-secret" });
+
+let failUpdates = false;
+
+// Just enough of the Stripe client for checkout.session.completed
+const stripe = {
+  checkout: { sessions: { listLineItems: async () => ({ data: [] }) } },
+  customers: {
+    update: vi.fn(async () => {
+      if (failUpdates) throw new Error("Stripe unavailable");
+      return {};
+    }),
+    retrieve: async () => ({ email: null }),
+  },
+} as unknown as Stripe;
+
+const checkoutEvent = (id: string, created = 1_760_000_000) =>
+  ({
+    id,
+    type: "checkout.session.completed",
+    created,
+    data: {
+      object: { id: `cs_${id}`, customer: `cus_${id}`, customer_details: { email: `${id}@example.com` }, mode: "payment" },
+    },
+  }) as unknown as Stripe.Event;
+
+describe("processStripeEvent", () => {
+  it("processes a new event once and skips later deliveries", async () => {
+    const event = checkoutEvent("evt_once");
+    const first = await processStripeEvent(stripe, event);
+    expect(first).toMatchObject({ outcome: "processed", entry: { state: "processed", attempts: 1 } });
+
+    const again = await processStripeEvent(stripe, event);
+    expect(again.outcome).toBe("duplicate");
+    expect(stripe.customers.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("records failures and succeeds on the retry", async () => {
+    const event = checkoutEvent("evt_retry");
+    failUpdates = true;
+    const failed = await processStripeEvent(stripe, event);
+    failUpdates = false;
+    expect(failed).toMatchObject({ outcome: "failed", error: "Stripe unavailable", entry: { state: "failed" } });
+
+    const retried = await processStripeEvent(stripe, event);
+    expect(retried).toMatchObject({ outcome: "processed", entry: { attempts: 2, lastError: null } });
+    expect(retried.entry.receivedAt).toBe(failed.entry.receivedAt);
+  });
+
+  it("leaves a delivery that is mid-way alone", async () => {
+    const event = checkoutEvent("evt_busy");
+    const entry = await markReceived(event, null);
+    expect(isInFlight(entry)).toBe(true);
+    expect(isInFlight(entry, Date.now() + 2 * 60 * 1000)).toBe(false);
+    expect((await processStripeEvent(stripe, event)).outcome).toBe("in_flight");
+  });
+
+  it("re-runs a processed event when replayed", async () => {
+    const replay = await processStripeEvent(stripe, checkoutEvent("evt_once"), { force: true, replayedBy: "admin" });
+    expect(replay).toMatchObject({ outcome: "processed", entry: { attempts: 2, replayedBy: "admin" } });
+  });
+});
+
+describe("listLedgerEntries", () => {
+  it("filters by state and omits payloads", async () => {
+    const received = await listLedgerEntries({ state: "received" });
+    expect(received.map((e) => e.id)).toEqual(["evt_busy"]);
+    expect(received[0]).not.toHaveProperty("event");
+    expect((await readLedgerEntry("evt_busy"))?.event.id).toBe("evt_busy");
+  });
+});
@@ -0,0 +1,99 @@
+// app/api/_lib/webhook-ledger.ts
+import type Stripe from "stripe";
+import { getStore } from "./store";
+
+/* =========================
+   Stripe event ledger — webhook_events/<event.id>.json
+   ========================= */
+/**
+ * One record per Stripe event id:
+ * - received  → a delivery is being processed right now
+ * - processed → handled; later deliveries of the same id are acknowledged and skipped
+ * - failed    → handler threw; Stripe retries (non-2xx) and admins can replay it
+ * The verified event payload is kept so a replay does not need Stripe.
+ */
+export type LedgerState = "received" | "processed" | "failed";
+
+export type LedgerEntry = {
+  id: string;
+  type: string;
+  state: LedgerState;
+  attempts: number;
+  created: number; // event.created (unix seconds)
+  receivedAt: string; // ISO, first delivery
+  updatedAt: string; // ISO
+  processedAt: string | null;
+  lastError: string | null;
+  replayedBy?: string | null;
+  event: Stripe.Event;
+};
+
+/** A "received" entry younger than this is treated as an in-flight delivery */
+const IN_FLIGHT_MS = 60 * 1000;
+
+const ledgerPath = (eventId: string) => `webhook_events/${eventId}.json`;
+
+export async function readLedgerEntry(eventId: string): Promise<LedgerEntry | null> {
+  return getStore().getJson<LedgerEntry>(ledgerPath(eventId));
+}
+
+export function isInFlight(entry: LedgerEntry, now = Date.now()) {
+  return entry.state === "received" && now - new Date(entry.updatedAt).getTime() < IN_FLIGHT_MS;
+}
+
+async function writeEntry(entry: LedgerEntry) {
+  await getStore().putJson(ledgerPath(entry.id), entry);
+  return entry;
+}
+
+export async function markReceived(
+  event: Stripe.Event,
+  prev: LedgerEntry | null,
+  replayedBy: string | null = null
+): Promise<LedgerEntry> {
+  const nowIso = new Date().toISOString();
+  return writeEntry({
+    id: event.id,
+    type: event.type,
+    state: "received",
+    attempts: (prev?.attempts ?? 0) + 1,
+    created: event.created,
+    receivedAt: prev?.receivedAt ?? nowIso,
+    updatedAt: nowIso,
+    processedAt: null,
+    lastError: prev?.lastError ?? null,
+    replayedBy,
+    event,
+  });
+}
+
+export async function markProcessed(entry: LedgerEntry): Promise<LedgerEntry> {
+  const nowIso = new Date().toISOString();
+  return writeEntry({ ...entry, state: "processed", updatedAt: nowIso, processedAt: nowIso, lastError: null });
+}
+
+export async function markFailed(entry: LedgerEntry, err: unknown): Promise<LedgerEntry> {
+  const msg = (err as any)?.message || String(err);
+  return writeEntry({ ...entry, state: "failed", updatedAt: new Date().toISOString(), lastError: msg });
+}
+
+/** List ledger entries (newest first), optionally filtered by state; payloads omitted */
+export async function listLedgerEntries(
+  opts: { state?: LedgerState; limit?: number } = {}
+): Promise<Array<Omit<LedgerEntry, "event">>> {
+  const store = getStore();
+  const items = (await store.list("webhook_events/")).sort(
+    (a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
+  );
+
+  const out: Array<Omit<LedgerEntry, "event">> = [];
+  const limit = opts.limit ?? 50;
+  for (const it of items) {
+    if (out.length >= limit) break;
+    const entry = await store.getJson<LedgerEntry>(it.key);
+    if (!entry || (opts.state && entry.state !== opts.state)) continue;
+    const { event: _event, ...summary } = entry;
+    out.push(summary);
+  }
+  return out;
+}
@@ -1,67 +1,109 @@
 // app/api/actions/plan/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { requirePro } from "../../_lib/paywall";
+import {
+  buildActionPlan,
+  normalizeDifficulty,
+  normalizeMinutes,
+  normalizePlanLength,
+} from "../../_lib/action-plan";
+import { itemDetail } from "../../_lib/belief-item";
+import { requireFeature, verifiedOwnerOf } from "../../_lib/entitlement";
+import { resolveLocale, t } from "../../_lib/i18n";
+import { journalSafely, wantsJournal } from "../../_lib/journal";
+import { refreshThemes } from "../../_lib/libs";
+import { savePlan } from "../../_lib/plan-store";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// ----- business logic (deterministic) -----
-function buildSevenDayPlan(belief: string, goal: string) {
-  const safeBelief = belief.trim();
-  const safeGoal = goal.trim();
-
-  const cautions = [
-    "Keep daily tasks ≤ 20 minutes to avoid overwhelm.",
-    "Track effort, not perfection; missing a day is data, not failure.",
-    "If distress rises, pause and switch to Gentle Mode (breathing, journaling).",
-  ];
-
-  const plan = [
-    `Day 1 — Name & Notice: Write the belief "${safeBelief}" and list 3 recent moments it showed up. Then write the goal: "${safeGoal}".`,
-    `Day 2 — Evidence scan: List 5 facts that contradict "${safeBelief}". Circle the strongest 2.`,
-    `Day 3 — Micro-proof #1: Do a 15–20 min task that moves "${safeGoal}" forward. Log how you felt before/after.`,
-    `Day 4 — Reframe draft: Turn "${safeBelief}" into a workable reframe (e.g., “I can take one concrete step today toward ${safeGoal}”). Read it aloud 3×.`,
-    `Day 5 — Micro-proof #2: Do the next smallest step for "${safeGoal}". Message one person for accountability.`,
-    `Day 6 — Friction audit: List top 3 blockers. For each, write 1 friction-reduction (timer, checklist, calendar block).`,
-    `Day 7 — Review & lock-in: Note 3 wins this week. Book 2 calendar blocks for next week’s first two micro-steps.`,
-  ];
-
-  return { plan, cautions };
-}
-
 // ----- route -----
 export async function POST(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
   try {
-    // 0) Pro gate (reads ?key=... or X-License-Key, verifies active sub)
-    const gate = await requirePro(req as unknown as Request);
+    // 0) Pro gate (license key, email license, email trial or cookie trial)
+    const gate = await requireFeature(req as unknown as Request, "actions_plan");
     if (!gate.ok) {
       return NextResponse.json(gate.body, { status: gate.status });
     }
 
     // 1) Parse body
     const body = await req.json().catch(() => ({}));
-    const belief = String(body.belief || "").trim();
+    const itemId = String(body.itemId || "").trim();
     const goal = String(body.goal || "").trim();
 
+    await refreshThemes();
+
+    // A library item id stands in for the belief text (and brings its companion content)
+    const item = itemId ? itemDetail(itemId, lang) : null;
+    if (itemId && !item) {
+      return NextResponse.json(
+        { error: "ITEM_NOT_FOUND", message: t(lang, "errors.ITEM_NOT_FOUND", "No library belief with that 'itemId'.") },
+        { status: 404 }
+      );
+    }
+    const belief = item?.text ?? String(body.belief || "").trim();
+
     if (!belief || !goal) {
       return NextResponse.json(
-        { error: "MISSING_INPUT", message: "Missing 'belief' or 'goal'." },
+        {
+          error: "MISSING_INPUT",
+          message: t(lang, "errors.MISSING_INPUT.belief_goal", "Missing 'belief' (or 'itemId') or 'goal'."),
+        },
         { status: 400 }
       );
     }
 
-    // 2) Generate plan
-    const { plan, cautions } = buildSevenDayPlan(belief, goal);
+    // 2) Generate plan (length 3/7/14/30, difficulty, minutes budget; defaults = 7/standard/20) in the caller's language
+    const built = buildActionPlan({
+      belief,
+      goal,
+      length: normalizePlanLength(body.days ?? body.length),
+      difficulty: normalizeDifficulty(body.difficulty),
+      minutesPerDay: normalizeMinutes(body.minutesPerDay),
+      theme: typeof body.theme === "string" ? body.theme.trim() : null,
+      locale: lang,
+      item,
+    });
+
+    // 3) Save for check-ins (verified license/seat key only; body.save=false opts out)
+    const owner = verifiedOwnerOf(gate.entitlement);
+    const saved = owner && body.save !== false ? await savePlan(owner, built) : null;
+
+    // 4) Opt-in journal (links the saved plan when there is one)
+    const journaled = wantsJournal(req as unknown as Request, body)
+      ? await journalSafely(owner, {
+          kind: "plan",
+          belief,
+          theme: built.theme,
+          note: body.journalNote ?? null,
+          data: { goal, itemId: item?.id ?? null, planId: saved?.id ?? null, length: built.length, difficulty: built.difficulty, plan: built.plan },
+        })
+      : null;
 
-    // 3) Return
+    // 5) Return
     return NextResponse.json(
-      { belief, goal, plan, cautions },
+      {
+        belief,
+        ...(item ? { itemId: item.id } : {}),
+        goal,
+        planId: saved?.id ?? null,
+        ...(journaled ? { journalId: journaled.id } : {}),
+        theme: built.theme,
+        length: built.length,
+        difficulty: built.difficulty,
+        minutesPerDay: built.minutesPerDay,
+        plan: built.plan,
+        days: built.days,
+        cautions: built.cautions,
+        lang,
+        ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+      },
       { status: 200 }
     );
   } catch (err: any) {
     console.error("actions/plan error:", err?.message || err);
     return NextResponse.json(
-      { error: "PLAN_ERROR", message: "Could not generate action plan." },
+      { error: "PLAN_ERROR", message: t(lang, "errors.PLAN_ERROR", "Could not generate action plan.") },
       { status: 500 }
     );
   }
@@ -0,0 +1,57 @@
+// app/api/actions/plans/[id]/checkin/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { OWNER_KEY_REQUIRED, requireFeature, verifiedOwnerOf } from "../../../../_lib/entitlement";
+import {
+  computeProgress,
+  parseCheckIn,
+  readPlan,
+  recordCheckIn,
+} from "../../../../_lib/plan-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST { day, status: "done"|"skipped", mood?: 1..10, note? }
+ * A second check-in for the same day replaces the first.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const gate = await requireFeature(req as unknown as Request, "actions_plan");
+    if (!gate.ok) {
+      return NextResponse.json(gate.body, { status: gate.status });
+    }
+
+    const { id } = await context.params;
+    const owner = verifiedOwnerOf(gate.entitlement);
+    if (!owner) {
+      return NextResponse.json(OWNER_KEY_REQUIRED, { status: 401 });
+    }
+    const plan = await readPlan(owner, (id || "").trim());
+    if (!plan) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = parseCheckIn(body, plan.length);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error, message: parsed.message }, { status: 400 });
+    }
+
+    const updated = await recordCheckIn(plan, parsed.checkin);
+    return NextResponse.json({
+      planId: updated.id,
+      checkin: updated.checkins.find((c) => c.day === parsed.checkin.day),
+      progress: computeProgress(updated),
+    });
+  } catch (e: any) {
+    console.error("actions/plans/[id]/checkin error:", e?.message || e);
+    return NextResponse.json(
+      { error: "CHECKIN_ERROR", message: "Could not record check-in." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/actions/plans/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { OWNER_KEY_REQUIRED, requireFeature, verifiedOwnerOf } from "../../../_lib/entitlement";
+import { computeProgress, readPlan } from "../../../_lib/plan-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET → saved plan (days + check-ins) and computed progress */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const gate = await requireFeature(req as unknown as Request, "actions_plan");
+    if (!gate.ok) {
+      return NextResponse.json(gate.body, { status: gate.status });
+    }
+
+    const { id } = await context.params;
+    const owner = verifiedOwnerOf(gate.entitlement);
+    if (!owner) {
+      return NextResponse.json(OWNER_KEY_REQUIRED, { status: 401 });
+    }
+    const plan = await readPlan(owner, (id || "").trim());
+    if (!plan) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ plan, progress: computeProgress(plan) });
+  } catch (e: any) {
+    console.error("actions/plans/[id] error:", e?.message || e);
+    return NextResponse.json(
+      { error: "PLAN_STORE_ERROR", message: "Could not fetch plan." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/actions/plans/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireFeature, verifiedOwnerOf } from "../../_lib/entitlement";
+import { listPlans } from "../../_lib/plan-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET ?limit=20 → saved plans for the caller (newest first) with progress */
+export async function GET(req: NextRequest) {
+  try {
+    const gate = await requireFeature(req as unknown as Request, "actions_plan");
+    if (!gate.ok) {
+      return NextResponse.json(gate.body, { status: gate.status });
+    }
+
+    const owner = verifiedOwnerOf(gate.entitlement);
+    if (!owner) {
+      return NextResponse.json({ plans: [], note: "Provide your license key to save and track plans." });
+    }
+
+    const limit = Math.min(100, Math.max(1, parseInt(req.nextUrl.searchParams.get("limit") || "20", 10) || 20));
+    const plans = await listPlans(owner, limit);
+    return NextResponse.json({ count: plans.length, plans });
+  } catch (e: any) {
+    console.error("actions/plans error:", e?.message || e);
+    return NextResponse.json(
+      { error: "PLAN_STORE_ERROR", message: "Could not list plans." },
+      { status: 500 }
+    );
+  }
+}
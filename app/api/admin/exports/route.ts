@@ -0,0 +1,42 @@
+// app/api/admin/exports/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../_lib/admin";
+import { cleanupExports, exportRetentionDays } from "../../_lib/exports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function olderThanDaysFrom(req: NextRequest): number {
+  const n = parseInt(req.nextUrl.searchParams.get("olderThanDays") || "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : exportRetentionDays();
+}
+
+/**
+ * GET  ?olderThanDays=N → dry run: what a cleanup would delete (default EXPORT_RETENTION_DAYS)
+ * POST ?olderThanDays=N → delete exports older than N days (schedule this as the cleanup job)
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json(await cleanupExports({ olderThanDays: olderThanDaysFrom(req), dryRun: true }));
+  } catch (e: any) {
+    console.error("admin/exports dry-run error:", e?.message || e);
+    return NextResponse.json({ error: "CLEANUP_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const result = await cleanupExports({ olderThanDays: olderThanDaysFrom(req) });
+    console.log(`[exports] cleanup deleted ${result.deleted}/${result.scanned} objects older than ${result.cutoff}`);
+    return NextResponse.json(result);
+  } catch (e: any) {
+    console.error("admin/exports cleanup error:", e?.message || e);
+    return NextResponse.json({ error: "CLEANUP_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
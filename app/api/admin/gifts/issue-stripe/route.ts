@@ -1,8 +1,8 @@
 // app/api/admin/gifts/issue-stripe/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
-import crypto from "crypto";
-import { put } from "@vercel/blob";
+import { issueLicenseKey } from "../../../_lib/license-key";
+import { saveLicenseRecord } from "../../../_lib/licenses";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,66 +20,6 @@ function bad(msg: string, code = 400) {
   return NextResponse.json({ error: "BAD_REQUEST", message: msg }, { status: code });
 }
 
-/* ---------- license helpers ---------- */
-function issueLicenseForCustomerId(customerId: string) {
-  const short = crypto.randomBytes(4).toString("hex").toUpperCase();
-  return `LIC-PRO-${customerId}-${short}`;
-}
-function emailKey(emailRaw: string) {
-  const e = String(emailRaw || "").trim().toLowerCase();
-  return e.replace(/[^a-z0-9._-]+/g, "_");
-}
-
-/* ---------- blob writer (stable) ---------- */
-async function saveLicenseRecord(params: {
-  customerId: string;
-  licenseKey: string;
-  email?: string | null;
-  source: string; // "admin.issue"
-  extra?: Record<string, any>;
-}) {
-  const { customerId, licenseKey, email = null, source, extra = {} } = params;
-  const record = {
-    customerId,
-    licenseKey,
-    email,
-    source,
-    savedAt: new Date().toISOString(),
-    ...extra,
-  };
-
-  const putOpts: Parameters<typeof put>[2] = {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    ...(process.env.BLOB_READ_WRITE_TOKEN ? { token: process.env.BLOB_READ_WRITE_TOKEN } : {}),
-  };
-
-  // latest by customer
-  await put(
-    `licenses/${customerId}.json`,
-    Buffer.from(JSON.stringify(record, null, 2)),
-    putOpts
-  );
-
-  // immutable history
-  await put(
-    `licenses_history/${customerId}-${Date.now()}.json`,
-    Buffer.from(JSON.stringify(record, null, 2)),
-    putOpts
-  );
-
-  // optional index by email
-  if (email) {
-    const ek = emailKey(email);
-    await put(
-      `licenses_by_email/${ek}.json`,
-      Buffer.from(JSON.stringify(record, null, 2)),
-      putOpts
-    );
-  }
-}
-
 /* ---------- core handler ---------- */
 async function handle(req: NextRequest) {
   // auth
@@ -120,17 +60,17 @@ async function handle(req: NextRequest) {
     }
   }
 
-  // create license & persist on customer
-  const licenseKey = issueLicenseForCustomerId(customerId);
-  await stripe.customers.update(customerId, {
-    metadata: { license_key: licenseKey, gift_issued_by: "admin" },
-  });
-
   // create a $0 trial subscription (no payment method) that auto-cancels after N days
   // strategy: use a normal price but set trial_end to now + days; also set cancel_at (or schedule revoke from admin later)
   const nowSec = Math.floor(Date.now() / 1000);
   const trialEnd = nowSec + days * 24 * 60 * 60;
 
+  // create license (signed expiry = gift end) & persist on customer
+  const licenseKey = issueLicenseKey(customerId, { expiresAt: trialEnd * 1000 });
+  await stripe.customers.update(customerId, {
+    metadata: { license_key: licenseKey, gift_issued_by: "admin" },
+  });
+
   const sub = await stripe.subscriptions.create({
     customer: customerId,
     items: [{ price: priceId }],
@@ -141,7 +81,7 @@ async function handle(req: NextRequest) {
     metadata: { gift: "true" },
   });
 
-  // Write Blob records
+  // Write license records (latest + history + email index)
   await saveLicenseRecord({
     customerId,
     licenseKey,
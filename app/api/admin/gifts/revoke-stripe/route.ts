@@ -1,7 +1,8 @@
 // app/api/admin/gifts/revoke-stripe/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
-import { put } from "@vercel/blob";
+import { parseLicenseKey } from "../../../_lib/license-key";
+import { saveLicenseRecord } from "../../../_lib/licenses";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -19,69 +20,14 @@ function bad(msg: string, code = 400) {
   return NextResponse.json({ error: "BAD_REQUEST", message: msg }, { status: code });
 }
 
-/* ---------- blob writer (stable) ---------- */
-function emailKey(emailRaw: string) {
-  const e = String(emailRaw || "").trim().toLowerCase();
-  return e.replace(/[^a-z0-9._-]+/g, "_");
-}
-async function saveLicenseRecord(params: {
-  customerId: string;
-  licenseKey: string | null;
-  email?: string | null;
-  source: string; // "admin.revoke"
-  extra?: Record<string, any>;
-}) {
-  const { customerId, licenseKey, email = null, source, extra = {} } = params;
-  const record = {
-    customerId,
-    licenseKey,
-    email,
-    source,
-    savedAt: new Date().toISOString(),
-    ...extra,
-  };
-
-  const putOpts: Parameters<typeof put>[2] = {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    ...(process.env.BLOB_READ_WRITE_TOKEN ? { token: process.env.BLOB_READ_WRITE_TOKEN } : {}),
-  };
-
-  await put(
-    `licenses/${customerId}.json`,
-    Buffer.from(JSON.stringify(record, null, 2)),
-    putOpts
-  );
-  await put(
-    `licenses_history/${customerId}-${Date.now()}.json`,
-    Buffer.from(JSON.stringify(record, null, 2)),
-    putOpts
-  );
-  if (email) {
-    const ek = emailKey(email);
-    await put(
-      `licenses_by_email/${ek}.json`,
-      Buffer.from(JSON.stringify(record, null, 2)),
-      putOpts
-    );
-  }
-}
-
 /* ---------- utilities ---------- */
-function customerIdFromLicense(licenseKey?: string | null) {
-  if (!licenseKey) return null;
-  const parts = licenseKey.trim().split("-");
-  return parts.find((p) => p.startsWith("cus_")) || null;
-}
-
 async function resolveCustomerId(
   stripe: Stripe,
   opts: { customerId?: string | null; license?: string | null; email?: string | null }
 ) {
   if (opts.customerId) return opts.customerId;
   if (opts.license) {
-    const fromKey = customerIdFromLicense(opts.license);
+    const fromKey = parseLicenseKey(opts.license)?.customerId;
     if (fromKey) return fromKey;
   }
   if (opts.email) {
@@ -1,17 +1,12 @@
 // app/api/admin/license/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { list } from "@vercel/blob";
 import crypto from "crypto";
+import { licensePaths } from "../../_lib/licenses";
+import { getStore } from "../../_lib/store";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// normalize email into a safe key
-function emailKey(emailRaw: string) {
-  const e = String(emailRaw || "").trim().toLowerCase();
-  return e.replace(/[^a-z0-9._-]+/g, "_");
-}
-
 // resolve admin token from query (?token=...) first, then header
 function getProvidedToken(req: NextRequest) {
   const q = (req.nextUrl.searchParams.get("token") || "").trim();
@@ -20,34 +15,23 @@ function getProvidedToken(req: NextRequest) {
   return h;
 }
 
-// list exact key and fetch JSON via public URL
+// read exact key through the store (falls back to legacy random-suffix writes)
 async function fetchJsonByExactKey(key: string) {
-  const ls = await list({
-    prefix: key,
-    ...(process.env.BLOB_READ_WRITE_TOKEN ? { token: process.env.BLOB_READ_WRITE_TOKEN } : {}),
-  });
-
-  // 1) Try exact key first
-  let hit = ls.blobs.find((b) => b.pathname === key);
-
-  // 2) Fallback: accept a suffix (legacy writes with random suffix)
-  if (!hit) {
-    const candidates = ls.blobs
-      .filter((b) => b.pathname === key || b.pathname.startsWith(key + "-"))
-      // pick the most recent if multiple; uploadedAt may exist, else sort by pathname
-      .sort((a, b) => {
-        const at = (a as any).uploadedAt ? new Date((a as any).uploadedAt).getTime() : 0;
-        const bt = (b as any).uploadedAt ? new Date((b as any).uploadedAt).getTime() : 0;
-        return bt - at || b.pathname.localeCompare(a.pathname);
-      });
-    hit = candidates[0];
-  }
-
-  if (!hit) return null;
-
-  const res = await fetch(hit.url);
-  if (!res.ok) return null;
-  return (await res.json()) as any;
+  const store = getStore();
+  const exact = await store.getJson<any>(key);
+  if (exact) return exact;
+
+  // Fallback: accept a suffix (legacy writes with random suffix); most recent first
+  const base = key.replace(/\.json$/, "");
+  const candidates = (await store.list(base))
+    .filter((it) => it.key.startsWith(base + "-"))
+    .sort(
+      (a, b) =>
+        new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime() ||
+        b.key.localeCompare(a.key)
+    );
+  if (!candidates[0]) return null;
+  return store.getJson<any>(candidates[0].key);
 }
 
 // timing-safe compare
@@ -105,7 +89,7 @@ export async function GET(req: NextRequest) {
 
     // lookup by customerId
     if (customerId) {
-      const key = `licenses/${customerId}.json`;
+      const key = licensePaths.latest(customerId);
       const json = await fetchJsonByExactKey(key);
       if (!json) {
         return NextResponse.json(
@@ -117,8 +101,7 @@ export async function GET(req: NextRequest) {
     }
 
     // lookup by email (requires email index writes in webhook)
-    const ek = emailKey(email);
-    const emailKeyPath = `licenses_by_email/${ek}.json`;
+    const emailKeyPath = licensePaths.byEmail(email);
     const json = await fetchJsonByExactKey(emailKeyPath);
     if (!json) {
       return NextResponse.json(
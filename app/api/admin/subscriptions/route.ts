@@ -0,0 +1,51 @@
+// app/api/admin/subscriptions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../_lib/admin";
+import { getSubscriptionStatus, subscriptionCacheMetrics } from "../../_lib/subscription";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET  ?customerId=cus_...[&refresh=1] → cached (or force-refreshed) status + cache metrics
+ * GET  (no customerId)                 → cache metrics only
+ * POST { customerId }                  → force-refresh from Stripe
+ */
+async function handle(req: NextRequest, forceRefresh: boolean) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    let customerId = (req.nextUrl.searchParams.get("customerId") || "").trim();
+    if (req.method === "POST") {
+      const body = await req.json().catch(() => ({}));
+      if (body?.customerId) customerId = String(body.customerId).trim();
+    }
+
+    if (!customerId) {
+      if (req.method === "POST") {
+        return NextResponse.json(
+          { error: "BAD_REQUEST", message: "Provide customerId" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ metrics: subscriptionCacheMetrics() });
+    }
+
+    const status = await getSubscriptionStatus(customerId, { forceRefresh });
+    return NextResponse.json({ status, metrics: subscriptionCacheMetrics() });
+  } catch (e: any) {
+    console.error("admin/subscriptions error:", e?.message || e);
+    return NextResponse.json(
+      { error: "SUBSCRIPTION_LOOKUP_ERROR", message: e?.message || String(e) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(req: NextRequest) {
+  return handle(req, req.nextUrl.searchParams.get("refresh") === "1");
+}
+export async function POST(req: NextRequest) {
+  return handle(req, true);
+}
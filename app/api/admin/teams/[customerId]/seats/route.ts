@@ -0,0 +1,48 @@
+// app/api/admin/teams/[customerId]/seats/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../../../_lib/admin";
+import { assignSeat, readTeam, revokeSeat, teamView, type TeamEditResult } from "../../../../_lib/teams";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ customerId: string }> };
+
+/**
+ * Seats of one team (support / manual fixes; owners use /api/team/seats):
+ * GET                          → TeamView with seat keys
+ * POST   { email }             → assign a seat (recorded as assignedBy "admin")
+ * DELETE { email } | ?email=   → revoke
+ */
+async function handle(req: NextRequest, context: Ctx, edit: (customerId: string, email: unknown) => Promise<TeamEditResult>) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const { customerId } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const result = await edit((customerId || "").trim(), body.email ?? req.nextUrl.searchParams.get("email"));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json(teamView(result.team, { withKeys: true }));
+  } catch (e: any) {
+    console.error("admin/teams/[customerId]/seats error:", e?.message || e);
+    return NextResponse.json({ error: "TEAMS_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest, context: Ctx) {
+  return handle(req, context, async (customerId) => {
+    const team = await readTeam(customerId);
+    return team
+      ? { ok: true, team }
+      : { ok: false, status: 404, error: "TEAM_NOT_FOUND", message: "No team license for this customer." };
+  });
+}
+export async function POST(req: NextRequest, context: Ctx) {
+  return handle(req, context, (customerId, email) => assignSeat(customerId, email, "admin"));
+}
+export async function DELETE(req: NextRequest, context: Ctx) {
+  return handle(req, context, revokeSeat);
+}
@@ -0,0 +1,72 @@
+// app/api/admin/teams/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../_lib/admin";
+import {
+  listTeams,
+  normalizeEmail,
+  parseSeatCount,
+  readTeam,
+  saveTeamFromBilling,
+  teamView,
+} from "../../_lib/teams";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET                     → { teams: TeamView[] } (most recently updated first)
+ * GET ?customerId=cus_... → one TeamView, with seat keys
+ * POST { customerId, seats, ownerEmail?, name? }
+ *   → create a team for an existing customer (invoiced / manual deals) or set its seat count.
+ *     Stripe subscription events keep overwriting `seats` for self-serve teams.
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const customerId = (req.nextUrl.searchParams.get("customerId") || "").trim();
+    if (customerId) {
+      const team = await readTeam(customerId);
+      if (!team) {
+        return NextResponse.json({ error: "TEAM_NOT_FOUND", message: "No team license for this customer." }, { status: 404 });
+      }
+      return NextResponse.json(teamView(team, { withKeys: true }));
+    }
+    const teams = await listTeams();
+    return NextResponse.json({ teams: teams.map((t) => teamView(t)) });
+  } catch (e: any) {
+    console.error("admin/teams error:", e?.message || e);
+    return NextResponse.json({ error: "TEAMS_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const customerId = String(body.customerId || "").trim();
+    if (!customerId.startsWith("cus_")) {
+      return NextResponse.json({ error: "MISSING_INPUT", message: "Provide the Stripe 'customerId' (cus_...)." }, { status: 400 });
+    }
+    const seats = parseSeatCount(body.seats);
+    if (!seats) {
+      return NextResponse.json({ error: "INVALID_SEATS", message: "'seats' must be a whole number from 2 to 500." }, { status: 400 });
+    }
+    if (body.ownerEmail !== undefined && !normalizeEmail(body.ownerEmail)) {
+      return NextResponse.json({ error: "INVALID_EMAIL", message: "Provide a valid 'ownerEmail'." }, { status: 400 });
+    }
+    const team = await saveTeamFromBilling({
+      customerId,
+      seats,
+      ownerEmail: body.ownerEmail ?? null,
+      name: typeof body.name === "string" ? body.name.trim().slice(0, 80) || null : null,
+    });
+    return NextResponse.json(teamView(team, { withKeys: true }));
+  } catch (e: any) {
+    console.error("admin/teams error:", e?.message || e);
+    return NextResponse.json({ error: "TEAMS_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/admin/themes/[key]/items/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../../../_lib/admin";
+import { editThemeLibrary, themeEditOptions, type ThemeEdit } from "../../../../_lib/theme-library";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ key: string }> };
+
+/**
+ * Belief items of one theme (indexes are 0-based positions in the list; ids are stable):
+ * POST   { text, id?, category?, reframe?, counterEvidence?, microAction?, reflection?, position? }
+ *                                      → add (appends by default; id derived from text if omitted)
+ * PATCH  { id | index, ...fields }     → edit any of the fields above except id (null clears one)
+ * PUT    { order: [2,0,1…] }           → reorder (current indexes in their new order)
+ * DELETE { id | index } | ?id= | ?index=N → remove
+ * All accept expectedVersion / updatedBy / note; the response has the updated items.
+ */
+async function handle(req: NextRequest, context: Ctx, build: (key: string, body: any) => ThemeEdit) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const { key: rawKey } = await context.params;
+    const key = (rawKey || "").trim();
+    const body = await req.json().catch(() => ({}));
+    const result = await editThemeLibrary(build(key, body), themeEditOptions(body, req.nextUrl.searchParams));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    const theme = result.library.themes.find((t) => t.key === key);
+    return NextResponse.json({ version: result.library.version, key, items: theme?.items ?? [] });
+  } catch (e: any) {
+    console.error("admin/themes/[key]/items error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, context: Ctx) {
+  return handle(req, context, (key, body) => {
+    const { position, expectedVersion, updatedBy, note, ...item } = body;
+    return { op: "add_item", key, item, position };
+  });
+}
+export async function PATCH(req: NextRequest, context: Ctx) {
+  return handle(req, context, (key, body) => {
+    const { index, id, expectedVersion, updatedBy, note, ...changes } = body;
+    return { op: "edit_item", key, index, id, changes };
+  });
+}
+export async function PUT(req: NextRequest, context: Ctx) {
+  return handle(req, context, (key, body) => ({ op: "reorder_items", key, order: body.order }));
+}
+export async function DELETE(req: NextRequest, context: Ctx) {
+  return handle(req, context, (key, body) => ({
+    op: "remove_item",
+    key,
+    index: body.index ?? req.nextUrl.searchParams.get("index"),
+    id: body.id ?? req.nextUrl.searchParams.get("id"),
+  }));
+}
@@ -0,0 +1,73 @@
+// app/api/admin/themes/[key]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../../_lib/admin";
+import { editThemeLibrary, readThemeLibrary, themeEditOptions } from "../../../_lib/theme-library";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ key: string }> };
+
+/**
+ * GET                                                          → one theme (with the library version)
+ * PATCH { title?, requiresPro?, teaserItems?, expectedVersion? } → rename / toggle the Pro gate / teaser size
+ * DELETE ?expectedVersion=N                                    → remove the theme
+ */
+export async function GET(req: NextRequest, context: Ctx) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const { key } = await context.params;
+    const { library } = await readThemeLibrary();
+    const theme = library.themes.find((t) => t.key === (key || "").trim());
+    if (!theme) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ version: library.version, theme });
+  } catch (e: any) {
+    console.error("admin/themes/[key] error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, context: Ctx) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const { key } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const result = await editThemeLibrary(
+      { op: "update", key: (key || "").trim(), title: body.title, requiresPro: body.requiresPro, teaserItems: body.teaserItems },
+      themeEditOptions(body, req.nextUrl.searchParams)
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    const theme = result.library.themes.find((t) => t.key === (key || "").trim());
+    return NextResponse.json({ version: result.library.version, theme });
+  } catch (e: any) {
+    console.error("admin/themes/[key] update error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, context: Ctx) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const { key } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const result = await editThemeLibrary(
+      { op: "delete", key: (key || "").trim() },
+      themeEditOptions(body, req.nextUrl.searchParams)
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json({ version: result.library.version, deleted: true });
+  } catch (e: any) {
+    console.error("admin/themes/[key] delete error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+// app/api/admin/themes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "../../_lib/admin";
+import {
+  editThemeLibrary,
+  listThemeVersions,
+  readThemeLibrary,
+  readThemeVersion,
+  themeEditOptions,
+} from "../../_lib/theme-library";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET                                                        → current library (+ source: "seed" | "store")
+ * GET  ?versions=1                                           → saved versions, newest first
+ * GET  ?version=N                                            → one saved version (0 = bundled seed)
+ * POST { key, title, requiresPro?, teaserItems?, items, … }  → create a theme
+ * PUT  { themes } | { restoreVersion: N }                    → replace the whole library
+ * Items are strings or { id?, text, category?, reframe?, counterEvidence?, microAction?,
+ * reflection? } (ids are derived from the text when omitted; see items/route.ts).
+ * Writes accept expectedVersion (409 VERSION_CONFLICT when stale); `updatedBy` / `note`
+ * are recorded on the new version.
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const params = req.nextUrl.searchParams;
+    if (params.get("versions") === "1") {
+      return NextResponse.json({ versions: await listThemeVersions() });
+    }
+    if (params.has("version")) {
+      const library = await readThemeVersion(Number(params.get("version")));
+      if (!library) return NextResponse.json({ error: "Not found" }, { status: 404 });
+      return NextResponse.json({ library });
+    }
+    const { library, source } = await readThemeLibrary();
+    return NextResponse.json({ library, source });
+  } catch (e: any) {
+    console.error("admin/themes error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const result = await editThemeLibrary({ op: "create", theme: body }, themeEditOptions(body, req.nextUrl.searchParams));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    const theme = result.library.themes.find((t) => t.key === String(body.key).trim());
+    return NextResponse.json({ version: result.library.version, theme }, { status: 201 });
+  } catch (e: any) {
+    console.error("admin/themes create error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    let themes: unknown = body.themes;
+    let note = body.note;
+    if (body.restoreVersion !== undefined) {
+      const snapshot = await readThemeVersion(Number(body.restoreVersion));
+      if (!snapshot) {
+        return NextResponse.json(
+          { error: "VERSION_NOT_FOUND", message: `No saved version ${body.restoreVersion}.` },
+          { status: 404 }
+        );
+      }
+      themes = snapshot.themes;
+      note = note || `Restored version ${snapshot.version}`;
+    }
+
+    const result = await editThemeLibrary(
+      { op: "replace", themes },
+      themeEditOptions({ ...body, note }, req.nextUrl.searchParams)
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    const { library } = result;
+    return NextResponse.json({ version: library.version, updatedAt: library.updatedAt, themes: library.themes.length });
+  } catch (e: any) {
+    console.error("admin/themes replace error:", e?.message || e);
+    return NextResponse.json({ error: "THEMES_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
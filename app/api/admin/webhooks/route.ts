@@ -0,0 +1,76 @@
+// app/api/admin/webhooks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { requireAdmin } from "../../_lib/admin";
+import { processStripeEvent } from "../../_lib/stripe-events";
+import { listLedgerEntries, readLedgerEntry, type LedgerState } from "../../_lib/webhook-ledger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getStripe() {
+  const key = process.env.STRIPE_SECRET_KEY;
+  if (!key) throw new Error("STRIPE_SECRET_KEY not set");
+  return new Stripe(key, { apiVersion: "2024-06-20" });
+}
+
+const STATES: LedgerState[] = ["received", "processed", "failed"];
+
+/**
+ * GET  ?state=failed|received|processed|all (default failed)&limit=50 → ledger entries
+ * GET  ?id=evt_...                                                  → one entry (with payload)
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    const id = (req.nextUrl.searchParams.get("id") || "").trim();
+    if (id) {
+      const entry = await readLedgerEntry(id);
+      if (!entry) return NextResponse.json({ error: "Not found" }, { status: 404 });
+      return NextResponse.json({ entry });
+    }
+
+    const stateRaw = (req.nextUrl.searchParams.get("state") || "failed").trim().toLowerCase();
+    const state = STATES.find((s) => s === stateRaw);
+    const limit = Math.min(200, Math.max(1, parseInt(req.nextUrl.searchParams.get("limit") || "50", 10) || 50));
+    const events = await listLedgerEntries({ state: stateRaw === "all" ? undefined : state ?? "failed", limit });
+    return NextResponse.json({ state: stateRaw === "all" ? "all" : state ?? "failed", count: events.length, events });
+  } catch (e: any) {
+    console.error("admin/webhooks list error:", e?.message || e);
+    return NextResponse.json({ error: "LEDGER_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+/**
+ * POST ?id=evt_... (or { id }) → replay a stored event through the same handler.
+ * Uses the stored payload; falls back to stripe.events.retrieve for unknown ids.
+ */
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  try {
+    let id = (req.nextUrl.searchParams.get("id") || "").trim();
+    const body = await req.json().catch(() => ({}));
+    if (body?.id) id = String(body.id).trim();
+    if (!id) {
+      return NextResponse.json({ error: "BAD_REQUEST", message: "Provide event id" }, { status: 400 });
+    }
+
+    const stripe = getStripe();
+    const stored = await readLedgerEntry(id);
+    const event = stored?.event ?? (await stripe.events.retrieve(id));
+
+    const result = await processStripeEvent(stripe, event, { force: true, replayedBy: "admin" });
+    const { event: _event, ...entry } = result.entry;
+    return NextResponse.json(
+      { replayed: id, outcome: result.outcome, entry },
+      { status: result.outcome === "failed" ? 500 : 200 }
+    );
+  } catch (e: any) {
+    console.error("admin/webhooks replay error:", e?.message || e);
+    return NextResponse.json({ error: "REPLAY_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
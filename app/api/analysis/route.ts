@@ -0,0 +1,91 @@
+// app/api/analysis/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeResponses, type AnswerInput } from "../_lib/analysis";
+import { requireFeature } from "../_lib/entitlement";
+import { resolveLocale, t } from "../_lib/i18n";
+import { refreshThemes } from "../_lib/libs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_INPUT_CHARS = 50_000;
+
+/**
+ * POST {
+ *   answers?: [{ id?, question?, answer }] | { [id]: answer },
+ *   transcript?: string (alias: text),
+ *   questionnaire_id?, goal?
+ * }
+ * Returns the extended Belief Blueprint model ([Report-Local-001] analysis_payload).
+ */
+export async function POST(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
+  try {
+    // 0) Pro gate
+    const gate = await requireFeature(req as unknown as Request, "analysis");
+    if (!gate.ok) {
+      return NextResponse.json(gate.body, { status: gate.status });
+    }
+
+    await refreshThemes();
+
+    // 1) Parse (answers may be a list or an { id: answer } map)
+    const body = await req.json().catch(() => ({}));
+    const answers: AnswerInput[] = Array.isArray(body.answers)
+      ? body.answers
+          .filter((a: any) => a && (typeof a === "string" || a.answer !== undefined))
+          .map((a: any) =>
+            typeof a === "string"
+              ? { answer: a }
+              : { id: a.id ? String(a.id) : undefined, question: a.question ? String(a.question) : undefined, answer: String(a.answer) }
+          )
+      : body.answers && typeof body.answers === "object"
+        ? Object.entries(body.answers).map(([id, answer]) => ({ id, answer: String(answer ?? "") }))
+        : [];
+    const transcript = String(body.transcript ?? body.text ?? "");
+
+    const size = transcript.length + answers.reduce((n, a) => n + a.answer.length, 0);
+    if (!transcript.trim() && !answers.some((a) => a.answer.trim())) {
+      return NextResponse.json(
+        {
+          error: "MISSING_INPUT",
+          message: t(lang, "errors.MISSING_INPUT.answers_transcript", "Provide 'answers' or a 'transcript'."),
+        },
+        { status: 400 }
+      );
+    }
+    if (size > MAX_INPUT_CHARS) {
+      return NextResponse.json(
+        {
+          error: "INPUT_TOO_LARGE",
+          message: t(
+            lang,
+            "errors.INPUT_TOO_LARGE",
+            "Answers and transcript must total at most {max} characters.",
+            { max: MAX_INPUT_CHARS }
+          ),
+        },
+        { status: 413 }
+      );
+    }
+
+    // 2) Analyze (deterministic)
+    const analysis = analyzeResponses({
+      answers,
+      transcript,
+      questionnaire_id: body.questionnaire_id ? String(body.questionnaire_id) : null,
+      goal: body.goal ? String(body.goal) : undefined,
+    });
+
+    return NextResponse.json({
+      ...analysis,
+      ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+    });
+  } catch (e: any) {
+    console.error("analysis error:", e?.message || e);
+    return NextResponse.json(
+      { error: "ANALYSIS_ERROR", message: t(lang, "errors.ANALYSIS_ERROR", "Could not analyze responses.") },
+      { status: 500 }
+    );
+  }
+}
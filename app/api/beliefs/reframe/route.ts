@@ -1,64 +1,86 @@
 // app/api/beliefs/reframe/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { requirePro } from "../../_lib/paywall";
+import { requireFeature, verifiedOwnerOf } from "../../_lib/entitlement";
+import { itemDetail } from "../../_lib/belief-item";
+import { resolveLocale, t } from "../../_lib/i18n";
+import { journalSafely, wantsJournal } from "../../_lib/journal";
+import { refreshThemes } from "../../_lib/libs";
+import { buildReframe } from "../../_lib/reframe";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// ---------- Reframe logic (deterministic, concise) ----------
-function buildReframeSteps(belief: string, context: string) {
-  const b = (belief || "").trim() || "I’m not enough";
-  const c = (context || "").trim();
-
-  const steps = [
-    `Name it precisely: “${b}”. Write 1–2 sentences that capture how it shows up${c ? ` in: ${c}` : ""}.`,
-    "Counter-evidence: list 5 concrete facts from the past month that weaken this belief.",
-    `Workable reframe: “I don’t need certainty to act; I can take one useful step today toward what matters.”`,
-    "Submodalities shift: shrink/dim the ‘threat’ image; brighten/bring closer the ‘capable’ scene.",
-    "As-if experiment: act for 10 minutes as if the belief were 30% quieter; then note what changed.",
-    "Anchor: 4/6 breath for 2 minutes; say your reframe aloud; take the next 60-second action.",
-  ];
-
-  return steps;
-}
-
 // ---------- Route ----------
 export async function POST(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
   try {
-    // 0) Pro gate (reads ?key=... or X-License-Key, verifies active sub)
-    const gate = await requirePro(req as unknown as Request);
+    // 0) Pro gate (license key, email license, email trial or cookie trial)
+    const gate = await requireFeature(req as unknown as Request, "beliefs_reframe");
     if (!gate.ok) {
       return NextResponse.json(gate.body, { status: gate.status });
     }
 
     // 1) Parse request
+    await refreshThemes();
     const body = await req.json().catch(() => ({}));
-    const belief = String(body.belief || "").trim();
+    const itemId = String(body.itemId || "").trim();
     const context = String(body.context || "").trim();
+    const theme = typeof body.theme === "string" ? body.theme.trim() : null;
+
+    // A library item id stands in for the belief text (and brings its companion content)
+    const item = itemId ? itemDetail(itemId, lang) : null;
+    if (itemId && !item) {
+      return NextResponse.json(
+        { error: "ITEM_NOT_FOUND", message: t(lang, "errors.ITEM_NOT_FOUND", "No library belief with that 'itemId'.") },
+        { status: 404 }
+      );
+    }
+    const belief = item?.text ?? String(body.belief || "").trim();
 
     if (!belief) {
-      // Belief is required for Pro reframe
+      // Belief (or a library item) is required for Pro reframe
       return NextResponse.json(
-        { error: "MISSING_INPUT", message: "Missing 'belief'." },
+        { error: "MISSING_INPUT", message: t(lang, "errors.MISSING_INPUT.belief", "Missing 'belief' (or 'itemId').") },
         { status: 400 }
       );
     }
 
-    // 2) Build reframe steps
-    const steps = buildReframeSteps(belief, context);
+    // 2) Build reframe steps (techniques picked by theme + linguistic pattern; item content when given)
+    const result = buildReframe({ belief, context, theme, locale: lang, item });
+
+    // 3) Opt-in journal
+    const journaled = wantsJournal(req as unknown as Request, body)
+      ? await journalSafely(verifiedOwnerOf(gate.entitlement), {
+          kind: "reframe",
+          belief,
+          theme: result.theme,
+          note: body.journalNote ?? null,
+          data: { context, itemId: item?.id ?? null, reframe: result.reframe, steps: result.steps },
+        })
+      : null;
 
-    // 3) Respond
+    // 4) Respond
     return NextResponse.json({
-      belief: belief || "I’m not enough",
+      belief,
+      ...(item ? { itemId: item.id, category: item.category } : {}),
       context,
-      steps,
+      theme: result.theme,
+      patterns: result.patterns,
+      reframe: result.reframe,
+      steps: result.steps.map((s) => s.text),
+      techniques: result.steps.map(({ technique, label }) => ({ technique, label })),
       note:
-        "Pro access verified via license. Use these steps to guide a focused 10–15 minute intervention.",
+        gate.entitlement.plan === "trial"
+          ? t(lang, "reframe.note.trial", "Trial access verified. Use these steps to guide a focused 10–15 minute intervention.")
+          : t(lang, "reframe.note.pro", "Pro access verified via license. Use these steps to guide a focused 10–15 minute intervention."),
+      lang,
+      ...(journaled ? { journalId: journaled.id } : {}),
+      ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
     });
   } catch (e: any) {
     console.error("reframe error:", e?.message || e);
     return NextResponse.json(
-      { error: "REFRAME_ERROR", message: "Could not generate reframe." },
+      { error: "REFRAME_ERROR", message: t(lang, "errors.REFRAME_ERROR", "Could not generate reframe.") },
       { status: 500 }
     );
   }
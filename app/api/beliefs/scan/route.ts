@@ -1,17 +1,15 @@
 // app/api/beliefs/scan/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { getDayStamp, incAndCheck } from "../../_lib/quota";
+import { resolveEntitlement, verifiedOwnerOf, type Entitlement } from "../../_lib/entitlement";
+import { resolveLocale, t, themeItem, themeTitle } from "../../_lib/i18n";
+import { FALLBACK_BELIEF, inferBeliefs } from "../../_lib/inference";
+import { journalSafely, wantsJournal } from "../../_lib/journal";
+import { maskItem, refreshThemes, visibleItemCount } from "../../_lib/libs";
+import { incAndCheck, limitForPlan, readQuotaWindow } from "../../_lib/quota";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-function inferBelief(input: string) {
-  if (/pricing|charge|fee|price/i.test(input)) return "I can’t charge high fees";
-  if (/rejection|no\b|ghost/i.test(input)) return "People will reject me";
-  if (/time|busy|delay|procrastinat/i.test(input)) return "I never have enough time";
-  return "I’m not ready / I’m not enough";
-}
-
 function getAnonId(req: NextRequest, bodyAnonId?: string) {
   // Prefer a stable anonId from the request body (the GPT can send one).
   if (bodyAnonId && typeof bodyAnonId === "string") return bodyAnonId.slice(0, 128);
@@ -26,43 +24,118 @@ function getAnonId(req: NextRequest, bodyAnonId?: string) {
   return `ip:${ip}`;
 }
 
+// Scans are free, but the plan decides the quota cap. Never fail a scan on lookup errors.
+async function entitlementFor(req: NextRequest): Promise<Entitlement | null> {
+  try {
+    return await resolveEntitlement(req as unknown as Request);
+  } catch (e: any) {
+    console.warn("beliefs/scan entitlement lookup failed:", e?.message || e);
+    return null;
+  }
+}
+
+const WINDOW_LABEL = { daily: "day", rolling24h: "24h", monthly: "month" } as const;
+
 export async function POST(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
   try {
-    const { situation = "", emotion = "", anonId } = await req.json().catch(() => ({}));
+    const body = await req.json().catch(() => ({}));
+    const { situation = "", emotion = "", anonId, topN } = body;
+
+    // --- Per-plan scans per window (default: 5/day UTC for free) per anonId/ip ---
+    const entitlement = await entitlementFor(req);
+    const plan = entitlement?.plan ?? "free";
+    const window = readQuotaWindow();
+    const cap = limitForPlan(plan);
+    const quota =
+      cap === null
+        ? null // unlimited (Pro by default)
+        : await incAndCheck(getAnonId(req, anonId), { limit: cap, window });
 
-    // --- 5 scans per calendar day (UTC) per anonId/ip ---
-    const userKey = `${getAnonId(req, anonId)}::${getDayStamp()}`;
-    const { allowed, count } = incAndCheck(userKey, 5);
-    if (!allowed) {
+    if (quota && !quota.allowed) {
       return NextResponse.json(
         {
           error: "FREE_LIMIT_REACHED",
-          message:
-            "Daily free limit reached (5/day). Pro unlocks unlimited scans, NLP reframes, and a 7-day plan.",
+          message: t(
+            lang,
+            "errors.FREE_LIMIT_REACHED",
+            "Scan limit reached ({limit}/{window}). Pro unlocks unlimited scans, NLP reframes, and a 7-day plan.",
+            { limit: quota.limit, window: t(lang, `scan.window.${WINDOW_LABEL[window]}`, WINDOW_LABEL[window]) }
+          ),
           upgradeUrl: "/pricing",
+          resetAt: quota.resetAt,
         },
         { status: 429 }
       );
     }
 
-    const belief = inferBelief(`${situation} ${emotion}`.trim());
+    // Rule-based inference (deterministic, offline): top candidates + severity
+    await refreshThemes();
+    const inferred = inferBeliefs(
+      { situation: String(situation), emotion: String(emotion) },
+      Number(topN) || 3
+    );
+    const { severity } = inferred;
+    // Library wording in the caller's language (keys, scores and evidence stay as matched);
+    // items past a Pro theme's teasers come back masked, as in /api/libraries/search
+    const fullAccess = entitlement?.features.includes("libraries_full") ?? false;
+    const candidates = inferred.candidates.map(({ belief: source, itemId, evidence, ...c }) => {
+      const text = themeItem(lang, c.theme, source);
+      const base = { ...c, themeTitle: themeTitle(lang, c.theme, c.themeTitle) };
+      return c.index < visibleItemCount(c.theme, fullAccess)
+        ? { ...base, locked: false as const, belief: text, itemId, evidence }
+        : { ...base, locked: true as const, masked: maskItem(text) };
+    });
+    const top = candidates[0];
+    const belief = !top ? t(lang, "scan.fallback_belief", FALLBACK_BELIEF) : top.locked ? top.masked : top.belief;
+    const lockedCandidates = candidates.filter((c) => c.locked).length;
+
+    // Opt-in journal (Pro/trial with a verified license or seat key only)
+    const journaled =
+      entitlement?.features.includes("journal") && wantsJournal(req as unknown as Request, body)
+        ? await journalSafely(verifiedOwnerOf(entitlement), {
+            kind: "scan",
+            belief,
+            theme: candidates[0]?.theme ?? null,
+            note: body.journalNote ?? null,
+            data: { situation, emotion, candidates, severity: severity.score },
+          })
+        : null;
 
     return NextResponse.json({
       belief,
+      theme: candidates[0]?.theme ?? null,
+      ...(top?.locked ? { beliefLocked: true } : {}),
+      candidates,
+      ...(lockedCandidates ? { lockedCandidates, upgradeUrl: "/pricing" } : {}),
       prompts: [
-        "List 3 cases where this belief wasn’t true.",
-        "If it were 10% easier, what would you attempt this week?",
-        "Who can reflect evidence back to you?",
+        t(lang, "scan.prompts.0", "List 3 cases where this belief wasn’t true."),
+        t(lang, "scan.prompts.1", "If it were 10% easier, what would you attempt this week?"),
+        t(lang, "scan.prompts.2", "Who can reflect evidence back to you?"),
       ],
-      severity: 6,
-      usage: { todayCount: count, todayLimit: 5 },
-      safety:
-        "Not therapy; if distressed, use local crisis resources. Say 'gentle mode' for softer pacing.",
+      severity: severity.score,
+      severityEvidence: severity.evidence,
+      usage: quota
+        ? {
+            todayCount: quota.count,
+            todayLimit: quota.limit,
+            window,
+            plan,
+            resetAt: quota.resetAt,
+          }
+        : { todayCount: null, todayLimit: null, window, plan, resetAt: null },
+      ...(journaled ? { journalId: journaled.id } : {}),
+      safety: t(
+        lang,
+        "scan.safety",
+        "Not therapy; if distressed, use local crisis resources. Say 'gentle mode' for softer pacing."
+      ),
+      lang,
     });
   } catch (e: any) {
     console.error("beliefs/scan error:", e?.message || e);
     return NextResponse.json(
-      { error: "SCAN_ERROR", message: "Could not process scan." },
+      { error: "SCAN_ERROR", message: t(lang, "errors.SCAN_ERROR", "Could not process scan.") },
       { status: 500 }
     );
   }
@@ -0,0 +1,30 @@
+// app/api/cron/cleanup/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireCron } from "../../_lib/admin";
+import { cleanupExports } from "../../_lib/exports";
+import { sweepJournals } from "../../_lib/journal";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET (daily, scheduled in vercel.json) → delete journal entries past JOURNAL_RETENTION_DAYS
+ * and exports past EXPORT_RETENTION_DAYS.
+ * ?dryRun=1 only reports what would go.
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireCron(req);
+  if (denied) return denied;
+
+  try {
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "1";
+    const journals = await sweepJournals({ dryRun });
+    console.log(`[cron] journal sweep deleted ${journals.deleted}/${journals.scanned} entries older than ${journals.cutoff}`);
+    const exports = await cleanupExports({ dryRun });
+    console.log(`[cron] export cleanup deleted ${exports.deleted}/${exports.scanned} objects older than ${exports.cutoff}`);
+    return NextResponse.json({ journals, exports });
+  } catch (e: any) {
+    console.error("cron/cleanup error:", e?.message || e);
+    return NextResponse.json({ error: "CLEANUP_ERROR", message: e?.message || String(e) }, { status: 500 });
+  }
+}
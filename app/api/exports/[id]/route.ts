@@ -0,0 +1,60 @@
+// app/api/exports/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { exportBinding, readExportBytes, readExportRecord, verifyExportToken } from "../../_lib/exports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/exports/<id>?token=EXP1...
+ * Streams a private export when the signed link token is valid, unexpired, and was
+ * issued for this export (same owner + license). No license key needed: the token is the grant.
+ */
+export async function GET(req: NextRequest, context: Ctx) {
+  try {
+    const { id } = await context.params;
+    const token = (req.nextUrl.searchParams.get("token") || "").trim();
+    if (!token) {
+      return NextResponse.json({ error: "MISSING_TOKEN", message: "Download link is missing its token." }, { status: 401 });
+    }
+
+    const verified = verifyExportToken(token);
+    if (!verified.ok) {
+      return verified.error === "TOKEN_EXPIRED"
+        ? NextResponse.json(
+            { error: "TOKEN_EXPIRED", message: "This download link has expired. Export the PDF again for a new link." },
+            { status: 410 }
+          )
+        : NextResponse.json({ error: "INVALID_TOKEN", message: "Invalid download link." }, { status: 401 });
+    }
+
+    const record = await readExportRecord((id || "").trim());
+    if (
+      !record ||
+      verified.claims.id !== record.id ||
+      verified.claims.binding !== exportBinding(record)
+    ) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const bytes = await readExportBytes(record);
+    if (!bytes) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const asciiName = record.fileName.replace(/[^\w.-]/g, "_");
+    return new NextResponse(new Uint8Array(bytes), {
+      status: 200,
+      headers: {
+        "Content-Type": record.contentType,
+        "Content-Length": String(bytes.length),
+        "Content-Disposition": `inline; filename="${asciiName}"`,
+        "Cache-Control": "private, no-store",
+        "X-Robots-Tag": "noindex, nofollow",
+      },
+    });
+  } catch (e: any) {
+    console.error("exports/[id] error:", e?.message || e);
+    return NextResponse.json({ error: "EXPORT_ERROR", message: "Could not fetch export." }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/exports/docx/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireFeature } from "../../_lib/entitlement";
+import { renderDocx } from "../../_lib/export-formats";
+import { loadSummaryContent } from "../../_lib/export-sections";
+import { publishExport } from "../../_lib/exports";
+import { randomUUID } from "crypto";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** POST { belief?, steps?, plan?, planId? } → the PDF summary sections as a Word document */
+export async function POST(req: NextRequest) {
+  try {
+    const gate = await requireFeature(req as unknown as Request, "exports_docx");
+    if (!gate.ok) return NextResponse.json(gate.body, { status: gate.status });
+
+    const body = await req.json().catch(() => ({}));
+    const loaded = await loadSummaryContent(body, gate.entitlement);
+    if (!loaded.ok) return NextResponse.json(loaded.body, { status: loaded.status });
+
+    const bytes = await renderDocx(loaded.content);
+    const fileName = `Discovering_Beliefs_Summary_${randomUUID()}.docx`;
+    const link = await publishExport(req as unknown as Request, gate.entitlement, {
+      fileName,
+      contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      bytes,
+    });
+
+    return NextResponse.json(
+      {
+        fileName,
+        ...link,
+        bytes: bytes.length,
+        ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error("exports/docx error:", e?.message || e);
+    return NextResponse.json(
+      { error: "EXPORT_ERROR", message: "Could not generate DOCX." },
+      { status: 500 }
+    );
+  }
+}
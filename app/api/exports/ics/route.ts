@@ -0,0 +1,65 @@
+// app/api/exports/ics/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireFeature } from "../../_lib/entitlement";
+import { parseIcsOptions, renderIcs } from "../../_lib/export-formats";
+import { loadSummaryContent } from "../../_lib/export-sections";
+import { publishExport } from "../../_lib/exports";
+import { randomUUID } from "crypto";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST { belief?, steps?, plan?, planId?, startDate?, time?, timezone?, reminders?, minutesPerDay? }
+ * → one calendar event per action-plan day (day 1 on startDate), each with reminders.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const gate = await requireFeature(req as unknown as Request, "exports_ics");
+    if (!gate.ok) return NextResponse.json(gate.body, { status: gate.status });
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = parseIcsOptions(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error, message: parsed.message }, { status: 400 });
+    }
+
+    const loaded = await loadSummaryContent(body, gate.entitlement);
+    if (!loaded.ok) return NextResponse.json(loaded.body, { status: loaded.status });
+
+    const calendar = renderIcs(loaded.content, parsed.options);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: "NO_PLAN", message: "Provide an action plan ('plan' or 'planId') to export as calendar events." },
+        { status: 400 }
+      );
+    }
+
+    const bytes = new Uint8Array(Buffer.from(calendar.ics, "utf8"));
+    const fileName = `Discovering_Beliefs_Plan_${randomUUID()}.ics`;
+    const link = await publishExport(req as unknown as Request, gate.entitlement, {
+      fileName,
+      contentType: "text/calendar; charset=utf-8",
+      bytes,
+    });
+
+    return NextResponse.json(
+      {
+        fileName,
+        ...link,
+        bytes: bytes.length,
+        events: calendar.events,
+        startDate: parsed.options.startDate,
+        timezone: parsed.options.timezone,
+        ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error("exports/ics error:", e?.message || e);
+    return NextResponse.json(
+      { error: "EXPORT_ERROR", message: "Could not generate calendar." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/exports/markdown/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireFeature } from "../../_lib/entitlement";
+import { renderMarkdown } from "../../_lib/export-formats";
+import { loadSummaryContent } from "../../_lib/export-sections";
+import { publishExport } from "../../_lib/exports";
+import { randomUUID } from "crypto";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** POST { belief?, steps?, plan?, planId? } → the PDF summary sections as Markdown */
+export async function POST(req: NextRequest) {
+  try {
+    const gate = await requireFeature(req as unknown as Request, "exports_markdown");
+    if (!gate.ok) return NextResponse.json(gate.body, { status: gate.status });
+
+    const body = await req.json().catch(() => ({}));
+    const loaded = await loadSummaryContent(body, gate.entitlement);
+    if (!loaded.ok) return NextResponse.json(loaded.body, { status: loaded.status });
+
+    const markdown = renderMarkdown(loaded.content);
+    const bytes = new Uint8Array(Buffer.from(markdown, "utf8"));
+    const fileName = `Discovering_Beliefs_Summary_${randomUUID()}.md`;
+    const link = await publishExport(req as unknown as Request, gate.entitlement, {
+      fileName,
+      contentType: "text/markdown; charset=utf-8",
+      bytes,
+    });
+
+    return NextResponse.json(
+      {
+        fileName,
+        ...link,
+        bytes: bytes.length,
+        markdown,
+        ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error("exports/markdown error:", e?.message || e);
+    return NextResponse.json(
+      { error: "EXPORT_ERROR", message: "Could not generate Markdown." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,265 +1,189 @@
 // app/api/exports/pdf/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
-import { requirePro } from "../../_lib/paywall";
-import { put } from "@vercel/blob";
+import { PDFDocument, rgb } from "pdf-lib";
+import { analyzeResponses, type BeliefBlueprint } from "../../_lib/analysis";
+import { requireFeature } from "../../_lib/entitlement";
+import { refreshThemes } from "../../_lib/libs";
+import { loadSummaryContent, SAFETY_NOTE } from "../../_lib/export-sections";
+import { publishExport } from "../../_lib/exports";
+import { parseReportMeta, renderReportPdf } from "../../_lib/pdf-report";
+import { drawTextLine, loadPdfFonts, textWidth, wrapToWidth } from "../../_lib/pdf-text";
 import { randomUUID } from "crypto";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-/** Normalize for equality checks (trim, collapse spaces, lower-case). */
-function norm(s: string): string {
-  return String(s || "").replace(/\s+/g, " ").trim().toLowerCase();
-}
-function uniquePreserveOrder(items: string[]): string[] {
-  const seen = new Set<string>();
-  const out: string[] = [];
-  for (const it of items) {
-    const k = norm(it);
-    if (!k) continue;
-    if (!seen.has(k)) {
-      seen.add(k);
-      out.push(it.trim());
-    }
-  }
-  return out;
-}
-function listsEqual(a: string[], b: string[]): boolean {
-  if (a.length !== b.length) return false;
-  for (let i = 0; i < a.length; i++) if (norm(a[i]) !== norm(b[i])) return false;
-  return true;
-}
-function looksLike7DayPlan(items: string[]): boolean {
-  const dayish = items.some((s) => /(^|\s)day\s*\d+/i.test(s));
-  return dayish || items.length === 7;
-}
-
-// Wrap long lines (character-based)
-function wrapText(text: string, maxChars = 90) {
-  const lines: string[] = [];
-  for (const rawLine of String(text || "").split("\n")) {
-    let line = rawLine.trim();
-    while (line.length > maxChars) {
-      let cut = maxChars;
-      const space = line.lastIndexOf(" ", maxChars);
-      if (space > 0) cut = space;
-      lines.push(line.slice(0, cut));
-      line = line.slice(cut).trimStart();
-    }
-    if (line.length) lines.push(line);
-    if (!rawLine.trim().length) lines.push(""); // preserve blank lines
-  }
-  return lines;
-}
-
-/** Replace symbols WinAnsi can't encode (Helvetica encoding). */
-function sanitizeForWinAnsi(s: string): string {
-  const map: Record<string, string> = {
-    "≤": "<=",
-    "≥": ">=",
-    "≠": "!=",
-    "±": "+/-",
-    "→": "->",
-    "←": "<-",
-    "×": "x",
-    "–": "-",
-    "—": "-",
-    "“": '"',
-    "”": '"',
-    "‘": "'",
-    "’": "'",
-    "…": "...",
-  };
-  return s
-    .replace(
-      /[\u2013\u2014\u201C\u201D\u2018\u2019\u2026\u2264\u2265\u2260\u00B1\u2192\u2190\u00D7]/g,
-      (m) => map[m] ?? m
-    )
-    .replace(/[^\x00-\x7F]/g, "?");
-}
-
+/**
+ * POST { belief?, steps?, plan?, planId? } → one-page session summary
+ * POST { mode: "report", analysis_payload | answers | transcript, report_meta?: {
+ *   title?, prepared_for?, prepared_by?, brand?: { logoUrl?, accentColor? }, footer_note?
+ * } } → branded Belief Blueprint report (cover, contents, page numbers, footer)
+ */
 export async function POST(req: NextRequest) {
   try {
     // 0) Pro gate
-    const gate = await requirePro(req as unknown as Request);
+    const gate = await requireFeature(req as unknown as Request, "exports_pdf");
     if (!gate.ok) return NextResponse.json(gate.body, { status: gate.status });
 
     // 1) Inputs
     const body = await req.json().catch(() => ({}));
-    const belief: string = String(body.belief ?? "I’m not enough");
-
-    const rawSteps: string[] = Array.isArray(body.steps) ? body.steps : [];
-    const rawPlan: string[] = Array.isArray(body.plan) ? body.plan : [];
-    const steps = uniquePreserveOrder(rawSteps);
-    const plan = uniquePreserveOrder(rawPlan);
-
-    // Build non-duplicating sections
-    type Section = { title: string; items: string[] };
-    const sections: Section[] = [];
-    const both = steps.length > 0 && plan.length > 0;
 
-    if (!both) {
-      if (steps.length) {
-        sections.push({
-          title: looksLike7DayPlan(steps) ? "7-Day Micro-Action Plan" : "Reframe Steps",
-          items: steps,
+    // Report mode: full Belief Blueprint analysis + branding (cover, contents, footer)
+    if (body.mode === "report" || body.analysis_payload || body.analysis) {
+      let analysis: Partial<BeliefBlueprint> | null =
+        [body.analysis_payload, body.analysis].find((a) => a && typeof a === "object" && !Array.isArray(a)) ?? null;
+      if (!analysis && (body.answers || body.transcript)) {
+        await refreshThemes();
+        analysis = analyzeResponses({
+          answers: Array.isArray(body.answers) ? body.answers : [],
+          transcript: String(body.transcript ?? ""),
+          questionnaire_id: body.questionnaire_id ?? null,
+          goal: body.goal,
         });
-      } else if (plan.length) {
-        sections.push({ title: "7-Day Micro-Action Plan", items: plan });
       }
-    } else {
-      if (listsEqual(steps, plan)) {
-        sections.push({
-          title: looksLike7DayPlan(steps) ? "7-Day Micro-Action Plan" : "Reframe Steps",
-          items: steps,
-        });
-      } else {
-        sections.push({ title: "Reframe Steps", items: steps });
-        const stepSet = new Set(steps.map(norm));
-        const planOnly = plan.filter((p) => !stepSet.has(norm(p)));
-        if (planOnly.length) sections.push({ title: "7-Day Micro-Action Plan", items: planOnly });
+      if (!analysis) {
+        return NextResponse.json(
+          { error: "MISSING_INPUT", message: "Report mode needs 'analysis_payload' (or 'answers'/'transcript')." },
+          { status: 400 }
+        );
       }
+
+      const meta = parseReportMeta(body);
+      const report = await renderReportPdf(analysis, meta);
+      const fileName = `Belief_Blueprint_Report_${randomUUID()}.pdf`;
+      const link = await publishExport(req as unknown as Request, gate.entitlement, {
+        fileName,
+        contentType: "application/pdf",
+        bytes: report.bytes,
+      });
+
+      return NextResponse.json(
+        {
+          fileName,
+          ...link,
+          bytes: report.bytes.length,
+          mode: "report",
+          pages: report.pages,
+          toc: report.toc,
+          branding: {
+            prepared_for: meta.prepared_for,
+            prepared_by: meta.prepared_by,
+            accentColor: report.branding.accentColor,
+            logo: report.branding.logo,
+            footer_note: meta.footer_note,
+          },
+          unicodeFontsLoaded: report.unicodeFontsLoaded,
+          ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+        },
+        { status: 200 }
+      );
     }
 
+    // Session summary sections (shared with the Markdown/DOCX/ICS exports)
+    const loaded = await loadSummaryContent(body, gate.entitlement);
+    if (!loaded.ok) return NextResponse.json(loaded.body, { status: loaded.status });
+    const { title, belief, sections } = loaded.content;
+
     const generatedAt = new Date().toLocaleString("en-IN", { hour12: false });
 
-    // 2) Build PDF (Helvetica + sanitize)
+    // 2) Build PDF (embedded Unicode fonts; per-glyph fallback)
     const pdfDoc = await PDFDocument.create();
-    const fontRegular = await pdfDoc.embedFont(StandardFonts.Helvetica);
-    const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const fonts = await loadPdfFonts(pdfDoc);
 
     let page = pdfDoc.addPage([595.28, 841.89]); // A4
-    let { height } = page.getSize();
+    let { width, height } = page.getSize();
     const margin = 50;
     let y = height - margin;
 
     function addPage() {
       page = pdfDoc.addPage([595.28, 841.89]);
-      ({ height } = page.getSize());
+      ({ width, height } = page.getSize());
       y = height - margin;
     }
 
-    const clean = (s: string) => sanitizeForWinAnsi(s);
-
     function drawHeader(text: string) {
       if (y < margin + 40) addPage();
-      page.drawText(clean(text), {
-        x: margin,
-        y: (y -= 24),
-        size: 20,
-        font: fontBold,
-        color: rgb(0, 0, 0),
-      });
+      drawTextLine(page, text, { x: margin, y: (y -= 24), size: 20, face: fonts.bold });
       y -= 6;
     }
 
-    function drawSmall(text: string) {
-      if (y < margin + 20) addPage();
-      page.drawText(clean(text), {
-        x: margin,
-        y: (y -= 14),
-        size: 10,
-        font: fontRegular,
-        color: rgb(0.4, 0.4, 0.4),
-      });
+    function drawTitle(text: string) {
+      if (y < margin + 40) addPage();
+      drawTextLine(page, text, { x: margin, y: (y -= 18), size: 16, face: fonts.bold });
       y -= 6;
     }
 
-    function drawParagraph(text: string, size = 12) {
-      const lines = wrapText(clean(text), 90);
-      for (const line of lines) {
+    function drawSmall(text: string) {
+      for (const line of wrapToWidth(text, fonts.regular, 10, width - 2 * margin)) {
         if (y < margin + 20) addPage();
-        page.drawText(line, {
+        drawTextLine(page, line, {
           x: margin,
-          y: (y -= size + 2),
-          size,
-          font: fontRegular,
-          color: rgb(0, 0, 0),
+          y: (y -= 14),
+          size: 10,
+          face: fonts.regular,
+          color: rgb(0.4, 0.4, 0.4),
         });
       }
       y -= 6;
     }
 
+    function drawParagraph(text: string, size = 12) {
+      for (const line of wrapToWidth(text, fonts.regular, size, width - 2 * margin)) {
+        if (y < margin + 20) addPage();
+        drawTextLine(page, line, { x: margin, y: (y -= size + 2), size, face: fonts.regular });
+      }
+      y -= 6;
+    }
+
     function drawList(items: string[], numbered = true) {
       for (let i = 0; i < items.length; i++) {
-        if (y < margin + 20) addPage();
         const prefix = numbered ? `${i + 1}. ` : "• ";
-        const lines = wrapText(clean(items[i]), 86);
-        page.drawText(prefix + (lines[0] || ""), {
-          x: margin,
-          y: (y -= 14),
-          size: 12,
-          font: fontRegular,
-          color: rgb(0, 0, 0),
-        });
-        for (let j = 1; j < lines.length; j++) {
+        const indent = textWidth(prefix, fonts.regular, 12);
+        const lines = wrapToWidth(items[i], fonts.regular, 12, width - 2 * margin - indent);
+        for (let j = 0; j < lines.length; j++) {
           if (y < margin + 20) addPage();
-          page.drawText("   " + lines[j], {
-            x: margin,
-            y: (y -= 14),
-            size: 12,
-            font: fontRegular,
-            color: rgb(0, 0, 0),
-          });
+          y -= 14;
+          if (j === 0) drawTextLine(page, prefix, { x: margin, y, size: 12, face: fonts.regular });
+          drawTextLine(page, lines[j], { x: margin + indent, y, size: 12, face: fonts.regular });
         }
       }
       y -= 6;
     }
 
     // Contents
-    drawHeader("Discovering Beliefs — Summary");
+    drawHeader(title);
     drawSmall(`Generated: ${generatedAt}`);
     y -= 8;
 
-    page.drawText(clean("Core Belief"), {
-      x: margin,
-      y: (y -= 18),
-      size: 16,
-      font: fontBold,
-      color: rgb(0, 0, 0),
-    });
-    y -= 6;
+    drawTitle("Core Belief");
     drawParagraph(belief);
 
     for (const section of sections) {
-      if (!section.items.length) continue;
-      page.drawText(clean(section.title), {
-        x: margin,
-        y: (y -= 18),
-        size: 16,
-        font: fontBold,
-        color: rgb(0, 0, 0),
-      });
-      y -= 6;
+      drawTitle(section.title);
       drawList(section.items, true);
     }
 
     y -= 6;
-    drawSmall(
-      "Safety: Coaching guidance, not therapy. If distressed, use local crisis resources."
-    );
+    drawSmall(SAFETY_NOTE);
 
     const pdfBytes = await pdfDoc.save(); // Uint8Array
 
-    // 3) Upload to Vercel Blob (public)
+    // 3) Store privately (encrypted) → signed link via /api/exports/<id>
     const fileName = `Discovering_Beliefs_Summary_${randomUUID()}.pdf`;
-    const putOpts: Parameters<typeof put>[2] = {
-      access: "public",
+    const link = await publishExport(req as unknown as Request, gate.entitlement, {
+      fileName,
       contentType: "application/pdf",
-      ...(process.env.BLOB_READ_WRITE_TOKEN
-        ? { token: process.env.BLOB_READ_WRITE_TOKEN }
-        : {}),
-    };
-
-    const { url } = await put(
-      `exports/${fileName}`,
-      Buffer.from(pdfBytes),
-      putOpts
-    );
+      bytes: pdfBytes,
+    });
 
     return NextResponse.json(
-      { fileName, url, bytes: pdfBytes.length, unicodeFontsLoaded: false },
+      {
+        fileName,
+        ...link,
+        bytes: pdfBytes.length,
+        unicodeFontsLoaded: fonts.unicode,
+        ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+      },
       { status: 200 }
     );
   } catch (e: any) {
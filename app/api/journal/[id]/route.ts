@@ -0,0 +1,53 @@
+// app/api/journal/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { OWNER_KEY_REQUIRED, requireFeature, verifiedOwnerOf } from "../../_lib/entitlement";
+import { deleteJournalEntry, readJournalEntry } from "../../_lib/journal";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+async function ownerFor(req: NextRequest) {
+  const gate = await requireFeature(req as unknown as Request, "journal");
+  if (!gate.ok) return { fail: NextResponse.json(gate.body, { status: gate.status }) };
+  const owner = verifiedOwnerOf(gate.entitlement);
+  if (!owner) return { fail: NextResponse.json(OWNER_KEY_REQUIRED, { status: 401 }) };
+  return { owner };
+}
+
+export async function GET(req: NextRequest, context: Ctx) {
+  try {
+    const { owner, fail } = await ownerFor(req);
+    if (fail) return fail;
+
+    const { id } = await context.params;
+    const entry = await readJournalEntry(owner, (id || "").trim());
+    if (!entry) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ entry });
+  } catch (e: any) {
+    console.error("journal/[id] error:", e?.message || e);
+    return NextResponse.json(
+      { error: "JOURNAL_ERROR", message: "Could not fetch journal entry." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, context: Ctx) {
+  try {
+    const { owner, fail } = await ownerFor(req);
+    if (fail) return fail;
+
+    const { id } = await context.params;
+    const deleted = await deleteJournalEntry(owner, (id || "").trim());
+    if (!deleted) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ deleted: true, id });
+  } catch (e: any) {
+    console.error("journal/[id] delete error:", e?.message || e);
+    return NextResponse.json(
+      { error: "JOURNAL_ERROR", message: "Could not delete journal entry." },
+      { status: 500 }
+    );
+  }
+}
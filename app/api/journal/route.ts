@@ -0,0 +1,119 @@
+// app/api/journal/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { OWNER_KEY_REQUIRED, requireFeature, verifiedOwnerOf } from "../_lib/entitlement";
+import {
+  addJournalEntry,
+  deleteAllJournalEntries,
+  journalEnabled,
+  journalRetentionDays,
+  listJournalEntries,
+  JOURNAL_KINDS,
+  type JournalKind,
+} from "../_lib/journal";
+import { getTheme, refreshThemes, type ThemeKey } from "../_lib/libs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// "2025-10-01" → start of day (from) / end of day (to); full ISO strings as given
+function parseDate(v: string | null, endOfDay: boolean): Date | null {
+  const s = (v || "").trim();
+  if (!s) return null;
+  const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(s) ? `${s}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z` : s);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+async function ownerOrFail(req: NextRequest) {
+  const gate = await requireFeature(req as unknown as Request, "journal");
+  if (!gate.ok) return { fail: NextResponse.json(gate.body, { status: gate.status }) };
+  // Never from ?email= alone: anyone could read or wipe someone else's journal
+  const owner = verifiedOwnerOf(gate.entitlement);
+  if (!owner) {
+    return { fail: NextResponse.json(OWNER_KEY_REQUIRED, { status: 401 }) };
+  }
+  return { owner };
+}
+
+/** GET ?theme=&kind=scan|reframe|plan|note&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=50 */
+export async function GET(req: NextRequest) {
+  try {
+    const { owner, fail } = await ownerOrFail(req);
+    if (fail) return fail;
+
+    const sp = req.nextUrl.searchParams;
+    const kindRaw = (sp.get("kind") || "").trim() as JournalKind;
+    const entries = await listJournalEntries(owner, {
+      theme: (sp.get("theme") || "").trim() || null,
+      kind: JOURNAL_KINDS.includes(kindRaw) ? kindRaw : null,
+      from: parseDate(sp.get("from"), false),
+      to: parseDate(sp.get("to"), true),
+      limit: parseInt(sp.get("limit") || "50", 10) || 50,
+    });
+
+    return NextResponse.json({
+      count: entries.length,
+      retentionDays: journalRetentionDays(),
+      entries,
+    });
+  } catch (e: any) {
+    console.error("journal list error:", e?.message || e);
+    return NextResponse.json(
+      { error: "JOURNAL_ERROR", message: "Could not list journal entries." },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST { note, belief?, theme? } → free-form note entry */
+export async function POST(req: NextRequest) {
+  try {
+    const { owner, fail } = await ownerOrFail(req);
+    if (fail) return fail;
+
+    if (!journalEnabled()) {
+      return NextResponse.json(
+        { error: "JOURNAL_DISABLED", message: "Journaling is turned off on this server." },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const note = String(body.note || "").trim();
+    if (!note) {
+      return NextResponse.json({ error: "MISSING_INPUT", message: "Missing 'note'." }, { status: 400 });
+    }
+    const themeRaw = String(body.theme || "").trim();
+    if (themeRaw) await refreshThemes();
+
+    const entry = await addJournalEntry(owner, {
+      kind: "note",
+      note,
+      belief: body.belief ? String(body.belief) : null,
+      theme: themeRaw && getTheme(themeRaw) ? (themeRaw as ThemeKey) : null,
+    });
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (e: any) {
+    console.error("journal add error:", e?.message || e);
+    return NextResponse.json(
+      { error: "JOURNAL_ERROR", message: "Could not save journal entry." },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE → remove every journal entry for the caller */
+export async function DELETE(req: NextRequest) {
+  try {
+    const { owner, fail } = await ownerOrFail(req);
+    if (fail) return fail;
+
+    const deleted = await deleteAllJournalEntries(owner);
+    return NextResponse.json({ deleted });
+  } catch (e: any) {
+    console.error("journal clear error:", e?.message || e);
+    return NextResponse.json(
+      { error: "JOURNAL_ERROR", message: "Could not delete journal entries." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// app/api/libraries/[theme]/[itemId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { itemDetail } from "../../../_lib/belief-item";
+import { requireFeature } from "../../../_lib/entitlement";
+import { resolveLocale, t } from "../../../_lib/i18n";
+import { getTheme, maskItem, refreshThemes, visibleItemCount } from "../../../_lib/libs";
+import type { BillingWarning } from "../../../_lib/subscription";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET → { id, theme, themeTitle, index, text, category, reframe, counterEvidence, microAction,
+ *         reflection, defaulted, access: "full" | "teaser", lang, warning? }
+ * Items a free caller can read in /api/libraries/{theme} (free themes, Pro teasers) are
+ * readable here too; other Pro items return the paywall body plus the masked wording.
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ theme: string; itemId: string }> }
+) {
+  const lang = resolveLocale(req as unknown as Request);
+  try {
+    const { theme, itemId } = await context.params;
+    const key = (theme || "").trim();
+
+    await refreshThemes();
+    const data = getTheme(key);
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const item = itemDetail(decodeURIComponent(itemId || ""), lang);
+    if (!item || item.theme !== key) {
+      return NextResponse.json(
+        { error: "ITEM_NOT_FOUND", message: t(lang, "errors.ITEM_NOT_FOUND", "No library belief with that 'itemId'.") },
+        { status: 404 }
+      );
+    }
+
+    // Only gate if the theme is Pro
+    let warning: BillingWarning | undefined;
+    if (data.requiresPro) {
+      const gate = await requireFeature(req as unknown as Request, "libraries_full");
+      if (!gate.ok) {
+        if (item.index >= visibleItemCount(key, false)) {
+          console.warn("Paywall denied:", { theme: key, item: item.id, status: gate.status });
+          return NextResponse.json({ ...gate.body, masked: maskItem(item.text) }, { status: gate.status });
+        }
+        return NextResponse.json({ ...item, access: "teaser", upgrade: gate.body, lang }, { status: 200 });
+      }
+      warning = gate.entitlement.warning;
+    }
+
+    return NextResponse.json(
+      { ...item, access: "full", lang, ...(warning ? { warning } : {}) },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error("libraries/[theme]/[itemId] error:", e?.message || e);
+    return NextResponse.json(
+      { error: "ITEM_ERROR", message: t(lang, "errors.ITEM_ERROR", "Could not fetch the belief.") },
+      { status: 500 }
+    );
+  }
+}
@@ -1,46 +1,96 @@
 // app/api/libraries/[theme]/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { getTheme } from "../../_lib/libs";
-import { requirePro } from "../../_lib/paywall";
+import { getTheme, getThemeItems, maskItem, refreshThemes, visibleItemCount } from "../../_lib/libs";
+import { requireFeature } from "../../_lib/entitlement";
+import { resolveLocale, t, themeItem, themeTitle } from "../../_lib/i18n";
+import type { BillingWarning } from "../../_lib/subscription";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+/**
+ * GET → { key, title, access: "full" | "teaser", items, entries: [{ id, index, text, category }],
+ *         lockedItems?, total, locked, lang }
+ * `items` is the readable wording (original shape); `entries` adds the ids for
+ * /api/libraries/{theme}/{itemId} and the reframe/plan routes' `itemId`.
+ */
 // params is a Promise<{ theme: string }> per your build typing
 export async function GET(
   req: NextRequest,
   context: { params: Promise<{ theme: string }> }
 ) {
+  const lang = resolveLocale(req as unknown as Request);
   try {
     const { theme } = await context.params;
     const key = (theme || "").trim();
 
     // Fast 404 if theme unknown
+    await refreshThemes();
     const data = getTheme(key);
     if (!data) {
       return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
+    // Title + items in the caller's language (per-item English fallback)
+    const title = themeTitle(lang, key, data.title);
+    const items = data.items.map((text) => themeItem(lang, key, text));
+    const entries = (getThemeItems(key) ?? []).map((it, index) => ({
+      id: it.id,
+      index,
+      text: items[index],
+      category: it.category ?? null,
+    }));
 
     // Only gate if the theme is Pro
-    // (requiresPro is optional on Theme; treat missing/false as free)
-    const requiresPro = Boolean((data as any)?.requiresPro);
-    if (requiresPro) {
-      const gate = await requirePro(req as unknown as Request);
+    let warning: BillingWarning | undefined;
+    if (data.requiresPro) {
+      const gate = await requireFeature(req as unknown as Request, "libraries_full");
       if (!gate.ok) {
-        console.warn("Paywall denied:", { theme: key, status: gate.status });        
-        return NextResponse.json(gate.body, { status: gate.status });
+        // Teaser: the first `teaserItems` stay readable, the rest come back masked
+        const visible = visibleItemCount(key, false);
+        if (!visible) {
+          console.warn("Paywall denied:", { theme: key, status: gate.status });
+          return NextResponse.json(gate.body, { status: gate.status });
+        }
+        const locked = items.slice(visible);
+        return NextResponse.json(
+          {
+            key,
+            title,
+            access: "teaser",
+            items: items.slice(0, visible),
+            entries: entries.slice(0, visible),
+            // no ids here: they're derived from the wording
+            lockedItems: locked.map((text, i) => ({ index: visible + i, masked: maskItem(text) })),
+            total: items.length,
+            locked: locked.length,
+            upgrade: gate.body,
+            lang,
+          },
+          { status: 200 }
+        );
       }
+      warning = gate.entitlement.warning;
     }
 
     // Return full themed library
     return NextResponse.json(
-      { key, title: data.title, items: data.items },
+      {
+        key,
+        title,
+        access: "full",
+        items,
+        entries,
+        total: items.length,
+        locked: 0,
+        lang,
+        ...(warning ? { warning } : {}),
+      },
       { status: 200 }
     );
   } catch (e: any) {
     console.error("libraries/[theme] error:", e?.message || e);
     return NextResponse.json(
-      { error: "THEME_ERROR", message: "Could not fetch theme." },
+      { error: "THEME_ERROR", message: t(lang, "errors.THEME_ERROR", "Could not fetch theme.") },
       { status: 500 }
     );
   }
@@ -0,0 +1,97 @@
+// app/api/libraries/search/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { resolveEntitlement } from "../../_lib/entitlement";
+import { resolveLocale, t, themeItem, themeTitle } from "../../_lib/i18n";
+import { searchLibrary } from "../../_lib/inference";
+import { getTheme, maskItem, refreshThemes, visibleItemCount } from "../../_lib/libs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_QUERY_CHARS = 200;
+
+// Search is free; the caller's plan only decides which matches come back masked.
+// Never fail a search on lookup errors (treat the caller as free).
+async function accessFor(req: NextRequest): Promise<{ fullAccess: boolean; plan: string }> {
+  try {
+    const entitlement = await resolveEntitlement(req as unknown as Request);
+    return { fullAccess: entitlement.features.includes("libraries_full"), plan: entitlement.plan };
+  } catch (e: any) {
+    console.warn("libraries/search entitlement lookup failed:", e?.message || e);
+    return { fullAccess: false, plan: "free" };
+  }
+}
+
+/**
+ * GET ?q=<text>&limit=10&theme=<key>&lang=hi
+ * → { q, results: [{ theme, themeTitle, index, score, confidence, locked, id + text + evidence | masked }],
+ *     total, lockedResults, plan, lang, upgradeUrl? }
+ * Matches the caller can't read (Pro items past the teaser) keep theme/index/score but only
+ * the masked wording (no id, it's derived from the wording); `index` works with
+ * /api/libraries/{theme} once unlocked, `id` with /api/libraries/{theme}/{itemId}.
+ */
+export async function GET(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
+  try {
+    const params = new URL(req.url).searchParams;
+    const q = (params.get("q") || "").replace(/\s+/g, " ").trim();
+    if (!q) {
+      return NextResponse.json(
+        { error: "MISSING_QUERY", message: t(lang, "errors.MISSING_QUERY", "Missing 'q'.") },
+        { status: 400 }
+      );
+    }
+    if (q.length > MAX_QUERY_CHARS) {
+      return NextResponse.json(
+        {
+          error: "QUERY_TOO_LONG",
+          message: t(lang, "errors.QUERY_TOO_LONG", "'q' must be at most {max} characters.", { max: MAX_QUERY_CHARS }),
+        },
+        { status: 400 }
+      );
+    }
+
+    await refreshThemes();
+    const theme = (params.get("theme") || "").trim() || null;
+    if (theme && !getTheme(theme)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { fullAccess, plan } = await accessFor(req);
+    const matches = searchLibrary(q, { limit: Number(params.get("limit")) || undefined, theme });
+
+    const results = matches.map((m) => {
+      const text = themeItem(lang, m.theme, m.text);
+      const base = {
+        theme: m.theme,
+        themeTitle: themeTitle(lang, m.theme, m.themeTitle),
+        index: m.index,
+        score: m.score,
+        confidence: m.confidence,
+      };
+      return m.index < visibleItemCount(m.theme, fullAccess)
+        ? { ...base, locked: false, id: m.id, text, evidence: m.evidence }
+        : { ...base, locked: true, masked: maskItem(text) };
+    });
+    const lockedResults = results.filter((r) => r.locked).length;
+
+    return NextResponse.json(
+      {
+        q,
+        results,
+        total: results.length,
+        lockedResults,
+        plan,
+        lang,
+        ...(lockedResults ? { upgradeUrl: "/pricing" } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error("libraries/search error:", e?.message || e);
+    return NextResponse.json(
+      { error: "SEARCH_ERROR", message: t(lang, "errors.SEARCH_ERROR", "Could not search the library.") },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,43 @@
 // app/api/libraries/themes/route.ts
-import { NextResponse } from "next/server";
-import { listThemes, THEMES, type ThemeKey } from "../../_lib/libs";
+import { NextRequest, NextResponse } from "next/server";
+import { resolveEntitlement } from "../../_lib/entitlement";
+import { resolveLocale, t } from "../../_lib/i18n";
+import { buildThemesPreview } from "../../_lib/library-preview";
+import { refreshThemes } from "../../_lib/libs";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+// The list is free; the caller's plan only decides what counts as locked.
+// Never fail the list on lookup errors (treat the caller as free).
+async function accessFor(req: NextRequest): Promise<{ fullAccess: boolean; plan: string }> {
   try {
-    const meta = listThemes(); // [{ key, title, count }, ...]
-    const themeKeys = Object.keys(THEMES) as ThemeKey[];
-
-    // Identify which themes are Pro-gated vs free.
-    const isPro = (key: ThemeKey) =>
-      // requiresPro is optional; treat missing as free.
-      Boolean((THEMES as Record<string, any>)[key]?.requiresPro);
-
-    const freeKeys = themeKeys.filter((k) => !isPro(k));
-    const proKeys = themeKeys.filter((k) => isPro(k));
-
-    // Free preview: cap at 10 total across FREE themes only
-    const totalCap = 10;
-    const perTheme =
-      freeKeys.length > 0
-        ? Math.max(1, Math.floor(totalCap / freeKeys.length))
-        : 0;
+    const entitlement = await resolveEntitlement(req as unknown as Request);
+    return { fullAccess: entitlement.features.includes("libraries_full"), plan: entitlement.plan };
+  } catch (e: any) {
+    console.warn("libraries/themes entitlement lookup failed:", e?.message || e);
+    return { fullAccess: false, plan: "free" };
+  }
+}
 
-    // Build preview:
-    // - Free themes get up to `perTheme` items
-    // - Pro themes get an empty array (no leakage)
-    const preview = themeKeys.map((key) => {
-      const t = THEMES[key];
-      const items = isPro(key) ? [] : [...t.items].slice(0, perTheme);
-      return { theme: key, items };
-    });
+/**
+ * GET → { themes: [{ key, title, count, requiresPro, visible, locked }],
+ *         preview: [{ theme, items, requiresPro, locked }],  // daily-rotating sample (≤ 10 items)
+ *         previewMeta: { date, rotatesAt, totalCap, shown, lockedItems, lockedThemes, upgradeUrl? }, plan, lang }
+ * Titles and items follow ?lang= / Accept-Language (en, hi).
+ */
+export async function GET(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
+  try {
+    await refreshThemes();
+    const { fullAccess, plan } = await accessFor(req);
+    const { themes, preview, previewMeta } = buildThemesPreview({ fullAccess, locale: lang });
 
-    return NextResponse.json({ themes: meta, preview }, { status: 200 });
+    return NextResponse.json({ themes, preview, previewMeta, plan, lang }, { status: 200 });
   } catch (e: any) {
     console.error("libraries/themes error:", e?.message || e);
     return NextResponse.json(
-      { error: "THEMES_ERROR", message: "Could not list themes." },
+      { error: "THEMES_ERROR", message: t(lang, "errors.THEMES_ERROR", "Could not list themes.") },
       { status: 500 }
     );
   }
@@ -1,23 +1,29 @@
 // app/api/license/status/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
-import { list } from "@vercel/blob";
+import { FREE_FEATURES, PRO_FEATURES } from "../../_lib/entitlement";
+import { verifyLicenseKey } from "../../_lib/license-key";
+import { readLicenseRecord } from "../../_lib/licenses";
+import { ALLOWED_PRICE_IDS } from "../../_lib/stripe-events";
+import {
+  billingStanding,
+  type BillingWarning,
+  type DunningState,
+} from "../../_lib/subscription";
+import { seatForKey } from "../../_lib/teams";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// ---------- Per-project settings (from env) ----------
-const ALLOWED_PRICE_IDS = (process.env.ALLOWED_PRICE_IDS || "")
-  .split(",")
-  .map(s => s.trim())
-  .filter(Boolean); // e.g. "price_123,price_456"
-
-const EXPECTED_BLOB_SUBDOMAIN = process.env.EXPECTED_BLOB_SUBDOMAIN || ""; // e.g. "yortzkpqfilo9jvz"
-
 type LicenseStatus = {
   status: "active" | "inactive";
   plan: "pro" | "free";
   expiresAt: string | null;
+  subscriptionStatus?: string | null; // raw Stripe status from the latest record
+  cancelAtPeriodEnd?: boolean;
+  cancellationReason?: string | null;
+  warning?: BillingWarning; // payment failed; Pro kept until warning.graceUntil
+  error?: "PAYMENT_FAILED";
 };
 
 type PayloadShape = {
@@ -25,9 +31,14 @@ type PayloadShape = {
   plan: "pro" | "free";
   expiresAt: string | null;
   features: string[];
+  subscriptionStatus?: string | null;
+  cancelAtPeriodEnd?: boolean;
+  cancellationReason?: string | null;
+  warning?: BillingWarning;
   error?: string;
   note?: string;
   proThemes?: string[];
+  team?: { customerId: string; role: "owner" | "member"; seats: number; email: string | null; seatActive: boolean };
 };
 
 // -------- Stripe init --------
@@ -37,27 +48,9 @@ function getStripe() {
   return new Stripe(key, { apiVersion: "2024-06-20" });
 }
 
-// Extract customer id from new license format: LIC-PRO-cus_XXXX-ABCDEFGH
-function customerIdFromLicense(licenseKey: string): string | null {
-  const parts = String(licenseKey || "").trim().split("-");
-  const candidate = parts.find(p => p.startsWith("cus_"));
-  return candidate || null;
-}
-
-// ---------- Blob isolation (hard check; no writes here, just guard) ----------
-function assertBlobStoreIsolation() {
-  const token = process.env.BLOB_READ_WRITE_TOKEN || "";
-  if (
-    EXPECTED_BLOB_SUBDOMAIN &&
-    !token.toLowerCase().includes(EXPECTED_BLOB_SUBDOMAIN.toLowerCase())
-  ) {
-    // This guards against accidentally reading from the wrong store via a wrong token
-    throw new Error("BLOB token mismatch — check EXPECTED_BLOB_SUBDOMAIN.");
-  }
-}
-
-// ---------- Read latest license record from THIS project's blob store ----------
-async function readLicenseRecordFromBlob(customerId: string): Promise<null | {
+// ---------- Read latest license record from THIS project's store ----------
+// (the store enforces EXPECTED_BLOB_SUBDOMAIN isolation on every read)
+async function readLicenseRecordFromStore(customerId: string): Promise<null | {
   licenseKey?: string | null;
   email?: string | null;
   source?: string;
@@ -66,55 +59,55 @@ async function readLicenseRecordFromBlob(customerId: string): Promise<null | {
   subscriptionId?: string | null;
   status?: string | null;
   current_period_end?: number | null;
+  cancel_at_period_end?: boolean;
+  cancellation_reason?: string | null;
+  dunning?: DunningState | null;
 }> {
-  assertBlobStoreIsolation();
-
-  const token = process.env.BLOB_READ_WRITE_TOKEN || "";
   // We write stable: licenses/<customerId>.json
-  const li = await list({
-    prefix: `licenses/${customerId}.json`,
-    limit: 1,
-    token: token || undefined,
-  });
-
-  const item = li.blobs?.[0];
-  if (!item?.url) return null;
-
-  try {
-    const res = await fetch(item.url, { cache: "no-store" });
-    if (!res.ok) return null;
-    const json = await res.json();
-    // Flatten stored shape { customerId, licenseKey, email, source, savedAt, ...extra }
-    const { licenseKey, email, source, savedAt, ...extra } = json || {};
-    return {
-      licenseKey,
-      email,
-      source,
-      savedAt,
-      subscriptionId: extra?.subscriptionId ?? null,
-      status: extra?.status ?? null,
-      current_period_end: extra?.current_period_end ?? null,
-    };
-  } catch {
-    return null;
-  }
+  const json = await readLicenseRecord(customerId);
+  if (!json) return null;
+  // Flatten stored shape { customerId, licenseKey, email, source, savedAt, ...extra }
+  const { licenseKey, email, source, savedAt, ...extra } = json;
+  return {
+    licenseKey,
+    email,
+    source,
+    savedAt,
+    subscriptionId: extra?.subscriptionId ?? null,
+    status: extra?.status ?? null,
+    current_period_end: extra?.current_period_end ?? null,
+    cancel_at_period_end: extra?.cancel_at_period_end ?? false,
+    cancellation_reason: extra?.cancellation_reason ?? null,
+    dunning: extra?.dunning ?? null,
+  };
 }
 
-// ---------- Compute plan from a blob record (project-scoped) ----------
-function planFromBlobRecord(rec: NonNullable<Awaited<ReturnType<typeof readLicenseRecordFromBlob>>>): LicenseStatus {
-  const rawStatus = (rec.status || "").toString();
-  const isActiveLike = ["active", "trialing"].includes(rawStatus);
+// ---------- Compute plan from a stored record (project-scoped) ----------
+function planFromBlobRecord(rec: NonNullable<Awaited<ReturnType<typeof readLicenseRecordFromStore>>>): LicenseStatus {
+  const { standing, warning } = billingStanding(rec);
   const expiresAt =
     typeof rec.current_period_end === "number" && rec.current_period_end > 0
       ? new Date(rec.current_period_end * 1000).toISOString()
       : null;
 
-  if (isActiveLike) {
-    return { status: "active", plan: "pro", expiresAt };
+  const subscription = {
+    subscriptionStatus: rec.status ?? null,
+    cancelAtPeriodEnd: !!rec.cancel_at_period_end,
+    cancellationReason: rec.cancellation_reason ?? null,
+  };
+
+  if (standing === "active" || standing === "grace") {
+    // cancel_at_period_end → still Pro until expiresAt
+    // past_due/unpaid inside the grace period → still Pro, with a warning
+    return { status: "active", plan: "pro", expiresAt, ...subscription, ...(warning ? { warning } : {}) };
+  }
+  if (standing === "payment_failed") {
+    // Grace ended; Stripe would only report past_due/unpaid too, so this is final
+    return { status: "inactive", plan: "free", expiresAt: null, ...subscription, warning, error: "PAYMENT_FAILED" };
   }
   // If we don't have a subscription status yet (e.g., immediate post-checkout),
   // treat as inactive here; the Stripe fallback below can upgrade the status.
-  return { status: "inactive", plan: "free", expiresAt: null };
+  return { status: "inactive", plan: "free", expiresAt: null, ...subscription };
 }
 
 // ---------- Stripe fallback (SKU-gated) ----------
@@ -160,7 +153,7 @@ export async function GET(req: NextRequest) {
     status: "inactive",
     plan: "free",
     expiresAt: null,
-    features: ["beliefs_scan", "themes_preview", "tips_only"],
+    features: [...FREE_FEATURES],
     note: "This toolkit is part of Pro. Unlock to access.",
     proThemes: [
       "health_discipline",
@@ -183,14 +176,16 @@ export async function GET(req: NextRequest) {
       return NextResponse.json(payload);
     }
 
-    const cusId = customerIdFromLicense(key);
-    if (!cusId) {
-      payload.error = "LEGACY_LICENSE_FORMAT";
+    // Signed keys verify offline; legacy keys must match the stored record
+    const verified = await verifyLicenseKey(key);
+    if (!verified.ok) {
+      payload.error = verified.error;
       return NextResponse.json(payload);
     }
+    const cusId = verified.claims.customerId;
 
-    // 1) Try THIS project's blob store (token-scoped; no cross-project leakage)
-    const rec = await readLicenseRecordFromBlob(cusId);
+    // 1) Try THIS project's store (token-scoped; no cross-project leakage)
+    const rec = await readLicenseRecordFromStore(cusId);
     let plan: LicenseStatus | null = null;
 
     if (rec) {
@@ -198,21 +193,36 @@ export async function GET(req: NextRequest) {
     }
 
     // 2) If still inactive, Stripe fallback BUT gated by ALLOWED_PRICE_IDS
-    if (!plan || plan.status === "inactive") {
+    if (!plan || (plan.status === "inactive" && plan.error !== "PAYMENT_FAILED")) {
       const stripe = getStripe();
       const viaStripe = await planFromStripeAllowlisted(stripe, cusId);
-      plan = viaStripe;
+      // keep the stored cancellation details when Stripe agrees it's inactive
+      plan = viaStripe.status === "active" ? viaStripe : { ...plan, ...viaStripe };
+    }
+
+    // 3) Team licenses: the key's seat must be assigned (owner key → owner's seat)
+    const seat = plan.status === "active" || verified.claims.seat ? await seatForKey(verified.claims) : null;
+    if (plan.status === "active" && (seat ? !seat.active : !!verified.claims.seat)) {
+      plan = { ...plan, status: "inactive", plan: "free", expiresAt: null, error: undefined, warning: undefined };
+      payload.error = "SEAT_NOT_ASSIGNED";
     }
+    const team = seat
+      ? { customerId: seat.team.customerId, role: seat.role, seats: seat.team.seats, email: seat.email, seatActive: seat.active }
+      : undefined;
 
     // Finalize payload
     payload = {
       status: plan.status,
       plan: plan.plan,
       expiresAt: plan.expiresAt,
+      subscriptionStatus: plan.subscriptionStatus,
+      cancelAtPeriodEnd: plan.cancelAtPeriodEnd,
+      cancellationReason: plan.cancellationReason,
+      ...(plan.warning ? { warning: plan.warning } : {}),
+      ...(plan.error ? { error: plan.error } : payload.error ? { error: payload.error } : {}),
+      ...(team ? { team } : {}),
       features:
-        plan.status === "active"
-          ? ["beliefs_scan", "beliefs_reframe", "actions_plan", "libraries_full"]
-          : ["beliefs_scan", "themes_preview", "tips_only"],
+        plan.status === "active" ? [...PRO_FEATURES] : [...FREE_FEATURES],
       note: plan.status === "active" ? undefined : "This toolkit is part of Pro. Unlock to access.",
       proThemes: payload.proThemes, // keep same list
     };
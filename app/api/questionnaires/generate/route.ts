@@ -0,0 +1,77 @@
+// app/api/questionnaires/generate/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireFeature } from "../../_lib/entitlement";
+import { resolveLocale, t } from "../../_lib/i18n";
+import { refreshThemes } from "../../_lib/libs";
+import { generateQuestionnaire } from "../../_lib/questionnaire";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST {
+ *   context, target_role?, goal?, tone?: "gentle"|"direct"|"coach-like",
+ *   length?: "short"|"medium"|"long"|<total>, domain?: "money"|"health"|…|<theme key>,
+ *   mix?: { open, scale, forced }, constraints?: { length, tone, mix } (GPT payload shape),
+ *   branching?: boolean, reduceTo?: number, likertOn?: string[],
+ *   refinements?: ["Reduce to 10 questions", "Add Likert scale on confidence"]
+ * }
+ */
+export async function POST(req: NextRequest) {
+  const lang = resolveLocale(req as unknown as Request);
+  try {
+    // 0) Pro gate
+    const gate = await requireFeature(req as unknown as Request, "questionnaires");
+    if (!gate.ok) {
+      return NextResponse.json(gate.body, { status: gate.status });
+    }
+
+    await refreshThemes();
+
+    // 1) Parse (top-level fields win over the nested constraints block)
+    const body = await req.json().catch(() => ({}));
+    const constraints = body.constraints && typeof body.constraints === "object" ? body.constraints : {};
+    const context = String(body.context || "").trim();
+    if (!context && !String(body.goal || "").trim()) {
+      return NextResponse.json(
+        { error: "MISSING_INPUT", message: t(lang, "errors.MISSING_INPUT.context_goal", "Provide 'context' or 'goal'.") },
+        { status: 400 }
+      );
+    }
+
+    const refinements = Array.isArray(body.refinements)
+      ? body.refinements.map(String)
+      : typeof body.refinements === "string"
+        ? [body.refinements]
+        : [];
+
+    // 2) Generate (deterministic)
+    const questionnaire = generateQuestionnaire({
+      context,
+      target_role: body.target_role ?? body.targetRole,
+      goal: body.goal,
+      tone: body.tone ?? constraints.tone,
+      length: body.length ?? constraints.length,
+      domain: body.domain,
+      mix: body.mix ?? constraints.mix,
+      branching: Boolean(body.branching ?? constraints.branching),
+      reduceTo: body.reduceTo,
+      likertOn: Array.isArray(body.likertOn) ? body.likertOn.map(String) : undefined,
+      refinements,
+    });
+
+    return NextResponse.json({
+      ...questionnaire,
+      ...(gate.entitlement.warning ? { warning: gate.entitlement.warning } : {}),
+    });
+  } catch (e: any) {
+    console.error("questionnaires/generate error:", e?.message || e);
+    return NextResponse.json(
+      {
+        error: "QUESTIONNAIRE_ERROR",
+        message: t(lang, "errors.QUESTIONNAIRE_ERROR", "Could not generate questionnaire."),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
+import { MAX_TEAM_SEATS, MIN_TEAM_SEATS, parseSeatCount } from "../../_lib/teams";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -32,6 +33,15 @@ function getPriceId(interval: Interval, currency: Currency): string {
   return id!;
 }
 
+/**
+ * Team licenses bill per seat (quantity). Use a dedicated per-seat price when one is
+ * configured (PRICE_TEAM_{MONTHLY|ANNUAL}_{CUR}); otherwise each seat costs one Pro plan.
+ */
+function getTeamPriceId(interval: Interval, currency: Currency): string {
+  const id = process.env[`PRICE_TEAM_${interval === "year" ? "ANNUAL" : "MONTHLY"}_${currency}`];
+  return id || getPriceId(interval, currency);
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({}));
@@ -48,7 +58,21 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Valid email required" }, { status: 400 });
     }
 
-    const priceId = getPriceId(interval, currency);
+    // Team license: `seats` (one subscription, quantity = seats; see _lib/teams)
+    const team = body.seats !== undefined && body.seats !== null;
+    const seats = team ? parseSeatCount(body.seats) : 1;
+    if (!seats) {
+      return NextResponse.json(
+        { error: `Invalid seats (whole number, ${MIN_TEAM_SEATS}–${MAX_TEAM_SEATS})` },
+        { status: 400 }
+      );
+    }
+    if (team && body.mode === "payment") {
+      return NextResponse.json({ error: "Team licenses are subscriptions only" }, { status: 400 });
+    }
+    const teamName = team ? String(body.teamName || "").trim().slice(0, 80) : "";
+
+    const priceId = team ? getTeamPriceId(interval, currency) : getPriceId(interval, currency);
     const domain = process.env.DOMAIN;
     if (!domain) {
       return NextResponse.json({ error: "DOMAIN env var not set" }, { status: 500 });
@@ -61,7 +85,7 @@ export async function POST(req: NextRequest) {
     // Base params shared by both modes
     const params: Stripe.Checkout.SessionCreateParams = {
       mode,
-      line_items: [{ price: priceId, quantity: 1 }],
+      line_items: [{ price: priceId, quantity: seats }],
       customer_email: email,
 
       // 🇮🇳 India export compliance: collect billing address in both modes
@@ -75,7 +99,10 @@ export async function POST(req: NextRequest) {
         app: "belief-blueprint",
         plan_interval: interval,
         plan_currency: currency,
+        ...(team ? { plan_kind: "team", team_seats: String(seats), team_name: teamName } : {}),
       },
+      // The webhook reads plan_kind off subscription events to keep the seat count in sync
+      ...(team ? { subscription_data: { metadata: { plan_kind: "team", team_name: teamName } } } : {}),
     };
 
     // Only in PAYMENT mode: explicitly tell Checkout to create/update the Customer
@@ -1,7 +1,7 @@
 // app/api/stripe/get-license-from-session/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
-import crypto from "crypto";
+import { issueLicenseKey, parseLicenseKey } from "../../_lib/license-key";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -10,11 +10,6 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2024-06-20",
 });
 
-function issueNewLicense(customerId: string) {
-  const short = crypto.randomBytes(4).toString("hex").toUpperCase(); // 8 hex chars
-  return `LIC-PRO-${customerId}-${short}`; // LIC-PRO-cus_xxx-XXXXXXXX
-}
-
 export async function GET(req: NextRequest) {
   try {
     const sessionId = req.nextUrl.searchParams.get("session_id");
@@ -39,12 +34,13 @@ export async function GET(req: NextRequest) {
     // @ts-ignore metadata typing can be undefined
     const existing: string | undefined = (customer as any).metadata?.license_key;
 
-    if (existing && existing.includes("cus_")) {
+    // Keep any key we issued for this customer (signed or legacy); gates verify it
+    if (existing && parseLicenseKey(existing)?.customerId === customerId) {
       // Return BOTH license and customerId so UI can use either path
       return NextResponse.json({ licenseKey: existing, customerId }, { status: 200 });
     }
 
-    const licenseKey = issueNewLicense(customerId);
+    const licenseKey = issueLicenseKey(customerId);
     await stripe.customers.update(customerId, {
       metadata: { license_key: licenseKey },
     });
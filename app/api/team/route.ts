@@ -0,0 +1,25 @@
+// app/api/team/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireTeamOwner, teamView } from "../_lib/teams";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET (owner's license key via ?key= / X-License-Key)
+ *   → { customerId, name, ownerEmail, seats, used, available, suspended, suspendedAt, members[], ... }
+ * Each member carries `active` and the `seatKey` to hand them; seats are bought in the
+ * billing portal (subscription quantity) and assigned via /api/team/seats.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const owner = await requireTeamOwner(req as unknown as Request);
+    if (!owner.ok) {
+      return NextResponse.json(owner.body, { status: owner.status });
+    }
+    return NextResponse.json(teamView(owner.team, { withKeys: true }), { status: 200 });
+  } catch (e: any) {
+    console.error("team error:", e?.message || e);
+    return NextResponse.json({ error: "TEAM_ERROR", message: "Could not load the team." }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+// app/api/team/seats/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  assignSeat,
+  normalizeEmail,
+  requireTeamOwner,
+  revokeSeat,
+  teamView,
+  type TeamEditResult,
+} from "../../_lib/teams";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Seat management for the team owner (owner's license key via ?key= / X-License-Key):
+ * POST   { email }            → assign a seat; returns the team plus the member's `seatKey`
+ * DELETE { email } | ?email=  → revoke; the member loses Pro on their next request
+ * Errors: 400 INVALID_EMAIL, 404 SEAT_NOT_FOUND, 409 NO_SEATS_LEFT | SEAT_TAKEN | OWNER_SEAT.
+ */
+async function handle(
+  req: NextRequest,
+  edit: (customerId: string, email: unknown) => Promise<TeamEditResult>,
+  opts: { withSeatKey?: boolean } = {}
+) {
+  try {
+    const owner = await requireTeamOwner(req as unknown as Request);
+    if (!owner.ok) {
+      return NextResponse.json(owner.body, { status: owner.status });
+    }
+    const body = await req.json().catch(() => ({}));
+    const email = body.email ?? req.nextUrl.searchParams.get("email");
+    const result = await edit(owner.team.customerId, email);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+    const view = teamView(result.team, { withKeys: true });
+    const seatKey = opts.withSeatKey
+      ? view.members.find((m) => m.email === normalizeEmail(email))?.seatKey
+      : undefined;
+    return NextResponse.json({ ...view, ...(seatKey ? { seatKey } : {}) }, { status: 200 });
+  } catch (e: any) {
+    console.error("team/seats error:", e?.message || e);
+    return NextResponse.json({ error: "TEAM_ERROR", message: "Could not update the team." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return handle(req, (customerId, email) => assignSeat(customerId, email, "owner"), { withSeatKey: true });
+}
+
+export async function DELETE(req: NextRequest) {
+  return handle(req, revokeSeat);
+}
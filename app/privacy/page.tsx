@@ -13,7 +13,7 @@ export default function PrivacyPage() {
   return (
     <main className="mx-auto max-w-3xl px-5 py-12 prose prose-slate">
       <h1>Privacy Policy</h1>
-      <p><em>Last updated: 10 Oct 2025 (IST)</em></p>
+      <p><em>Last updated: 19 Oct 2026 (IST)</em></p>
 
       <p>
         Discovering Beliefs (“we”, “us”) respects your privacy. This page explains what
@@ -48,6 +48,20 @@ export default function PrivacyPage() {
           usage counter (e.g., “5 scans/day”) using an anonymized identifier (like IP
           hash or a client-provided anon ID) to enforce quotas.
         </li>
+        <li>
+          <strong>Saved plans &amp; journal (Pro/trial, opt-in)</strong>: Action plans you
+          generate are saved with their check-ins (done/skipped, mood, notes) so you can
+          track progress. Scans, reframes and plans are added to your belief journal only
+          when a request asks for it (<code>journal: true</code>), along with any note you
+          write. Both are stored under your Stripe customer ID, open only with your license
+          key, and are never used for anything other than showing them back to you.
+        </li>
+        <li>
+          <strong>Exports (Pro/trial)</strong>: Exported files (PDF, Word, Markdown and
+          calendar) are stored encrypted and are only reachable through a signed download
+          link that expires (24 hours by default). Links are tied to the license that
+          created the export.
+        </li>
         <li>
           <strong>Support communications</strong>: If you email us, we receive the email
           address and any information you share.
@@ -73,7 +87,7 @@ export default function PrivacyPage() {
       <p>
         If you use our Custom GPT, that interaction occurs inside OpenAI’s ChatGPT product.
         The GPT may call our API endpoints to perform scans, generate reframes/action plans,
-        fetch libraries, or export a PDF. We only receive the specific fields needed to
+        fetch libraries, or export a summary. We only receive the specific fields needed to
         fulfill that request (for example, belief statements or plan text), not your full
         chat history. Your use of ChatGPT is also governed by OpenAI’s terms and privacy
         policies.
@@ -99,8 +113,11 @@ export default function PrivacyPage() {
       <h2>Data retention</h2>
       <p>
         We keep customer and billing records as required for accounting and compliance.
-        Usage counters are short-lived. Logs are retained for a reasonable period to
-        ensure reliability and security.
+        Usage counters are short-lived. Journal entries are stored encrypted, kept for 180 days
+        by default (or the retention period shown by the journal API) and deleted by a daily
+        cleanup after that. Exported files are deleted by the same daily cleanup 30 days
+        after they are created (by default). Logs are retained for a reasonable period to ensure reliability and
+        security.
       </p>
 
       <h2>Sharing</h2>
@@ -115,6 +132,11 @@ export default function PrivacyPage() {
           <strong>Access or deletion</strong>: Email{" "}
           <a href="mailto:info@anildagia.com">info@anildagia.com</a> with your request.
         </li>
+        <li>
+          <strong>Journal</strong>: Journaling is off unless you ask for it on a request.
+          You can delete a single entry or your whole journal at any time via the journal
+          API (<code>DELETE /api/journal</code>), or ask us to do it for you.
+        </li>
         <li>
           <strong>Billing &amp; cancellation</strong>: Email{" "}
           <a href="mailto:info@anildagia.com">info@anildagia.com</a> with your request.
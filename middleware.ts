@@ -22,8 +22,22 @@ const ALLOWLIST_PREFIXES = [
   "/api/admin/license", 
   "/api/admin/gifts/issue-stripe",  
   "/api/admin/gifts/revoke-stripe",    
+  "/api/admin/subscriptions",
+  "/api/admin/webhooks",
+  "/api/admin/teams",
+  "/api/admin/themes",
+  "/api/admin/exports",
+  "/api/cron/cleanup",
 ];
 
+// Signed export downloads: GET /api/exports/<uuid>?token=… (the token is the grant).
+// Only this exact shape passes; /api/exports/pdf|docx|markdown|ics stay gated.
+const EXPORT_DOWNLOAD_RE = /^\/api\/exports\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isSignedDownload(req: NextRequest, pathname: string, searchParams: URLSearchParams) {
+  return req.method === "GET" && EXPORT_DOWNLOAD_RE.test(pathname) && Boolean(searchParams.get("token")?.trim());
+}
+
 // If the path starts with any of these, middleware won’t block.
 function isAllowlisted(pathname: string) {
   return ALLOWLIST_PREFIXES.some((p) => pathname.startsWith(p));
@@ -39,7 +53,7 @@ export function middleware(req: NextRequest) {
   }
 
   // Let allowlisted endpoints pass (webhook, status, checkout helpers, etc.)
-  if (isAllowlisted(pathname)) {
+  if (isAllowlisted(pathname) || isSignedDownload(req, pathname, searchParams)) {
     return NextResponse.next();
   }
 
@@ -52,12 +66,14 @@ export function middleware(req: NextRequest) {
     return res;
   }
 
-  // Enforce: after trial expires, user must supply a license key
-  // Presence-only check here (real validation happens in the route).
+  // Enforce: after trial expires, user must supply a license key or email
+  // (email-linked licenses and email trials). Presence-only check here;
+  // real validation happens in the route via requireFeature().
   const { isActive } = trialRemainingDays(req);
   const hasLicenseMarker =
     (searchParams.get("key")?.trim() || "") ||
-    (req.headers.get("x-license-key")?.trim() || "");
+    (req.headers.get("x-license-key")?.trim() || "") ||
+    (searchParams.get("email")?.trim() || "");
 
   if (!isActive && !hasLicenseMarker) {
     return NextResponse.json(
@@ -71,7 +87,7 @@ export function middleware(req: NextRequest) {
     );
   }
 
-  // Trial active OR a license key is present → let the route handle it.
+  // Trial active OR a license key/email is present → let the route handle it.
   return res;
 }
 
@@ -8,6 +8,16 @@ const nextConfig: NextConfig = {
   poweredByHeader: false,
   compress: true,
 
+  // PDF exports read these TTFs from node_modules at runtime (see app/api/_lib/pdf-text.ts)
+  outputFileTracingIncludes: {
+    "/api/exports/**": [
+      "./node_modules/@expo-google-fonts/noto-sans/400Regular/*.ttf",
+      "./node_modules/@expo-google-fonts/noto-sans/700Bold/*.ttf",
+      "./node_modules/@expo-google-fonts/noto-sans-devanagari/400Regular/*.ttf",
+      "./node_modules/@expo-google-fonts/noto-sans-devanagari/700Bold/*.ttf",
+    ],
+  },
+
   async headers() {
     const scriptSrc = [
       "'self'",